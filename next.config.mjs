@@ -2,6 +2,8 @@
 const nextConfig = {
   experimental: {
     optimizePackageImports: ["clsx"],
+    // 服务端直接从 node_modules 加载 pdfjs-dist 的 legacy 构建，不经 webpack 打包
+    serverComponentsExternalPackages: ["pdfjs-dist"],
   },
 };
 
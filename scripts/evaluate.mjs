@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+/**
+ * 用人工标注的金标准文件评估提取效果：逐篇调用 /api/evaluate，
+ * 汇总后输出每个字段的精确率 / 召回率 / F1。
+ *
+ * 用法：
+ *   npm run evaluate -- ./gold --mode llm --out report.json
+ *   npm run evaluate -- ./gold --match source=exact --match strain=fuzzy --min-f1 0.8
+ *
+ * 金标准文件为 JSON：{ "name", "text" 或 "textFile", "entities": [...] }，
+ * textFile 为相对于该 JSON 文件的纯文本路径。配合 scripts/mock-chat-server.mjs
+ * 回放录制的模型响应，可离线重复运行。
+ */
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+const USAGE = `用法：node scripts/evaluate.mjs <金标准目录或文件> [选项]
+
+选项：
+  --url <地址>             服务地址（默认 $MICR_AI_URL 或 http://localhost:3000）
+  --token <令牌>           服务端设置了 MICR_AI_API_TOKEN 时需要（默认 $MICR_AI_API_TOKEN）
+  --mode <模式>            llm | rules | hybrid（默认 llm）
+  --template <文件>        字段模板 JSON（格式同 ExtractionTemplate）
+  --match <字段=规则>      字段的匹配规则 exact | normalized | fuzzy，可重复；
+                           default=<规则> 设置其余字段（默认 normalized，source 与 pathogenicity 为 fuzzy）
+  --fuzzy-threshold <值>   模糊匹配的相似度阈值 0-1（默认 0.5）
+  --out <文件>             写出完整报告（含每篇的预测实体）
+  --min-f1 <值>            实体或任一有数据的字段 F1 低于该值时以非零状态退出
+  -h, --help               显示帮助`;
+
+const MATCH_RULES = ["exact", "normalized", "fuzzy"];
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseCliArgs() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: "string", default: process.env.MICR_AI_URL ?? "http://localhost:3000" },
+      token: { type: "string", default: process.env.MICR_AI_API_TOKEN },
+      mode: { type: "string", default: "llm" },
+      template: { type: "string" },
+      match: { type: "string", multiple: true, default: [] },
+      "fuzzy-threshold": { type: "string" },
+      out: { type: "string" },
+      "min-f1": { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (!["llm", "rules", "hybrid"].includes(values.mode)) {
+    fail(`未知的提取模式：${values.mode}`);
+  }
+
+  const matching = { fields: {} };
+  for (const item of values.match) {
+    const [field, rule] = item.split("=").map((part) => part.trim());
+    if (!field || !MATCH_RULES.includes(rule)) {
+      fail(`匹配规则需写成 字段=exact|normalized|fuzzy：${item}`);
+    }
+    if (field === "default") matching.defaultRule = rule;
+    else matching.fields[field] = rule;
+  }
+  if (values["fuzzy-threshold"] !== undefined) {
+    const threshold = Number(values["fuzzy-threshold"]);
+    if (!(threshold >= 0 && threshold <= 1)) {
+      fail(`模糊匹配阈值需在 0-1 之间：${values["fuzzy-threshold"]}`);
+    }
+    matching.fuzzyThreshold = threshold;
+  }
+  const minF1 = values["min-f1"] === undefined ? null : Number(values["min-f1"]);
+  if (minF1 !== null && !(minF1 >= 0 && minF1 <= 1)) {
+    fail(`--min-f1 需在 0-1 之间：${values["min-f1"]}`);
+  }
+
+  return {
+    ...values,
+    input: path.resolve(positionals[0]),
+    url: values.url.replace(/\/+$/, ""),
+    matching,
+    minF1,
+  };
+}
+
+async function listGoldFiles(input) {
+  const info = await stat(input).catch(() => null);
+  if (!info) fail(`路径不存在：${input}`);
+  if (info.isFile()) return [input];
+  const entries = await readdir(input, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && /\.json$/i.test(entry.name))
+    .map((entry) => path.join(input, entry.name))
+    .sort();
+}
+
+async function loadGold(file) {
+  let gold;
+  try {
+    gold = JSON.parse(await readFile(file, "utf8"));
+  } catch {
+    throw new Error("不是合法的 JSON");
+  }
+  if (!gold.text && gold.textFile) {
+    gold.text = await readFile(path.resolve(path.dirname(file), gold.textFile), "utf8");
+  }
+  const { textFile: _textFile, ...document } = gold;
+  return { ...document, name: gold.name ?? path.basename(file, ".json") };
+}
+
+async function readError(response) {
+  const text = await response.text();
+  try {
+    return JSON.parse(text).error ?? text;
+  } catch {
+    return text;
+  }
+}
+
+async function evaluateFile(options, file) {
+  const response = await fetch(`${options.url}/api/evaluate`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+    },
+    body: JSON.stringify({
+      gold: await loadGold(file),
+      mode: options.mode,
+      template: options.templateData,
+      matching: options.matching,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${await readError(response)}`);
+  }
+  return response.json();
+}
+
+/** 各篇的计数相加后再计算（micro 平均），与 lib/evaluation 的 buildEvaluationReport 一致 */
+function summarize({ tp, fp, fn }) {
+  const precision = tp + fp ? tp / (tp + fp) : null;
+  const recall = tp + fn ? tp / (tp + fn) : null;
+  const f1 =
+    precision === null || recall === null
+      ? null
+      : precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : 0;
+  return { tp, fp, fn, precision, recall, f1 };
+}
+
+function aggregate(documents) {
+  const add = (a, b) => ({ tp: a.tp + b.tp, fp: a.fp + b.fp, fn: a.fn + b.fn });
+  const fields = new Map();
+  let entities = { tp: 0, fp: 0, fn: 0 };
+  for (const document of documents) {
+    entities = add(entities, document.entities);
+    for (const field of document.fields) {
+      const current = fields.get(field.key);
+      fields.set(field.key, current ? { ...current, ...add(current, field) } : field);
+    }
+  }
+  return {
+    entities: summarize(entities),
+    fields: Array.from(fields.values()).map((field) => ({ ...field, ...summarize(field) })),
+  };
+}
+
+function formatScore(value) {
+  return value === null ? "   -  " : value.toFixed(3).padStart(6);
+}
+
+function printTable(report) {
+  const rows = [{ label: "实体", rule: "", ...report.entities }, ...report.fields];
+  const width = Math.max(...rows.map((row) => row.label.length)) + 2;
+  console.log(
+    `\n${"字段".padEnd(width)} ${"规则".padEnd(10)}    TP    FP    FN  精确率  召回率      F1`,
+  );
+  for (const row of rows) {
+    console.log(
+      `${row.label.padEnd(width)} ${row.rule.padEnd(10)} ${String(row.tp).padStart(5)} ${String(
+        row.fp,
+      ).padStart(5)} ${String(row.fn).padStart(5)}  ${formatScore(row.precision)}  ${formatScore(
+        row.recall,
+      )}  ${formatScore(row.f1)}`,
+    );
+  }
+}
+
+async function main() {
+  const options = parseCliArgs();
+  if (options.template) {
+    try {
+      options.templateData = JSON.parse(await readFile(path.resolve(options.template), "utf8"));
+    } catch {
+      fail(`模板文件不是合法的 JSON：${options.template}`);
+    }
+  }
+
+  const files = await listGoldFiles(options.input);
+  if (!files.length) fail(`目录中没有金标准 JSON：${options.input}`);
+  console.log(`共 ${files.length} 篇金标准文献，模式 ${options.mode}`);
+
+  const documents = [];
+  const failures = [];
+  for (const [index, file] of files.entries()) {
+    const label = `[${index + 1}/${files.length}] ${path.basename(file)}`;
+    try {
+      const result = await evaluateFile(options, file);
+      documents.push(result);
+      console.log(
+        `${label} 实体 F1 ${formatScore(result.entities.f1).trim()}（TP ${result.entities.tp} / FP ${
+          result.entities.fp
+        } / FN ${result.entities.fn}）`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push({ file: path.basename(file), error: message });
+      console.error(`${label} 失败：${message}`);
+    }
+  }
+  if (!documents.length) fail("没有成功评估的文献。");
+
+  const report = aggregate(documents);
+  printTable(report);
+  if (options.out) {
+    await writeFile(
+      path.resolve(options.out),
+      JSON.stringify({ ...report, mode: options.mode, documents, failures }, null, 2),
+    );
+    console.log(`\n报告已写入 ${path.resolve(options.out)}`);
+  }
+
+  const belowThreshold =
+    options.minF1 !== null &&
+    [report.entities, ...report.fields].some((row) => row.f1 !== null && row.f1 < options.minF1);
+  if (belowThreshold) console.error(`\n存在 F1 低于 ${options.minF1} 的项目。`);
+  process.exit(failures.length || belowThreshold ? 1 : 0);
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+/**
+ * 批量提取一个目录中的 PDF：逐个调用 /api/extract，为每篇文献写出 JSON 与 CSV，
+ * 最后生成合并的 combined.json / combined.csv。
+ *
+ * 用法：
+ *   npm run build && npm start          # 先启动服务（API Key 配置在服务端环境变量中）
+ *   npm run extract -- ./papers --out ./results --mode hybrid --concurrency 2
+ *
+ * 已有 JSON 结果的文件会被跳过，中断后重新运行即可继续；使用 --force 重新提取。
+ */
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+const USAGE = `用法：node scripts/extract-folder.mjs <PDF 目录> [选项]
+
+选项：
+  --out <目录>           输出目录（默认 <PDF 目录>/micr-ai-results）
+  --url <地址>           服务地址（默认 $MICR_AI_URL 或 http://localhost:3000）
+  --token <令牌>         服务端设置了 MICR_AI_API_TOKEN 时需要（默认 $MICR_AI_API_TOKEN）
+  --mode <模式>          llm | rules | hybrid（默认 llm）
+  --template <文件>      字段模板 JSON（格式同 ExtractionTemplate）
+  --concurrency <数量>   同时处理的文件数（默认 2）
+  --strip-references     提取前去除参考文献
+  --recursive            包含子目录
+  --force                忽略已有结果，全部重新提取
+  -h, --help             显示帮助`;
+
+const MAX_ATTEMPTS = 3;
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseCliArgs() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string" },
+      url: { type: "string", default: process.env.MICR_AI_URL ?? "http://localhost:3000" },
+      token: { type: "string", default: process.env.MICR_AI_API_TOKEN },
+      mode: { type: "string", default: "llm" },
+      template: { type: "string" },
+      concurrency: { type: "string", default: "2" },
+      "strip-references": { type: "boolean", default: false },
+      recursive: { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (!["llm", "rules", "hybrid"].includes(values.mode)) {
+    fail(`未知的提取模式：${values.mode}`);
+  }
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    fail(`并发数需为正整数：${values.concurrency}`);
+  }
+
+  const inputDir = path.resolve(positionals[0]);
+  return {
+    ...values,
+    inputDir,
+    outDir: path.resolve(values.out ?? path.join(inputDir, "micr-ai-results")),
+    url: values.url.replace(/\/+$/, ""),
+    concurrency,
+  };
+}
+
+async function listPdfFiles(dir, recursive) {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && recursive) {
+      files.push(...(await listPdfFiles(fullPath, recursive)));
+    } else if (entry.isFile() && /\.pdf$/i.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/** 子目录中的文件以相对路径命名输出，避免同名文件互相覆盖 */
+function outputBase(options, file) {
+  const relative = path.relative(options.inputDir, file).replace(/\.pdf$/i, "");
+  return path.join(options.outDir, relative.split(path.sep).join("__"));
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function postJson(options, pathname, body) {
+  return fetch(`${options.url}${pathname}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function readError(response) {
+  const text = await response.text();
+  try {
+    return JSON.parse(text).error ?? text;
+  } catch {
+    return text;
+  }
+}
+
+async function extractFile(options, file) {
+  const form = new FormData();
+  form.set("file", new Blob([await readFile(file)], { type: "application/pdf" }), path.basename(file));
+  form.set("mode", options.mode);
+  if (options["strip-references"]) form.set("stripReferences", "true");
+  if (options.templateJson) form.set("template", options.templateJson);
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(`${options.url}/api/extract`, {
+      method: "POST",
+      headers: options.token ? { Authorization: `Bearer ${options.token}` } : undefined,
+      body: form,
+    });
+    if (response.ok) return response.json();
+
+    const message = await readError(response);
+    // 服务端在重试用尽后仍失败（限流、网关错误）时，整篇再试几次
+    const retryable = response.status === 429 || response.status >= 502;
+    if (!retryable || attempt >= MAX_ATTEMPTS) {
+      throw new Error(`${response.status} ${message}`);
+    }
+    console.warn(`  ${path.basename(file)} 第 ${attempt} 次失败（${response.status}），稍后重试`);
+    await sleep(5000 * attempt);
+  }
+}
+
+async function toCsv(options, records, merged) {
+  const response = await postJson(options, "/api/export", { records, merged });
+  if (!response.ok) {
+    throw new Error(`导出 CSV 失败：${response.status} ${await readError(response)}`);
+  }
+  return response.text();
+}
+
+async function processFile(options, file, index, total) {
+  const base = outputBase(options, file);
+  const label = `[${index + 1}/${total}] ${path.relative(options.inputDir, file)}`;
+
+  if (!options.force) {
+    const existing = await readFile(`${base}.json`, "utf8").catch(() => null);
+    if (existing) {
+      console.log(`${label} 已有结果，跳过`);
+      return JSON.parse(existing);
+    }
+  }
+
+  const startedAt = Date.now();
+  const record = await extractFile(options, file);
+  await mkdir(path.dirname(base), { recursive: true });
+  await writeFile(`${base}.json`, JSON.stringify(record, null, 2));
+  await writeFile(`${base}.csv`, await toCsv(options, [record], false));
+  console.log(
+    `${label} 完成：${record.summary.organismCount} 个实体，用时 ${(
+      (Date.now() - startedAt) /
+      1000
+    ).toFixed(1)} 秒`,
+  );
+  return record;
+}
+
+async function main() {
+  const options = parseCliArgs();
+  if (!(await stat(options.inputDir).catch(() => null))?.isDirectory()) {
+    fail(`目录不存在：${options.inputDir}`);
+  }
+  if (options.template) {
+    const templateJson = await readFile(path.resolve(options.template), "utf8");
+    try {
+      JSON.parse(templateJson);
+    } catch {
+      fail(`模板文件不是合法的 JSON：${options.template}`);
+    }
+    options.templateJson = templateJson;
+  }
+
+  const files = await listPdfFiles(options.inputDir, options.recursive);
+  if (!files.length) fail(`目录中没有 PDF：${options.inputDir}`);
+  await mkdir(options.outDir, { recursive: true });
+  console.log(`共 ${files.length} 个 PDF，输出到 ${options.outDir}`);
+
+  const records = new Array(files.length).fill(null);
+  const failures = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length) {
+      const index = next++;
+      try {
+        records[index] = await processFile(options, files[index], index, files.length);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push({ file: path.relative(options.inputDir, files[index]), error: message });
+        console.error(`[${index + 1}/${files.length}] ${files[index]} 失败：${message}`);
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(options.concurrency, files.length) }, worker),
+  );
+
+  const completed = records.filter(Boolean);
+  if (completed.length) {
+    await writeFile(
+      path.join(options.outDir, "combined.json"),
+      JSON.stringify(completed, null, 2),
+    );
+    await writeFile(
+      path.join(options.outDir, "combined.csv"),
+      await toCsv(options, completed, true),
+    );
+  }
+  if (failures.length) {
+    await writeFile(
+      path.join(options.outDir, "failures.json"),
+      JSON.stringify(failures, null, 2),
+    );
+  }
+
+  console.log(
+    `完成：成功 ${completed.length} 个，失败 ${failures.length} 个${
+      failures.length ? "（详见 failures.json，重新运行即可只处理失败的文件）" : ""
+    }`,
+  );
+  process.exit(failures.length ? 1 : 0);
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+/**
+ * 本地的 OpenAI 兼容 chat/completions 服务，用录制的响应回放，让评估可以离线重复运行。
+ * 录制文件以 model + messages 的 SHA-256 为键；提供 --upstream 时，未命中的请求转发到
+ * 真实接口并写入录制文件，否则返回 404（不会被重试）。
+ *
+ * 用法：
+ *   npm run mock-llm -- --recordings ./gold/recordings.json \
+ *     --upstream https://openrouter.ai/api/v1 --api-key $OPENROUTER_API_KEY   # 录制
+ *   npm run mock-llm -- --recordings ./gold/recordings.json                   # 回放
+ *
+ * 服务端使用：MICR_AI_PROVIDER=openai-compatible MICR_AI_BASE_URL=http://localhost:4010/v1
+ */
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+const USAGE = `用法：node scripts/mock-chat-server.mjs --recordings <文件> [选项]
+
+选项：
+  --recordings <文件>    录制文件（JSON），不存在时自动创建
+  --port <端口>          监听端口（默认 4010）
+  --upstream <地址>      未命中时转发的 OpenAI 兼容接口，如 https://openrouter.ai/api/v1
+  --api-key <密钥>       转发时使用的 API Key（默认 $MICR_AI_API_KEY）
+  -h, --help             显示帮助`;
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseCliArgs() {
+  const { values } = parseArgs({
+    options: {
+      recordings: { type: "string" },
+      port: { type: "string", default: "4010" },
+      upstream: { type: "string" },
+      "api-key": { type: "string", default: process.env.MICR_AI_API_KEY },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || !values.recordings) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    fail(`端口无效：${values.port}`);
+  }
+  return {
+    ...values,
+    recordings: path.resolve(values.recordings),
+    upstream: values.upstream?.replace(/\/+$/, ""),
+    port,
+  };
+}
+
+function recordingKey(body) {
+  return createHash("sha256")
+    .update(JSON.stringify({ model: body.model, messages: body.messages }))
+    .digest("hex");
+}
+
+async function readBody(request) {
+  const chunks = [];
+  for await (const chunk of request) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+async function main() {
+  const options = parseCliArgs();
+  const recordings = JSON.parse(
+    await readFile(options.recordings, "utf8").catch(() => "{}"),
+  );
+  const stats = { hits: 0, recorded: 0, misses: 0 };
+  // 并发录制时依次写文件，避免互相覆盖
+  let saving = Promise.resolve();
+  const save = () => {
+    saving = saving.then(() =>
+      writeFile(options.recordings, JSON.stringify(recordings, null, 2)),
+    );
+    return saving;
+  };
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (request.method !== "POST" || !/\/chat\/completions$/.test(url.pathname)) {
+      sendJson(response, 404, { error: { message: `未知的接口：${request.method} ${url.pathname}` } });
+      return;
+    }
+
+    let body;
+    try {
+      body = JSON.parse(await readBody(request));
+    } catch {
+      sendJson(response, 400, { error: { message: "请求体不是合法的 JSON。" } });
+      return;
+    }
+    const key = recordingKey(body);
+    if (recordings[key]) {
+      stats.hits += 1;
+      sendJson(response, 200, recordings[key].response);
+      return;
+    }
+    if (!options.upstream) {
+      stats.misses += 1;
+      console.warn(`未录制的请求 ${key.slice(0, 12)}（${body.model}）`);
+      sendJson(response, 404, {
+        error: { message: `没有录制的响应：${key}，请使用 --upstream 重新录制。` },
+      });
+      return;
+    }
+
+    try {
+      const upstream = await fetch(`${options.upstream}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options["api-key"] ? { Authorization: `Bearer ${options["api-key"]}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+      const text = await upstream.text();
+      if (upstream.ok) {
+        recordings[key] = {
+          model: body.model,
+          recordedAt: new Date().toISOString(),
+          response: JSON.parse(text),
+        };
+        stats.recorded += 1;
+        await save();
+      }
+      response.writeHead(upstream.status, { "Content-Type": "application/json" });
+      response.end(text);
+    } catch (error) {
+      sendJson(response, 502, {
+        error: { message: `转发失败：${error instanceof Error ? error.message : String(error)}` },
+      });
+    }
+  });
+
+  server.listen(options.port, () => {
+    console.log(
+      `模拟模型服务：http://localhost:${options.port}/v1，已有 ${
+        Object.keys(recordings).length
+      } 条录制${options.upstream ? `，未命中时转发到 ${options.upstream}` : "，仅回放"}`,
+    );
+  });
+  process.on("SIGINT", () => {
+    console.log(
+      `\n命中 ${stats.hits} 次，新录制 ${stats.recorded} 条，未命中 ${stats.misses} 次`,
+    );
+    saving.finally(() => process.exit(0));
+  });
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  BadRequestError,
+  errorResponse,
+  missingProviderResponse,
+  parseRequest,
+  readJsonBody,
+  templateSchema,
+  unauthorizedResponse,
+} from "@/lib/api-request";
+import { MIN_CHUNK_TOKEN_BUDGET } from "@/lib/chunking";
+import {
+  DEFAULT_MATCHING,
+  evaluateDocument,
+  goldDocumentSchema,
+  goldToEntities,
+} from "@/lib/evaluation";
+import { runExtraction } from "@/lib/extraction";
+import { DEFAULT_TEMPLATE, validateFieldDefinitions } from "@/lib/fields";
+import { getServerProvider, isAuthorizedRequest } from "@/lib/server-extraction";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const matchRuleSchema = z.enum(["exact", "normalized", "fuzzy"]);
+
+const evaluateSchema = z.object({
+  gold: goldDocumentSchema,
+  mode: z.enum(["llm", "rules", "hybrid"]).default("llm"),
+  template: templateSchema.optional(),
+  maxChunkTokens: z.number().int().min(MIN_CHUNK_TOKEN_BUDGET).optional(),
+  matching: z
+    .object({
+      defaultRule: matchRuleSchema.optional(),
+      fields: z.record(matchRuleSchema).optional(),
+      fuzzyThreshold: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * POST /api/evaluate：用金标准文件的全文跑一次提取流程，返回逐字段的
+ * 精确率 / 召回率 / F1 以及预测的实体。每次只评估一篇，汇总由调用方完成，
+ * 见 scripts/evaluate.mjs。
+ */
+export async function POST(request: Request) {
+  if (!isAuthorizedRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const input = parseRequest(evaluateSchema, await readJsonBody(request));
+    const template = input.template ?? DEFAULT_TEMPLATE;
+    const fieldError = validateFieldDefinitions(template.fields);
+    if (fieldError) throw new BadRequestError(fieldError);
+
+    const provider = input.mode === "rules" ? null : getServerProvider();
+    if (input.mode !== "rules" && !provider) {
+      return missingProviderResponse();
+    }
+
+    const { entities, chunkCount, usage } = await runExtraction({
+      mode: input.mode,
+      text: input.gold.text,
+      provider,
+      template,
+      maxChunkTokens: input.maxChunkTokens,
+      signal: request.signal,
+    });
+    const evaluation = evaluateDocument(
+      input.gold.name ?? "gold",
+      goldToEntities(input.gold, template.fields),
+      entities,
+      {
+        defaultRule: input.matching?.defaultRule ?? DEFAULT_MATCHING.defaultRule,
+        fields: { ...DEFAULT_MATCHING.fields, ...input.matching?.fields },
+        fuzzyThreshold: input.matching?.fuzzyThreshold ?? DEFAULT_MATCHING.fuzzyThreshold,
+      },
+      template.fields,
+    );
+    return NextResponse.json({ ...evaluation, chunkCount, usage, predicted: entities });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { unauthorizedResponse } from "@/lib/api-request";
+import { recordsToCsv, recordToCsv } from "@/lib/download";
+import { isAuthorizedRequest } from "@/lib/server-extraction";
+import type { ExtractionRecord } from "@/types/extraction";
+
+export const runtime = "nodejs";
+
+const text = z.string().nullable().optional();
+const customFieldScalar = z.union([z.string(), z.number(), z.boolean()]);
+
+/** 只校验生成 CSV 时会读取的字段，其余字段原样保留 */
+const exportEntitySchema = z
+  .object({
+    id: z.string().min(1),
+    genus: text,
+    species: text,
+    subspecies: text,
+    serovar: text,
+    strain: text,
+    mlst_st: text,
+    taxonomy_id: text,
+    source: text,
+    pathogenicity: text,
+    context: text,
+    resistance: z.array(z.string()).default([]),
+    resistanceEntries: z
+      .array(
+        z
+          .object({
+            kind: z.enum(["gene", "mutation", "phenotype"]),
+            determinant: text,
+            antibiotic: text,
+            drugClass: text,
+            call: z.enum(["S", "I", "R"]).nullable().optional(),
+            mic: z
+              .object({ value: z.number(), unit: z.string() })
+              .passthrough()
+              .nullable()
+              .optional(),
+            text: z.string(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+    confidence: z.number().nullable().optional(),
+    taxonomy: z.object({ status: z.string() }).passthrough().nullable().optional(),
+    verified: z.boolean().optional(),
+    customFields: z
+      .record(z.union([customFieldScalar, z.array(customFieldScalar)]).nullable())
+      .optional(),
+  })
+  .passthrough();
+
+const exportSchema = z.object({
+  records: z
+    .array(
+      z
+        .object({
+          fileName: z.string(),
+          processedAt: z.string(),
+          entities: z.array(exportEntitySchema),
+          fieldDefinitions: z
+            .array(
+              z
+                .object({
+                  key: z.string().min(1),
+                  label: z.string(),
+                  type: z.enum(["string", "number", "integer", "boolean", "date"]),
+                  array: z.boolean(),
+                })
+                .passthrough(),
+            )
+            .optional(),
+        })
+        .passthrough(),
+    )
+    .min(1, "records 不能为空"),
+  /** 单条记录时默认输出实体表；merged 时每行带来源文件名 */
+  merged: z.boolean().optional(),
+});
+
+/**
+ * POST /api/export：把 /api/extract 返回的记录转换为 CSV，
+ * 列与浏览器中的“导出 CSV”一致，供命令行批处理写出表格。
+ */
+export async function POST(request: Request) {
+  if (!isAuthorizedRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  const parsed = exportSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: parsed.error.issues
+          .map((issue) =>
+            issue.path.length > 1 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+          )
+          .join("；"),
+      },
+      { status: 400 },
+    );
+  }
+
+  const records = parsed.data.records as unknown as ExtractionRecord[];
+  const csv =
+    records.length === 1 && !parsed.data.merged
+      ? recordToCsv(records[0])
+      : recordsToCsv(records);
+  return new NextResponse(csv, {
+    headers: { "Content-Type": "text/csv;charset=utf-8" },
+  });
+}
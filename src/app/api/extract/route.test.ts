@@ -0,0 +1,47 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/extract/route";
+
+const EMPTY_SHA256 = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+/** 单页、只含一行文字的最小 PDF，xref 偏移按实际字节计算 */
+function buildPdf(text: string) {
+  const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let body = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = body.length;
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`;
+  body += `startxref\n${xrefOffset}\n%%EOF\n`;
+  return new TextEncoder().encode(body);
+}
+
+describe("POST /api/extract", () => {
+  it("hashes the uploaded PDF before pdf.js takes over its buffer", async () => {
+    const pdf = buildPdf("Klebsiella pneumoniae ST258 was isolated from blood.");
+    const form = new FormData();
+    form.set("file", new File([pdf], "paper.pdf", { type: "application/pdf" }));
+    form.set("mode", "rules");
+
+    const response = await POST(
+      new Request("http://localhost/api/extract", { method: "POST", body: form }),
+    );
+    const record = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(record.contentHash).not.toBe(EMPTY_SHA256);
+    expect(record.contentHash).toBe(createHash("sha256").update(pdf).digest("hex"));
+  });
+});
@@ -0,0 +1,167 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  BadRequestError,
+  errorResponse,
+  missingProviderResponse,
+  parseRequest,
+  readJsonBody,
+  templateSchema,
+  unauthorizedResponse,
+} from "@/lib/api-request";
+import { MIN_CHUNK_TOKEN_BUDGET } from "@/lib/chunking";
+import { DEFAULT_TEMPLATE, validateFieldDefinitions } from "@/lib/fields";
+import { sha256Hex } from "@/lib/duplicates";
+import { isAbortError } from "@/lib/job-queue";
+import type { PdfContent } from "@/lib/pdf-layout";
+import { extractPdfContentFromBuffer } from "@/lib/pdf-server";
+import {
+  extractRecordOnServer,
+  getServerProvider,
+  isAuthorizedRequest,
+} from "@/lib/server-extraction";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+/** 表单字段都是字符串，先转换再交给 zod 校验 */
+const optionsSchema = z.object({
+  mode: z.enum(["llm", "rules", "hybrid"]).default("llm"),
+  fileName: z.string().trim().min(1).optional(),
+  stripReferences: z.preprocess(
+    (value) => value === true || value === "true" || value === "1",
+    z.boolean(),
+  ),
+  maxChunkTokens: z.preprocess(
+    (value) => (value === undefined || value === "" ? undefined : Number(value)),
+    z.number().int().min(MIN_CHUNK_TOKEN_BUDGET).optional(),
+  ),
+  template: z.preprocess(
+    (value) => (typeof value === "string" && value.trim() ? JSON.parse(value) : value),
+    templateSchema.optional(),
+  ),
+});
+
+const jsonBodySchema = optionsSchema.extend({
+  text: z.string().min(1, "text 不能为空"),
+});
+
+type ExtractionInput = z.infer<typeof optionsSchema> & {
+  text: string;
+  fileName: string;
+  fileSize: number;
+  /** 仅上传 PDF 时提供 */
+  pdfMetadata?: PdfContent["metadata"];
+  contentHash?: string;
+};
+
+/**
+ * 支持两种请求：
+ * - multipart/form-data：`file`（PDF）或 `text`，其余选项作为表单字段；
+ * - application/json：`{ "text": "...", "mode": "rules", ... }`。
+ */
+async function readExtractionInput(
+  request: Request,
+  signal: AbortSignal,
+): Promise<ExtractionInput> {
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("file");
+    const fields = Object.fromEntries(
+      Array.from(form.entries()).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string",
+      ),
+    );
+    const options = parseRequest(optionsSchema, fields);
+
+    if (file instanceof File) {
+      if (file.size > MAX_FILE_SIZE) {
+        throw new BadRequestError("文件超过 20MB 限制。", 413);
+      }
+      const data = new Uint8Array(await file.arrayBuffer());
+      // pdf.js 会转移（清空）传入的缓冲区，必须在解析前计算哈希
+      const contentHash = await sha256Hex(data);
+      let content: PdfContent;
+      try {
+        content = await extractPdfContentFromBuffer(data, {
+          signal,
+          stripReferences: options.stripReferences,
+        });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new BadRequestError(
+          `无法解析 PDF：${error instanceof Error ? error.message : String(error)}`,
+          422,
+        );
+      }
+      return {
+        ...options,
+        text: content.text,
+        pdfMetadata: content.metadata,
+        contentHash,
+        fileName: options.fileName ?? file.name,
+        fileSize: file.size,
+      };
+    }
+
+    if (!fields.text?.trim()) {
+      throw new BadRequestError("请上传 file（PDF）或提供 text 字段。");
+    }
+    return {
+      ...options,
+      text: fields.text,
+      fileName: options.fileName ?? "text.txt",
+      fileSize: fields.text.length,
+    };
+  }
+
+  const body = await readJsonBody(request, "请求体需为 JSON 或 multipart/form-data。");
+  const input = parseRequest(jsonBodySchema, body);
+  return {
+    ...input,
+    fileName: input.fileName ?? "text.txt",
+    fileSize: input.text.length,
+  };
+}
+
+/**
+ * POST /api/extract：服务端解析 PDF 并提取实体，返回 ExtractionRecord。
+ * 模型服务与 API Key 由服务端环境变量配置，见 lib/server-extraction。
+ */
+export async function POST(request: Request) {
+  if (!isAuthorizedRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const input = await readExtractionInput(request, request.signal);
+    const template = input.template ?? DEFAULT_TEMPLATE;
+    const fieldError = validateFieldDefinitions(template.fields);
+    if (fieldError) throw new BadRequestError(fieldError);
+
+    const provider = input.mode === "rules" ? null : getServerProvider();
+    if (input.mode !== "rules" && !provider) {
+      return missingProviderResponse();
+    }
+
+    const record = await extractRecordOnServer({
+      fileName: input.fileName,
+      fileSize: input.fileSize,
+      text: input.text,
+      mode: input.mode,
+      provider,
+      template,
+      maxChunkTokens: input.maxChunkTokens,
+      signal: request.signal,
+      pdfMetadata: input.pdfMetadata,
+      contentHash: input.contentHash,
+    });
+    return NextResponse.json(record);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,478 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import { clsx } from "clsx";
+import {
+  countRows,
+  matrixRows,
+  publicationYearTrend,
+  resistanceMatrix,
+  sequenceTypesBySpecies,
+  sourceDistribution,
+  speciesFrequency,
+  yearRows,
+} from "@/lib/analytics";
+import type { CountDatum, MatrixCell, MatrixData, YearDatum } from "@/lib/analytics";
+import { downloadChartCsv, downloadChartPng, downloadChartSvg } from "@/lib/download";
+import type { CellValue } from "@/lib/xlsx";
+import type { ExtractionRecord } from "@/types/extraction";
+
+/** 导出的 SVG 不依赖页面样式，颜色与字体都直接写在属性里 */
+const FONT_FAMILY =
+  "system-ui, -apple-system, 'PingFang SC', 'Microsoft YaHei', sans-serif";
+const TEXT_COLOR = "#334155";
+const MUTED_COLOR = "#94a3b8";
+const GRID_COLOR = "#e2e8f0";
+const PRIMARY_COLOR = "#198cf2";
+const ACCENT_COLOR = "#5cb85c";
+const EMPTY_CELL = "#f8fafc";
+
+const MAX_BARS = 20;
+
+type Scope = "all" | "selected";
+
+type AnalyticsDashboardProps = {
+  records: ExtractionRecord[];
+  /** “文献”视图中勾选的记录 */
+  selectedIds: Set<string>;
+};
+
+export function AnalyticsDashboard({ records, selectedIds }: AnalyticsDashboardProps) {
+  const [scope, setScope] = useState<Scope>("all");
+  const selectedRecords = useMemo(
+    () => records.filter((record) => selectedIds.has(record.id)),
+    [records, selectedIds],
+  );
+  const activeScope: Scope = scope === "selected" && selectedRecords.length ? "selected" : "all";
+  const scoped = activeScope === "selected" ? selectedRecords : records;
+
+  const species = useMemo(() => speciesFrequency(scoped), [scoped]);
+  const resistance = useMemo(() => resistanceMatrix(scoped), [scoped]);
+  const sources = useMemo(() => sourceDistribution(scoped), [scoped]);
+  const sequenceTypes = useMemo(() => sequenceTypesBySpecies(scoped), [scoped]);
+  const years = useMemo(() => publicationYearTrend(scoped), [scoped]);
+  const entityCount = scoped.reduce((acc, record) => acc + record.entities.length, 0);
+
+  const scopes: { value: Scope; label: string; disabled?: boolean }[] = [
+    { value: "all", label: `全部记录（${records.length}）` },
+    {
+      value: "selected",
+      label: `已选记录（${selectedRecords.length}）`,
+      disabled: !selectedRecords.length,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        {scopes.map((item) => (
+          <button
+            key={item.value}
+            type="button"
+            disabled={item.disabled}
+            onClick={() => setScope(item.value)}
+            className={clsx(
+              "rounded-full border px-3 py-1 transition disabled:opacity-40",
+              item.value === activeScope
+                ? "border-primary-200 bg-primary-50 text-primary-700"
+                : "border-slate-200 text-slate-600 hover:border-primary-200",
+            )}
+          >
+            {item.label}
+          </button>
+        ))}
+        <span className="text-slate-500">
+          共 {scoped.length} 篇文献、{entityCount} 个实体。在“文献”视图的历史记录中勾选即可只统计部分记录。
+        </span>
+      </div>
+
+      <div className="grid gap-6 xl:grid-cols-2">
+        <ChartCard
+          title="物种频次"
+          description={`实体数最多的 ${Math.min(species.length, MAX_BARS)} 个物种，括号内为涉及的文献数。`}
+          name="species-frequency"
+          csvRows={() => countRows("species", species)}
+          isEmpty={!species.length}
+        >
+          <BarChart data={species.slice(0, MAX_BARS)} color={PRIMARY_COLOR} italic />
+        </ChartCard>
+
+        <ChartCard
+          title="分离来源分布"
+          description="按来源原文去重统计，较少的来源合并为“其他”。"
+          name="isolation-sources"
+          csvRows={() => countRows("source", sources)}
+          isEmpty={!sources.length}
+        >
+          <BarChart data={sources} color={ACCENT_COLOR} />
+        </ChartCard>
+      </div>
+
+      <ChartCard
+        title="物种 × 抗生素耐药矩阵"
+        description="单元格为“耐药实体数 / 有该药物信息的实体数”，颜色越深耐药比例越高。耐药基因与突变计为耐药，表型按 S/I/R 判读。"
+        name="resistance-matrix"
+        csvRows={() =>
+          matrixRows("species", resistance, (cell) =>
+            cell.total ? `${cell.value}/${cell.total}` : "",
+          )
+        }
+        isEmpty={!resistance.rows.length}
+      >
+        <Heatmap
+          matrix={resistance}
+          color={[220, 38, 38]}
+          intensity={(cell) => (cell.total ? cell.value / cell.total : null)}
+          format={(cell) => (cell.total ? `${cell.value}/${cell.total}` : "")}
+        />
+      </ChartCard>
+
+      <div className="grid gap-6 xl:grid-cols-2">
+        <ChartCard
+          title="各物种的 ST 分布"
+          description="单元格为该物种中对应 ST 的实体数。"
+          name="st-by-species"
+          csvRows={() => matrixRows("species", sequenceTypes)}
+          isEmpty={!sequenceTypes.rows.length}
+        >
+          <Heatmap
+            matrix={sequenceTypes}
+            color={[13, 111, 210]}
+            intensity={(cell, max) => (cell.value ? cell.value / max : null)}
+            format={(cell) => (cell.value ? String(cell.value) : "")}
+          />
+        </ChartCard>
+
+        <ChartCard
+          title="发表年份趋势"
+          description={`按年份统计文献数，年份由原文开头或文件名推断${
+            years.unknown ? `，${years.unknown} 篇未能识别年份` : ""
+          }。`}
+          name="publication-years"
+          csvRows={() => yearRows(years.data)}
+          isEmpty={!years.data.length}
+        >
+          <YearChart data={years.data} />
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
+
+type ChartCardProps = {
+  title: string;
+  description: string;
+  /** 导出文件名 */
+  name: string;
+  csvRows: () => CellValue[][];
+  isEmpty: boolean;
+  children: ReactNode;
+};
+
+function ChartCard({ title, description, name, csvRows, isEmpty, children }: ChartCardProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const svg = () => containerRef.current?.querySelector("svg") ?? null;
+
+  const exportPng = async () => {
+    const element = svg();
+    if (!element) return;
+    try {
+      setError(null);
+      await downloadChartPng(element, name);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    }
+  };
+
+  const exportButton =
+    "rounded-full border border-slate-200 px-3 py-1 font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600 disabled:opacity-40";
+
+  return (
+    <section className="flex flex-col gap-3 rounded-2xl border border-slate-200 bg-white/90 p-5 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          <h3 className="text-sm font-semibold text-slate-800">{title}</h3>
+          <p className="mt-1 text-xs text-slate-500">{description}</p>
+        </div>
+        <div className="flex gap-2 text-xs">
+          <button
+            type="button"
+            disabled={isEmpty}
+            onClick={() => {
+              const element = svg();
+              if (element) downloadChartSvg(element, name);
+            }}
+            className={exportButton}
+          >
+            SVG
+          </button>
+          <button type="button" disabled={isEmpty} onClick={exportPng} className={exportButton}>
+            PNG
+          </button>
+          <button
+            type="button"
+            disabled={isEmpty}
+            onClick={() => downloadChartCsv(csvRows(), name)}
+            className={exportButton}
+          >
+            CSV
+          </button>
+        </div>
+      </div>
+      {error && <p className="rounded-lg bg-red-50 px-3 py-2 text-xs text-red-600">{error}</p>}
+      {isEmpty ? (
+        <div className="rounded-xl border border-dashed border-slate-200 bg-slate-50/60 p-6 text-center text-xs text-slate-500">
+          暂无可统计的数据。
+        </div>
+      ) : (
+        <div ref={containerRef} className="overflow-x-auto scrollbar-thin">
+          {children}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function truncate(label: string, length: number) {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label;
+}
+
+type BarChartProps = {
+  data: CountDatum[];
+  color: string;
+  /** 物种名以斜体显示 */
+  italic?: boolean;
+};
+
+function BarChart({ data, color, italic }: BarChartProps) {
+  const labelWidth = 170;
+  const barArea = 300;
+  const rowHeight = 22;
+  const width = labelWidth + barArea + 70;
+  const height = data.length * rowHeight + 8;
+  const max = Math.max(...data.map((item) => item.count), 1);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      fontFamily={FONT_FAMILY}
+      fontSize={11}
+    >
+      {data.map((item, index) => {
+        const y = index * rowHeight + 4;
+        const barWidth = Math.max((item.count / max) * barArea, 1);
+        return (
+          <g key={item.label}>
+            <title>{`${item.label}：${item.count} 个实体，${item.records} 篇文献`}</title>
+            <text
+              x={labelWidth - 8}
+              y={y + rowHeight / 2}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fill={TEXT_COLOR}
+              fontStyle={italic ? "italic" : undefined}
+            >
+              {truncate(item.label, 26)}
+            </text>
+            <rect
+              x={labelWidth}
+              y={y + 3}
+              width={barWidth}
+              height={rowHeight - 6}
+              rx={3}
+              fill={color}
+            />
+            <text
+              x={labelWidth + barWidth + 6}
+              y={y + rowHeight / 2}
+              dominantBaseline="middle"
+              fill={TEXT_COLOR}
+            >
+              {item.count}（{item.records}）
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+type HeatmapProps = {
+  matrix: MatrixData;
+  /** 最深一档的 RGB 颜色 */
+  color: [number, number, number];
+  /** 返回 0-1 的着色强度，null 表示无数据 */
+  intensity: (cell: MatrixCell, max: number) => number | null;
+  format: (cell: MatrixCell) => string;
+};
+
+function mixColor([r, g, b]: [number, number, number], ratio: number) {
+  // 从浅灰过渡到目标色，保留最低的可见度
+  const t = 0.15 + 0.85 * Math.min(Math.max(ratio, 0), 1);
+  const mix = (channel: number, base: number) => Math.round(base + (channel - base) * t);
+  return `rgb(${mix(r, 241)}, ${mix(g, 245)}, ${mix(b, 249)})`;
+}
+
+function Heatmap({ matrix, color, intensity, format }: HeatmapProps) {
+  const labelWidth = 170;
+  const headerHeight = 90;
+  const cellWidth = 44;
+  const cellHeight = 24;
+  const width = labelWidth + matrix.columns.length * cellWidth + 8;
+  const height = headerHeight + matrix.rows.length * cellHeight + 8;
+  const max = Math.max(...matrix.cells.flat().map((cell) => cell.value), 1);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      fontFamily={FONT_FAMILY}
+      fontSize={10}
+    >
+      {matrix.columns.map((column, columnIndex) => {
+        const x = labelWidth + columnIndex * cellWidth + cellWidth / 2;
+        return (
+          <text
+            key={column}
+            x={x}
+            y={headerHeight - 6}
+            transform={`rotate(-45 ${x} ${headerHeight - 6})`}
+            fill={TEXT_COLOR}
+          >
+            <title>{column}</title>
+            {truncate(column, 18)}
+          </text>
+        );
+      })}
+      {matrix.rows.map((row, rowIndex) => {
+        const y = headerHeight + rowIndex * cellHeight;
+        return (
+          <g key={row}>
+            <text
+              x={labelWidth - 8}
+              y={y + cellHeight / 2}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fill={TEXT_COLOR}
+              fontStyle="italic"
+            >
+              <title>{row}</title>
+              {truncate(row, 26)}
+            </text>
+            {matrix.cells[rowIndex].map((cell, columnIndex) => {
+              const value = intensity(cell, max);
+              const label = format(cell);
+              const x = labelWidth + columnIndex * cellWidth;
+              return (
+                <g key={matrix.columns[columnIndex]}>
+                  <title>{`${row} · ${matrix.columns[columnIndex]}：${label || "无数据"}`}</title>
+                  <rect
+                    x={x + 1}
+                    y={y + 1}
+                    width={cellWidth - 2}
+                    height={cellHeight - 2}
+                    rx={2}
+                    fill={value == null ? EMPTY_CELL : mixColor(color, value)}
+                    stroke={GRID_COLOR}
+                    strokeWidth={0.5}
+                  />
+                  {label && (
+                    <text
+                      x={x + cellWidth / 2}
+                      y={y + cellHeight / 2}
+                      textAnchor="middle"
+                      dominantBaseline="middle"
+                      fill={value != null && value > 0.6 ? "#ffffff" : TEXT_COLOR}
+                    >
+                      {label}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+type YearChartProps = {
+  data: YearDatum[];
+};
+
+function YearChart({ data }: YearChartProps) {
+  const axisWidth = 32;
+  const chartHeight = 180;
+  const footer = 36;
+  const columnWidth = Math.max(Math.min(480 / data.length, 40), 18);
+  const width = axisWidth + data.length * columnWidth + 8;
+  const height = chartHeight + footer;
+  const max = Math.max(...data.map((item) => item.records), 1);
+  const ticks = Array.from(new Set([0, Math.round(max / 2), max]));
+  // 年份较多时隔几年标注一次
+  const labelEvery = Math.ceil(data.length / 12);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      fontFamily={FONT_FAMILY}
+      fontSize={10}
+    >
+      {ticks.map((tick) => {
+        const y = 8 + (chartHeight - 8) * (1 - tick / max);
+        return (
+          <g key={tick}>
+            <line x1={axisWidth} x2={width} y1={y} y2={y} stroke={GRID_COLOR} />
+            <text
+              x={axisWidth - 6}
+              y={y}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fill={MUTED_COLOR}
+            >
+              {tick}
+            </text>
+          </g>
+        );
+      })}
+      {data.map((item, index) => {
+        const barHeight = ((chartHeight - 8) * item.records) / max;
+        const x = axisWidth + index * columnWidth;
+        return (
+          <g key={item.year}>
+            <title>{`${item.year}：${item.records} 篇文献，${item.entities} 个实体`}</title>
+            <rect
+              x={x + 3}
+              y={chartHeight - barHeight}
+              width={columnWidth - 6}
+              height={barHeight}
+              rx={2}
+              fill={PRIMARY_COLOR}
+            />
+            {index % labelEvery === 0 && (
+              <text
+                x={x + columnWidth / 2}
+                y={chartHeight + 14}
+                textAnchor="middle"
+                fill={TEXT_COLOR}
+              >
+                {item.year}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <text x={axisWidth} y={height - 4} fill={MUTED_COLOR}>
+        纵轴：文献数
+      </text>
+    </svg>
+  );
+}
@@ -1,19 +1,157 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent, ReactNode } from "react";
 import { clsx } from "clsx";
 import {
+  clearStoredRecords,
+  getStorageUsage,
+  loadRecordFile,
+  loadRecordText,
   loadSettings,
   loadStoredRecords,
   persistRecords,
   persistSettings,
+  saveRecordSource,
 } from "@/lib/storage";
-import { extractEntitiesFromText, buildExtractionRecord } from "@/lib/extraction";
-import { extractTextFromPdf } from "@/lib/pdf";
-import { downloadRecordAsCsv, downloadRecordAsJson } from "@/lib/download";
+import type { StorageUsage } from "@/lib/storage";
+import { runExtraction, buildExtractionRecord } from "@/lib/extraction";
+import type { ChunkedExtractionParams } from "@/lib/extraction";
+import {
+  getEnsembleMembers,
+  getEnsembleSettings,
+  MAX_ENSEMBLE_RUNS,
+  runEnsembleExtraction,
+} from "@/lib/ensemble";
+import {
+  DEFAULT_CHUNK_TOKEN_BUDGET,
+  MIN_CHUNK_TOKEN_BUDGET,
+} from "@/lib/chunking";
+import {
+  bibliographyFromText,
+  doiUrl,
+  formatCitation,
+  mergeBibliography,
+} from "@/lib/bibliography";
+import { describeDuplicate, findHashDuplicate, sha256Hex } from "@/lib/duplicates";
+import {
+  addBatchUsage,
+  createBatchState,
+  estimateDocumentCost,
+  findBatchDoiDuplicate,
+  registerBatchDoi,
+  releaseBatchDocument,
+  reserveBatchBudget,
+} from "@/lib/batch";
+import {
+  clearExtractionCache,
+  extractionCache,
+  getExtractionCacheStats,
+} from "@/lib/extraction-cache";
+import type { ExtractionCacheStats } from "@/lib/extraction-cache";
+import { extractPdfContent } from "@/lib/pdf";
+import {
+  clampConcurrency,
+  DEFAULT_CONCURRENCY,
+  DEFAULT_MAX_RETRIES,
+  isAbortError,
+  MAX_CONCURRENCY,
+  startJobQueue,
+} from "@/lib/job-queue";
+import type { JobQueue } from "@/lib/job-queue";
+import {
+  DEFAULT_MODEL_PRICES,
+  estimateCost,
+  estimateRecordCost,
+  formatCost,
+  formatTokens,
+  totalTokens,
+} from "@/lib/usage";
+import {
+  createProviderProfile,
+  getActiveProvider,
+  getProviderDefaults,
+  getProviderLabel,
+  PROVIDER_KINDS,
+  providerNeedsApiKey,
+  resolveProviderModel,
+} from "@/lib/providers";
+import {
+  downloadRecordAsCsv,
+  downloadRecordAsJson,
+  downloadRecordsAsCsv,
+  downloadRecordsAsJson,
+  downloadRecordsAsXlsx,
+  downloadWorkspaceBackup,
+} from "@/lib/download";
+import {
+  createWorkspaceBackup,
+  mergeBackupRecords,
+  mergeBackupSettings,
+  parseWorkspaceBackup,
+} from "@/lib/backup";
+import type { BackupImportReport, BackupMergeStrategy } from "@/lib/backup";
+import {
+  formatResistanceEntry,
+  getResistanceEntries,
+  RESISTANCE_KIND_LABELS,
+} from "@/lib/resistance";
+import { TAXONOMY_STATUS_LABELS } from "@/lib/taxonomy";
+import {
+  addEntity,
+  AUDIT_ACTION_LABELS,
+  DEFAULT_CURATOR,
+  deleteEntities,
+  entityLabel,
+  formatFieldValue,
+  mergeEntities,
+  onlyVerifiedEntities,
+  parseFieldInput,
+  relocateEntityContext,
+  setEntitiesVerified,
+  updateCustomField,
+  updateEntityField,
+} from "@/lib/curation";
+import type { EditableField } from "@/lib/curation";
+import {
+  formatCustomFieldValue,
+  getActiveTemplate,
+  getCustomFieldValue,
+  getTemplates,
+  parseCustomFieldInput,
+} from "@/lib/fields";
+import { formatTableReference } from "@/lib/tables";
+import { PdfViewer } from "@/components/pdf-viewer";
+import { StandardsExportDialog } from "@/components/standards-export-dialog";
+import { FieldTemplateEditor } from "@/components/field-template-editor";
+import { RecordTablesPanel } from "@/components/record-tables-panel";
+import { EntitySearchPanel } from "@/components/entity-search-panel";
+import { AnalyticsDashboard } from "@/components/analytics-dashboard";
+import { ModelComparisonDialog } from "@/components/model-comparison-dialog";
+import { EnsembleReviewPanel } from "@/components/ensemble-review-panel";
+import { emptySearchQuery } from "@/lib/search";
+import type { EntitySearchQuery } from "@/lib/search";
 import type {
+  BibliographicMetadata,
+  EnsembleSettings,
+  EnsembleVote,
+  EntityProvenance,
+  ExtractionMode,
   ExtractionRecord,
+  ExtractionTemplate,
+  ExtractionUsage,
+  FieldDefinition,
+  MicrobialEntity,
+  ModelPrice,
+  ProviderKind,
+  ProviderProfile,
+  ResistanceEntry,
   StoredSettings,
+  SusceptibilityCall,
+  TableReference,
+  TaxonomyStatus,
+  TaxonomyValidation,
+  TokenUsage,
   UploadDocument,
 } from "@/types/extraction";
 
@@ -31,25 +169,55 @@ export function AppShell() {
   const [settings, setSettings] = useState<StoredSettings>({});
   const [alerts, setAlerts] = useState<AlertMessage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const queueRef = useRef<JobQueue<UploadDocument> | null>(null);
+  const [batchUsage, setBatchUsage] = useState<ExtractionUsage | null>(null);
+  const batchRef = useRef(createBatchState());
+  const settingsRef = useRef(settings);
+  /** 队列中的任务跨越多次渲染，重复检查需要读取最新的记录而不是闭包中的旧值 */
+  const recordsRef = useRef(records);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
   const [isRecordsHydrated, setIsRecordsHydrated] = useState(false);
   const [isSettingsHydrated, setIsSettingsHydrated] = useState(false);
 
   useEffect(() => {
     const storedSettings = loadSettings();
-    const storedRecords = loadStoredRecords();
     setSettings(storedSettings);
-    setRecords(storedRecords);
     setIsSettingsHydrated(true);
-    setIsRecordsHydrated(true);
+
+    let cancelled = false;
+    loadStoredRecords()
+      .then((storedRecords) => {
+        if (cancelled) return;
+        setRecords(storedRecords);
+        setIsRecordsHydrated(true);
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        setAlerts((prev) => [
+          ...prev,
+          { id: crypto.randomUUID(), type: "error", message: error.message },
+        ]);
+      });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   useEffect(() => {
+    recordsRef.current = records;
     if (isRecordsHydrated) {
-      persistRecords(records);
+      persistRecords(records).catch((error: Error) => {
+        setAlerts((prev) => [
+          ...prev,
+          { id: crypto.randomUUID(), type: "error", message: error.message },
+        ]);
+      });
     }
   }, [records, isRecordsHydrated]);
 
   useEffect(() => {
+    settingsRef.current = settings;
     if (isSettingsHydrated) {
       persistSettings(settings);
     }
@@ -71,17 +239,18 @@ export function AppShell() {
     setAlerts((prev) => prev.filter((alert) => alert.id !== id));
   }
 
-  function handleFileInput(files: FileList | null) {
+  /** 按内容哈希与已有记录、队列及本次选择的其他文件比对，重复的文献保留在列表中但默认不提取 */
+  async function handleFileInput(files: FileList | null) {
     if (!files?.length) return;
 
     const next: UploadDocument[] = [];
-    Array.from(files).forEach((file) => {
+    for (const file of Array.from(files)) {
       if (file.type !== "application/pdf") {
         addAlert({
           type: "error",
           message: `${file.name} 不是支持的 PDF 文件。`,
         });
-        return;
+        continue;
       }
 
       if (file.size > MAX_FILE_SIZE) {
@@ -89,9 +258,10 @@ export function AppShell() {
           type: "error",
           message: `${file.name} 超过 20MB 限制。`,
         });
-        return;
+        continue;
       }
 
+      const contentHash = await sha256Hex(file);
       next.push({
         id: crypto.randomUUID(),
         file,
@@ -100,117 +270,483 @@ export function AppShell() {
         addedAt: Date.now(),
         status: "ready",
         progress: 0,
+        contentHash,
+        duplicate:
+          findHashDuplicate(contentHash, recordsRef.current, [...documents, ...next]) ?? undefined,
       });
-    });
+    }
 
     if (next.length) {
       setDocuments((prev) => [...prev, ...next]);
+      const duplicates = next.filter((doc) => doc.duplicate).length;
       addAlert({
-        type: "success",
-        message: `成功添加 ${next.length} 份文献。`,
+        type: duplicates ? "info" : "success",
+        message: duplicates
+          ? `已添加 ${next.length} 份文献，其中 ${duplicates} 份与已有文献重复，默认不会提取。`
+          : `成功添加 ${next.length} 份文献。`,
       });
     }
   }
 
+  function allowDuplicate(id: string) {
+    patchDocument(id, { duplicate: undefined, allowDuplicate: true });
+  }
+
+  function setRefreshCache(id: string, refreshCache: boolean) {
+    patchDocument(id, { refreshCache: refreshCache || undefined });
+  }
+
   function removeDocument(id: string) {
     setDocuments((prev) => prev.filter((doc) => doc.id !== id));
   }
 
-  async function processDocuments() {
-    if (!settings.apiKey) {
-      addAlert({
-        type: "error",
-        message: "请先在右上角填写 OpenRouter API Key。",
-      });
-      return;
-    }
+  function patchDocument(id: string, patch: Partial<UploadDocument>) {
+    setDocuments((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+    );
+  }
 
-    const pendingDocuments = documents.filter((doc) =>
-      ["ready", "error"].includes(doc.status),
+  function patchWaitingDocuments(
+    status: UploadDocument["status"],
+    ids?: Set<string>,
+  ) {
+    setDocuments((prev) =>
+      prev.map((item) =>
+        (item.status === "queued" || item.status === "paused") &&
+        (!ids || ids.has(item.id))
+          ? { ...item, status, progress: 0 }
+          : item,
+      ),
     );
+  }
 
-    if (!pendingDocuments.length) {
-      addAlert({ type: "info", message: "当前没有待处理的文件。" });
-      return;
-    }
+  function recordBatchUsage(
+    documentId: string,
+    usage: TokenUsage,
+    model: string | null,
+  ) {
+    const cost =
+      estimateCost(
+        usage,
+        model,
+        settingsRef.current.modelPrices ?? DEFAULT_MODEL_PRICES,
+      ) ?? 0;
+    addBatchUsage(batchRef.current, documentId, usage, cost);
+    setBatchUsage(batchRef.current.usage);
+  }
 
-    setIsProcessing(true);
-    const start = performance.now();
+  /**
+   * 按分块估算本文献的费用；已花费 + 进行中文献的预留 + 本次估算超过预算时，
+   * 把文献放回队首并暂停队列。
+   */
+  function reserveBudget(
+    document: UploadDocument,
+    rawText: string,
+    models: (string | null)[],
+  ) {
+    const {
+      budgetLimit,
+      chunkTokenBudget,
+      modelPrices = DEFAULT_MODEL_PRICES,
+    } = settingsRef.current;
+    if (!budgetLimit) return true;
+    const estimate = estimateDocumentCost(rawText, models, { chunkTokenBudget, modelPrices });
+    if (estimate == null) return true;
+    const batch = batchRef.current;
+    if (reserveBatchBudget(batch, document.id, estimate, budgetLimit)) return true;
+
+    queueRef.current?.requeue(document);
+    queueRef.current?.pause();
+    setIsPaused(true);
+    patchDocument(document.id, { status: "paused", progress: 0 });
+    patchWaitingDocuments("paused");
+    addAlert({
+      type: "info",
+      message: `「${document.fileName}」预计花费 ${formatCost(estimate)}，将超出本批次预算 ${formatCost(budgetLimit)}（已花费 ${formatCost(batch.spent)}）。队列已暂停，可在设置中调整预算后点击「继续」。`,
+    });
+    return false;
+  }
 
-    for (const document of pendingDocuments) {
-      setDocuments((prev) =>
-        prev.map((item) =>
-          item.id === document.id
-            ? { ...item, status: "parsing", progress: 0.1 }
-            : item,
-        ),
-      );
+  async function processDocument(
+    document: UploadDocument,
+    signal: AbortSignal,
+    options: {
+      mode: ExtractionMode;
+      provider: ProviderProfile | null;
+      maxRetries: number;
+      template: ExtractionTemplate;
+      /** 集成提取的模型列表与票数阈值，未启用时为 null */
+      ensemble: { members: ProviderProfile[]; voteThreshold: number } | null;
+    },
+  ) {
+    patchDocument(document.id, {
+      status: "parsing",
+      progress: 0.1,
+      chunkProgress: undefined,
+      retry: undefined,
+      error: undefined,
+    });
 
-      try {
-        const parsingStart = performance.now();
-        const rawText = await extractTextFromPdf(document.file);
-        setDocuments((prev) =>
-          prev.map((item) =>
-            item.id === document.id
-              ? { ...item, status: "extracting", progress: 0.35 }
-              : item,
-          ),
+    const model = options.provider ? resolveProviderModel(options.provider) : null;
+    const members = options.ensemble?.members ?? [];
+    let completed = false;
+    try {
+      const parsingStart = performance.now();
+      const { text: rawText, metadata: pdfMetadata } = await extractPdfContent(document.file, {
+        signal,
+        stripReferences: settings.stripReferences,
+      });
+      // 内容不同但 DOI 相同（如预印本与正式版、不同来源下载的同一篇）时同样在调用模型前拦下
+      const { doi } = mergeBibliography(...pdfMetadata, bibliographyFromText(rawText));
+      if (doi && !document.allowDuplicate) {
+        const duplicate = findBatchDoiDuplicate(
+          batchRef.current,
+          document.id,
+          doi,
+          recordsRef.current,
         );
+        if (duplicate) {
+          patchDocument(document.id, { status: "ready", progress: 0, duplicate });
+          addAlert({
+            type: "info",
+            message: `「${document.fileName}」${describeDuplicate(duplicate)}，已跳过。确认不是同一篇文献时可点击「仍然提取」。`,
+          });
+          return;
+        }
+      }
+      const budgetModels = members.length
+        ? members.map((member) => resolveProviderModel(member))
+        : [model];
+      if (options.mode !== "rules" && !reserveBudget(document, rawText, budgetModels)) {
+        return;
+      }
+      if (doi) registerBatchDoi(batchRef.current, document.id, doi, document.fileName);
+      patchDocument(document.id, { status: "extracting", progress: 0.35 });
+
+      const extractionParams: Omit<ChunkedExtractionParams, "provider" | "onUsage"> = {
+        text: rawText,
+        cache: { store: extractionCache, refresh: document.refreshCache },
+        maxChunkTokens: settings.chunkTokenBudget,
+        template: options.template,
+        signal,
+        retry: {
+          maxRetries: options.maxRetries,
+          onRetry: ({ attempt, maxRetries, delayMs }) =>
+            patchDocument(document.id, {
+              retry: { attempt, maxRetries, resumeAt: Date.now() + delayMs },
+            }),
+        },
+        onChunkProgress: (chunkProgress) => {
+          patchDocument(document.id, {
+            chunkProgress,
+            retry: undefined,
+            progress:
+              0.35 +
+              0.6 * (chunkProgress.completed / Math.max(chunkProgress.total, 1)),
+          });
+        },
+      };
+      const { entities, chunkCount, usage, cacheHits, ensemble } =
+        options.ensemble && options.mode !== "rules"
+          ? await runEnsembleExtraction({
+              ...extractionParams,
+              mode: options.mode,
+              members,
+              voteThreshold: options.ensemble.voteThreshold,
+              onUsage: (usage, member) =>
+                recordBatchUsage(document.id, usage, resolveProviderModel(member)),
+            })
+          : {
+              ...(await runExtraction({
+                ...extractionParams,
+                mode: options.mode,
+                provider: options.provider,
+                onUsage: (usage) => recordBatchUsage(document.id, usage, model),
+              })),
+              ensemble: undefined,
+            };
+
+      const record = buildExtractionRecord({
+        fileName: document.fileName,
+        fileSize: document.size,
+        startedAt: parsingStart,
+        finishedAt: performance.now(),
+        entities,
+        rawText,
+        chunkCount,
+        extractionMode: options.mode,
+        usage,
+        template: options.template,
+        ensemble,
+        cacheHits,
+        pdfMetadata,
+        contentHash: document.contentHash,
+      });
 
-        const entities = await extractEntitiesFromText({
-          text: rawText,
-          apiKey: settings.apiKey,
-          model: settings.preferredModel,
+      await saveRecordSource(record.id, {
+        text: rawText,
+        file: document.file,
+        fileName: document.fileName,
+      }).catch((error: Error) => {
+        addAlert({ type: "error", message: error.message });
+      });
+      setRecords((prev) => [record, ...prev]);
+      patchDocument(document.id, {
+        status: "complete",
+        progress: 1,
+        retry: undefined,
+        refreshCache: undefined,
+        record,
+      });
+      completed = true;
+    } catch (error) {
+      if (isAbortError(error)) {
+        patchDocument(document.id, {
+          status: "ready",
+          progress: 0,
+          chunkProgress: undefined,
+          retry: undefined,
         });
+        return;
+      }
+      console.error(error);
+      const message =
+        error instanceof Error ? error.message : "提取失败，请稍后重试";
+      patchDocument(document.id, {
+        status: "error",
+        progress: 1,
+        retry: undefined,
+        error: message,
+      });
+      addAlert({ type: "error", message });
+    } finally {
+      releaseBatchDocument(batchRef.current, document.id, completed);
+    }
+  }
 
-        const record = buildExtractionRecord({
-          fileName: document.fileName,
-          fileSize: document.size,
-          startedAt: parsingStart,
-          finishedAt: performance.now(),
-          entities,
-          rawText,
+  async function processDocuments() {
+    const mode = settings.extractionMode ?? "llm";
+    const provider = getActiveProvider(settings);
+    const ensembleSettings = getEnsembleSettings(settings);
+    const members =
+      mode !== "rules" && ensembleSettings.enabled
+        ? getEnsembleMembers(settings, provider)
+        : [];
+    if (mode !== "rules") {
+      if (!provider) {
+        addAlert({
+          type: "error",
+          message: "请先在右上角的设置中添加模型服务配置，或切换为离线规则提取。",
         });
+        return;
+      }
 
-        setRecords((prev) => [record, ...prev]);
-        setDocuments((prev) =>
-          prev.map((item) =>
-            item.id === document.id
-              ? { ...item, status: "complete", progress: 1, record }
-              : item,
-          ),
-        );
-      } catch (error) {
-        console.error(error);
-        const message =
-          error instanceof Error ? error.message : "提取失败，请稍后重试";
-        setDocuments((prev) =>
-          prev.map((item) =>
-            item.id === document.id
-              ? { ...item, status: "error", progress: 1, error: message }
-              : item,
-          ),
-        );
-        addAlert({ type: "error", message });
+      const missingKey = [provider, ...members].find(providerNeedsApiKey);
+      if (missingKey) {
+        addAlert({
+          type: "error",
+          message: `请先在右上角为「${missingKey.name}」填写 API Key，或切换为离线规则提取。`,
+        });
+        return;
       }
     }
+    const batchModels = new Set(
+      (members.length ? members : provider ? [provider] : []).map(resolveProviderModel),
+    );
+
+    const waitingDocuments = documents.filter((doc) =>
+      ["ready", "error"].includes(doc.status),
+    );
+    const pendingDocuments = waitingDocuments.filter((doc) => !doc.duplicate);
+    const skipped = waitingDocuments.length - pendingDocuments.length;
+    if (skipped) {
+      addAlert({
+        type: "info",
+        message: `已跳过 ${skipped} 份重复文献，如需提取请点击对应的「仍然提取」。`,
+      });
+    }
+
+    if (!pendingDocuments.length) {
+      if (!skipped) addAlert({ type: "info", message: "当前没有待处理的文件。" });
+      return;
+    }
+
+    setIsProcessing(true);
+    setIsPaused(false);
+    setBatchUsage(null);
+    batchRef.current = createBatchState(
+      mode !== "rules" && batchModels.size === 1 ? Array.from(batchModels)[0] : null,
+    );
+    const start = performance.now();
+    const pendingIds = new Set(pendingDocuments.map((doc) => doc.id));
+    setDocuments((prev) =>
+      prev.map((item) =>
+        pendingIds.has(item.id)
+          ? {
+              ...item,
+              status: "queued",
+              progress: 0,
+              chunkProgress: undefined,
+              retry: undefined,
+              error: undefined,
+            }
+          : item,
+      ),
+    );
+
+    const queue = startJobQueue(
+      pendingDocuments,
+      (document, signal) =>
+        processDocument(document, signal, {
+          mode,
+          provider,
+          maxRetries: settings.maxRetries ?? DEFAULT_MAX_RETRIES,
+          template: getActiveTemplate(settings),
+          ensemble: members.length
+            ? { members, voteThreshold: ensembleSettings.voteThreshold }
+            : null,
+        }),
+      { concurrency: settings.concurrency },
+    );
+    queueRef.current = queue;
+    await queue.done;
+    queueRef.current = null;
 
     setIsProcessing(false);
+    setIsPaused(false);
     const duration = performance.now() - start;
+    const { usage: spentUsage } = batchRef.current;
+    const costSummary = spentUsage.requests
+      ? `，共消耗 ${formatTokens(totalTokens(spentUsage))} tokens，约 ${formatCost(
+          estimateCost(
+            spentUsage,
+            spentUsage.model,
+            settingsRef.current.modelPrices ?? DEFAULT_MODEL_PRICES,
+          ),
+        )}`
+      : "";
     addAlert({
       type: "info",
-      message: `任务完成，总耗时 ${(duration / 1000).toFixed(1)} 秒。`,
+      message: `任务完成，总耗时 ${(duration / 1000).toFixed(1)} 秒${costSummary}。`,
     });
   }
 
+  function togglePause() {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (queue.isPaused()) {
+      queue.resume();
+      setIsPaused(false);
+      patchWaitingDocuments("queued");
+    } else {
+      queue.pause();
+      setIsPaused(true);
+      patchWaitingDocuments("paused");
+    }
+  }
+
+  function cancelDocument(id: string) {
+    queueRef.current?.cancel(id);
+    patchWaitingDocuments("ready", new Set([id]));
+  }
+
+  function cancelAllDocuments() {
+    if (!queueRef.current) return;
+    queueRef.current.cancelAll();
+    patchWaitingDocuments("ready");
+    addAlert({ type: "info", message: "已取消全部未完成的提取任务。" });
+  }
+
   function handleSettingsChange(partial: Partial<StoredSettings>) {
     setSettings((prev) => ({ ...prev, ...partial }));
   }
 
+  function updateRecord(updated: ExtractionRecord) {
+    setRecords((prev) =>
+      prev.map((record) => (record.id === updated.id ? updated : record)),
+    );
+  }
+
+  async function relocateContext(recordId: string, entityId: string, context: string) {
+    const text = await loadRecordText(recordId);
+    if (!text) return;
+    setRecords((prev) =>
+      prev.map((record) =>
+        record.id === recordId
+          ? relocateEntityContext(record, entityId, context, text)
+          : record,
+      ),
+    );
+  }
+
+  function exportSelection(selected: ExtractionRecord[], format: ExportFormat) {
+    if (format === "csv") {
+      downloadRecordsAsCsv(selected);
+    } else if (format === "xlsx") {
+      downloadRecordsAsXlsx(selected);
+    } else {
+      downloadRecordsAsJson(selected);
+    }
+  }
+
+  async function exportWorkspace() {
+    const texts: Record<string, string> = {};
+    for (const record of records) {
+      const text = await loadRecordText(record.id);
+      if (text) texts[record.id] = text;
+    }
+    downloadWorkspaceBackup(createWorkspaceBackup(records, settings, texts));
+    addAlert({
+      type: "success",
+      message: `已导出 ${records.length} 条记录的工作区备份（不含 API Key 与原始 PDF）。`,
+    });
+  }
+
+  async function importWorkspace(
+    file: File,
+    strategy: BackupMergeStrategy,
+  ): Promise<BackupImportReport> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      throw new Error("备份文件不是合法的 JSON。");
+    }
+
+    const { backup, rejected } = parseWorkspaceBackup(raw);
+    const { records: merged, report } = mergeBackupRecords(
+      records,
+      backup.records,
+      strategy,
+    );
+
+    for (const id of report.added) {
+      const text = backup.texts[id];
+      const record = backup.records.find((item) => item.id === id);
+      if (text && record) {
+        await saveRecordSource(id, { text, fileName: record.fileName });
+      }
+    }
+
+    setRecords(merged);
+    setSettings((prev) => mergeBackupSettings(prev, backup.settings));
+
+    const fullReport = { ...report, rejected };
+    addAlert({
+      type: rejected.length ? "error" : "success",
+      message: `导入完成：新增 ${report.added.length} 条，合并 ${report.merged.length} 条，跳过 ${report.skipped.length} 条，拒绝 ${rejected.length} 条。`,
+    });
+    return fullReport;
+  }
+
   function clearRecords() {
     setRecords([]);
-    persistRecords([]);
-    addAlert({ type: "info", message: "已清空历史记录。" });
+    clearStoredRecords()
+      .then(() => addAlert({ type: "info", message: "已清空历史记录。" }))
+      .catch((error) => {
+        console.error(error);
+        addAlert({ type: "error", message: "清空本地数据库失败，请稍后重试。" });
+      });
   }
 
   return (
@@ -232,6 +768,8 @@ export function AppShell() {
             settings={settings}
             onChange={handleSettingsChange}
             onClearRecords={clearRecords}
+            onExportWorkspace={exportWorkspace}
+            onImportWorkspace={importWorkspace}
           />
         </div>
       </header>
@@ -242,9 +780,38 @@ export function AppShell() {
             documents={documents}
             onFileInput={handleFileInput}
             onRemove={removeDocument}
+            onAllowDuplicate={allowDuplicate}
+            onRefreshCacheChange={setRefreshCache}
             onProcess={processDocuments}
             isProcessing={isProcessing}
+            isPaused={isPaused}
+            onTogglePause={togglePause}
+            onCancel={cancelDocument}
+            onCancelAll={cancelAllDocuments}
+            batchUsage={batchUsage}
+            modelPrices={settings.modelPrices ?? DEFAULT_MODEL_PRICES}
+            budgetLimit={settings.budgetLimit}
             totalSize={totalSize}
+            providers={settings.providers ?? []}
+            activeProviderId={getActiveProvider(settings)?.id ?? null}
+            onSelectProvider={(activeProviderId) =>
+              handleSettingsChange({ activeProviderId })
+            }
+            mode={settings.extractionMode ?? "llm"}
+            onSelectMode={(extractionMode) =>
+              handleSettingsChange({ extractionMode })
+            }
+            ensembleRuns={
+              getEnsembleSettings(settings).enabled
+                ? getEnsembleMembers(settings, getActiveProvider(settings)).length
+                : 0
+            }
+            templates={getTemplates(settings)}
+            activeTemplateId={getActiveTemplate(settings).id}
+            onSelectTemplate={(activeTemplateId) =>
+              handleSettingsChange({ activeTemplateId })
+            }
+            onEditTemplates={() => setIsTemplateEditorOpen(true)}
           />
         </section>
 
@@ -253,10 +820,28 @@ export function AppShell() {
             records={records}
             onDownloadJson={downloadRecordAsJson}
             onDownloadCsv={downloadRecordAsCsv}
+            onDownloadXlsx={(record) => downloadRecordsAsXlsx([record])}
+            onExportSelection={exportSelection}
+            curator={settings.curatorName?.trim() || DEFAULT_CURATOR}
+            onUpdateRecord={updateRecord}
+            onRelocateContext={relocateContext}
+            modelPrices={settings.modelPrices ?? DEFAULT_MODEL_PRICES}
+            settings={settings}
           />
         </section>
       </main>
 
+      {isTemplateEditorOpen && (
+        <FieldTemplateEditor
+          templates={settings.templates ?? []}
+          activeTemplateId={settings.activeTemplateId}
+          onSave={(templates, activeTemplateId) =>
+            handleSettingsChange({ templates, activeTemplateId })
+          }
+          onClose={() => setIsTemplateEditorOpen(false)}
+        />
+      )}
+
       <AlertStack alerts={alerts} onDismiss={dismissAlert} />
     </div>
   );
@@ -266,18 +851,57 @@ type UploadSectionProps = {
   documents: UploadDocument[];
   onFileInput: (files: FileList | null) => void;
   onRemove: (id: string) => void;
+  onAllowDuplicate: (id: string) => void;
+  onRefreshCacheChange: (id: string, refresh: boolean) => void;
   onProcess: () => void;
   isProcessing: boolean;
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  batchUsage: ExtractionUsage | null;
+  modelPrices: ModelPrice[];
+  budgetLimit?: number;
   totalSize: number;
+  providers: ProviderProfile[];
+  activeProviderId: string | null;
+  onSelectProvider: (id: string) => void;
+  mode: ExtractionMode;
+  onSelectMode: (mode: ExtractionMode) => void;
+  /** 集成提取的运行次数，未启用时为 0 */
+  ensembleRuns: number;
+  templates: ExtractionTemplate[];
+  activeTemplateId: string;
+  onSelectTemplate: (id: string) => void;
+  onEditTemplates: () => void;
 };
 
 function UploadSection({
   documents,
   onFileInput,
   onRemove,
+  onAllowDuplicate,
+  onRefreshCacheChange,
   onProcess,
   isProcessing,
+  isPaused,
+  onTogglePause,
+  onCancel,
+  onCancelAll,
+  batchUsage,
+  modelPrices,
+  budgetLimit,
   totalSize,
+  providers,
+  activeProviderId,
+  onSelectProvider,
+  mode,
+  onSelectMode,
+  ensembleRuns,
+  templates,
+  activeTemplateId,
+  onSelectTemplate,
+  onEditTemplates,
 }: UploadSectionProps) {
   const totalCount = documents.length;
 
@@ -291,6 +915,63 @@ function UploadSection({
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <select
+            aria-label="提取方式"
+            value={mode}
+            disabled={isProcessing}
+            onChange={(event) => onSelectMode(event.target.value as ExtractionMode)}
+            className="rounded-full border border-slate-200 bg-white px-3 py-2 text-xs font-medium text-slate-600 shadow-sm focus:border-primary-300 focus:outline-none"
+          >
+            {EXTRACTION_MODES.map((item) => (
+              <option key={item.value} value={item.value}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="字段模板"
+            value={activeTemplateId}
+            disabled={isProcessing}
+            onChange={(event) => onSelectTemplate(event.target.value)}
+            className="max-w-[160px] rounded-full border border-slate-200 bg-white px-3 py-2 text-xs font-medium text-slate-600 shadow-sm focus:border-primary-300 focus:outline-none"
+          >
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onEditTemplates}
+            disabled={isProcessing}
+            className="text-xs font-medium text-slate-500 transition hover:text-primary-600"
+          >
+            编辑字段
+          </button>
+          {mode !== "rules" && providers.length > 0 && (
+            <select
+              aria-label="本次使用的模型服务"
+              value={activeProviderId ?? ""}
+              disabled={isProcessing}
+              onChange={(event) => onSelectProvider(event.target.value)}
+              className="max-w-[200px] rounded-full border border-slate-200 bg-white px-3 py-2 text-xs font-medium text-slate-600 shadow-sm focus:border-primary-300 focus:outline-none"
+            >
+              {providers.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.name} · {resolveProviderModel(provider)}
+                </option>
+              ))}
+            </select>
+          )}
+          {mode !== "rules" && ensembleRuns > 0 && (
+            <span
+              title="在「API 设置」中调整参与投票的模型与阈值"
+              className="rounded-full bg-amber-50 px-3 py-2 text-xs font-medium text-amber-700"
+            >
+              集成投票 × {ensembleRuns}
+            </span>
+          )}
           <label className="relative inline-flex cursor-pointer items-center rounded-full bg-primary-50 px-4 py-2 text-sm font-medium text-primary-600 shadow-sm transition hover:bg-primary-100">
             <input
               type="file"
@@ -316,8 +997,26 @@ function UploadSection({
               (!totalCount || isProcessing) && "cursor-not-allowed opacity-80",
             )}
           >
-            {isProcessing ? "处理中..." : "开始提取"}
+            {isProcessing ? (isPaused ? "已暂停" : "处理中...") : "开始提取"}
           </button>
+          {isProcessing && (
+            <>
+              <button
+                type="button"
+                onClick={onTogglePause}
+                className="rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-600 shadow-sm transition hover:border-primary-200 hover:text-primary-600"
+              >
+                {isPaused ? "继续" : "暂停"}
+              </button>
+              <button
+                type="button"
+                onClick={onCancelAll}
+                className="rounded-full border border-red-200 bg-red-50/80 px-4 py-2 text-sm font-medium text-red-600 shadow-sm transition hover:bg-red-100"
+              >
+                取消全部
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -340,6 +1039,14 @@ function UploadSection({
         </span>
       </div>
 
+      {batchUsage && batchUsage.requests > 0 && (
+        <BatchUsageSummary
+          usage={batchUsage}
+          modelPrices={modelPrices}
+          budgetLimit={budgetLimit}
+        />
+      )}
+
       {totalCount > 0 && (
         <ul className="grid gap-3">
           {documents.map((doc) => (
@@ -352,12 +1059,48 @@ function UploadSection({
                 <p className="text-xs text-slate-500">
                   {(doc.size / (1024 * 1024)).toFixed(2)} MB · 状态：
                   {statusLabel(doc.status)}
+                  {doc.status === "extracting" &&
+                    doc.chunkProgress &&
+                    doc.chunkProgress.total > 1 &&
+                    `（第 ${Math.min(
+                      doc.chunkProgress.completed + 1,
+                      doc.chunkProgress.total,
+                    )}/${doc.chunkProgress.total} 段）`}
+                  {doc.retry &&
+                    `（服务繁忙，将于 ${new Date(doc.retry.resumeAt).toLocaleTimeString()} 进行第 ${doc.retry.attempt}/${doc.retry.maxRetries} 次重试）`}
                 </p>
                 {doc.error && (
                   <p className="mt-1 text-xs text-red-500">{doc.error}</p>
                 )}
+                {doc.duplicate && (
+                  <p className="mt-1 text-xs text-amber-600">
+                    {describeDuplicate(doc.duplicate)}，不会提取。
+                    <button
+                      type="button"
+                      onClick={() => onAllowDuplicate(doc.id)}
+                      className="ml-2 font-semibold text-primary-600 transition hover:text-primary-700"
+                    >
+                      仍然提取
+                    </button>
+                  </p>
+                )}
               </div>
               <div className="flex items-center gap-3">
+                {mode !== "rules" && ["ready", "error"].includes(doc.status) && (
+                  <label
+                    className="flex items-center gap-1 text-xs text-slate-500"
+                    title="不使用已缓存的模型结果，重新调用模型"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={Boolean(doc.refreshCache)}
+                      onChange={(event) => onRefreshCacheChange(doc.id, event.target.checked)}
+                      disabled={isProcessing}
+                      className="h-3.5 w-3.5 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    忽略缓存
+                  </label>
+                )}
                 <div className="h-2 w-40 overflow-hidden rounded-full bg-slate-100">
                   <div
                     className={clsx(
@@ -371,14 +1114,24 @@ function UploadSection({
                     style={{ width: `${Math.round(doc.progress * 100)}%` }}
                   />
                 </div>
-                <button
-                  type="button"
-                  onClick={() => onRemove(doc.id)}
-                  className="text-xs font-medium text-slate-500 transition hover:text-red-500"
-                  disabled={isProcessing}
-                >
-                  移除
-                </button>
+                {ACTIVE_PHASES.includes(doc.status) ? (
+                  <button
+                    type="button"
+                    onClick={() => onCancel(doc.id)}
+                    className="text-xs font-medium text-slate-500 transition hover:text-red-500"
+                  >
+                    取消
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onRemove(doc.id)}
+                    className="text-xs font-medium text-slate-500 transition hover:text-red-500"
+                    disabled={isProcessing}
+                  >
+                    移除
+                  </button>
+                )}
               </div>
             </li>
           ))}
@@ -388,10 +1141,65 @@ function UploadSection({
   );
 }
 
+type BatchUsageSummaryProps = {
+  usage: ExtractionUsage;
+  modelPrices: ModelPrice[];
+  budgetLimit?: number;
+};
+
+function BatchUsageSummary({ usage, modelPrices, budgetLimit }: BatchUsageSummaryProps) {
+  const cost = estimateCost(usage, usage.model, modelPrices);
+  const ratio = budgetLimit && cost != null ? Math.min(cost / budgetLimit, 1) : null;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-slate-50/80 px-4 py-3 text-xs text-slate-600">
+      <p>
+        本批次：{usage.requests} 次请求 · 输入 {formatTokens(usage.promptTokens)} / 输出{" "}
+        {formatTokens(usage.completionTokens)} tokens · 约{" "}
+        <span className="font-semibold text-slate-800">{formatCost(cost)}</span>
+        {budgetLimit ? `（预算 ${formatCost(budgetLimit)}）` : ""}
+      </p>
+      {cost == null && (
+        <p className="mt-1 text-amber-600">
+          价格表中没有模型 {usage.model ?? "未知"} 的报价，无法估算费用，预算上限不会生效。
+        </p>
+      )}
+      {ratio != null && (
+        <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-slate-200">
+          <div
+            className={clsx(
+              "h-full rounded-full",
+              ratio > 0.9 ? "bg-red-500" : "bg-primary-500",
+            )}
+            style={{ width: `${Math.round(ratio * 100)}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+const EXTRACTION_MODES: { value: ExtractionMode; label: string }[] = [
+  { value: "llm", label: "AI 提取" },
+  { value: "hybrid", label: "规则预标注 + AI" },
+  { value: "rules", label: "离线规则提取" },
+];
+
+const ACTIVE_PHASES: UploadDocument["status"][] = [
+  "queued",
+  "paused",
+  "parsing",
+  "extracting",
+];
+
 function statusLabel(status: UploadDocument["status"]) {
   switch (status) {
     case "ready":
       return "待提取";
+    case "queued":
+      return "排队中";
+    case "paused":
+      return "已暂停";
     case "parsing":
       return "解析 PDF";
     case "extracting":
@@ -405,18 +1213,86 @@ function statusLabel(status: UploadDocument["status"]) {
   }
 }
 
+type ExportFormat = "csv" | "xlsx" | "json";
+
+const SELECTION_EXPORTS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "合并 CSV" },
+  { format: "xlsx", label: "Excel" },
+  { format: "json", label: "JSON" },
+];
+
+type ResultsView = "records" | "search" | "analytics";
+
+const RESULTS_VIEWS: { value: ResultsView; label: string }[] = [
+  { value: "records", label: "文献" },
+  { value: "search", label: "全库检索" },
+  { value: "analytics", label: "统计分析" },
+];
+
 type ResultsSectionProps = {
   records: ExtractionRecord[];
   onDownloadJson: (record: ExtractionRecord) => void;
   onDownloadCsv: (record: ExtractionRecord) => void;
+  onDownloadXlsx: (record: ExtractionRecord) => void;
+  onExportSelection: (records: ExtractionRecord[], format: ExportFormat) => void;
+  curator: string;
+  onUpdateRecord: (record: ExtractionRecord) => void;
+  /** 上下文被修改后在原文中重新定位 */
+  onRelocateContext: (recordId: string, entityId: string, context: string) => void;
+  modelPrices: ModelPrice[];
+  /** 模型对比需要的模型服务、模板与分块设置 */
+  settings: StoredSettings;
 };
 
 function ResultsSection({
   records,
   onDownloadJson,
   onDownloadCsv,
+  onDownloadXlsx,
+  onExportSelection,
+  curator,
+  onUpdateRecord,
+  onRelocateContext,
+  modelPrices,
+  settings,
 }: ResultsSectionProps) {
   const [activeRecordId, setActiveRecordId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [standardsRecords, setStandardsRecords] = useState<ExtractionRecord[] | null>(
+    null,
+  );
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [viewerEntity, setViewerEntity] = useState<MicrobialEntity | null>(null);
+  const [comparisonRecordId, setComparisonRecordId] = useState<string | null>(null);
+  const [tableFocus, setTableFocus] = useState<TableReference | null>(null);
+  const [view, setView] = useState<ResultsView>("records");
+  const [searchQuery, setSearchQuery] = useState<EntitySearchQuery>(emptySearchQuery);
+  const [entityFocus, setEntityFocus] = useState<{
+    recordId: string;
+    entityId: string;
+  } | null>(null);
+  const [viewerSource, setViewerSource] = useState<{
+    recordId: string;
+    blob: Blob | null;
+  } | null>(null);
+
+  useEffect(() => {
+    setViewerEntity(null);
+    setTableFocus(null);
+  }, [activeRecordId]);
+
+  useEffect(() => {
+    if (!viewerEntity || !activeRecordId) return;
+    if (viewerSource?.recordId === activeRecordId) return;
+
+    let cancelled = false;
+    loadRecordFile(activeRecordId).then((blob) => {
+      if (!cancelled) setViewerSource({ recordId: activeRecordId, blob });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [viewerEntity, activeRecordId, viewerSource]);
 
   useEffect(() => {
     if (!records.length) {
@@ -429,6 +1305,27 @@ function ResultsSection({
     }
   }, [records, activeRecordId]);
 
+  useEffect(() => {
+    setSelectedIds((current) => {
+      const next = new Set(
+        Array.from(current).filter((id) => records.some((record) => record.id === id)),
+      );
+      return next.size === current.size ? current : next;
+    });
+  }, [records]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
   if (!records.length) {
     return (
       <div className="rounded-2xl border border-slate-200 bg-white/70 p-8 text-center text-slate-500">
@@ -438,95 +1335,363 @@ function ResultsSection({
   }
 
   const activeRecord = records.find((record) => record.id === activeRecordId) ?? records[0];
+  const selectedRecords = records.filter((record) => selectedIds.has(record.id));
+  const allSelected = selectedRecords.length === records.length;
+  const comparisonRecord = records.find((record) => record.id === comparisonRecordId);
+  const forExport = (record: ExtractionRecord) =>
+    verifiedOnly ? onlyVerifiedEntities(record) : record;
+
+  const viewTabs = (
+    <div className="flex gap-2 text-xs">
+      {RESULTS_VIEWS.map((item) => (
+        <button
+          key={item.value}
+          type="button"
+          onClick={() => setView(item.value)}
+          className={clsx(
+            "rounded-full border px-4 py-1.5 font-semibold transition",
+            view === item.value
+              ? "border-primary-200 bg-primary-50 text-primary-700"
+              : "border-slate-200 text-slate-600 hover:border-primary-200",
+          )}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
 
-  return (
-    <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
-      <aside className="rounded-2xl border border-slate-200 bg-white/80 p-4 shadow-sm">
-        <h3 className="text-sm font-semibold text-slate-700">历史记录</h3>
-        <ul className="mt-3 space-y-2 overflow-y-auto pr-2 text-sm max-h-[420px] scrollbar-thin">
-          {records.map((record) => {
-            const isActive = record.id === activeRecord.id;
-            return (
-              <li key={record.id}>
-                <button
-                  type="button"
-                  onClick={() => setActiveRecordId(record.id)}
-                  className={clsx(
-                    "w-full rounded-xl border px-3 py-2 text-left transition",
-                    isActive
-                      ? "border-primary-200 bg-primary-50 text-primary-700 shadow-sm"
-                      : "border-transparent hover:border-slate-200 hover:bg-slate-50",
-                  )}
-                >
-                  <p className="line-clamp-1 text-sm font-medium">{record.fileName}</p>
-                  <p className="mt-1 text-xs text-slate-500">
-                    {new Date(record.processedAt).toLocaleString()} ·
-                    {record.summary.organismCount} 个实体
-                  </p>
-                </button>
-              </li>
-            );
-          })}
-        </ul>
-      </aside>
+  if (view === "analytics") {
+    return (
+      <div className="space-y-4">
+        {viewTabs}
+        <AnalyticsDashboard records={records} selectedIds={selectedIds} />
+      </div>
+    );
+  }
 
-      <article className="flex flex-col gap-6 rounded-2xl border border-slate-200 bg-white/90 p-6 shadow-sm">
-        <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
-          <div>
-            <h3 className="text-lg font-semibold text-slate-900">
-              {activeRecord.fileName}
-            </h3>
-            <p className="text-xs text-slate-500">
-              {new Date(activeRecord.processedAt).toLocaleString()} · 耗时
-              {(activeRecord.durationMs / 1000).toFixed(1)} 秒 · 文本预览：
-              {activeRecord.rawTextPreview.length} 字符
-            </p>
-          </div>
-          <div className="flex items-center gap-3">
-            <button
-              type="button"
-              onClick={() => onDownloadJson(activeRecord)}
-              className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
-            >
-              导出 JSON
-            </button>
+  if (view === "search") {
+    return (
+      <div className="space-y-4">
+        {viewTabs}
+        <EntitySearchPanel
+          records={records}
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          onOpenEntity={(recordId, entityId) => {
+            setActiveRecordId(recordId);
+            setEntityFocus({ recordId, entityId });
+            setView("records");
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {viewTabs}
+      <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+        <aside className="rounded-2xl border border-slate-200 bg-white/80 p-4 shadow-sm">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-slate-700">历史记录</h3>
             <button
               type="button"
-              onClick={() => onDownloadCsv(activeRecord)}
-              className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+              onClick={() =>
+                setSelectedIds(
+                  allSelected ? new Set() : new Set(records.map((record) => record.id)),
+                )
+              }
+              className="text-xs text-slate-500 transition hover:text-primary-600"
             >
-              导出 CSV
+              {allSelected ? "取消全选" : "全选"}
             </button>
           </div>
-        </div>
+          {selectedRecords.length > 0 && (
+            <div className="mt-3 rounded-xl bg-primary-50 p-3 text-xs text-primary-700">
+              <p>
+                已选择 {selectedRecords.length} 条记录
+                {selectedRecords.some((record) => record.usage) &&
+                  `（模型费用约 ${formatCost(
+                    selectedRecords.reduce(
+                      (acc, record) => acc + (estimateRecordCost(record, modelPrices) ?? 0),
+                      0,
+                    ),
+                  )}）`}
+                ，导出为：
+              </p>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {SELECTION_EXPORTS.map((item) => (
+                  <button
+                    key={item.format}
+                    type="button"
+                    onClick={() =>
+                      onExportSelection(selectedRecords.map(forExport), item.format)
+                    }
+                    className="rounded-full border border-primary-200 bg-white px-3 py-1 font-semibold transition hover:bg-primary-100"
+                  >
+                    {item.label}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setStandardsRecords(selectedRecords.map(forExport))}
+                  className="rounded-full border border-primary-200 bg-white px-3 py-1 font-semibold transition hover:bg-primary-100"
+                >
+                  DwC / MIxS
+                </button>
+              </div>
+            </div>
+          )}
+          <ul className="mt-3 space-y-2 overflow-y-auto pr-2 text-sm max-h-[420px] scrollbar-thin">
+            {records.map((record) => {
+              const isActive = record.id === activeRecord.id;
+              return (
+                <li key={record.id} className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(record.id)}
+                    onChange={() => toggleSelected(record.id)}
+                    aria-label={`选择 ${record.fileName}`}
+                    className="mt-3 h-4 w-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setActiveRecordId(record.id);
+                      setEntityFocus(null);
+                    }}
+                    className={clsx(
+                      "min-w-0 flex-1 rounded-xl border px-3 py-2 text-left transition",
+                      isActive
+                        ? "border-primary-200 bg-primary-50 text-primary-700 shadow-sm"
+                        : "border-transparent hover:border-slate-200 hover:bg-slate-50",
+                    )}
+                  >
+                    <p className="line-clamp-1 text-sm font-medium">{record.fileName}</p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {new Date(record.processedAt).toLocaleString()} ·
+                      {record.summary.organismCount} 个实体
+                    </p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </aside>
+
+        <article className="flex flex-col gap-6 rounded-2xl border border-slate-200 bg-white/90 p-6 shadow-sm">
+          <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900">
+                {activeRecord.fileName}
+              </h3>
+              <p className="text-xs text-slate-500">
+                {new Date(activeRecord.processedAt).toLocaleString()} · 耗时
+                {(activeRecord.durationMs / 1000).toFixed(1)} 秒 ·
+                {activeRecord.extractionMode === "rules"
+                  ? " 离线规则提取 · "
+                  : activeRecord.chunkCount && activeRecord.chunkCount > 1
+                  ? ` 分 ${activeRecord.chunkCount} 段提取 · `
+                  : " "}
+                {activeRecord.rawTextLength != null
+                  ? `原文：${activeRecord.rawTextLength} 字符`
+                  : `文本预览：${activeRecord.rawTextPreview.length} 字符`}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-1.5 text-xs text-slate-500">
+                <input
+                  type="checkbox"
+                  checked={verifiedOnly}
+                  onChange={(event) => setVerifiedOnly(event.target.checked)}
+                  className="h-3.5 w-3.5 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                />
+                仅导出已核实实体
+              </label>
+              <button
+                type="button"
+                onClick={() => onDownloadJson(forExport(activeRecord))}
+                className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+              >
+                导出 JSON
+              </button>
+              <button
+                type="button"
+                onClick={() => onDownloadCsv(forExport(activeRecord))}
+                className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+              >
+                导出 CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => onDownloadXlsx(forExport(activeRecord))}
+                className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+              >
+                导出 Excel
+              </button>
+              <button
+                type="button"
+                onClick={() => setStandardsRecords([forExport(activeRecord)])}
+                className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+              >
+                标准格式
+              </button>
+              <button
+                type="button"
+                onClick={() => setComparisonRecordId(activeRecord.id)}
+                className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+              >
+                模型对比
+              </button>
+            </div>
+          </div>
+
+          {activeRecord.bibliography && (
+            <BibliographyCard metadata={activeRecord.bibliography} />
+          )}
+          <SummaryBadges record={activeRecord} modelPrices={modelPrices} />
+          <EntityTable
+            record={activeRecord}
+            actor={curator}
+            onChange={onUpdateRecord}
+            onContextEdited={(entityId, context) =>
+              onRelocateContext(activeRecord.id, entityId, context)
+            }
+            onLocate={setViewerEntity}
+            onLocateTable={(ref) => setTableFocus({ ...ref })}
+            focusEntityId={
+              entityFocus?.recordId === activeRecord.id ? entityFocus.entityId : null
+            }
+          />
+          <RecordTablesPanel
+            tables={activeRecord.tables ?? []}
+            entities={activeRecord.entities}
+            focus={tableFocus}
+          />
+          <EnsembleReviewPanel
+            record={activeRecord}
+            modelPrices={modelPrices}
+            actor={curator}
+            onChange={onUpdateRecord}
+          />
+        </article>
+
+        {viewerEntity && (
+          <PdfViewer
+            source={
+              viewerSource?.recordId === activeRecord.id
+                ? viewerSource.blob
+                : undefined
+            }
+            fileName={activeRecord.fileName}
+            entity={viewerEntity}
+            onClose={() => setViewerEntity(null)}
+          />
+        )}
 
-        <SummaryBadges record={activeRecord} />
-        <EntityTable record={activeRecord} />
-      </article>
+        {standardsRecords && (
+          <StandardsExportDialog
+            records={standardsRecords}
+            onClose={() => setStandardsRecords(null)}
+          />
+        )}
+
+        {comparisonRecord && (
+          <ModelComparisonDialog
+            record={comparisonRecord}
+            providers={settings.providers ?? []}
+            templates={getTemplates(settings)}
+            activeProviderId={getActiveProvider(settings)?.id ?? null}
+            activeTemplateId={getActiveTemplate(settings).id}
+            chunkTokenBudget={settings.chunkTokenBudget}
+            maxRetries={settings.maxRetries}
+            modelPrices={modelPrices}
+            curator={curator}
+            onChange={onUpdateRecord}
+            onClose={() => setComparisonRecordId(null)}
+          />
+        )}
+      </div>
     </div>
   );
 }
 
-type SummaryBadgesProps = {
-  record: ExtractionRecord;
-};
+/** 题录信息：来自 PDF 元数据与第一页文本，可能不完整 */
+function BibliographyCard({ metadata }: { metadata: BibliographicMetadata }) {
+  const [copied, setCopied] = useState(false);
+
+  async function copyCitation() {
+    try {
+      await navigator.clipboard.writeText(formatCitation(metadata));
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.warn("无法写入剪贴板", error);
+    }
+  }
 
-function SummaryBadges({ record }: SummaryBadgesProps) {
-  const items = [
-    {
-      label: "识别实体",
-      value: record.summary.organismCount,
-      description: "总计识别的微生物相关实体数量",
-    },
-    {
-      label: "唯一物种",
+  return (
+    <div className="flex flex-col gap-1 rounded-xl border border-slate-200 bg-slate-50/60 p-4 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <p className="font-medium text-slate-800">{metadata.title ?? "（未识别到标题）"}</p>
+        <button
+          type="button"
+          onClick={copyCitation}
+          className="shrink-0 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+        >
+          {copied ? "已复制" : "复制引用"}
+        </button>
+      </div>
+      {metadata.authors.length > 0 && (
+        <p className="text-xs text-slate-600">{metadata.authors.join(", ")}</p>
+      )}
+      <p className="text-xs text-slate-500">
+        {[metadata.journal, metadata.year].filter((part) => part != null).join(" · ")}
+        {metadata.doi && (
+          <a
+            href={doiUrl(metadata.doi)}
+            target="_blank"
+            rel="noreferrer"
+            className={clsx(
+              "text-primary-600 hover:underline",
+              (metadata.journal || metadata.year != null) && "ml-2",
+            )}
+          >
+            doi:{metadata.doi}
+          </a>
+        )}
+      </p>
+    </div>
+  );
+}
+
+type SummaryBadgesProps = {
+  record: ExtractionRecord;
+  modelPrices: ModelPrice[];
+};
+
+function SummaryBadges({ record, modelPrices }: SummaryBadgesProps) {
+  const items = [
+    {
+      label: "识别实体",
+      value: record.summary.organismCount,
+      description: "总计识别的微生物相关实体数量",
+    },
+    {
+      label: "唯一物种",
       value: record.summary.uniqueSpecies,
       description: "按属+种去重后的数量",
     },
     {
       label: "抗药性条目",
       value: record.summary.resistanceCount,
-      description: "涉及抗药性的描述条目数",
+      description:
+        record.summary.resistanceGeneCount != null
+          ? `耐药基因 ${record.summary.resistanceGeneCount} · 突变 ${
+              record.summary.resistanceMutationCount ?? 0
+            } · 表型 ${record.summary.resistancePhenotypeCount ?? 0}`
+          : "涉及抗药性的描述条目数",
     },
     {
       label: "分离来源",
@@ -538,6 +1703,31 @@ function SummaryBadges({ record }: SummaryBadgesProps) {
       value: record.summary.pathogenicityCount,
       description: "提供致病性描述的实体数量",
     },
+    ...(record.summary.unverifiedCount != null
+      ? [
+          {
+            label: "待核实",
+            value: record.summary.unverifiedCount,
+            description: "上下文未能在原文中找到、可能为幻觉的实体数量",
+          },
+        ]
+      : []),
+    ...(record.usage
+      ? [
+          {
+            label: "模型费用",
+            value: formatCost(estimateRecordCost(record, modelPrices)),
+            description: `${
+              record.usage.model ??
+              (record.ensemble ? `${record.ensemble.runs.length} 次集成运行` : "未知模型")
+            } · ${
+              record.usage.requests
+            } 次请求 · 输入 ${formatTokens(record.usage.promptTokens)} / 输出 ${formatTokens(
+              record.usage.completionTokens,
+            )} tokens${record.cacheHits ? ` · ${record.cacheHits} 段来自缓存` : ""}`,
+          },
+        ]
+      : []),
   ];
 
   return (
@@ -562,84 +1752,588 @@ function SummaryBadges({ record }: SummaryBadgesProps) {
 
 type EntityTableProps = {
   record: ExtractionRecord;
+  actor: string;
+  onChange: (record: ExtractionRecord) => void;
+  onContextEdited: (entityId: string, context: string) => void;
+  onLocate: (entity: MicrobialEntity) => void;
+  onLocateTable: (ref: TableReference) => void;
+  /** 从全库检索跳转过来时高亮并滚动到该实体 */
+  focusEntityId?: string | null;
 };
 
-function EntityTable({ record }: EntityTableProps) {
-  if (!record.entities.length) {
-    return (
-      <div className="rounded-xl border border-dashed border-slate-200 bg-slate-50/60 p-8 text-center text-slate-500">
-        AI 未在该文献中识别到微生物相关实体。
-      </div>
-    );
-  }
+function EntityTable({
+  record,
+  actor,
+  onChange,
+  onContextEdited,
+  onLocate,
+  onLocateTable,
+  focusEntityId,
+}: EntityTableProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editError, setEditError] = useState<string | null>(null);
+  const focusedRowRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    focusedRowRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [focusEntityId, record.id]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setEditError(null);
+  }, [record.id]);
+
+  const selected = record.entities
+    .filter((entity) => selectedIds.has(entity.id))
+    .map((entity) => entity.id);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const commitField = (entityId: string, field: EditableField, input: string) => {
+    try {
+      const value = parseFieldInput(field, input);
+      setEditError(null);
+      onChange(updateEntityField(record, entityId, field, value, actor));
+      if (field === "context" && typeof value === "string" && value) {
+        onContextEdited(entityId, value);
+      }
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const commitCustomField = (entityId: string, field: FieldDefinition, input: string) => {
+    try {
+      const value = parseCustomFieldInput(field, input);
+      setEditError(null);
+      onChange(updateCustomField(record, entityId, field, value, actor));
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const customFields = record.fieldDefinitions ?? [];
+  const columnCount = 13 + customFields.length;
+  const gridStyle = {
+    gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))`,
+  };
+
+  const editable = (
+    entity: MicrobialEntity,
+    field: EditableField,
+    options: { multiline?: boolean; placeholder?: string; display?: ReactNode } = {},
+  ) => (
+    <EditableValue
+      value={formatFieldValue(entity, field)}
+      multiline={options.multiline}
+      placeholder={options.placeholder}
+      onCommit={(input) => commitField(entity.id, field, input)}
+    >
+      {options.display}
+    </EditableValue>
+  );
+
+  const toolbarButton =
+    "rounded-full border border-slate-200 px-3 py-1 font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600 disabled:opacity-40";
 
   return (
-    <div className="overflow-hidden rounded-xl border border-slate-200">
-      <div className="grid grid-cols-12 bg-slate-100 px-4 py-3 text-xs font-semibold uppercase tracking-wide text-slate-600">
-        <span className="col-span-2">属 / 种</span>
-        <span className="col-span-1">亚种</span>
-        <span className="col-span-1">血清型</span>
-        <span className="col-span-1">菌株</span>
-        <span className="col-span-1">MLST</span>
-        <span className="col-span-1">Taxonomy ID</span>
-        <span className="col-span-2">分离来源</span>
-        <span className="col-span-1">抗药性</span>
-        <span className="col-span-1">致病性</span>
-        <span className="col-span-1">上下文</span>
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() => onChange(addEntity(record, actor))}
+          className={toolbarButton}
+        >
+          添加实体
+        </button>
+        <button
+          type="button"
+          disabled={selected.length < 2}
+          onClick={() => {
+            onChange(mergeEntities(record, selected, actor));
+            setSelectedIds(new Set());
+          }}
+          className={toolbarButton}
+        >
+          合并所选{selected.length > 1 ? `（${selected.length}）` : ""}
+        </button>
+        <button
+          type="button"
+          disabled={!selected.length}
+          onClick={() => onChange(setEntitiesVerified(record, selected, true, actor))}
+          className={toolbarButton}
+        >
+          标记为已核实
+        </button>
+        <button
+          type="button"
+          disabled={!selected.length}
+          onClick={() => {
+            onChange(deleteEntities(record, selected, actor));
+            setSelectedIds(new Set());
+          }}
+          className={clsx(toolbarButton, "hover:border-red-200 hover:text-red-600")}
+        >
+          删除所选
+        </button>
+        <span className="ml-auto text-slate-500">
+          已核实 {record.summary.verifiedCount ?? 0} / {record.entities.length} · 点击单元格即可编辑
+        </span>
       </div>
-      <div className="divide-y divide-slate-200">
-        {record.entities.map((entity) => (
-          <div key={entity.id} className="grid grid-cols-12 gap-3 px-4 py-3 text-xs">
-            <div className="col-span-2">
-              <p className="font-medium text-slate-800">
-                {[entity.genus, entity.species].filter(Boolean).join(" ") || "-"}
-              </p>
-              {entity.confidence != null && (
-                <p className="mt-1 text-[10px] text-slate-400">
-                  置信度 {(entity.confidence * 100).toFixed(0)}%
-                </p>
-              )}
-            </div>
-            <div className="col-span-1">{entity.subspecies ?? "-"}</div>
-            <div className="col-span-1">{entity.serovar ?? "-"}</div>
-            <div className="col-span-1">{entity.strain ?? "-"}</div>
-            <div className="col-span-1">{entity.mlst_st ?? "-"}</div>
-            <div className="col-span-1">{entity.taxonomy_id ?? "-"}</div>
-            <div className="col-span-2 whitespace-pre-wrap text-slate-700">
-              {entity.source ?? "-"}
-            </div>
-            <div className="col-span-1 whitespace-pre-wrap text-slate-700">
-              {entity.resistance?.join("; ") ?? "-"}
-            </div>
-            <div className="col-span-1 whitespace-pre-wrap text-slate-700">
-              {entity.pathogenicity ?? "-"}
+
+      {editError && (
+        <p className="rounded-lg bg-red-50 px-3 py-2 text-xs text-red-600">{editError}</p>
+      )}
+
+      {!record.entities.length ? (
+        <div className="rounded-xl border border-dashed border-slate-200 bg-slate-50/60 p-8 text-center text-slate-500">
+          AI 未在该文献中识别到微生物相关实体。
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-slate-200 scrollbar-thin">
+          <div style={customFields.length ? { minWidth: columnCount * 80 } : undefined}>
+            <div
+              style={gridStyle}
+              className="grid gap-3 bg-slate-100 px-4 py-3 text-xs font-semibold uppercase tracking-wide text-slate-600"
+            >
+              <span className="col-span-2">属 / 种</span>
+              <span className="col-span-1">亚种</span>
+              <span className="col-span-1">血清型</span>
+              <span className="col-span-1">菌株</span>
+              <span className="col-span-1">MLST</span>
+              <span className="col-span-1">Taxonomy ID</span>
+              <span className="col-span-1">分离来源</span>
+              <span className="col-span-2">抗药性</span>
+              <span className="col-span-1">致病性</span>
+              <span className="col-span-1">上下文</span>
+              {customFields.map((field) => (
+                <span key={field.key} className="col-span-1" title={field.description}>
+                  {field.label}
+                </span>
+              ))}
+              <span className="col-span-1">操作</span>
             </div>
-            <div className="col-span-1">
-              {entity.context ? (
-                <details className="space-y-1">
-                  <summary className="cursor-pointer text-primary-600">查看</summary>
-                  <p className="mt-2 whitespace-pre-wrap rounded-lg bg-slate-50/80 p-2 text-[11px] text-slate-600">
-                    {entity.context}
-                  </p>
-                </details>
-              ) : (
-                <span>-</span>
-              )}
+            <div className="divide-y divide-slate-200">
+              {record.entities.map((entity) => (
+                <div
+                  key={entity.id}
+                  ref={entity.id === focusEntityId ? focusedRowRef : undefined}
+                  style={gridStyle}
+                  className={clsx(
+                    "grid gap-3 px-4 py-3 text-xs",
+                    entity.id === focusEntityId
+                      ? "bg-amber-50"
+                      : selectedIds.has(entity.id) && "bg-primary-50/40",
+                  )}
+                >
+                  <div className="col-span-2">
+                    <div className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(entity.id)}
+                        onChange={() => toggleSelected(entity.id)}
+                        aria-label={`选择 ${entityLabel(entity)}`}
+                        className="mt-0.5 h-3.5 w-3.5 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <div className="min-w-0 flex-1 font-medium text-slate-800">
+                        {editable(entity, "genus", { placeholder: "属" })}
+                        {editable(entity, "species", { placeholder: "种" })}
+                      </div>
+                    </div>
+                    <div className="mt-1 text-[10px] text-slate-400">
+                      {editable(entity, "confidence", {
+                        placeholder: "置信度",
+                        display:
+                          entity.confidence != null
+                            ? `置信度 ${(entity.confidence * 100).toFixed(0)}%`
+                            : undefined,
+                      })}
+                    </div>
+                    {entity.verified && (
+                      <span className="mt-1 inline-block rounded bg-emerald-50 px-1.5 py-0.5 text-[10px] text-emerald-700">
+                        已核实
+                      </span>
+                    )}
+                    <ProvenanceBadge provenance={entity.provenance} />
+                    <EnsembleBadge vote={entity.ensemble} />
+                    {entity.tableRef && (
+                      <button
+                        type="button"
+                        onClick={() => entity.tableRef && onLocateTable(entity.tableRef)}
+                        className="mt-1 block rounded bg-primary-50 px-1.5 py-0.5 text-[10px] text-primary-700 transition hover:bg-primary-100"
+                      >
+                        {formatTableReference(entity.tableRef)}
+                      </button>
+                    )}
+                  </div>
+                  <div className="col-span-1">{editable(entity, "subspecies")}</div>
+                  <div className="col-span-1">{editable(entity, "serovar")}</div>
+                  <div className="col-span-1">{editable(entity, "strain")}</div>
+                  <div className="col-span-1">{editable(entity, "mlst_st")}</div>
+                  <div className="col-span-1">
+                    {editable(entity, "taxonomy_id")}
+                    <TaxonomyBadge taxonomy={entity.taxonomy} />
+                  </div>
+                  <div className="col-span-1 text-slate-700">
+                    {editable(entity, "source", { multiline: true })}
+                  </div>
+                  <div className="col-span-2">
+                    {editable(entity, "resistance", {
+                      multiline: true,
+                      placeholder: "多个条目以分号分隔",
+                      display: <ResistanceList entries={getResistanceEntries(entity)} />,
+                    })}
+                  </div>
+                  <div className="col-span-1 text-slate-700">
+                    {editable(entity, "pathogenicity", { multiline: true })}
+                  </div>
+                  <div className="col-span-1">
+                    <details className="space-y-1">
+                      <summary className="cursor-pointer text-primary-600">
+                        {entity.context ? "查看" : "添加"}
+                      </summary>
+                      <div className="mt-2 rounded-lg bg-slate-50/80 p-2 text-[11px] text-slate-600">
+                        {editable(entity, "context", { multiline: true })}
+                      </div>
+                    </details>
+                    <button
+                      type="button"
+                      onClick={() => onLocate(entity)}
+                      className="mt-1 block text-primary-600 transition hover:text-primary-500"
+                    >
+                      原文定位
+                    </button>
+                  </div>
+                  {customFields.map((field) => (
+                    <div key={field.key} className="col-span-1 text-slate-700">
+                      <EditableValue
+                        value={formatCustomFieldValue(getCustomFieldValue(entity, field))}
+                        placeholder={field.array ? "多个值以分号分隔" : undefined}
+                        onCommit={(input) => commitCustomField(entity.id, field, input)}
+                      />
+                    </div>
+                  ))}
+                  <div className="col-span-1 flex flex-col items-start gap-1">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onChange(
+                          setEntitiesVerified(record, [entity.id], !entity.verified, actor),
+                        )
+                      }
+                      className={clsx(
+                        "transition",
+                        entity.verified
+                          ? "text-slate-500 hover:text-slate-700"
+                          : "text-emerald-600 hover:text-emerald-500",
+                      )}
+                    >
+                      {entity.verified ? "取消核实" : "核实"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onChange(deleteEntities(record, [entity.id], actor))}
+                      className="text-slate-400 transition hover:text-red-500"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
+        </div>
+      )}
+
+      <AuditLogPanel record={record} />
+    </div>
+  );
+}
+
+type EditableValueProps = {
+  value: string;
+  onCommit: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+  /** 非编辑状态下的展示内容，默认显示 value */
+  children?: ReactNode;
+};
+
+function EditableValue({
+  value,
+  onCommit,
+  multiline,
+  placeholder,
+  children,
+}: EditableValueProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const finish = (commit: boolean) => {
+    if (commit && draft != null && draft !== value) {
+      onCommit(draft);
+    }
+    setDraft(null);
+  };
+
+  if (draft != null) {
+    const inputClassName =
+      "w-full rounded border border-primary-200 bg-white px-1.5 py-1 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-primary-100";
+    const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+      if (event.key === "Escape") {
+        finish(false);
+      } else if (event.key === "Enter" && (!multiline || !event.shiftKey)) {
+        event.preventDefault();
+        finish(true);
+      }
+    };
+
+    return multiline ? (
+      <textarea
+        autoFocus
+        rows={3}
+        value={draft}
+        placeholder={placeholder}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={() => finish(true)}
+        onKeyDown={handleKeyDown}
+        className={inputClassName}
+      />
+    ) : (
+      <input
+        autoFocus
+        value={draft}
+        placeholder={placeholder}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={() => finish(true)}
+        onKeyDown={handleKeyDown}
+        className={inputClassName}
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setDraft(value)}
+      title="点击编辑"
+      className="block w-full whitespace-pre-wrap rounded text-left transition hover:bg-slate-100"
+    >
+      {children ?? (value || <span className="text-slate-300">{placeholder ?? "-"}</span>)}
+    </button>
+  );
+}
+
+function formatAuditValue(value: unknown): string {
+  if (value == null || value === "") return "空";
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item === "string")
+      ? value.join("; ") || "空"
+      : value.map((item) => formatAuditValue(item)).join(" + ");
+  }
+  if (typeof value === "object") {
+    return entityLabel(value as MicrobialEntity);
+  }
+  if (typeof value === "boolean") return value ? "是" : "否";
+  return String(value);
+}
+
+type AuditLogPanelProps = {
+  record: ExtractionRecord;
+};
+
+function AuditLogPanel({ record }: AuditLogPanelProps) {
+  const entries = record.auditLog ?? [];
+  if (!entries.length) return null;
+
+  return (
+    <details className="rounded-xl border border-slate-200 bg-slate-50/60 p-3 text-xs">
+      <summary className="cursor-pointer font-semibold text-slate-600">
+        修改记录（{entries.length}）
+      </summary>
+      <ul className="mt-2 max-h-64 space-y-1 overflow-y-auto pr-2 scrollbar-thin">
+        {[...entries].reverse().map((entry) => (
+          <li key={entry.id} className="text-slate-600">
+            <span className="text-slate-400">
+              {new Date(entry.at).toLocaleString()}
+            </span>{" "}
+            <span className="font-medium text-slate-700">{entry.actor}</span>{" "}
+            {AUDIT_ACTION_LABELS[entry.action]}
+            {entry.field && entry.action === "edit" && (
+              <span className="font-mono"> {entry.field}</span>
+            )}
+            ：{formatAuditValue(entry.oldValue)} → {formatAuditValue(entry.newValue)}
+          </li>
         ))}
-      </div>
+      </ul>
+    </details>
+  );
+}
+
+const SUSCEPTIBILITY_STYLES: Record<SusceptibilityCall, string> = {
+  R: "bg-red-50 text-red-600",
+  I: "bg-amber-50 text-amber-700",
+  S: "bg-emerald-50 text-emerald-700",
+};
+
+type ResistanceListProps = {
+  entries: ResistanceEntry[];
+};
+
+function ResistanceList({ entries }: ResistanceListProps) {
+  if (!entries.length) {
+    return <span className="text-slate-700">-</span>;
+  }
+
+  return (
+    <ul className="flex flex-wrap gap-1">
+      {entries.map((entry, index) => (
+        <li
+          key={index}
+          title={`${RESISTANCE_KIND_LABELS[entry.kind]}：${entry.text}`}
+          className={clsx(
+            "rounded-md px-1.5 py-0.5 text-[11px]",
+            entry.kind === "phenotype"
+              ? entry.call
+                ? SUSCEPTIBILITY_STYLES[entry.call]
+                : "bg-slate-100 text-slate-600"
+              : "bg-violet-50 font-mono text-violet-700",
+          )}
+        >
+          {formatResistanceEntry(entry)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+type ProvenanceBadgeProps = {
+  provenance?: EntityProvenance | null;
+};
+
+function ProvenanceBadge({ provenance }: ProvenanceBadgeProps) {
+  if (!provenance) return null;
+
+  const pageLabel = provenance.page != null ? `第 ${provenance.page} 页` : null;
+  const flag =
+    provenance.status === "unverified"
+      ? { label: "原文未找到，疑似幻觉", className: "bg-red-50 text-red-600" }
+      : provenance.status === "approximate"
+      ? { label: "近似匹配", className: "bg-amber-50 text-amber-700" }
+      : provenance.status === "no_context"
+      ? { label: "无上下文", className: "bg-slate-100 text-slate-500" }
+      : null;
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1 text-[10px]">
+      {pageLabel && (
+        <span
+          className="rounded bg-primary-50 px-1.5 py-0.5 text-primary-700"
+          title={
+            provenance.start != null
+              ? `原文偏移 ${provenance.start}-${provenance.end}`
+              : undefined
+          }
+        >
+          {pageLabel}
+        </span>
+      )}
+      {flag && (
+        <span className={clsx("rounded px-1.5 py-0.5", flag.className)}>
+          {flag.label}
+        </span>
+      )}
     </div>
   );
 }
 
+type EnsembleBadgeProps = {
+  vote?: EnsembleVote | null;
+};
+
+function EnsembleBadge({ vote }: EnsembleBadgeProps) {
+  if (!vote) return null;
+
+  const unanimous = vote.support === vote.runs && !vote.disagreements.length;
+  return (
+    <span
+      title={`${vote.runs} 次运行中有 ${vote.support} 次识别到该实体${
+        vote.disagreements.length
+          ? `，${vote.disagreements.length} 个字段有分歧，详见下方「集成投票」`
+          : ""
+      }`}
+      className={clsx(
+        "mt-1 inline-block rounded px-1.5 py-0.5 text-[10px]",
+        unanimous ? "bg-emerald-50 text-emerald-700" : "bg-amber-50 text-amber-700",
+      )}
+    >
+      {vote.support}/{vote.runs} 票{vote.disagreements.length ? " · 有分歧" : ""}
+    </span>
+  );
+}
+
+const TAXONOMY_STATUS_STYLES: Record<TaxonomyStatus, string> = {
+  verified: "bg-emerald-50 text-emerald-700",
+  corrected: "bg-amber-50 text-amber-700",
+  filled: "bg-primary-50 text-primary-700",
+  renamed: "bg-violet-50 text-violet-700",
+  mismatch: "bg-red-50 text-red-600",
+  not_found: "bg-slate-100 text-slate-500",
+};
+
+type TaxonomyBadgeProps = {
+  taxonomy?: TaxonomyValidation | null;
+};
+
+function TaxonomyBadge({ taxonomy }: TaxonomyBadgeProps) {
+  if (!taxonomy) return null;
+
+  const details = [
+    taxonomy.matchedName && `NCBI：${taxonomy.matchedName}（${taxonomy.rank}）`,
+    taxonomy.originalName && `原学名：${taxonomy.originalName}`,
+    taxonomy.originalTaxId && `原 ID：${taxonomy.originalTaxId}`,
+  ].filter(Boolean);
+
+  return (
+    <span
+      title={details.join("\n") || undefined}
+      className={clsx(
+        "mt-1 inline-block rounded px-1.5 py-0.5 text-[10px]",
+        TAXONOMY_STATUS_STYLES[taxonomy.status],
+      )}
+    >
+      {TAXONOMY_STATUS_LABELS[taxonomy.status]}
+    </span>
+  );
+}
+
 type SettingsPanelProps = {
   settings: StoredSettings;
   onChange: (partial: Partial<StoredSettings>) => void;
   onClearRecords: () => void;
+  onExportWorkspace: () => Promise<void>;
+  onImportWorkspace: (
+    file: File,
+    strategy: BackupMergeStrategy,
+  ) => Promise<BackupImportReport>;
 };
 
-function SettingsPanel({ settings, onChange, onClearRecords }: SettingsPanelProps) {
+function SettingsPanel({
+  settings,
+  onChange,
+  onClearRecords,
+  onExportWorkspace,
+  onImportWorkspace,
+}: SettingsPanelProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   return (
@@ -653,9 +2347,9 @@ function SettingsPanel({ settings, onChange, onClearRecords }: SettingsPanelProp
       </button>
 
       {isExpanded && (
-        <div className="absolute right-0 z-20 mt-3 w-80 rounded-2xl border border-slate-200 bg-white p-4 text-sm shadow-xl">
+        <div className="absolute right-0 z-20 mt-3 max-h-[80vh] w-96 overflow-y-auto rounded-2xl border border-slate-200 bg-white p-4 text-sm shadow-xl">
           <div className="flex items-center justify-between">
-            <p className="text-sm font-semibold text-slate-800">DeepSeek API</p>
+            <p className="text-sm font-semibold text-slate-800">模型服务</p>
             <button
               type="button"
               className="text-xs text-slate-400 transition hover:text-red-500"
@@ -665,33 +2359,142 @@ function SettingsPanel({ settings, onChange, onClearRecords }: SettingsPanelProp
             </button>
           </div>
 
+          <ProviderProfilesEditor
+            providers={settings.providers ?? []}
+            activeProviderId={settings.activeProviderId}
+            onChange={onChange}
+          />
+
           <label className="mt-3 block text-xs font-medium text-slate-500">
-            OpenRouter API Key
+            核对人（记录在修改日志中）
             <input
-              type="password"
-              autoComplete="off"
-              placeholder="sk-or-..."
-              value={settings.apiKey ?? ""}
-              onChange={(event) => onChange({ apiKey: event.target.value.trim() })}
+              type="text"
+              placeholder={DEFAULT_CURATOR}
+              value={settings.curatorName ?? ""}
+              onChange={(event) =>
+                onChange({ curatorName: event.target.value || undefined })
+              }
               className="mt-1 w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 focus:border-primary-300 focus:outline-none focus:ring-2 focus:ring-primary-100"
             />
           </label>
 
           <label className="mt-3 block text-xs font-medium text-slate-500">
-            模型（可选）
+            单段 Token 上限（长文献分块）
             <input
-              type="text"
-              placeholder="默认 deepseek/deepseek-chat"
-              value={settings.preferredModel ?? ""}
-              onChange={(event) => onChange({ preferredModel: event.target.value.trim() })}
+              type="number"
+              min={MIN_CHUNK_TOKEN_BUDGET}
+              step={500}
+              placeholder={`默认 ${DEFAULT_CHUNK_TOKEN_BUDGET}`}
+              value={settings.chunkTokenBudget ?? ""}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                onChange({
+                  chunkTokenBudget:
+                    event.target.value && Number.isFinite(value) ? value : undefined,
+                });
+              }}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 focus:border-primary-300 focus:outline-none focus:ring-2 focus:ring-primary-100"
+            />
+          </label>
+
+          <label className="mt-3 flex items-start gap-2 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={settings.stripReferences ?? false}
+              onChange={(event) =>
+                onChange({ stripReferences: event.target.checked || undefined })
+              }
+              className="mt-0.5 h-4 w-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>
+              <span className="font-medium text-slate-500">提取前去除参考文献</span>
+              <span className="block text-slate-400">
+                从最后一个 References / 参考文献 标题处截断，减少无关实体与 token 消耗。
+              </span>
+            </span>
+          </label>
+
+          <div className="mt-3 grid grid-cols-2 gap-3">
+            <label className="block text-xs font-medium text-slate-500">
+              并发数
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONCURRENCY}
+                placeholder={`默认 ${DEFAULT_CONCURRENCY}`}
+                value={settings.concurrency ?? ""}
+                onChange={(event) =>
+                  onChange({
+                    concurrency: event.target.value
+                      ? clampConcurrency(Number(event.target.value))
+                      : undefined,
+                  })
+                }
+                className="mt-1 w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 focus:border-primary-300 focus:outline-none focus:ring-2 focus:ring-primary-100"
+              />
+            </label>
+            <label className="block text-xs font-medium text-slate-500">
+              失败重试次数
+              <input
+                type="number"
+                min={0}
+                max={10}
+                placeholder={`默认 ${DEFAULT_MAX_RETRIES}`}
+                value={settings.maxRetries ?? ""}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  onChange({
+                    maxRetries:
+                      event.target.value && Number.isFinite(value)
+                        ? Math.min(10, Math.max(0, Math.round(value)))
+                        : undefined,
+                  });
+                }}
+                className="mt-1 w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 focus:border-primary-300 focus:outline-none focus:ring-2 focus:ring-primary-100"
+              />
+            </label>
+          </div>
+
+          <EnsembleSettingsEditor settings={settings} onChange={onChange} />
+
+          <ModelPriceEditor
+            prices={settings.modelPrices ?? DEFAULT_MODEL_PRICES}
+            onChange={(modelPrices) => onChange({ modelPrices })}
+          />
+
+          <label className="mt-3 block text-xs font-medium text-slate-500">
+            单批次预算上限（美元，预计超出时暂停）
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              placeholder="不限制"
+              value={settings.budgetLimit ?? ""}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                onChange({
+                  budgetLimit:
+                    event.target.value && Number.isFinite(value) && value > 0
+                      ? value
+                      : undefined,
+                });
+              }}
               className="mt-1 w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 focus:border-primary-300 focus:outline-none focus:ring-2 focus:ring-primary-100"
             />
           </label>
 
           <p className="mt-4 rounded-lg bg-primary-50 p-3 text-xs text-primary-700">
-            API Key 仅保存在浏览器的 localStorage 中，不会上传到服务器。
+            API Key 仅保存在浏览器的 localStorage 中，只会发送给所选的模型服务；提取结果、全文与原始 PDF 保存在本机 IndexedDB 中。
           </p>
 
+          <StorageUsageSummary />
+          <ExtractionCacheSummary />
+
+          <WorkspaceBackupPanel
+            onExport={onExportWorkspace}
+            onImport={onImportWorkspace}
+          />
+
           <button
             type="button"
             onClick={() => onClearRecords()}
@@ -705,6 +2508,567 @@ function SettingsPanel({ settings, onChange, onClearRecords }: SettingsPanelProp
   );
 }
 
+type EnsembleSettingsEditorProps = {
+  settings: StoredSettings;
+  onChange: (partial: Partial<StoredSettings>) => void;
+};
+
+function EnsembleSettingsEditor({ settings, onChange }: EnsembleSettingsEditorProps) {
+  const ensemble = getEnsembleSettings(settings);
+  const providers = settings.providers ?? [];
+  const members = getEnsembleMembers(settings, getActiveProvider(settings));
+  const update = (partial: Partial<EnsembleSettings>) =>
+    onChange({ ensemble: { ...ensemble, ...partial } });
+  const toggleProvider = (id: string) =>
+    update({
+      providerIds: ensemble.providerIds.includes(id)
+        ? ensemble.providerIds.filter((item) => item !== id)
+        : [...ensemble.providerIds, id],
+    });
+  const usesSamples = ensemble.providerIds.filter((id) =>
+    providers.some((provider) => provider.id === id),
+  ).length < 2;
+
+  return (
+    <div className="mt-4 border-t border-slate-100 pt-3">
+      <label className="flex items-start gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={ensemble.enabled}
+          onChange={(event) => update({ enabled: event.target.checked })}
+          className="mt-0.5 h-4 w-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>
+          <span className="font-semibold text-slate-700">集成提取（多模型投票）</span>
+          <span className="block text-slate-400">
+            每篇文献运行多次并按实体对齐投票，得票不足的字段置空；费用随运行次数成倍增加。
+          </span>
+        </span>
+      </label>
+
+      {ensemble.enabled && (
+        <div className="mt-2 space-y-2 text-[11px] text-slate-500">
+          <div>
+            <p>参与投票的模型（勾选两个及以上时各运行一次，最多 {MAX_ENSEMBLE_RUNS} 个）</p>
+            <div className="mt-1 flex flex-wrap gap-2">
+              {providers.map((provider) => (
+                <label
+                  key={provider.id}
+                  className="flex items-center gap-1 rounded-full border border-slate-200 px-2 py-0.5"
+                >
+                  <input
+                    type="checkbox"
+                    checked={ensemble.providerIds.includes(provider.id)}
+                    onChange={() => toggleProvider(provider.id)}
+                    className="h-3 w-3 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  {provider.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className={clsx("block", !usesSamples && "opacity-50")}>
+              当前模型采样次数
+              <input
+                type="number"
+                min={2}
+                max={MAX_ENSEMBLE_RUNS}
+                disabled={!usesSamples}
+                value={ensemble.samples}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  if (Number.isFinite(value)) {
+                    update({
+                      samples: Math.min(MAX_ENSEMBLE_RUNS, Math.max(2, Math.round(value))),
+                    });
+                  }
+                }}
+                className="mt-1 w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 focus:border-primary-300 focus:outline-none focus:ring-2 focus:ring-primary-100"
+              />
+            </label>
+            <label className="block">
+              票数阈值（%）
+              <input
+                type="number"
+                min={1}
+                max={100}
+                step={5}
+                value={Math.round(ensemble.voteThreshold * 100)}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  if (Number.isFinite(value)) {
+                    update({ voteThreshold: Math.min(100, Math.max(1, value)) / 100 });
+                  }
+                }}
+                className="mt-1 w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 focus:border-primary-300 focus:outline-none focus:ring-2 focus:ring-primary-100"
+              />
+            </label>
+          </div>
+          <p className="text-slate-400">
+            当前配置：{members.length} 次运行，字段至少需要{" "}
+            {Math.max(1, Math.ceil(members.length * ensemble.voteThreshold - 1e-9))} 票。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type ModelPriceEditorProps = {
+  prices: ModelPrice[];
+  onChange: (prices: ModelPrice[]) => void;
+};
+
+function ModelPriceEditor({ prices, onChange }: ModelPriceEditorProps) {
+  const updatePrice = (index: number, partial: Partial<ModelPrice>) =>
+    onChange(prices.map((price, i) => (i === index ? { ...price, ...partial } : price)));
+  const parsePrice = (value: string) => {
+    const number = Number(value);
+    return Number.isFinite(number) && number >= 0 ? number : 0;
+  };
+
+  return (
+    <div className="mt-4 border-t border-slate-100 pt-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-slate-700">模型价格（美元 / 百万 tokens）</p>
+        <button
+          type="button"
+          onClick={() =>
+            onChange([...prices, { model: "", promptPerMillion: 0, completionPerMillion: 0 }])
+          }
+          className="text-xs font-medium text-primary-600 transition hover:text-primary-500"
+        >
+          添加
+        </button>
+      </div>
+      <div className="mt-2 grid grid-cols-[1fr_64px_64px_auto] items-center gap-2 text-[11px] text-slate-400">
+        <span>模型</span>
+        <span>输入</span>
+        <span>输出</span>
+        <span />
+        {prices.map((price, index) => (
+          <Fragment key={index}>
+            <input
+              type="text"
+              value={price.model}
+              placeholder="deepseek/deepseek-chat"
+              onChange={(event) => updatePrice(index, { model: event.target.value })}
+              className="min-w-0 rounded-md border border-slate-200 bg-slate-50 px-2 py-1 text-xs text-slate-700 focus:border-primary-300 focus:outline-none"
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={price.promptPerMillion}
+              onChange={(event) =>
+                updatePrice(index, { promptPerMillion: parsePrice(event.target.value) })
+              }
+              className="rounded-md border border-slate-200 bg-slate-50 px-2 py-1 text-xs text-slate-700 focus:border-primary-300 focus:outline-none"
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={price.completionPerMillion}
+              onChange={(event) =>
+                updatePrice(index, { completionPerMillion: parsePrice(event.target.value) })
+              }
+              className="rounded-md border border-slate-200 bg-slate-50 px-2 py-1 text-xs text-slate-700 focus:border-primary-300 focus:outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(prices.filter((_, i) => i !== index))}
+              className="text-xs text-slate-400 transition hover:text-red-500"
+            >
+              删除
+            </button>
+          </Fragment>
+        ))}
+      </div>
+      <p className="mt-2 text-[11px] text-slate-400">
+        默认价格仅供参考，请以服务商当前报价为准；模型名可省略 OpenRouter 的厂商前缀。
+      </p>
+    </div>
+  );
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function ExtractionCacheSummary() {
+  const [stats, setStats] = useState<ExtractionCacheStats | null>(null);
+
+  function refresh() {
+    return getExtractionCacheStats().then(setStats);
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    getExtractionCacheStats().then((result) => {
+      if (!cancelled) setStats(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!stats) return null;
+
+  const lookups = stats.hits + stats.misses;
+  return (
+    <div className="mt-3 rounded-lg border border-slate-200 p-3 text-xs text-slate-600">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-slate-700">提取结果缓存</span>
+        <button
+          type="button"
+          onClick={() =>
+            clearExtractionCache()
+              .then(refresh)
+              .catch((error) => console.error("无法清空提取结果缓存", error))
+          }
+          disabled={!stats.entryCount && !lookups}
+          className="text-slate-400 transition hover:text-red-500 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          清空缓存
+        </button>
+      </div>
+      <p className="mt-1">
+        {stats.entryCount} 段结果 · 约 {formatBytes(stats.approximateBytes)} · 命中率{" "}
+        {lookups
+          ? `${Math.round((stats.hits / lookups) * 100)}%（${stats.hits}/${lookups}）`
+          : "—"}
+      </p>
+      <p className="mt-1 text-slate-400">
+        相同原文、模型、提示词版本与字段模板的分块直接复用结果，不再调用模型。
+      </p>
+    </div>
+  );
+}
+
+function StorageUsageSummary() {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getStorageUsage().then((result) => {
+      if (!cancelled) setUsage(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!usage) return null;
+
+  const ratio =
+    usage.usage != null && usage.quota ? usage.usage / usage.quota : null;
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-200 p-3 text-xs text-slate-600">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-slate-700">本地存储（IndexedDB）</span>
+        <span className="text-slate-400">结构版本 v{usage.schemaVersion}</span>
+      </div>
+      <p className="mt-1">
+        {usage.recordCount} 条记录
+        {usage.usage != null && usage.quota != null
+          ? ` · 已用 ${formatBytes(usage.usage)} / 配额 ${formatBytes(usage.quota)}`
+          : " · 浏览器未提供配额信息"}
+      </p>
+      {ratio != null && (
+        <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-slate-100">
+          <div
+            className={clsx(
+              "h-full rounded-full",
+              ratio > 0.9 ? "bg-red-500" : "bg-primary-500",
+            )}
+            style={{ width: `${Math.min(100, Math.max(1, ratio * 100))}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+type WorkspaceBackupPanelProps = {
+  onExport: () => Promise<void>;
+  onImport: (
+    file: File,
+    strategy: BackupMergeStrategy,
+  ) => Promise<BackupImportReport>;
+};
+
+function WorkspaceBackupPanel({ onExport, onImport }: WorkspaceBackupPanelProps) {
+  const [strategy, setStrategy] = useState<BackupMergeStrategy>("skip");
+  const [isBusy, setIsBusy] = useState(false);
+  const [report, setReport] = useState<BackupImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleImport(file: File) {
+    setIsBusy(true);
+    setError(null);
+    setReport(null);
+    try {
+      setReport(await onImport(file, strategy));
+    } catch (importError) {
+      console.error(importError);
+      setError(
+        importError instanceof Error ? importError.message : "导入失败，请重试。",
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-200 p-3 text-xs text-slate-600">
+      <p className="font-medium text-slate-700">工作区备份</p>
+      <p className="mt-1 text-slate-500">
+        导出全部提取记录、原文与非敏感设置，用于迁移到其他设备。
+      </p>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={isBusy}
+          onClick={() => {
+            setIsBusy(true);
+            onExport().finally(() => setIsBusy(false));
+          }}
+          className="rounded-full border border-slate-200 px-3 py-1 font-medium text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+        >
+          导出备份
+        </button>
+        <label className="cursor-pointer rounded-full border border-slate-200 px-3 py-1 font-medium text-slate-600 transition hover:border-primary-200 hover:text-primary-600">
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="sr-only"
+            disabled={isBusy}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) void handleImport(file);
+            }}
+          />
+          导入备份
+        </label>
+        <select
+          aria-label="重复记录处理方式"
+          value={strategy}
+          onChange={(event) =>
+            setStrategy(event.target.value as BackupMergeStrategy)
+          }
+          className="rounded-full border border-slate-200 bg-white px-2 py-1"
+        >
+          <option value="skip">已存在的记录：跳过</option>
+          <option value="merge">已存在的记录：合并实体</option>
+        </select>
+      </div>
+
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+      {report && (
+        <div className="mt-2 space-y-1">
+          <p>
+            新增 {report.added.length} · 合并 {report.merged.length} · 跳过{" "}
+            {report.skipped.length} · 拒绝 {report.rejected.length}
+          </p>
+          {report.rejected.length > 0 && (
+            <ul className="max-h-24 list-disc overflow-y-auto pl-4 text-red-600 scrollbar-thin">
+              {report.rejected.map((item) => (
+                <li key={item.index}>
+                  第 {item.index + 1} 条{item.fileName ? `（${item.fileName}）` : ""}：
+                  {item.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type ProviderProfilesEditorProps = {
+  providers: ProviderProfile[];
+  activeProviderId?: string;
+  onChange: (partial: Partial<StoredSettings>) => void;
+};
+
+function ProviderProfilesEditor({
+  providers,
+  activeProviderId,
+  onChange,
+}: ProviderProfilesEditorProps) {
+  const [editingId, setEditingId] = useState<string | null>(
+    activeProviderId ?? providers[0]?.id ?? null,
+  );
+  const editing =
+    providers.find((provider) => provider.id === editingId) ?? providers[0];
+  const defaults = editing ? getProviderDefaults(editing.kind) : null;
+  const inputClassName =
+    "mt-1 w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700 focus:border-primary-300 focus:outline-none focus:ring-2 focus:ring-primary-100";
+
+  function updateProvider(id: string, partial: Partial<ProviderProfile>) {
+    onChange({
+      providers: providers.map((provider) =>
+        provider.id === id ? { ...provider, ...partial } : provider,
+      ),
+    });
+  }
+
+  function addProvider(kind: ProviderKind) {
+    const profile = createProviderProfile(kind);
+    onChange({
+      providers: [...providers, profile],
+      activeProviderId: activeProviderId ?? profile.id,
+    });
+    setEditingId(profile.id);
+  }
+
+  function removeProvider(id: string) {
+    const next = providers.filter((provider) => provider.id !== id);
+    onChange({
+      providers: next,
+      activeProviderId:
+        activeProviderId === id ? next[0]?.id : activeProviderId,
+    });
+    setEditingId(next[0]?.id ?? null);
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      <ul className="space-y-1">
+        {providers.map((provider) => (
+          <li key={provider.id} className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="active-provider"
+              aria-label={`默认使用 ${provider.name}`}
+              checked={provider.id === (activeProviderId ?? providers[0]?.id)}
+              onChange={() => onChange({ activeProviderId: provider.id })}
+            />
+            <button
+              type="button"
+              onClick={() => setEditingId(provider.id)}
+              className={clsx(
+                "flex-1 rounded-lg px-2 py-1 text-left text-xs transition",
+                provider.id === editing?.id
+                  ? "bg-primary-50 text-primary-700"
+                  : "text-slate-600 hover:bg-slate-50",
+              )}
+            >
+              <span className="font-medium">{provider.name}</span>
+              <span className="ml-1 text-slate-400">
+                {resolveProviderModel(provider)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap gap-2">
+        {PROVIDER_KINDS.map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => addProvider(kind)}
+            className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-medium text-slate-600 transition hover:border-primary-200 hover:text-primary-600"
+          >
+            + {getProviderLabel(kind)}
+          </button>
+        ))}
+      </div>
+
+      {editing && defaults && (
+        <div className="rounded-xl border border-slate-200 p-3">
+          <label className="block text-xs font-medium text-slate-500">
+            配置名称
+            <input
+              type="text"
+              value={editing.name}
+              onChange={(event) =>
+                updateProvider(editing.id, { name: event.target.value })
+              }
+              className={inputClassName}
+            />
+          </label>
+
+          <label className="mt-3 block text-xs font-medium text-slate-500">
+            接口类型
+            <select
+              value={editing.kind}
+              onChange={(event) =>
+                updateProvider(editing.id, {
+                  kind: event.target.value as ProviderKind,
+                })
+              }
+              className={inputClassName}
+            >
+              {PROVIDER_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {getProviderLabel(kind)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="mt-3 block text-xs font-medium text-slate-500">
+            Base URL（可选）
+            <input
+              type="url"
+              placeholder={defaults.defaultBaseUrl}
+              value={editing.baseUrl ?? ""}
+              onChange={(event) =>
+                updateProvider(editing.id, { baseUrl: event.target.value.trim() })
+              }
+              className={inputClassName}
+            />
+          </label>
+
+          <label className="mt-3 block text-xs font-medium text-slate-500">
+            API Key{defaults.requiresApiKey ? "" : "（可选）"}
+            <input
+              type="password"
+              autoComplete="off"
+              placeholder={defaults.keyPlaceholder}
+              value={editing.apiKey ?? ""}
+              onChange={(event) =>
+                updateProvider(editing.id, { apiKey: event.target.value.trim() })
+              }
+              className={inputClassName}
+            />
+          </label>
+
+          <label className="mt-3 block text-xs font-medium text-slate-500">
+            模型（可选）
+            <input
+              type="text"
+              placeholder={`默认 ${defaults.defaultModel}`}
+              value={editing.model ?? ""}
+              onChange={(event) =>
+                updateProvider(editing.id, { model: event.target.value.trim() })
+              }
+              className={inputClassName}
+            />
+          </label>
+
+          <button
+            type="button"
+            onClick={() => removeProvider(editing.id)}
+            className="mt-3 text-xs font-medium text-slate-400 transition hover:text-red-500"
+          >
+            删除此配置
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 type AlertStackProps = {
   alerts: AlertMessage[];
   onDismiss: (id: string) => void;
@@ -0,0 +1,142 @@
+"use client";
+
+import { getComparedFields } from "@/lib/comparison";
+import { entityLabel } from "@/lib/curation";
+import { acceptRejectedEntity, dismissRejectedEntity } from "@/lib/ensemble";
+import { estimateCost, formatCost, formatTokens, totalTokens } from "@/lib/usage";
+import type { ExtractionRecord, ModelPrice } from "@/types/extraction";
+
+type EnsembleReviewPanelProps = {
+  record: ExtractionRecord;
+  modelPrices: ModelPrice[];
+  actor: string;
+  onChange: (record: ExtractionRecord) => void;
+};
+
+/** 集成提取的各次运行、存在分歧的实体以及票数不足的实体 */
+export function EnsembleReviewPanel({
+  record,
+  modelPrices,
+  actor,
+  onChange,
+}: EnsembleReviewPanelProps) {
+  const ensemble = record.ensemble;
+  if (!ensemble) return null;
+
+  const fieldLabels = new Map(
+    getComparedFields(record.fieldDefinitions).map((field) => [field.key, field.label]),
+  );
+  const disputed = record.entities.filter(
+    (entity) => entity.ensemble?.disagreements.length,
+  );
+  const threshold = `${Math.round(ensemble.voteThreshold * 100)}%`;
+
+  return (
+    <details className="rounded-xl border border-slate-200 bg-white p-3 text-xs">
+      <summary className="cursor-pointer font-semibold text-slate-600">
+        集成投票（{ensemble.runs.length} 次运行 · 阈值 {threshold} · 分歧 {disputed.length} ·
+        未采纳 {ensemble.rejected.length}）
+      </summary>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {ensemble.runs.map((run, index) => (
+          <span
+            key={`${run.label}-${index}`}
+            className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-slate-600"
+          >
+            {run.label}
+            <span className="text-slate-400">
+              {" "}
+              · {run.model ?? "未知模型"} · {run.entityCount} 个实体
+              {run.usage &&
+                ` · ${formatTokens(totalTokens(run.usage))} tokens · ${formatCost(
+                  estimateCost(run.usage, run.model, modelPrices),
+                )}`}
+            </span>
+          </span>
+        ))}
+      </div>
+
+      {disputed.length > 0 && (
+        <div className="mt-4">
+          <p className="font-semibold text-slate-600">存在分歧的实体</p>
+          <p className="mt-1 text-slate-400">
+            得票不足 {threshold} 的取值已置空；括号内为票数，加粗的为采纳的取值。
+          </p>
+          <ul className="mt-2 space-y-2">
+            {disputed.map((entity) => (
+              <li key={entity.id} className="rounded-lg bg-slate-50 p-2">
+                <p className="font-medium text-slate-700">
+                  {entityLabel(entity)}
+                  <span className="ml-2 font-normal text-slate-400">
+                    {entity.ensemble?.support}/{entity.ensemble?.runs} 次运行识别
+                  </span>
+                </p>
+                <dl className="mt-1 grid gap-1 sm:grid-cols-[8rem_1fr]">
+                  {entity.ensemble?.disagreements.map((vote) => (
+                    <div key={vote.key} className="contents">
+                      <dt className="text-slate-500">
+                        {fieldLabels.get(vote.key) ?? vote.key}
+                      </dt>
+                      <dd className="text-slate-600">
+                        {vote.candidates.map((candidate, index) => (
+                          <span key={`${candidate.value}-${index}`}>
+                            {index > 0 && "；"}
+                            <span
+                              className={
+                                candidate.accepted ? "font-semibold text-slate-800" : undefined
+                              }
+                            >
+                              {candidate.value}
+                            </span>
+                            （{candidate.votes}）
+                          </span>
+                        ))}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {ensemble.rejected.length > 0 && (
+        <div className="mt-4">
+          <p className="font-semibold text-slate-600">未采纳的实体</p>
+          <p className="mt-1 text-slate-400">
+            识别到这些实体的运行不足 {threshold}，未计入结果。添加后默认未核实。
+          </p>
+          <ul className="mt-2 divide-y divide-slate-100">
+            {ensemble.rejected.map((entity) => (
+              <li key={entity.id} className="flex flex-wrap items-center gap-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium text-slate-700">{entityLabel(entity)}</p>
+                  <p className="text-slate-400">
+                    {entity.ensemble?.support}/{entity.ensemble?.runs} 次运行识别
+                    {entity.context && ` · ${entity.context}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onChange(acceptRejectedEntity(record, entity.id, actor))}
+                  className="rounded-full border border-primary-200 px-3 py-1 font-semibold text-primary-600 transition hover:bg-primary-50"
+                >
+                  添加到记录
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(dismissRejectedEntity(record, entity.id))}
+                  className="text-slate-400 transition hover:text-red-500"
+                >
+                  忽略
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </details>
+  );
+}
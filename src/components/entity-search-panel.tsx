@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { clsx } from "clsx";
+import {
+  binomialName,
+  computeFacetCounts,
+  emptySearchQuery,
+  highlightSegments,
+  indexEntities,
+  isEmptySearchQuery,
+  normalizeSequenceType,
+  parseSearchTerms,
+  SEARCH_FACET_LABELS,
+  SEARCH_FACETS,
+  searchEntities,
+  searchSnippet,
+} from "@/lib/search";
+import type { EntitySearchQuery, FacetCount, SearchFacet } from "@/lib/search";
+import { formatResistanceEntry, getResistanceEntries } from "@/lib/resistance";
+import type { ExtractionRecord } from "@/types/extraction";
+
+const PAGE_SIZE = 100;
+const FACET_PREVIEW = 8;
+
+type EntitySearchPanelProps = {
+  records: ExtractionRecord[];
+  /** 检索条件由外层保存，切换视图后不会丢失 */
+  query: EntitySearchQuery;
+  onQueryChange: (query: EntitySearchQuery) => void;
+  onOpenEntity: (recordId: string, entityId: string) => void;
+};
+
+export function EntitySearchPanel({
+  records,
+  query,
+  onQueryChange,
+  onOpenEntity,
+}: EntitySearchPanelProps) {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const index = useMemo(() => indexEntities(records), [records]);
+  const hits = useMemo(() => searchEntities(index, query), [index, query]);
+  const facetCounts = useMemo(() => computeFacetCounts(index, query), [index, query]);
+  const terms = parseSearchTerms(query.text);
+  const recordCount = new Set(hits.map((hit) => hit.record.id)).size;
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [query]);
+
+  const toggleFacet = (facet: SearchFacet, value: string) => {
+    const selected = query.facets[facet];
+    const next = selected.some((item) => item.toLowerCase() === value.toLowerCase())
+      ? selected.filter((item) => item.toLowerCase() !== value.toLowerCase())
+      : [...selected, value];
+    onQueryChange({ ...query, facets: { ...query.facets, [facet]: next } });
+  };
+
+  const setConfidence = (key: "minConfidence" | "maxConfidence", input: string) => {
+    const percent = input.trim() === "" ? null : Number(input);
+    onQueryChange({
+      ...query,
+      [key]:
+        percent == null || !Number.isFinite(percent)
+          ? null
+          : Math.min(Math.max(percent, 0), 100) / 100,
+    });
+  };
+
+  const highlight = (text: string) =>
+    highlightSegments(text, terms).map((segment, segmentIndex) =>
+      segment.match ? (
+        <mark key={segmentIndex} className="rounded bg-amber-100 px-0.5 text-slate-900">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={segmentIndex}>{segment.text}</span>
+      ),
+    );
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+      <aside className="space-y-4 rounded-2xl border border-slate-200 bg-white/80 p-4 text-xs shadow-sm">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-700">筛选</h3>
+          <button
+            type="button"
+            disabled={isEmptySearchQuery(query)}
+            onClick={() => onQueryChange(emptySearchQuery())}
+            className="text-slate-500 transition hover:text-primary-600 disabled:opacity-40"
+          >
+            清除条件
+          </button>
+        </div>
+
+        {SEARCH_FACETS.map((facet) => (
+          <FacetList
+            key={facet}
+            label={SEARCH_FACET_LABELS[facet]}
+            counts={facetCounts[facet]}
+            selected={query.facets[facet]}
+            onToggle={(value) => toggleFacet(facet, value)}
+          />
+        ))}
+
+        <div>
+          <p className="font-medium text-slate-500">置信度（%）</p>
+          <div className="mt-2 flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="0"
+              value={query.minConfidence == null ? "" : Math.round(query.minConfidence * 100)}
+              onChange={(event) => setConfidence("minConfidence", event.target.value)}
+              className="w-16 rounded-lg border border-slate-200 px-2 py-1 focus:border-primary-400 focus:outline-none"
+            />
+            <span className="text-slate-400">至</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="100"
+              value={query.maxConfidence == null ? "" : Math.round(query.maxConfidence * 100)}
+              onChange={(event) => setConfidence("maxConfidence", event.target.value)}
+              className="w-16 rounded-lg border border-slate-200 px-2 py-1 focus:border-primary-400 focus:outline-none"
+            />
+          </div>
+          <p className="mt-1 text-[11px] text-slate-400">设置范围后将排除没有置信度的实体。</p>
+        </div>
+      </aside>
+
+      <article className="flex flex-col gap-4 rounded-2xl border border-slate-200 bg-white/90 p-6 shadow-sm">
+        <div>
+          <input
+            type="search"
+            value={query.text}
+            onChange={(event) => onQueryChange({ ...query, text: event.target.value })}
+            placeholder="检索菌种、ST、来源、耐药、上下文……如 K. pneumoniae ST258 blood"
+            className="w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-primary-400 focus:outline-none"
+          />
+          <p className="mt-2 text-xs text-slate-500">
+            多个词之间为“且”，用双引号检索完整短语。共 {hits.length} 个实体，来自{" "}
+            {recordCount} 篇文献。
+          </p>
+        </div>
+
+        {!hits.length ? (
+          <div className="rounded-xl border border-dashed border-slate-200 bg-slate-50/60 p-8 text-center text-sm text-slate-500">
+            没有符合条件的实体。
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-slate-200 scrollbar-thin">
+            <table className="min-w-full border-collapse text-left text-xs">
+              <thead className="bg-slate-100 text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">文献</th>
+                  <th className="px-3 py-2 font-semibold">菌种 / 菌株</th>
+                  <th className="px-3 py-2 font-semibold">ST</th>
+                  <th className="px-3 py-2 font-semibold">分离来源</th>
+                  <th className="px-3 py-2 font-semibold">耐药</th>
+                  <th className="px-3 py-2 font-semibold">置信度</th>
+                  <th className="px-3 py-2 font-semibold">上下文</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 align-top text-slate-700">
+                {hits.slice(0, visibleCount).map(({ record, entity }) => (
+                  <tr key={`${record.id}:${entity.id}`} className="hover:bg-slate-50">
+                    <td className="max-w-[160px] px-3 py-2">
+                      <button
+                        type="button"
+                        onClick={() => onOpenEntity(record.id, entity.id)}
+                        title={record.fileName}
+                        className="line-clamp-2 text-left text-primary-600 transition hover:text-primary-500"
+                      >
+                        {record.fileName}
+                      </button>
+                    </td>
+                    <td className="px-3 py-2">
+                      <p className="font-medium italic text-slate-800">
+                        {highlight(binomialName(entity) ?? entity.genus ?? "—")}
+                      </p>
+                      {entity.strain && (
+                        <p className="text-slate-500">{highlight(entity.strain)}</p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {highlight(normalizeSequenceType(entity.mlst_st) ?? "—")}
+                    </td>
+                    <td className="max-w-[160px] px-3 py-2">{highlight(entity.source ?? "—")}</td>
+                    <td className="max-w-[200px] px-3 py-2">
+                      {highlight(
+                        getResistanceEntries(entity).map(formatResistanceEntry).join("；") ||
+                          "—",
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {entity.confidence != null
+                        ? `${(entity.confidence * 100).toFixed(0)}%`
+                        : "—"}
+                    </td>
+                    <td className="max-w-[280px] px-3 py-2 text-slate-500">
+                      {entity.context ? highlight(searchSnippet(entity.context, terms)) : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {hits.length > visibleCount && (
+              <button
+                type="button"
+                onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+                className="w-full border-t border-slate-200 py-2 text-xs text-primary-600 transition hover:bg-slate-50"
+              >
+                显示更多（还有 {hits.length - visibleCount} 个）
+              </button>
+            )}
+          </div>
+        )}
+      </article>
+    </div>
+  );
+}
+
+type FacetListProps = {
+  label: string;
+  counts: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+};
+
+function FacetList({ label, counts, selected, onToggle }: FacetListProps) {
+  const [expanded, setExpanded] = useState(false);
+  const isSelected = (value: string) =>
+    selected.some((item) => item.toLowerCase() === value.toLowerCase());
+  // 已选中的取值始终显示在前面
+  const ordered = [
+    ...counts.filter((item) => isSelected(item.value)),
+    ...counts.filter((item) => !isSelected(item.value)),
+  ];
+  const visible = expanded ? ordered : ordered.slice(0, FACET_PREVIEW);
+
+  return (
+    <div>
+      <p className="font-medium text-slate-500">
+        {label}
+        {selected.length > 0 && <span className="text-primary-600">（已选 {selected.length}）</span>}
+      </p>
+      {!counts.length ? (
+        <p className="mt-1 text-slate-400">无</p>
+      ) : (
+        <ul className="mt-1 max-h-64 space-y-0.5 overflow-y-auto pr-1 scrollbar-thin">
+          {visible.map((item) => (
+            <li key={item.value}>
+              <label
+                className={clsx(
+                  "flex cursor-pointer items-start gap-2 rounded px-1 py-0.5 hover:bg-slate-50",
+                  item.count === 0 && "text-slate-400",
+                )}
+              >
+                <input
+                  type="checkbox"
+                  checked={isSelected(item.value)}
+                  onChange={() => onToggle(item.value)}
+                  className="mt-0.5 h-3.5 w-3.5 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="min-w-0 flex-1 break-words text-slate-700">{item.value}</span>
+                <span className="text-slate-400">{item.count}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+      {ordered.length > FACET_PREVIEW && (
+        <button
+          type="button"
+          onClick={() => setExpanded((value) => !value)}
+          className="mt-1 text-primary-600 transition hover:text-primary-500"
+        >
+          {expanded ? "收起" : `展开全部（${ordered.length}）`}
+        </button>
+      )}
+    </div>
+  );
+}
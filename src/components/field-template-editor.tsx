@@ -0,0 +1,349 @@
+"use client";
+
+import { useState } from "react";
+import { clsx } from "clsx";
+import {
+  BUILT_IN_FIELDS,
+  EXAMPLE_FIELDS,
+  FIELD_TYPE_LABELS,
+  validateFieldDefinitions,
+} from "@/lib/fields";
+import type {
+  ExtractionTemplate,
+  FieldDefinition,
+  FieldType,
+} from "@/types/extraction";
+
+type FieldTemplateEditorProps = {
+  templates: ExtractionTemplate[];
+  activeTemplateId?: string;
+  onSave: (templates: ExtractionTemplate[], activeTemplateId?: string) => void;
+  onClose: () => void;
+};
+
+const FIELD_TYPES = Object.keys(FIELD_TYPE_LABELS) as FieldType[];
+
+const inputClassName =
+  "w-full rounded-md border border-slate-200 bg-slate-50 px-2 py-1 text-xs text-slate-700 focus:border-primary-300 focus:outline-none";
+
+function createTemplate(name: string, fields: FieldDefinition[] = []): ExtractionTemplate {
+  return { id: crypto.randomUUID(), name, fields, instructions: "" };
+}
+
+export function FieldTemplateEditor({
+  templates,
+  activeTemplateId,
+  onSave,
+  onClose,
+}: FieldTemplateEditorProps) {
+  const [drafts, setDrafts] = useState<ExtractionTemplate[]>(() =>
+    templates.length ? templates : [createTemplate("自定义模板")],
+  );
+  const [selectedId, setSelectedId] = useState(
+    drafts.find((template) => template.id === activeTemplateId)?.id ?? drafts[0].id,
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = drafts.find((template) => template.id === selectedId) ?? drafts[0];
+
+  const updateTemplate = (partial: Partial<ExtractionTemplate>) => {
+    setError(null);
+    setDrafts((current) =>
+      current.map((template) =>
+        template.id === selected.id ? { ...template, ...partial } : template,
+      ),
+    );
+  };
+
+  const updateField = (index: number, partial: Partial<FieldDefinition>) =>
+    updateTemplate({
+      fields: selected.fields.map((field, i) =>
+        i === index ? { ...field, ...partial } : field,
+      ),
+    });
+
+  const addTemplate = () => {
+    const template = createTemplate(`自定义模板 ${drafts.length + 1}`);
+    setDrafts((current) => [...current, template]);
+    setSelectedId(template.id);
+  };
+
+  const removeTemplate = () => {
+    const rest = drafts.filter((template) => template.id !== selected.id);
+    setDrafts(rest);
+    setSelectedId(rest[0]?.id ?? "");
+  };
+
+  const addExampleFields = () => {
+    const existing = new Set(selected.fields.map((field) => field.key));
+    updateTemplate({
+      fields: [
+        ...selected.fields,
+        ...EXAMPLE_FIELDS.filter((field) => !existing.has(field.key)),
+      ],
+    });
+  };
+
+  const save = () => {
+    for (const template of drafts) {
+      if (!template.name.trim()) {
+        setSelectedId(template.id);
+        setError("模板名称不能为空。");
+        return;
+      }
+      const message = validateFieldDefinitions(template.fields);
+      if (message) {
+        setSelectedId(template.id);
+        setError(`「${template.name}」：${message}`);
+        return;
+      }
+    }
+    const nextActive = drafts.some((template) => template.id === activeTemplateId)
+      ? activeTemplateId
+      : undefined;
+    onSave(
+      drafts.map((template) => ({
+        ...template,
+        name: template.name.trim(),
+        fields: template.fields.map((field) => ({
+          ...field,
+          label: field.label.trim(),
+          description: field.description.trim(),
+        })),
+      })),
+      nextActive,
+    );
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/30 p-4">
+      <div className="flex max-h-[85vh] w-full max-w-4xl flex-col rounded-2xl border border-slate-200 bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-slate-200 px-5 py-3">
+          <div>
+            <p className="text-sm font-semibold text-slate-800">提取字段模板</p>
+            <p className="text-xs text-slate-500">
+              模板中的字段会加入提示词、结果表格与导出；内置字段始终保留。
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs text-slate-400 transition hover:text-red-500"
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="grid flex-1 gap-4 overflow-hidden px-5 py-4 text-sm md:grid-cols-[180px_1fr]">
+          <div className="space-y-2 overflow-y-auto scrollbar-thin">
+            {drafts.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => setSelectedId(template.id)}
+                className={clsx(
+                  "block w-full rounded-lg border px-3 py-2 text-left text-xs transition",
+                  template.id === selected?.id
+                    ? "border-primary-200 bg-primary-50 text-primary-700"
+                    : "border-slate-200 text-slate-600 hover:border-primary-200",
+                )}
+              >
+                <p className="font-semibold">{template.name || "未命名模板"}</p>
+                <p className="mt-0.5 text-slate-400">{template.fields.length} 个自定义字段</p>
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={addTemplate}
+              className="w-full rounded-lg border border-dashed border-slate-300 px-3 py-2 text-xs text-slate-500 transition hover:border-primary-300 hover:text-primary-600"
+            >
+              新建模板
+            </button>
+          </div>
+
+          {selected ? (
+            <div className="space-y-4 overflow-y-auto pr-1 scrollbar-thin">
+              <div className="flex items-end gap-3">
+                <label className="flex-1 text-xs font-medium text-slate-500">
+                  模板名称
+                  <input
+                    type="text"
+                    value={selected.name}
+                    onChange={(event) => updateTemplate({ name: event.target.value })}
+                    className={clsx(inputClassName, "mt-1 py-1.5 text-sm")}
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={removeTemplate}
+                  className="rounded-full border border-red-200 px-3 py-1.5 text-xs text-red-600 transition hover:bg-red-50"
+                >
+                  删除模板
+                </button>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-medium text-slate-500">自定义字段</p>
+                  <div className="flex gap-3 text-xs">
+                    <button
+                      type="button"
+                      onClick={addExampleFields}
+                      className="text-slate-500 transition hover:text-primary-600"
+                    >
+                      插入示例字段
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateTemplate({
+                          fields: [
+                            ...selected.fields,
+                            { key: "", label: "", type: "string", description: "", array: false },
+                          ],
+                        })
+                      }
+                      className="font-medium text-primary-600 transition hover:text-primary-500"
+                    >
+                      添加字段
+                    </button>
+                  </div>
+                </div>
+                {selected.fields.length ? (
+                  <div className="mt-2 grid grid-cols-[120px_100px_90px_40px_1fr_auto] items-center gap-2 text-[11px] text-slate-400">
+                    <span>字段名（JSON 键）</span>
+                    <span>显示名称</span>
+                    <span>类型</span>
+                    <span>数组</span>
+                    <span>说明（写入提示词）</span>
+                    <span />
+                    {selected.fields.map((field, index) => (
+                      <FieldRow
+                        key={index}
+                        field={field}
+                        onChange={(partial) => updateField(index, partial)}
+                        onRemove={() =>
+                          updateTemplate({
+                            fields: selected.fields.filter((_, i) => i !== index),
+                          })
+                        }
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <p className="mt-2 rounded-lg bg-slate-50 p-3 text-xs text-slate-500">
+                    尚未添加字段，例如宿主、国家、采集年份、质粒复制子或测序平台。
+                  </p>
+                )}
+              </div>
+
+              <label className="block text-xs font-medium text-slate-500">
+                附加提示词（可选）
+                <textarea
+                  rows={3}
+                  value={selected.instructions ?? ""}
+                  placeholder="例如：country 使用英文国家名；collection_year 只填写四位数年份。"
+                  onChange={(event) => updateTemplate({ instructions: event.target.value })}
+                  className={clsx(inputClassName, "mt-1 py-1.5")}
+                />
+              </label>
+
+              <div>
+                <p className="text-xs font-medium text-slate-500">内置字段</p>
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {BUILT_IN_FIELDS.map((field) => (
+                    <span
+                      key={field.key}
+                      className="rounded bg-slate-100 px-1.5 py-0.5 text-[11px] text-slate-500"
+                    >
+                      {field.label} · {field.key}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">没有自定义模板，点击“新建模板”开始。</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 border-t border-slate-200 px-5 py-3">
+          {error && <p className="mr-auto text-xs text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-slate-300"
+          >
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            className="rounded-full bg-primary-600 px-4 py-2 text-xs font-semibold text-white transition hover:bg-primary-500"
+          >
+            保存模板
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type FieldRowProps = {
+  field: FieldDefinition;
+  onChange: (partial: Partial<FieldDefinition>) => void;
+  onRemove: () => void;
+};
+
+function FieldRow({ field, onChange, onRemove }: FieldRowProps) {
+  return (
+    <>
+      <input
+        type="text"
+        value={field.key}
+        placeholder="host"
+        onChange={(event) => onChange({ key: event.target.value.trim() })}
+        className={clsx(inputClassName, "font-mono")}
+      />
+      <input
+        type="text"
+        value={field.label}
+        placeholder="宿主"
+        onChange={(event) => onChange({ label: event.target.value })}
+        className={inputClassName}
+      />
+      <select
+        value={field.type}
+        onChange={(event) => onChange({ type: event.target.value as FieldType })}
+        className={inputClassName}
+      >
+        {FIELD_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {FIELD_TYPE_LABELS[type]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="checkbox"
+        checked={field.array}
+        onChange={(event) => onChange({ array: event.target.checked })}
+        className="h-3.5 w-3.5 justify-self-center rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+      />
+      <input
+        type="text"
+        value={field.description}
+        placeholder="宿主物种，如 Homo sapiens"
+        onChange={(event) => onChange({ description: event.target.value })}
+        className={inputClassName}
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="text-xs text-slate-400 transition hover:text-red-500"
+      >
+        删除
+      </button>
+    </>
+  );
+}
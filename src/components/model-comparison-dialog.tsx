@@ -0,0 +1,530 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { clsx } from "clsx";
+import {
+  acceptCandidateEntity,
+  acceptCandidateField,
+  alignEntities,
+  ALIGNMENT_STATUS_LABELS,
+  computeComparisonMetrics,
+  FIELD_DIFF_LABELS,
+  getComparedFields,
+} from "@/lib/comparison";
+import type { ComparedField, EntityAlignment, FieldDiffStatus } from "@/lib/comparison";
+import { entityLabel } from "@/lib/curation";
+import { runExtraction } from "@/lib/extraction";
+import { DEFAULT_MAX_RETRIES, isAbortError } from "@/lib/job-queue";
+import { providerNeedsApiKey, resolveProviderModel } from "@/lib/providers";
+import { loadRecordText } from "@/lib/storage";
+import {
+  estimateCost,
+  estimateExtractionUsage,
+  formatCost,
+  formatTokens,
+  totalTokens,
+} from "@/lib/usage";
+import type {
+  ExtractionMode,
+  ExtractionRecord,
+  ExtractionTemplate,
+  ExtractionUsage,
+  FieldDefinition,
+  MicrobialEntity,
+  ModelPrice,
+  ProviderProfile,
+} from "@/types/extraction";
+
+/** 一次对比运行，只保存在对话框中，关闭后丢弃 */
+type ComparisonRun = {
+  id: string;
+  label: string;
+  status: "running" | "complete" | "error";
+  entities: MicrobialEntity[];
+  fields: FieldDefinition[];
+  usage?: ExtractionUsage;
+  error?: string;
+  controller: AbortController;
+};
+
+const COMPARISON_MODES: { value: ExtractionMode; label: string }[] = [
+  { value: "llm", label: "AI 提取" },
+  { value: "hybrid", label: "混合" },
+  { value: "rules", label: "离线规则" },
+];
+
+const DIFF_STYLES: Record<FieldDiffStatus, string> = {
+  same: "text-slate-500",
+  changed: "bg-amber-50 text-amber-800",
+  added: "bg-emerald-50 text-emerald-800",
+  missing: "bg-red-50 text-red-700",
+  empty: "text-slate-400",
+};
+
+type ModelComparisonDialogProps = {
+  record: ExtractionRecord;
+  providers: ProviderProfile[];
+  templates: ExtractionTemplate[];
+  activeProviderId: string | null;
+  activeTemplateId: string;
+  chunkTokenBudget?: number;
+  maxRetries?: number;
+  modelPrices: ModelPrice[];
+  curator: string;
+  onChange: (record: ExtractionRecord) => void;
+  onClose: () => void;
+};
+
+export function ModelComparisonDialog({
+  record,
+  providers,
+  templates,
+  activeProviderId,
+  activeTemplateId,
+  chunkTokenBudget,
+  maxRetries,
+  modelPrices,
+  curator,
+  onChange,
+  onClose,
+}: ModelComparisonDialogProps) {
+  const [text, setText] = useState<string | null | undefined>(undefined);
+  const [runs, setRuns] = useState<ComparisonRun[]>([]);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState(activeProviderId ?? providers[0]?.id ?? "");
+  const [model, setModel] = useState("");
+  const [templateId, setTemplateId] = useState(activeTemplateId);
+  const [mode, setMode] = useState<ExtractionMode>("llm");
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const runsRef = useRef(runs);
+
+  useEffect(() => {
+    runsRef.current = runs;
+  }, [runs]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRecordText(record.id).then((stored) => {
+      if (!cancelled) setText(stored);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [record.id]);
+
+  // 关闭对话框时取消仍在运行的对比
+  useEffect(
+    () => () => runsRef.current.forEach((run) => run.controller.abort()),
+    [],
+  );
+
+  const profile = providers.find((item) => item.id === providerId) ?? null;
+  const template = templates.find((item) => item.id === templateId) ?? templates[0];
+  const provider = profile ? { ...profile, model: model.trim() || profile.model } : null;
+  const missingKey = mode !== "rules" && (!provider || providerNeedsApiKey(provider));
+
+  const providerModel = provider ? resolveProviderModel(provider) : null;
+  const estimatedCost = useMemo(() => {
+    if (!text || mode === "rules" || !providerModel) return null;
+    return estimateCost(
+      estimateExtractionUsage(text, chunkTokenBudget),
+      providerModel,
+      modelPrices,
+    );
+  }, [text, mode, providerModel, chunkTokenBudget, modelPrices]);
+
+  const patchRun = (id: string, patch: Partial<ComparisonRun>) =>
+    setRuns((current) => current.map((run) => (run.id === id ? { ...run, ...patch } : run)));
+
+  const startRun = async () => {
+    if (!text || missingKey) return;
+    const id = crypto.randomUUID();
+    const controller = new AbortController();
+    const label = [
+      mode === "rules" ? "离线规则" : provider && `${provider.name} · ${providerModel}`,
+      template.name,
+      mode === "hybrid" ? "混合" : null,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+    setRuns((current) => [
+      ...current,
+      { id, label, status: "running", entities: [], fields: template.fields, controller },
+    ]);
+    setActiveRunId(id);
+
+    try {
+      const result = await runExtraction({
+        mode,
+        text,
+        provider: mode === "rules" ? null : provider,
+        template,
+        maxChunkTokens: chunkTokenBudget,
+        signal: controller.signal,
+        retry: { maxRetries: maxRetries ?? DEFAULT_MAX_RETRIES },
+      });
+      patchRun(id, { status: "complete", entities: result.entities, usage: result.usage });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      patchRun(id, {
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const removeRun = (id: string) => {
+    runs.find((run) => run.id === id)?.controller.abort();
+    setRuns((current) => current.filter((run) => run.id !== id));
+    if (activeRunId === id) setActiveRunId(null);
+  };
+
+  const activeRun = runs.find((run) => run.id === activeRunId) ?? null;
+  const comparedFields = useMemo(
+    () =>
+      getComparedFields(
+        (record.fieldDefinitions ?? []).filter((field) =>
+          activeRun?.fields.some((item) => item.key === field.key),
+        ),
+      ),
+    [record.fieldDefinitions, activeRun],
+  );
+  const alignments = useMemo(
+    () =>
+      activeRun?.status === "complete"
+        ? alignEntities(record.entities, activeRun.entities, comparedFields)
+        : [],
+    [record.entities, activeRun, comparedFields],
+  );
+  const metrics = useMemo(
+    () => computeComparisonMetrics(alignments, comparedFields),
+    [alignments, comparedFields],
+  );
+  const visibleAlignments = onlyDifferences
+    ? alignments.filter(
+        (alignment) =>
+          alignment.status !== "matched" ||
+          alignment.diffs.some((diff) => diff.status !== "same" && diff.status !== "empty"),
+      )
+    : alignments;
+
+  const selectClass =
+    "rounded-lg border border-slate-200 px-2 py-1.5 text-xs focus:border-primary-400 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/30 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-5xl flex-col rounded-2xl border border-slate-200 bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-slate-200 px-5 py-3">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-slate-800">模型对比</p>
+            <p className="truncate text-xs text-slate-500">
+              {record.fileName} · 当前记录 {record.entities.length} 个实体
+              {record.usage?.model && `（${record.usage.model}）`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs text-slate-400 transition hover:text-red-500"
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto px-5 py-4 text-sm scrollbar-thin">
+          {text === null ? (
+            <p className="rounded-lg bg-amber-50 p-3 text-xs text-amber-700">
+              该记录没有保存完整原文，无法重新提取。请重新上传 PDF 提取后再进行对比。
+            </p>
+          ) : (
+            <div className="flex flex-wrap items-end gap-2 text-xs">
+              <label className="flex flex-col gap-1 text-slate-500">
+                提取方式
+                <select
+                  value={mode}
+                  onChange={(event) => setMode(event.target.value as ExtractionMode)}
+                  className={selectClass}
+                >
+                  {COMPARISON_MODES.map((item) => (
+                    <option key={item.value} value={item.value}>
+                      {item.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {mode !== "rules" && (
+                <>
+                  <label className="flex flex-col gap-1 text-slate-500">
+                    模型服务
+                    <select
+                      value={providerId}
+                      onChange={(event) => setProviderId(event.target.value)}
+                      className={selectClass}
+                    >
+                      {providers.map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {item.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-slate-500">
+                    模型
+                    <input
+                      value={model}
+                      onChange={(event) => setModel(event.target.value)}
+                      placeholder={profile ? resolveProviderModel(profile) : "模型名称"}
+                      className={clsx(selectClass, "w-56")}
+                    />
+                  </label>
+                </>
+              )}
+              <label className="flex flex-col gap-1 text-slate-500">
+                字段模板
+                <select
+                  value={template.id}
+                  onChange={(event) => setTemplateId(event.target.value)}
+                  className={selectClass}
+                >
+                  {templates.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                disabled={!text || missingKey}
+                onClick={startRun}
+                className="rounded-full bg-primary-600 px-4 py-2 font-semibold text-white transition hover:bg-primary-700 disabled:opacity-40"
+              >
+                运行对比
+              </button>
+              <span className="pb-2 text-slate-500">
+                {text === undefined
+                  ? "正在读取原文…"
+                  : missingKey
+                  ? "所选模型服务缺少 API Key"
+                  : mode !== "rules" && `预计费用 ${formatCost(estimatedCost)}`}
+              </span>
+            </div>
+          )}
+
+          {runs.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {runs.map((run) => (
+                <div
+                  key={run.id}
+                  className={clsx(
+                    "flex items-center gap-2 rounded-full border px-3 py-1",
+                    run.id === activeRunId
+                      ? "border-primary-200 bg-primary-50 text-primary-700"
+                      : "border-slate-200 text-slate-600",
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setActiveRunId(run.id)}
+                    className="text-left"
+                  >
+                    {run.label}
+                    <span className="text-slate-400">
+                      {run.status === "running"
+                        ? " · 运行中…"
+                        : run.status === "error"
+                        ? " · 失败"
+                        : ` · ${run.entities.length} 个实体`}
+                      {run.usage &&
+                        ` · ${formatTokens(totalTokens(run.usage))} tokens · ${formatCost(
+                          estimateCost(run.usage, run.usage.model, modelPrices),
+                        )}`}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeRun(run.id)}
+                    aria-label={run.status === "running" ? "取消" : "移除"}
+                    className="text-slate-400 transition hover:text-red-500"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {activeRun?.status === "error" && (
+            <p className="rounded-lg bg-red-50 px-3 py-2 text-xs text-red-600">
+              {activeRun.error}
+            </p>
+          )}
+
+          {activeRun?.status === "complete" && (
+            <>
+              <div className="grid gap-3 text-xs sm:grid-cols-2 lg:grid-cols-4">
+                <MetricCard
+                  label="实体一致率"
+                  value={formatPercent(metrics.entityAgreement)}
+                  description={`已对齐 ${metrics.matched} · 仅对比结果 ${metrics.added} · 仅当前记录 ${metrics.missing}`}
+                />
+                <MetricCard
+                  label="字段一致率"
+                  value={formatPercent(metrics.fieldAgreement)}
+                  description="已对齐实体中，至少一侧有值的字段"
+                />
+                <div className="rounded-xl border border-slate-200 bg-slate-50/80 p-3 sm:col-span-2">
+                  <p className="font-medium text-slate-500">各字段一致率</p>
+                  <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1">
+                    {metrics.fields.map((item) => (
+                      <div key={item.field.key} className="flex items-center gap-2">
+                        <span className="w-20 truncate text-slate-600" title={item.field.label}>
+                          {item.field.label}
+                        </span>
+                        <div className="h-1.5 flex-1 rounded-full bg-slate-200">
+                          <div
+                            className="h-1.5 rounded-full bg-primary-500"
+                            style={{ width: `${(item.score ?? 0) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-16 text-right text-slate-500">
+                          {item.compared ? `${item.agreed}/${item.compared}` : "—"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-1.5 text-xs text-slate-500">
+                <input
+                  type="checkbox"
+                  checked={onlyDifferences}
+                  onChange={(event) => setOnlyDifferences(event.target.checked)}
+                  className="h-3.5 w-3.5 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                />
+                只显示有差异的实体（{visibleAlignments.length} / {alignments.length}）
+              </label>
+
+              <div className="space-y-3">
+                {visibleAlignments.map((alignment) => (
+                  <AlignmentCard
+                    key={`${alignment.base?.id ?? ""}:${alignment.candidate?.id ?? ""}`}
+                    alignment={alignment}
+                    onAcceptField={(field) =>
+                      onChange(acceptCandidateField(record, alignment, field, curator))
+                    }
+                    onAcceptEntity={(candidate) =>
+                      onChange(acceptCandidateEntity(record, candidate, curator))
+                    }
+                  />
+                ))}
+                {!visibleAlignments.length && (
+                  <p className="rounded-lg bg-emerald-50 p-3 text-xs text-emerald-700">
+                    两次提取的结果完全一致。
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatPercent(value: number | null) {
+  return value == null ? "—" : `${(value * 100).toFixed(0)}%`;
+}
+
+type MetricCardProps = {
+  label: string;
+  value: string;
+  description: string;
+};
+
+function MetricCard({ label, value, description }: MetricCardProps) {
+  return (
+    <div className="rounded-xl border border-slate-200 bg-slate-50/80 p-3">
+      <p className="font-medium text-slate-500">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-slate-900">{value}</p>
+      <p className="mt-1 text-slate-500">{description}</p>
+    </div>
+  );
+}
+
+type AlignmentCardProps = {
+  alignment: EntityAlignment;
+  onAcceptField: (field: ComparedField) => void;
+  onAcceptEntity: (candidate: MicrobialEntity) => void;
+};
+
+function AlignmentCard({ alignment, onAcceptField, onAcceptEntity }: AlignmentCardProps) {
+  const { status, base, candidate, diffs } = alignment;
+  const entity = base ?? candidate;
+  const rows = diffs.filter((diff) => diff.status !== "empty");
+
+  return (
+    <div className="rounded-xl border border-slate-200 text-xs">
+      <div className="flex flex-wrap items-center gap-2 border-b border-slate-100 bg-slate-50 px-3 py-2">
+        <span
+          className={clsx(
+            "rounded px-1.5 py-0.5",
+            status === "matched"
+              ? "bg-primary-50 text-primary-700"
+              : status === "added"
+              ? "bg-emerald-50 text-emerald-700"
+              : "bg-red-50 text-red-700",
+          )}
+        >
+          {ALIGNMENT_STATUS_LABELS[status]}
+        </span>
+        <span className="font-medium italic text-slate-800">
+          {entity ? entityLabel(entity) : "未命名实体"}
+        </span>
+        {status === "added" && candidate && (
+          <button
+            type="button"
+            onClick={() => onAcceptEntity(candidate)}
+            className="ml-auto rounded-full border border-emerald-200 px-3 py-0.5 font-semibold text-emerald-700 transition hover:bg-emerald-50"
+          >
+            添加到记录
+          </button>
+        )}
+      </div>
+      <table className="w-full table-fixed text-left">
+        <thead className="text-slate-500">
+          <tr>
+            <th className="w-24 px-3 py-1 font-medium">字段</th>
+            <th className="px-3 py-1 font-medium">当前记录</th>
+            <th className="px-3 py-1 font-medium">对比结果</th>
+            <th className="w-20 px-3 py-1 font-medium" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rows.map((diff) => (
+            <tr key={diff.field.key} className={DIFF_STYLES[diff.status]}>
+              <td className="px-3 py-1" title={FIELD_DIFF_LABELS[diff.status]}>
+                {diff.field.label}
+              </td>
+              <td className="break-words px-3 py-1">{diff.baseValue || "—"}</td>
+              <td className="break-words px-3 py-1">{diff.candidateValue || "—"}</td>
+              <td className="px-3 py-1 text-right">
+                {status === "matched" && diff.status !== "same" && (
+                  <button
+                    type="button"
+                    onClick={() => onAcceptField(diff.field)}
+                    className="font-semibold text-primary-600 transition hover:text-primary-500"
+                  >
+                    采用
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Util } from "pdfjs-dist";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import { loadPdfDocument } from "@/lib/pdf";
+import { layoutPageText } from "@/lib/pdf-layout";
+import { locateSnippet } from "@/lib/provenance";
+import type { MicrobialEntity } from "@/types/extraction";
+
+const RENDER_SCALE = 1.25;
+
+type HighlightRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+function findHighlightRange(pageText: string, entity: MicrobialEntity) {
+  if (entity.context) {
+    const located = locateSnippet(pageText, entity.context);
+    if (located.start != null && located.end != null) {
+      return { start: located.start, end: located.end };
+    }
+  }
+
+  const name = [entity.genus, entity.species].filter(Boolean).join(" ");
+  if (!name) return null;
+  const located = locateSnippet(pageText, name);
+  return located.start != null && located.end != null
+    ? { start: located.start, end: located.end }
+    : null;
+}
+
+type PdfViewerProps = {
+  /** undefined 表示仍在从本地数据库读取 */
+  source: Blob | null | undefined;
+  fileName: string;
+  entity: MicrobialEntity;
+  onClose: () => void;
+};
+
+export function PdfViewer({ source, fileName, entity, onClose }: PdfViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const firstHighlightRef = useRef<HTMLSpanElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(entity.provenance?.page ?? 1);
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(
+    null,
+  );
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPageNumber(entity.provenance?.page ?? 1);
+  }, [entity]);
+
+  useEffect(() => {
+    firstHighlightRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [highlights]);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    loadPdfDocument(source)
+      .then((document) => {
+        loaded = document;
+        if (cancelled) {
+          document.destroy();
+          return;
+        }
+        setPdf(document);
+      })
+      .catch((loadError) => {
+        console.error(loadError);
+        if (!cancelled) setError("无法打开 PDF 文件。");
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+      setPdf(null);
+    };
+  }, [source]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    const canvas = canvasRef.current;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    (async () => {
+      const page = await pdf.getPage(
+        Math.min(Math.max(pageNumber, 1), pdf.numPages),
+      );
+      if (cancelled) return;
+
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const context = canvas.getContext("2d");
+      if (!context) return;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      setPageSize({ width: viewport.width, height: viewport.height });
+
+      renderTask = page.render({ canvasContext: context, viewport });
+      const content = await page.getTextContent();
+      if (cancelled) return;
+
+      const { text, ranges } = layoutPageText(content.items, page.view);
+      const range = findHighlightRange(text, entity);
+      setHighlights(
+        range
+          ? ranges
+              .filter((item) => item.end > range.start && item.start < range.end)
+              .map(({ item }) => {
+                const transform = Util.transform(viewport.transform, item.transform);
+                const fontHeight = Math.hypot(transform[2], transform[3]);
+                return {
+                  left: transform[4],
+                  top: transform[5] - fontHeight,
+                  width: item.width * viewport.scale,
+                  height: fontHeight,
+                };
+              })
+          : [],
+      );
+
+      await renderTask.promise.catch((renderError: unknown) => {
+        if (!cancelled) console.error(renderError);
+      });
+    })().catch((renderError) => {
+      console.error(renderError);
+      if (!cancelled) setError("页面渲染失败。");
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, entity]);
+
+  const totalPages = pdf?.numPages ?? 0;
+  const entityPage = entity.provenance?.page ?? null;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 flex w-full max-w-3xl flex-col border-l border-slate-200 bg-white shadow-2xl">
+      <div className="flex items-center justify-between gap-3 border-b border-slate-200 px-4 py-3">
+        <div className="min-w-0">
+          <p className="line-clamp-1 text-sm font-semibold text-slate-800">
+            {fileName}
+          </p>
+          <p className="text-xs text-slate-500">
+            {[entity.genus, entity.species, entity.strain].filter(Boolean).join(" ") ||
+              "未命名实体"}
+            {entityPage != null ? ` · 位于第 ${entityPage} 页` : " · 未定位到页码"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            type="button"
+            disabled={pageNumber <= 1}
+            onClick={() => setPageNumber((value) => Math.max(1, value - 1))}
+            className="rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-primary-200 hover:text-primary-600 disabled:opacity-40"
+          >
+            上一页
+          </button>
+          <span className="text-slate-500">
+            {pageNumber} / {totalPages || "-"}
+          </span>
+          <button
+            type="button"
+            disabled={!totalPages || pageNumber >= totalPages}
+            onClick={() =>
+              setPageNumber((value) => Math.min(totalPages, value + 1))
+            }
+            className="rounded-full border border-slate-200 px-3 py-1 text-slate-600 transition hover:border-primary-200 hover:text-primary-600 disabled:opacity-40"
+          >
+            下一页
+          </button>
+          {entityPage != null && entityPage !== pageNumber && (
+            <button
+              type="button"
+              onClick={() => setPageNumber(entityPage)}
+              className="rounded-full bg-primary-50 px-3 py-1 font-medium text-primary-600 transition hover:bg-primary-100"
+            >
+              回到实体页
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="ml-2 text-slate-400 transition hover:text-red-500"
+          >
+            关闭
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-slate-100 p-4 scrollbar-thin">
+        {source === undefined ? (
+          <div className="p-8 text-center text-sm text-slate-500">正在读取 PDF…</div>
+        ) : !source ? (
+          <div className="rounded-xl border border-dashed border-slate-300 bg-white p-8 text-center text-sm text-slate-500">
+            本地数据库中没有保存该记录的原始 PDF（可能来自旧版本或导入的备份）。
+          </div>
+        ) : error ? (
+          <div className="rounded-xl border border-red-200 bg-red-50 p-8 text-center text-sm text-red-600">
+            {error}
+          </div>
+        ) : (
+          <div
+            className="relative mx-auto bg-white shadow"
+            style={pageSize ? { width: pageSize.width, height: pageSize.height } : undefined}
+          >
+            <canvas ref={canvasRef} className="block" />
+            {highlights.map((rect, index) => (
+              <span
+                key={index}
+                ref={index === 0 ? firstHighlightRef : undefined}
+                className="pointer-events-none absolute rounded-sm bg-amber-300/40 ring-1 ring-amber-400"
+                style={rect}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { clsx } from "clsx";
+import { entityLabel } from "@/lib/curation";
+import type {
+  ExtractedTable,
+  MicrobialEntity,
+  TableReference,
+} from "@/types/extraction";
+
+type RecordTablesPanelProps = {
+  tables: ExtractedTable[];
+  entities: MicrobialEntity[];
+  /** 从实体表格点击“表 Tn · 第 n 行”时定位到对应行 */
+  focus: TableReference | null;
+};
+
+export function RecordTablesPanel({ tables, entities, focus }: RecordTablesPanelProps) {
+  const [selectedId, setSelectedId] = useState(tables[0]?.id ?? null);
+  const [open, setOpen] = useState(false);
+  const focusedRowRef = useRef<HTMLTableRowElement>(null);
+
+  useEffect(() => {
+    setSelectedId(tables[0]?.id ?? null);
+  }, [tables]);
+
+  useEffect(() => {
+    if (!focus) return;
+    setOpen(true);
+    setSelectedId(focus.tableId);
+  }, [focus]);
+
+  useEffect(() => {
+    focusedRowRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [focus, selectedId, open]);
+
+  if (!tables.length) return null;
+
+  const table = tables.find((item) => item.id === selectedId) ?? tables[0];
+  const [header = [], ...body] = table.rows;
+  const entitiesByRow = new Map<number, MicrobialEntity[]>();
+  entities.forEach((entity) => {
+    if (entity.tableRef?.tableId !== table.id) return;
+    const row = entity.tableRef.row;
+    entitiesByRow.set(row, [...(entitiesByRow.get(row) ?? []), entity]);
+  });
+
+  return (
+    <details
+      open={open}
+      onToggle={(event) => setOpen(event.currentTarget.open)}
+      className="rounded-xl border border-slate-200 bg-white p-3 text-xs"
+    >
+      <summary className="cursor-pointer font-semibold text-slate-600">
+        文献表格（{tables.length}）
+      </summary>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {tables.map((item) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => setSelectedId(item.id)}
+            title={item.caption ?? undefined}
+            className={clsx(
+              "rounded-full border px-3 py-1 transition",
+              item.id === table.id
+                ? "border-primary-200 bg-primary-50 text-primary-700"
+                : "border-slate-200 text-slate-600 hover:border-primary-200",
+            )}
+          >
+            {item.id}
+            {item.page != null && <span className="text-slate-400"> · 第 {item.page} 页</span>}
+          </button>
+        ))}
+      </div>
+
+      {table.caption && <p className="mt-3 text-slate-600">{table.caption}</p>}
+
+      <div className="mt-2 max-h-96 overflow-auto rounded-lg border border-slate-200 scrollbar-thin">
+        <table className="min-w-full border-collapse text-left">
+          <thead className="sticky top-0 bg-slate-100 text-slate-600">
+            <tr>
+              <th className="px-2 py-1.5 font-semibold">#</th>
+              {header.map((cell, index) => (
+                <th key={index} className="px-2 py-1.5 font-semibold">
+                  {cell}
+                </th>
+              ))}
+              <th className="px-2 py-1.5 font-semibold">关联实体</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {body.map((cells, index) => {
+              const row = index + 1;
+              const linked = entitiesByRow.get(row) ?? [];
+              const focused = focus?.tableId === table.id && focus.row === row;
+              return (
+                <tr
+                  key={row}
+                  ref={focused ? focusedRowRef : undefined}
+                  className={clsx(
+                    focused
+                      ? "bg-amber-50"
+                      : linked.length
+                      ? "bg-primary-50/40"
+                      : undefined,
+                  )}
+                >
+                  <td className="px-2 py-1 text-slate-400">{row}</td>
+                  {cells.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-2 py-1 text-slate-700">
+                      {cell}
+                    </td>
+                  ))}
+                  <td className="px-2 py-1 text-primary-700">
+                    {linked.map(entityLabel).join("；")}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
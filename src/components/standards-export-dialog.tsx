@@ -0,0 +1,163 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { clsx } from "clsx";
+import {
+  STANDARD_PROFILES,
+  buildStandardExport,
+  getRequiredTerms,
+  getStandardProfile,
+  type StandardProfile,
+} from "@/lib/standards-export";
+import { downloadStandardExport, downloadValidationReport } from "@/lib/download";
+import type { ExtractionRecord } from "@/types/extraction";
+
+type StandardsExportDialogProps = {
+  records: ExtractionRecord[];
+  onClose: () => void;
+};
+
+export function StandardsExportDialog({ records, onClose }: StandardsExportDialogProps) {
+  const [profile, setProfile] = useState<StandardProfile>("dwc");
+  const result = useMemo(
+    () => buildStandardExport(records, profile),
+    [records, profile],
+  );
+  const info = getStandardProfile(profile);
+  const requiredTerms = getRequiredTerms(profile);
+  const missingTerms = Object.entries(result.missingByTerm).sort(
+    (a, b) => b[1] - a[1],
+  );
+  const requiredIssues = result.issues.filter(
+    (issue) => issue.requirement === "required",
+  ).length;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/30 p-4">
+      <div className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-2xl border border-slate-200 bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-slate-200 px-5 py-3">
+          <div>
+            <p className="text-sm font-semibold text-slate-800">标准格式导出</p>
+            <p className="text-xs text-slate-500">
+              {records.length} 条记录 · {result.rows.length} 个实体
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs text-slate-400 transition hover:text-red-500"
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto px-5 py-4 text-sm scrollbar-thin">
+          <div className="grid gap-2 sm:grid-cols-2">
+            {STANDARD_PROFILES.map((item) => (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => setProfile(item.id)}
+                className={clsx(
+                  "rounded-xl border px-3 py-2 text-left transition",
+                  item.id === profile
+                    ? "border-primary-200 bg-primary-50 text-primary-700"
+                    : "border-slate-200 hover:border-primary-200",
+                )}
+              >
+                <p className="text-sm font-semibold">{item.label}</p>
+                <p className="mt-1 text-xs text-slate-500">{item.description}</p>
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-slate-500">字段映射</p>
+            <div className="mt-2 flex flex-wrap gap-1">
+              {result.columns.map((column) => (
+                <span
+                  key={column}
+                  className={clsx(
+                    "rounded-full px-2 py-0.5 text-[11px]",
+                    requiredTerms.includes(column)
+                      ? "bg-primary-100 text-primary-700"
+                      : "bg-slate-100 text-slate-600",
+                  )}
+                >
+                  {column}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-slate-500">校验报告</p>
+            {missingTerms.length === 0 ? (
+              <p className="mt-2 rounded-lg bg-emerald-50 p-3 text-xs text-emerald-700">
+                必填与推荐字段均已填写。
+              </p>
+            ) : (
+              <>
+                <p
+                  className={clsx(
+                    "mt-2 rounded-lg p-3 text-xs",
+                    requiredIssues
+                      ? "bg-amber-50 text-amber-700"
+                      : "bg-slate-50 text-slate-600",
+                  )}
+                >
+                  {requiredIssues
+                    ? `共有 ${requiredIssues} 处必填字段缺失，提交前需要人工补全。`
+                    : "必填字段完整，部分推荐字段缺失。"}
+                  {info.missingValue &&
+                    ` 缺失的必填字段在 TSV 中以“${info.missingValue}”占位。`}
+                </p>
+                <table className="mt-2 w-full text-xs">
+                  <thead className="text-left text-slate-500">
+                    <tr>
+                      <th className="py-1 font-medium">字段</th>
+                      <th className="py-1 font-medium">级别</th>
+                      <th className="py-1 text-right font-medium">缺失行数</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 text-slate-700">
+                    {missingTerms.map(([term, count]) => (
+                      <tr key={term}>
+                        <td className="py-1 font-mono">{term}</td>
+                        <td className="py-1">
+                          {requiredTerms.includes(term) ? "必填" : "推荐"}
+                        </td>
+                        <td className="py-1 text-right">
+                          {count} / {result.rows.length}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 border-t border-slate-200 px-5 py-3">
+          <button
+            type="button"
+            disabled={!result.issues.length}
+            onClick={() => downloadValidationReport(result)}
+            className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-primary-200 hover:text-primary-600 disabled:opacity-40"
+          >
+            下载校验报告
+          </button>
+          <button
+            type="button"
+            disabled={!result.rows.length}
+            onClick={() => downloadStandardExport(result)}
+            className="rounded-full bg-primary-600 px-4 py-2 text-xs font-semibold text-white transition hover:bg-primary-700 disabled:opacity-40"
+          >
+            下载 TSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
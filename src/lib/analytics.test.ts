@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  countRows,
+  matrixRows,
+  publicationYearTrend,
+  resistanceMatrix,
+  sequenceTypesBySpecies,
+  sourceDistribution,
+  speciesFrequency,
+} from "@/lib/analytics";
+import type { ExtractionRecord, MicrobialEntity, ResistanceEntry } from "@/types/extraction";
+
+function record(
+  id: string,
+  entities: MicrobialEntity[],
+  extra: Partial<ExtractionRecord> = {},
+): ExtractionRecord {
+  return {
+    id,
+    fileName: `${id}.pdf`,
+    fileSize: 1,
+    processedAt: "2024-01-01T00:00:00.000Z",
+    durationMs: 0,
+    summary: {
+      organismCount: entities.length,
+      uniqueSpecies: 0,
+      resistanceCount: 0,
+      sourceCount: 0,
+      pathogenicityCount: 0,
+      keyFindings: [],
+    },
+    entities,
+    rawTextPreview: "",
+    ...extra,
+  };
+}
+
+function phenotype(antibiotic: string, call: ResistanceEntry["call"]): ResistanceEntry {
+  return {
+    kind: "phenotype",
+    determinant: null,
+    antibiotic,
+    drugClass: null,
+    call,
+    mic: null,
+    text: "",
+  };
+}
+
+const kp = (overrides: Partial<MicrobialEntity> = {}): MicrobialEntity => ({
+  id: crypto.randomUUID(),
+  genus: "Klebsiella",
+  species: "pneumoniae",
+  ...overrides,
+});
+
+describe("speciesFrequency and sourceDistribution", () => {
+  it("counts entities and distinct records per label", () => {
+    const records = [
+      record("a", [kp({ source: "Blood" }), kp({ source: "blood" })]),
+      record("b", [kp({ source: "urine" }), { id: "x", genus: "Escherichia", species: "coli" }]),
+    ];
+
+    expect(speciesFrequency(records)).toEqual([
+      { label: "Klebsiella pneumoniae", count: 3, records: 2 },
+      { label: "Escherichia coli", count: 1, records: 1 },
+    ]);
+    expect(sourceDistribution(records)).toEqual([
+      { label: "Blood", count: 2, records: 1 },
+      { label: "urine", count: 1, records: 1 },
+    ]);
+  });
+
+  it("folds the long tail of sources into 其他", () => {
+    const entities = Array.from({ length: 14 }, (_, index) => kp({ source: `source ${index}` }));
+    const distribution = sourceDistribution([record("a", entities)]);
+
+    expect(distribution).toHaveLength(12);
+    expect(distribution[11]).toEqual({ label: "其他", count: 3, records: 1 });
+  });
+});
+
+describe("resistanceMatrix", () => {
+  it("reports resistant over tested entities and skips entries without a call", () => {
+    const matrix = resistanceMatrix([
+      record("a", [
+        kp({ resistanceEntries: [phenotype("meropenem", "R"), phenotype("colistin", "S")] }),
+        kp({ resistanceEntries: [phenotype("meropenem", "S"), phenotype("colistin", null)] }),
+        kp({
+          resistanceEntries: [
+            {
+              kind: "gene",
+              determinant: "blaKPC-2",
+              antibiotic: "meropenem",
+              drugClass: null,
+              call: null,
+              mic: null,
+              text: "",
+            },
+          ],
+        }),
+      ]),
+    ]);
+
+    expect(matrix.rows).toEqual(["Klebsiella pneumoniae"]);
+    expect(matrix.columns).toEqual(["meropenem", "colistin"]);
+    expect(matrix.cells).toEqual([
+      [
+        { value: 2, total: 3 },
+        { value: 0, total: 1 },
+      ],
+    ]);
+    expect(matrixRows("species", matrix, (cell) => `${cell.value}/${cell.total}`)).toEqual([
+      ["species", "meropenem", "colistin"],
+      ["Klebsiella pneumoniae", "2/3", "0/1"],
+    ]);
+  });
+});
+
+describe("sequenceTypesBySpecies", () => {
+  it("normalizes ST spellings before counting", () => {
+    const matrix = sequenceTypesBySpecies([
+      record("a", [kp({ mlst_st: "258" }), kp({ mlst_st: "ST 258" }), kp({ mlst_st: "ST11" })]),
+    ]);
+
+    expect(matrix.columns).toEqual(["ST258", "ST11"]);
+    expect(matrix.cells[0].map((cell) => cell.value)).toEqual([2, 1]);
+  });
+});
+
+describe("publicationYearTrend", () => {
+  it("fills gaps between years and counts records without a year", () => {
+    const trend = publicationYearTrend([
+      record("a", [kp(), kp()], {
+        bibliography: { title: null, authors: [], year: 2018, journal: null, doi: null },
+      }),
+      record("smith2020", [kp()]),
+      record("c", [], { rawTextPreview: "© 2020 Elsevier" }),
+      record("d", []),
+    ]);
+
+    expect(trend.unknown).toBe(1);
+    expect(trend.data).toEqual([
+      { year: 2018, records: 1, entities: 2 },
+      { year: 2019, records: 0, entities: 0 },
+      { year: 2020, records: 2, entities: 1 },
+    ]);
+    expect(countRows("species", [{ label: "K", count: 2, records: 1 }])).toEqual([
+      ["species", "entities", "records"],
+      ["K", 2, 1],
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { findPublicationYear, findYearInName } from "@/lib/bibliography";
+import { getResistanceEntries } from "@/lib/resistance";
+import { binomialName, normalizeSequenceType } from "@/lib/search";
+import type { CellValue } from "@/lib/xlsx";
+import type { ExtractionRecord, MicrobialEntity, ResistanceEntry } from "@/types/extraction";
+
+export interface CountDatum {
+  label: string;
+  /** 实体数 */
+  count: number;
+  /** 涉及的文献数 */
+  records: number;
+}
+
+export interface MatrixCell {
+  value: number;
+  /** 比例型矩阵的分母（如检测到该抗生素信息的实体数），计数型矩阵为 null */
+  total: number | null;
+}
+
+export interface MatrixData {
+  rows: string[];
+  columns: string[];
+  cells: MatrixCell[][];
+}
+
+export interface YearDatum {
+  year: number;
+  records: number;
+  entities: number;
+}
+
+const MAX_SERIES = 15;
+const MAX_SOURCES = 12;
+const OTHER_LABEL = "其他";
+
+function countBy(
+  records: ExtractionRecord[],
+  keyOf: (entity: MicrobialEntity) => string | null,
+): CountDatum[] {
+  const counts = new Map<string, { label: string; count: number; records: Set<string> }>();
+  records.forEach((record) =>
+    record.entities.forEach((entity) => {
+      const label = keyOf(entity);
+      if (!label) return;
+      const key = label.toLowerCase();
+      const entry = counts.get(key) ?? { label, count: 0, records: new Set<string>() };
+      entry.count += 1;
+      entry.records.add(record.id);
+      counts.set(key, entry);
+    }),
+  );
+  return Array.from(counts.values())
+    .map((entry) => ({ label: entry.label, count: entry.count, records: entry.records.size }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+export function speciesFrequency(records: ExtractionRecord[]) {
+  return countBy(records, binomialName);
+}
+
+function sourceLabel(entity: MicrobialEntity) {
+  return entity.source?.replace(/\s+/g, " ").trim() || null;
+}
+
+/** 分离来源是自由文本，按小写去重后取前若干项，其余合并为“其他” */
+export function sourceDistribution(records: ExtractionRecord[]): CountDatum[] {
+  const counts = countBy(records, sourceLabel);
+  if (counts.length <= MAX_SOURCES) return counts;
+
+  const rest = counts.slice(MAX_SOURCES - 1);
+  const restKeys = new Set(rest.map((item) => item.label.toLowerCase()));
+  const restRecords = records.filter((record) =>
+    record.entities.some((entity) => restKeys.has(sourceLabel(entity)?.toLowerCase() ?? "")),
+  );
+  return [
+    ...counts.slice(0, MAX_SOURCES - 1),
+    {
+      label: OTHER_LABEL,
+      count: rest.reduce((acc, item) => acc + item.count, 0),
+      records: restRecords.length,
+    },
+  ];
+}
+
+/** 基因与突变默认视为耐药；表型条目按 S/I/R 判定，没有判读结果的不计入 */
+function entryResistant(entry: ResistanceEntry) {
+  if (entry.kind !== "phenotype") return true;
+  if (!entry.call) return null;
+  return entry.call === "R";
+}
+
+/**
+ * 物种 × 抗生素耐药矩阵：单元格为“耐药实体数 / 有该药物信息的实体数”。
+ * 抗生素缺失时使用药物类别，只保留实体数最多的物种与药物。
+ */
+export function resistanceMatrix(records: ExtractionRecord[]): MatrixData {
+  const cells = new Map<string, Map<string, { resistant: number; tested: number }>>();
+  const speciesTotals = new Map<string, number>();
+  const drugTotals = new Map<string, number>();
+
+  records.forEach((record) =>
+    record.entities.forEach((entity) => {
+      const species = binomialName(entity);
+      if (!species) return;
+      const perDrug = new Map<string, boolean>();
+      getResistanceEntries(entity).forEach((entry) => {
+        const drug = entry.antibiotic ?? entry.drugClass;
+        const resistant = entryResistant(entry);
+        if (!drug || resistant == null) return;
+        perDrug.set(drug, (perDrug.get(drug) ?? false) || resistant);
+      });
+      perDrug.forEach((resistant, drug) => {
+        const row = cells.get(species) ?? new Map();
+        const cell = row.get(drug) ?? { resistant: 0, tested: 0 };
+        cell.tested += 1;
+        if (resistant) cell.resistant += 1;
+        row.set(drug, cell);
+        cells.set(species, row);
+        speciesTotals.set(species, (speciesTotals.get(species) ?? 0) + 1);
+        drugTotals.set(drug, (drugTotals.get(drug) ?? 0) + 1);
+      });
+    }),
+  );
+
+  const rows = topKeys(speciesTotals, MAX_SERIES);
+  const columns = topKeys(drugTotals, MAX_SERIES);
+  return {
+    rows,
+    columns,
+    cells: rows.map((species) =>
+      columns.map((drug) => {
+        const cell = cells.get(species)?.get(drug);
+        return { value: cell?.resistant ?? 0, total: cell?.tested ?? 0 };
+      }),
+    ),
+  };
+}
+
+/** 每个物种的 ST 分布，行是物种，列是 ST */
+export function sequenceTypesBySpecies(records: ExtractionRecord[]): MatrixData {
+  const cells = new Map<string, Map<string, number>>();
+  const speciesTotals = new Map<string, number>();
+  const stTotals = new Map<string, number>();
+
+  records.forEach((record) =>
+    record.entities.forEach((entity) => {
+      const species = binomialName(entity);
+      const st = normalizeSequenceType(entity.mlst_st);
+      if (!species || !st) return;
+      const row = cells.get(species) ?? new Map<string, number>();
+      row.set(st, (row.get(st) ?? 0) + 1);
+      cells.set(species, row);
+      speciesTotals.set(species, (speciesTotals.get(species) ?? 0) + 1);
+      stTotals.set(st, (stTotals.get(st) ?? 0) + 1);
+    }),
+  );
+
+  const rows = topKeys(speciesTotals, MAX_SERIES);
+  const columns = topKeys(stTotals, MAX_SERIES * 2);
+  return {
+    rows,
+    columns,
+    cells: rows.map((species) =>
+      columns.map((st) => ({ value: cells.get(species)?.get(st) ?? 0, total: null })),
+    ),
+  };
+}
+
+function topKeys(totals: Map<string, number>, limit: number) {
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([key]) => key);
+}
+
+/**
+ * 推断文献的发表年份：优先使用书目信息中的年份，其次查找原文开头的
+ * “Published/Accepted …年份”与版权声明，最后尝试文件名中的四位年份（如 smith2019.pdf）。
+ * 都找不到时返回 null。
+ */
+export function recordPublicationYear(record: ExtractionRecord): number | null {
+  return (
+    record.bibliography?.year ??
+    findPublicationYear(record.rawTextPreview) ??
+    findYearInName(record.fileName)
+  );
+}
+
+export function publicationYearTrend(records: ExtractionRecord[]) {
+  const years = new Map<number, YearDatum>();
+  let unknown = 0;
+  records.forEach((record) => {
+    const year = recordPublicationYear(record);
+    if (year == null) {
+      unknown += 1;
+      return;
+    }
+    const entry = years.get(year) ?? { year, records: 0, entities: 0 };
+    entry.records += 1;
+    entry.entities += record.entities.length;
+    years.set(year, entry);
+  });
+
+  // 补齐中间没有文献的年份，趋势图才连续
+  const known = Array.from(years.keys());
+  const data: YearDatum[] = [];
+  if (known.length) {
+    for (let year = Math.min(...known); year <= Math.max(...known); year++) {
+      data.push(years.get(year) ?? { year, records: 0, entities: 0 });
+    }
+  }
+  return { data, unknown };
+}
+
+export function countRows(labelHeader: string, data: CountDatum[]): CellValue[][] {
+  return [
+    [labelHeader, "entities", "records"],
+    ...data.map((item) => [item.label, item.count, item.records]),
+  ];
+}
+
+export function matrixRows(
+  corner: string,
+  matrix: MatrixData,
+  formatCell: (cell: MatrixCell) => CellValue = (cell) => cell.value,
+): CellValue[][] {
+  return [
+    [corner, ...matrix.columns],
+    ...matrix.rows.map((row, index) => [row, ...matrix.cells[index].map(formatCell)]),
+  ];
+}
+
+export function yearRows(data: YearDatum[]): CellValue[][] {
+  return [
+    ["year", "records", "entities"],
+    ...data.map((item) => [item.year, item.records, item.entities]),
+  ];
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isAbortError } from "@/lib/job-queue";
+
+/** API 路由共用的请求校验，错误信息直接返回给调用方。 */
+export class BadRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message);
+  }
+}
+
+export const templateSchema = z.object({
+  id: z.string().default("api"),
+  name: z.string().default("API 模板"),
+  fields: z
+    .array(
+      z.object({
+        key: z.string(),
+        label: z.string(),
+        type: z.enum(["string", "number", "integer", "boolean", "date"]),
+        description: z.string().default(""),
+        array: z.boolean().default(false),
+      }),
+    )
+    .default([]),
+  instructions: z.string().optional(),
+});
+
+function describeIssues(error: z.ZodError) {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "请求"}：${issue.message}`)
+    .join("；");
+}
+
+export function parseRequest<T extends z.ZodTypeAny>(schema: T, input: unknown): z.infer<T> {
+  try {
+    const parsed = schema.safeParse(input);
+    if (!parsed.success) throw new BadRequestError(describeIssues(parsed.error));
+    return parsed.data;
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new BadRequestError("template 不是合法的 JSON。");
+    }
+    throw error;
+  }
+}
+
+export async function readJsonBody(request: Request, message = "请求体不是合法的 JSON。") {
+  try {
+    return await request.json();
+  } catch {
+    throw new BadRequestError(message);
+  }
+}
+
+/** 把路由中抛出的错误转换为 JSON 响应 */
+export function errorResponse(error: unknown) {
+  if (error instanceof BadRequestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (isAbortError(error)) {
+    return NextResponse.json({ error: "请求已取消。" }, { status: 499 });
+  }
+  // 重试用尽后的模型服务错误，或 AI 返回内容无法解析
+  console.error(error);
+  const message = error instanceof Error ? error.message : String(error);
+  return NextResponse.json({ error: message }, { status: 502 });
+}
+
+export function unauthorizedResponse() {
+  return NextResponse.json({ error: "未授权的请求。" }, { status: 401 });
+}
+
+export function missingProviderResponse() {
+  return NextResponse.json(
+    { error: "服务端未配置模型 API Key（MICR_AI_API_KEY），只能使用 rules 模式。" },
+    { status: 503 },
+  );
+}
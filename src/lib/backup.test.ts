@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  createWorkspaceBackup,
+  mergeBackupRecords,
+  mergeBackupSettings,
+  parseWorkspaceBackup,
+} from "@/lib/backup";
+import { computeExtractionSummary } from "@/lib/extraction";
+import type { ExtractionRecord, MicrobialEntity, StoredSettings } from "@/types/extraction";
+
+function entity(id: string, overrides: Partial<MicrobialEntity> = {}): MicrobialEntity {
+  return {
+    id,
+    genus: "Klebsiella",
+    species: "pneumoniae",
+    subspecies: null,
+    serovar: null,
+    strain: null,
+    mlst_st: "ST258",
+    taxonomy_id: null,
+    source: "blood",
+    resistance: ["blaKPC-2"],
+    pathogenicity: null,
+    context: "K. pneumoniae ST258 from blood",
+    confidence: 0.9,
+    provenance: { status: "verified", page: 1, start: 0, end: 30 },
+    customFields: { host: "Homo sapiens", collection_year: 2019 },
+    ...overrides,
+  };
+}
+
+function record(id: string, entities: MicrobialEntity[]): ExtractionRecord {
+  return {
+    id,
+    fileName: `${id}.pdf`,
+    fileSize: 10,
+    processedAt: "2024-01-01T00:00:00.000Z",
+    durationMs: 5,
+    summary: computeExtractionSummary(entities),
+    entities,
+    rawTextPreview: "",
+    auditLog: [],
+  };
+}
+
+const settings: StoredSettings = {
+  providers: [
+    {
+      id: "p1",
+      name: "OpenRouter",
+      kind: "openrouter",
+      baseUrl: "",
+      apiKey: "sk-secret",
+      model: "",
+    },
+  ],
+  activeProviderId: "p1",
+};
+
+function roundTrip(records: unknown[]) {
+  const backup = createWorkspaceBackup([], settings);
+  return parseWorkspaceBackup(JSON.parse(JSON.stringify({ ...backup, records })));
+}
+
+describe("createWorkspaceBackup", () => {
+  it("drops API keys from the exported settings", () => {
+    const backup = createWorkspaceBackup([], settings);
+
+    expect(backup.settings.providers?.[0].apiKey).toBe("");
+  });
+});
+
+describe("parseWorkspaceBackup", () => {
+  it("keeps well-formed records", () => {
+    const { backup, rejected } = roundTrip([record("r1", [entity("e1")])]);
+
+    expect(rejected).toEqual([]);
+    expect(backup.records[0].entities[0]).toMatchObject({
+      source: "blood",
+      customFields: { host: "Homo sapiens", collection_year: 2019 },
+    });
+  });
+
+  it.each([
+    ["non-string source", { source: 42 }],
+    ["non-string context", { context: ["snippet"] }],
+    ["malformed provenance", { provenance: { status: "maybe", page: "1" } }],
+    ["object custom field values", { customFields: { host: { name: "human" } } }],
+    ["resistance entries without a kind", { resistanceEntries: [{ text: "blaKPC-2" }] }],
+  ])("rejects records whose entities have %s", (_, overrides) => {
+    const bad = record("r1", [entity("e1", overrides as Partial<MicrobialEntity>)]);
+    const { backup, rejected } = roundTrip([bad, record("r2", [entity("e2")])]);
+
+    expect(backup.records.map((item) => item.id)).toEqual(["r2"]);
+    expect(rejected).toMatchObject([{ index: 0, fileName: "r1.pdf" }]);
+  });
+
+  it("refuses archives from a newer version", () => {
+    const backup = { ...createWorkspaceBackup([], settings), version: 99 };
+
+    expect(() => parseWorkspaceBackup(backup)).toThrow("v99");
+  });
+});
+
+describe("mergeBackupRecords", () => {
+  it("skips or merges records that already exist", () => {
+    const current = [record("r1", [entity("e1")])];
+    const incoming = [record("r1", [entity("e1"), entity("e2")]), record("r2", [entity("e3")])];
+
+    const skipped = mergeBackupRecords(current, incoming, "skip");
+    expect(skipped.report).toEqual({ added: ["r2"], merged: [], skipped: ["r1"] });
+
+    const merged = mergeBackupRecords(current, incoming, "merge");
+    expect(merged.report).toEqual({ added: ["r2"], merged: ["r1"], skipped: [] });
+    const r1 = merged.records.find((item) => item.id === "r1");
+    expect(r1?.entities.map((item) => item.id)).toEqual(["e1", "e2"]);
+    expect(r1?.summary.organismCount).toBe(2);
+  });
+});
+
+describe("mergeBackupSettings", () => {
+  it("adds new providers without keys and keeps local keys", () => {
+    const incoming: StoredSettings = {
+      providers: [
+        { ...settings.providers![0], apiKey: "" },
+        { id: "p2", name: "Ollama", kind: "openai-compatible", apiKey: "leaked" },
+      ],
+    };
+
+    const merged = mergeBackupSettings(settings, incoming);
+
+    expect(merged.providers?.map((provider) => [provider.id, provider.apiKey])).toEqual([
+      ["p1", "sk-secret"],
+      ["p2", ""],
+    ]);
+  });
+});
@@ -0,0 +1,418 @@
+import { z } from "zod";
+import { computeExtractionSummary } from "@/lib/extraction";
+import type {
+  AuditEntry,
+  ExtractionRecord,
+  MicrobialEntity,
+  StoredSettings,
+} from "@/types/extraction";
+
+export const BACKUP_FORMAT = "micr-ai-workspace";
+export const BACKUP_VERSION = 1;
+
+export type BackupMergeStrategy = "skip" | "merge";
+
+const text = z.string().nullable().optional();
+const nullableText = z.string().nullable().default(null);
+const nullableNumber = z.number().nullable().default(null);
+const customFieldScalar = z.union([z.string(), z.number(), z.boolean()]);
+
+const resistanceEntrySchema = z.object({
+  kind: z.enum(["gene", "mutation", "phenotype"]),
+  determinant: nullableText,
+  antibiotic: nullableText,
+  drugClass: nullableText,
+  call: z.enum(["S", "I", "R"]).nullable().default(null),
+  mic: z
+    .object({
+      value: z.number(),
+      unit: z.string(),
+      qualifier: z.enum(["<", "<=", "=", ">=", ">"]).nullable().optional(),
+    })
+    .nullable()
+    .default(null),
+  text: z.string(),
+});
+
+const usageSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  requests: z.number(),
+  model: nullableText,
+});
+
+/**
+ * 界面、导出与搜索会直接读取实体的这些字段，导入前逐一校验类型，
+ * 避免旧版本或被改动的备份把不合法的值写进 IndexedDB；未列出的字段原样保留。
+ */
+const backupEntitySchema = z
+  .object({
+    id: z.string().min(1),
+    genus: text,
+    species: text,
+    subspecies: text,
+    serovar: text,
+    strain: text,
+    mlst_st: text,
+    taxonomy_id: text,
+    source: text,
+    pathogenicity: text,
+    context: text,
+    resistance: z.array(z.string()).optional(),
+    resistanceEntries: z.array(resistanceEntrySchema).optional(),
+    confidence: z.number().min(0).max(1).nullable().optional(),
+    provenance: z
+      .object({
+        status: z.enum(["verified", "approximate", "unverified", "no_context"]),
+        page: nullableNumber,
+        start: nullableNumber,
+        end: nullableNumber,
+      })
+      .nullable()
+      .optional(),
+    taxonomy: z
+      .object({
+        status: z.enum(["verified", "corrected", "filled", "renamed", "mismatch", "not_found"]),
+        taxId: nullableText,
+        matchedName: nullableText,
+        rank: z.enum(["genus", "species", "subspecies"]).nullable().default(null),
+        originalName: text,
+        originalTaxId: text,
+      })
+      .nullable()
+      .optional(),
+    verified: z.boolean().optional(),
+    customFields: z
+      .record(z.union([customFieldScalar, z.array(customFieldScalar)]).nullable())
+      .optional(),
+    tableRef: z
+      .object({ tableId: z.string(), row: z.number().int().nonnegative() })
+      .nullable()
+      .optional(),
+    ensemble: z
+      .object({
+        support: z.number(),
+        runs: z.number(),
+        disagreements: z.array(
+          z.object({
+            key: z.string(),
+            candidates: z.array(
+              z.object({ value: z.string(), votes: z.number(), accepted: z.boolean() }),
+            ),
+          }),
+        ),
+      })
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+const backupRecordSchema = z
+  .object({
+    id: z.string().min(1),
+    fileName: z.string(),
+    fileSize: z.number().nonnegative(),
+    processedAt: z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+      message: "processedAt 不是合法的时间",
+    }),
+    durationMs: z.number(),
+    summary: z
+      .object({
+        organismCount: z.number(),
+        uniqueSpecies: z.number(),
+        resistanceCount: z.number(),
+        resistanceGeneCount: z.number().optional(),
+        resistanceMutationCount: z.number().optional(),
+        resistancePhenotypeCount: z.number().optional(),
+        sourceCount: z.number(),
+        pathogenicityCount: z.number(),
+        unverifiedCount: z.number().optional(),
+        verifiedCount: z.number().optional(),
+        keyFindings: z.array(z.string()),
+      })
+      .passthrough(),
+    entities: z.array(backupEntitySchema),
+    rawTextPreview: z.string(),
+    rawTextLength: z.number().optional(),
+    chunkCount: z.number().optional(),
+    extractionMode: z.enum(["llm", "rules", "hybrid"]).optional(),
+    usage: usageSchema.optional(),
+    templateName: z.string().optional(),
+    fieldDefinitions: z
+      .array(
+        z.object({
+          key: z.string().min(1),
+          label: z.string(),
+          type: z.enum(["string", "number", "integer", "boolean", "date"]),
+          description: z.string().default(""),
+          array: z.boolean(),
+        }),
+      )
+      .optional(),
+    tables: z
+      .array(
+        z.object({
+          id: z.string(),
+          page: nullableNumber,
+          caption: nullableText,
+          rows: z.array(z.array(z.string())),
+        }),
+      )
+      .optional(),
+    auditLog: z
+      .array(
+        z
+          .object({
+            id: z.string(),
+            action: z.enum(["edit", "add", "delete", "merge", "verify", "unverify"]),
+            actor: z.string(),
+            at: z.string(),
+            entityId: z.string(),
+            field: z.string().optional(),
+            oldValue: z.unknown(),
+            newValue: z.unknown(),
+          })
+          .passthrough()
+          .transform(
+            (entry): AuditEntry => ({
+              ...entry,
+              oldValue: entry.oldValue ?? null,
+              newValue: entry.newValue ?? null,
+            }),
+          ),
+      )
+      .optional(),
+    ensemble: z
+      .object({
+        runs: z.array(
+          z.object({
+            label: z.string(),
+            model: nullableText,
+            entityCount: z.number(),
+            usage: usageSchema.optional(),
+          }),
+        ),
+        voteThreshold: z.number(),
+        rejected: z.array(backupEntitySchema),
+      })
+      .optional(),
+    cacheHits: z.number().optional(),
+    bibliography: z
+      .object({
+        title: nullableText,
+        authors: z.array(z.string()),
+        year: nullableNumber,
+        journal: nullableText,
+        doi: nullableText,
+      })
+      .optional(),
+    contentHash: z.string().optional(),
+  })
+  .passthrough();
+
+const backupProviderSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    kind: z.enum(["openrouter", "openai-compatible", "anthropic"]),
+    baseUrl: z.string().optional(),
+    model: z.string().optional(),
+  })
+  .passthrough();
+
+const backupSettingsSchema = z
+  .object({
+    providers: z.array(backupProviderSchema).optional(),
+    activeProviderId: z.string().optional(),
+  })
+  .passthrough();
+
+const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  settings: backupSettingsSchema.default({}),
+  records: z.array(z.unknown()),
+  texts: z.record(z.string()).default({}),
+});
+
+export type WorkspaceBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: StoredSettings;
+  records: ExtractionRecord[];
+  /** recordId -> 完整原文 */
+  texts: Record<string, string>;
+};
+
+export interface BackupImportReport {
+  added: string[];
+  merged: string[];
+  skipped: string[];
+  rejected: { index: number; fileName: string | null; reason: string }[];
+}
+
+/**
+ * 去掉 API Key 等敏感信息，只保留可以安全写入备份文件的设置。
+ */
+export function sanitizeSettingsForBackup(settings: StoredSettings): StoredSettings {
+  const sanitized: StoredSettings = {
+    ...settings,
+    providers: settings.providers?.map((provider) => ({
+      ...provider,
+      apiKey: "",
+    })),
+  };
+  delete sanitized.apiKey;
+  delete sanitized.preferredModel;
+  return sanitized;
+}
+
+export function createWorkspaceBackup(
+  records: ExtractionRecord[],
+  settings: StoredSettings,
+  texts: Record<string, string> = {},
+): WorkspaceBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: sanitizeSettingsForBackup(settings),
+    records,
+    texts,
+  };
+}
+
+function formatIssues(error: z.ZodError) {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join(".") || "(根)"}：${issue.message}`)
+    .join("；");
+}
+
+export function parseWorkspaceBackup(raw: unknown): {
+  backup: WorkspaceBackup;
+  rejected: BackupImportReport["rejected"];
+} {
+  const parsed = backupArchiveSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`备份文件格式不正确：${formatIssues(parsed.error)}`);
+  }
+  if (parsed.data.version > BACKUP_VERSION) {
+    throw new Error(
+      `备份文件版本 v${parsed.data.version} 高于当前支持的 v${BACKUP_VERSION}，请升级 micr-AI 后再导入。`,
+    );
+  }
+
+  const records: ExtractionRecord[] = [];
+  const rejected: BackupImportReport["rejected"] = [];
+  parsed.data.records.forEach((item, index) => {
+    const record = backupRecordSchema.safeParse(item);
+    if (record.success) {
+      records.push(record.data);
+    } else {
+      const fileName =
+        typeof (item as { fileName?: unknown })?.fileName === "string"
+          ? (item as { fileName: string }).fileName
+          : null;
+      rejected.push({ index, fileName, reason: formatIssues(record.error) });
+    }
+  });
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: parsed.data.version,
+      exportedAt: parsed.data.exportedAt,
+      settings: parsed.data.settings as StoredSettings,
+      records,
+      texts: parsed.data.texts,
+    },
+    rejected,
+  };
+}
+
+function mergeRecord(
+  existing: ExtractionRecord,
+  incoming: ExtractionRecord,
+): ExtractionRecord {
+  const knownIds = new Set(existing.entities.map((entity) => entity.id));
+  const additions: MicrobialEntity[] = incoming.entities.filter(
+    (entity) => !knownIds.has(entity.id),
+  );
+  if (!additions.length) return existing;
+
+  const entities = [...existing.entities, ...additions];
+  const knownAuditIds = new Set((existing.auditLog ?? []).map((entry) => entry.id));
+  const auditLog = [
+    ...(existing.auditLog ?? []),
+    ...(incoming.auditLog ?? []).filter((entry) => !knownAuditIds.has(entry.id)),
+  ];
+  return {
+    ...existing,
+    entities,
+    summary: computeExtractionSummary(entities),
+    auditLog,
+  };
+}
+
+export function mergeBackupRecords(
+  current: ExtractionRecord[],
+  incoming: ExtractionRecord[],
+  strategy: BackupMergeStrategy,
+): { records: ExtractionRecord[]; report: Omit<BackupImportReport, "rejected"> } {
+  const byId = new Map(current.map((record) => [record.id, record]));
+  const report: Omit<BackupImportReport, "rejected"> = {
+    added: [],
+    merged: [],
+    skipped: [],
+  };
+
+  incoming.forEach((record) => {
+    const existing = byId.get(record.id);
+    if (!existing) {
+      byId.set(record.id, record);
+      report.added.push(record.id);
+      return;
+    }
+
+    if (strategy === "merge") {
+      const merged = mergeRecord(existing, record);
+      if (merged !== existing) {
+        byId.set(record.id, merged);
+        report.merged.push(record.id);
+        return;
+      }
+    }
+    report.skipped.push(record.id);
+  });
+
+  const records = Array.from(byId.values()).sort((a, b) =>
+    b.processedAt.localeCompare(a.processedAt),
+  );
+  return { records, report };
+}
+
+/**
+ * 合并备份中的设置：新增的模型服务配置不含 API Key，已有配置保留本机的 Key。
+ */
+export function mergeBackupSettings(
+  current: StoredSettings,
+  incoming: StoredSettings,
+): StoredSettings {
+  const providers = [...(current.providers ?? [])];
+  const knownIds = new Set(providers.map((provider) => provider.id));
+  (incoming.providers ?? []).forEach((provider) => {
+    if (!knownIds.has(provider.id)) {
+      providers.push({ ...provider, apiKey: "" });
+    }
+  });
+
+  const sanitized = sanitizeSettingsForBackup(incoming);
+  return {
+    ...sanitized,
+    ...current,
+    providers,
+  };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  addBatchUsage,
+  createBatchState,
+  estimateDocumentCost,
+  findBatchDoiDuplicate,
+  registerBatchDoi,
+  releaseBatchDocument,
+  reserveBatchBudget,
+} from "@/lib/batch";
+import type { ExtractionRecord, ModelPrice } from "@/types/extraction";
+
+const DOI = "10.1000/xyz123";
+
+function record(extra: Partial<ExtractionRecord>): ExtractionRecord {
+  return {
+    id: "r1",
+    fileName: "paper.pdf",
+    fileSize: 1,
+    processedAt: "2024-01-01T00:00:00.000Z",
+    durationMs: 0,
+    summary: {
+      organismCount: 0,
+      uniqueSpecies: 0,
+      resistanceCount: 0,
+      sourceCount: 0,
+      pathogenicityCount: 0,
+      keyFindings: [],
+    },
+    entities: [],
+    rawTextPreview: "",
+    ...extra,
+  };
+}
+
+describe("batch budget", () => {
+  it("counts spending and in-flight reservations against the limit", () => {
+    const batch = createBatchState();
+    expect(reserveBatchBudget(batch, "a", 0.6, 1)).toBe(true);
+    expect(reserveBatchBudget(batch, "b", 0.6, 1)).toBe(false);
+    expect(batch.reserved.has("b")).toBe(false);
+
+    addBatchUsage(batch, "a", { promptTokens: 10, completionTokens: 5 }, 0.5);
+    expect(batch.spent).toBe(0.5);
+    expect(batch.reserved.get("a")).toBeCloseTo(0.1);
+    expect(batch.usage).toMatchObject({ promptTokens: 10, completionTokens: 5, requests: 1 });
+
+    releaseBatchDocument(batch, "a", true);
+    expect(reserveBatchBudget(batch, "b", 0.5, 1)).toBe(true);
+  });
+
+  it("sums the estimate over all models and gives up when one is unpriced", () => {
+    const prices: ModelPrice[] = [
+      { model: "a", promptPerMillion: 1, completionPerMillion: 1 },
+      { model: "b", promptPerMillion: 2, completionPerMillion: 2 },
+    ];
+    const text = "word ".repeat(2000);
+    const one = estimateDocumentCost(text, ["a"], { modelPrices: prices }) ?? 0;
+    expect(one).toBeGreaterThan(0);
+    expect(estimateDocumentCost(text, ["a", "b"], { modelPrices: prices })).toBeCloseTo(one * 3);
+    expect(estimateDocumentCost(text, ["a", "unknown"], { modelPrices: prices })).toBeNull();
+  });
+});
+
+describe("batch DOI duplicates", () => {
+  it("reports existing records before documents in the batch", () => {
+    const batch = createBatchState();
+    registerBatchDoi(batch, "a", DOI, "queued.pdf");
+    const records = [record({ id: "r9", fileName: "old.pdf", bibliography: {
+      title: null, authors: [], year: null, journal: null, doi: DOI,
+    } })];
+
+    expect(findBatchDoiDuplicate(batch, "b", DOI, records)).toEqual({
+      reason: "doi",
+      recordId: "r9",
+      fileName: "old.pdf",
+      doi: DOI,
+    });
+    expect(findBatchDoiDuplicate(batch, "b", DOI, [])).toEqual({
+      reason: "doi",
+      recordId: null,
+      fileName: "queued.pdf",
+      doi: DOI,
+    });
+    expect(findBatchDoiDuplicate(batch, "a", DOI, [])).toBeNull();
+  });
+
+  it("keeps completed documents and releases failed or requeued ones", () => {
+    const batch = createBatchState();
+    registerBatchDoi(batch, "a", DOI, "first.pdf");
+    releaseBatchDocument(batch, "a", false);
+    expect(findBatchDoiDuplicate(batch, "b", DOI, [])).toBeNull();
+
+    registerBatchDoi(batch, "b", DOI, "second.pdf");
+    releaseBatchDocument(batch, "b", true);
+    expect(findBatchDoiDuplicate(batch, "c", DOI, [])?.fileName).toBe("second.pdf");
+  });
+});
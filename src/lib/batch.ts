@@ -0,0 +1,101 @@
+import { findDoiDuplicate } from "@/lib/duplicates";
+import { addUsage, emptyUsage, estimateCost, estimateExtractionUsage } from "@/lib/usage";
+import type {
+  DuplicateMatch,
+  ExtractionRecord,
+  ExtractionUsage,
+  ModelPrice,
+  TokenUsage,
+} from "@/types/extraction";
+
+/** 一次「开始提取」的批次状态，由队列中并发处理的文献共享 */
+export interface BatchState {
+  usage: ExtractionUsage;
+  /** 已花费的费用（美元） */
+  spent: number;
+  /** 进行中的文献 id → 尚未花掉的预估费用 */
+  reserved: Map<string, number>;
+  /** 本批次正在提取或已完成的文献 id → DOI 与文件名，用于发现同一批次中的重复文献 */
+  dois: Map<string, { doi: string; fileName: string }>;
+}
+
+export function createBatchState(model: string | null = null): BatchState {
+  return { usage: emptyUsage(model), spent: 0, reserved: new Map(), dois: new Map() };
+}
+
+export function addBatchUsage(
+  batch: BatchState,
+  documentId: string,
+  usage: TokenUsage,
+  cost: number,
+) {
+  batch.usage = addUsage(batch.usage, usage);
+  batch.spent += cost;
+  const reserved = batch.reserved.get(documentId);
+  if (reserved != null) {
+    batch.reserved.set(documentId, Math.max(0, reserved - cost));
+  }
+}
+
+/** 按分块估算一篇文献在各模型上的总费用，任一模型未定价时返回 null */
+export function estimateDocumentCost(
+  rawText: string,
+  models: (string | null)[],
+  options: { chunkTokenBudget?: number; modelPrices: ModelPrice[] },
+) {
+  const usage = estimateExtractionUsage(rawText, options.chunkTokenBudget);
+  const estimates = models.map((model) => estimateCost(usage, model, options.modelPrices));
+  if (estimates.some((estimate) => estimate == null)) return null;
+  return estimates.reduce<number>((acc, value) => acc + (value ?? 0), 0);
+}
+
+/** 已花费 + 进行中文献的预留 + 本次估算不超过预算时登记预留并返回 true */
+export function reserveBatchBudget(
+  batch: BatchState,
+  documentId: string,
+  estimate: number,
+  budgetLimit: number,
+) {
+  const reserved = Array.from(batch.reserved.values()).reduce(
+    (acc, value) => acc + value,
+    0,
+  );
+  if (batch.spent + reserved + estimate > budgetLimit) return false;
+  batch.reserved.set(documentId, estimate);
+  return true;
+}
+
+/** 先查已有记录，再查本批次中其他正在提取或已完成的文献 */
+export function findBatchDoiDuplicate(
+  batch: BatchState,
+  documentId: string,
+  doi: string,
+  records: ExtractionRecord[],
+): DuplicateMatch | null {
+  const existing = findDoiDuplicate(doi, records);
+  if (existing) return existing;
+  const fileName = Array.from(batch.dois.entries()).find(
+    ([id, item]) => id !== documentId && item.doi === doi,
+  )?.[1].fileName;
+  return fileName ? { reason: "doi", recordId: null, fileName, doi } : null;
+}
+
+/** 预算通过后才登记 DOI，避免被放回队列的文献挡住同 DOI 的其他文献 */
+export function registerBatchDoi(
+  batch: BatchState,
+  documentId: string,
+  doi: string,
+  fileName: string,
+) {
+  batch.dois.set(documentId, { doi, fileName });
+}
+
+/** 文献处理结束时释放预留；失败、取消或放回队列时同时移除其 DOI */
+export function releaseBatchDocument(
+  batch: BatchState,
+  documentId: string,
+  completed: boolean,
+) {
+  batch.reserved.delete(documentId);
+  if (!completed) batch.dois.delete(documentId);
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  bibliographyFromText,
+  findPublicationYear,
+  findYearInName,
+  formatCitation,
+  mergeBibliography,
+  normalizeDoi,
+  readPdfMetadata,
+  splitAuthors,
+} from "@/lib/bibliography";
+
+describe("splitAuthors", () => {
+  it("splits two authors separated by a single comma", () => {
+    expect(splitAuthors("Smith J, Li X")).toEqual(["Smith J", "Li X"]);
+    expect(splitAuthors("John Smith, Xiao Li")).toEqual(["John Smith", "Xiao Li"]);
+  });
+
+  it("keeps a single Surname, Given author together", () => {
+    expect(splitAuthors("Smith, John")).toEqual(["Smith, John"]);
+    expect(splitAuthors("Smith, John A.")).toEqual(["Smith, John A."]);
+    expect(splitAuthors("Smith, J.")).toEqual(["Smith, J."]);
+    expect(splitAuthors("Dupont, J.-P.")).toEqual(["Dupont, J.-P."]);
+    expect(splitAuthors("Smith, JK")).toEqual(["Smith, JK"]);
+    expect(splitAuthors("Müller, Élodie")).toEqual(["Müller, Élodie"]);
+  });
+
+  it("splits longer lists, semicolons and 'and'", () => {
+    expect(splitAuthors("Smith J, Li X, Wang Y")).toEqual(["Smith J", "Li X", "Wang Y"]);
+    expect(splitAuthors("Smith, John; Li, Xiao")).toEqual(["Smith, John", "Li, Xiao"]);
+    expect(splitAuthors("John Smith, Xiao Li and Yan Wang")).toEqual([
+      "John Smith",
+      "Xiao Li",
+      "Yan Wang",
+    ]);
+    expect(splitAuthors(["Smith J", "  Li   X "])).toEqual(["Smith J", "Li X"]);
+    expect(splitAuthors(42)).toEqual([]);
+  });
+});
+
+describe("normalizeDoi", () => {
+  it("strips prefixes and trailing punctuation", () => {
+    expect(normalizeDoi("https://doi.org/10.1128/AAC.01234-19.")).toBe("10.1128/aac.01234-19");
+    expect(normalizeDoi("doi:10.3389/fmicb.2020.00001)")).toBe("10.3389/fmicb.2020.00001");
+    expect(normalizeDoi("not a doi")).toBeNull();
+  });
+});
+
+describe("year helpers", () => {
+  it("reads publication years from text and file names", () => {
+    expect(findPublicationYear("Received 3 May 2018; Accepted 9 Jan 2019")).toBe(2019);
+    expect(findPublicationYear("© 2021 The Authors")).toBe(2021);
+    expect(findPublicationYear("No dates here")).toBeNull();
+    expect(findYearInName("smith_2017_kpc.pdf")).toBe(2017);
+    expect(findYearInName("paper12345.pdf")).toBeNull();
+  });
+});
+
+describe("bibliographyFromText", () => {
+  it("picks the title, journal and DOI from the first page", () => {
+    const metadata = bibliographyFromText(
+      "[Page 1]\nJournal of Antimicrobial Chemotherapy, 2019\n" +
+        "Emergence of carbapenem-resistant Klebsiella pneumoniae in a tertiary hospital\n" +
+        "John Smith, Xiao Li\nhttps://doi.org/10.1093/jac/dkz123\nPublished online 4 March 2019\n" +
+        "[Page 2]\nResults © 2005",
+    );
+
+    expect(metadata).toEqual({
+      title: "Emergence of carbapenem-resistant Klebsiella pneumoniae in a tertiary hospital",
+      journal: "Journal of Antimicrobial Chemotherapy",
+      doi: "10.1093/jac/dkz123",
+      year: 2019,
+    });
+  });
+});
+
+describe("readPdfMetadata", () => {
+  it("lists XMP before the document information dictionary", async () => {
+    const xmp = new Map<string, unknown>([
+      ["dc:title", "Carbapenemase genes in Enterobacterales"],
+      ["dc:creator", ["Smith J", "Li X"]],
+      ["prism:doi", "10.1000/XYZ"],
+    ]);
+    const sources = await readPdfMetadata({
+      getMetadata: async () => ({
+        info: { Title: "paper.docx", Author: "Smith J, Li X" },
+        metadata: { get: (name: string) => xmp.get(name) },
+      }),
+    });
+
+    expect(sources[0]).toMatchObject({
+      title: "Carbapenemase genes in Enterobacterales",
+      authors: ["Smith J", "Li X"],
+      doi: "10.1000/xyz",
+    });
+    expect(sources[1]).toMatchObject({ title: null, authors: ["Smith J", "Li X"] });
+  });
+
+  it("returns no sources when pdf.js fails", async () => {
+    const sources = await readPdfMetadata({
+      getMetadata: () => Promise.reject(new Error("broken")),
+    });
+
+    expect(sources).toEqual([]);
+  });
+});
+
+describe("mergeBibliography and formatCitation", () => {
+  it("prefers earlier sources and abbreviates long author lists", () => {
+    const merged = mergeBibliography(
+      { title: "Title A", authors: [] },
+      { title: "Title B", authors: ["Smith J", "Li X", "Wang Y", "Chen Z"], year: 2019 },
+      { journal: "mBio", doi: "10.1128/mbio.1" },
+    );
+
+    expect(merged.title).toBe("Title A");
+    expect(formatCitation(merged)).toBe(
+      "Smith J, Li X, Wang Y, et al. (2019). Title A. mBio. https://doi.org/10.1128/mbio.1",
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import type { BibliographicMetadata } from "@/types/extraction";
+
+const YEAR = "(19[5-9]\\d|20[0-4]\\d)";
+const YEAR_PATTERNS = [
+  new RegExp(`(?:Published(?: online)?|Accepted)[^\\n]{0,40}?\\b${YEAR}\\b`, "i"),
+  new RegExp(`(?:©|\\(c\\)|Copyright)\\s*${YEAR}\\b`, "i"),
+];
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+
+/** 文献开头常见的非标题行：期刊页眉、栏目名、链接与版权声明 */
+const NON_TITLE_LINE =
+  /(doi|https?:|www\.|©|copyright|received|accepted|published|vol\.|volume|issn|article|open access|contents lists|journal homepage|original|research|review|downloaded|licen[cs]e|correspondence|@)/i;
+
+const JOURNAL_LINE =
+  /\b(journal|annals|frontiers in|bmc |plos|proceedings|lancet|nature|microbiology|infect|antimicrob|emerging|eurosurveillance|clinical|veterinary)\b/i;
+
+export function emptyBibliography(): BibliographicMetadata {
+  return { title: null, authors: [], year: null, journal: null, doi: null };
+}
+
+/** 去掉 https://doi.org/、doi: 前缀和结尾标点，统一为小写 */
+export function normalizeDoi(value: string | null | undefined) {
+  if (!value) return null;
+  const match = DOI_PATTERN.exec(value.trim());
+  if (!match) return null;
+  return match[1].replace(/[.,;:)\]}]+$/, "").toLowerCase();
+}
+
+export function findDoi(text: string) {
+  return normalizeDoi(DOI_PATTERN.exec(text)?.[1]);
+}
+
+/**
+ * 推断发表年份：依次查找“Published/Accepted …年份”与版权声明中的四位年份。
+ */
+export function findPublicationYear(text: string): number | null {
+  for (const pattern of YEAR_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) return Number(match[1]);
+  }
+  return null;
+}
+
+export function findYearInName(fileName: string): number | null {
+  const match = new RegExp(`(?:^|\\D)${YEAR}(?:\\D|$)`).exec(fileName);
+  return match ? Number(match[1]) : null;
+}
+
+function cleanText(value: unknown) {
+  const text = Array.isArray(value) ? value[0] : value;
+  if (typeof text !== "string") return null;
+  const cleaned = text.replace(/\s+/g, " ").trim();
+  return cleaned || null;
+}
+
+/** 排版软件常把文件名或“Microsoft Word - xxx.docx”写进 Title */
+function usableTitle(value: unknown) {
+  const title = cleanText(value);
+  if (!title || title.length < 10) return null;
+  if (/\.(pdf|docx?|tex|indd)$/i.test(title) || /^(microsoft word|untitled)/i.test(title)) {
+    return null;
+  }
+  return title;
+}
+
+/** “姓, 名”中逗号后的部分：单个名字（可带缩写，如 John A.）或缩写（J.、J.-P.、JK） */
+const GIVEN_NAME_OR_INITIALS =
+  /^(?:\p{Lu}[\p{Ll}'-]+(?:\s+\p{Lu}\.)*|(?:\p{Lu}\.\s?-?)+|\p{Lu}{1,3})$/u;
+
+export function splitAuthors(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? [value] : [];
+  return items
+    .flatMap((item) => {
+      if (typeof item !== "string") return [];
+      const separator = item.includes(";") ? ";" : /\sand\s/.test(item) ? /,|\sand\s/ : ",";
+      const parts = item.split(separator);
+      // 只有一个逗号且后半部分只是名字或缩写时，为“Smith, John”形式，不拆分；
+      // “Smith J, Li X”这样两位作者的写法仍按逗号拆开
+      if (
+        separator === "," &&
+        parts.length === 2 &&
+        GIVEN_NAME_OR_INITIALS.test(parts[1].trim())
+      ) {
+        return [item];
+      }
+      return parts;
+    })
+    .map((author) => author.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+/** pdf.js 的 getMetadata()：info 为文档信息字典，metadata 为解析后的 XMP（键名为小写） */
+export interface PdfMetadataSource {
+  getMetadata: () => Promise<{
+    info: object;
+    metadata: { get: (name: string) => unknown } | null;
+  }>;
+}
+
+function fromInfoDictionary(info: Record<string, unknown>): Partial<BibliographicMetadata> {
+  const subject = cleanText(info.Subject) ?? "";
+  const custom = (info.Custom ?? {}) as Record<string, unknown>;
+  const doi =
+    normalizeDoi(cleanText(custom.doi ?? custom.DOI)) ??
+    findDoi(subject) ??
+    findDoi(cleanText(info.Keywords) ?? "");
+  // Subject 常见形式：“Journal of Xxx, 12 (2019) 1-10. doi:10.xxxx/…”
+  const journal = doi && subject ? cleanText(subject.split(/[,.(]|\bdoi\b/i)[0]) : null;
+  const yearMatch = subject ? new RegExp(`\\b${YEAR}\\b`).exec(subject) : null;
+
+  return {
+    title: usableTitle(info.Title),
+    authors: splitAuthors(info.Author),
+    doi,
+    journal: journal && journal.length > 3 ? journal : null,
+    year: doi && yearMatch ? Number(yearMatch[1]) : null,
+  };
+}
+
+function fromXmp(metadata: {
+  get: (name: string) => unknown;
+}): Partial<BibliographicMetadata> {
+  const read = (...names: string[]) =>
+    names.map((name) => metadata.get(name)).find((value) => cleanText(value) != null);
+  const date = cleanText(
+    read("prism:coverdate", "prism:coverdisplaydate", "prism:publicationdate"),
+  );
+  const year = date ? new RegExp(`\\b${YEAR}\\b`).exec(date) : null;
+  return {
+    title: usableTitle(read("dc:title")),
+    authors: splitAuthors(metadata.get("dc:creator")),
+    doi: normalizeDoi(
+      cleanText(read("prism:doi", "pdfx:doi", "crossmark:doi", "dc:identifier")),
+    ),
+    journal: cleanText(read("prism:publicationname")),
+    year: year ? Number(year[1]) : null,
+  };
+}
+
+/** 读取 PDF 文档信息字典与 XMP 元数据，读取失败时返回空结果 */
+export async function readPdfMetadata(
+  pdf: PdfMetadataSource,
+): Promise<Partial<BibliographicMetadata>[]> {
+  try {
+    const { info, metadata } = await pdf.getMetadata();
+    return [
+      ...(metadata ? [fromXmp(metadata)] : []),
+      fromInfoDictionary(info as Record<string, unknown>),
+    ];
+  } catch (error) {
+    console.warn("无法读取 PDF 元数据", error);
+    return [];
+  }
+}
+
+/** 从原文第一页推断 DOI、年份、期刊与标题；标题只取第一条像标题的长行 */
+export function bibliographyFromText(text: string): Partial<BibliographicMetadata> {
+  const firstPage = text.split(/\n\[Page 2\]/)[0].replace(/^\[Page 1\]\n?/, "");
+  const lines = firstPage
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, 25);
+
+  const titleIndex = lines.findIndex(
+    (line) =>
+      line.length >= 20 &&
+      line.length <= 300 &&
+      line.split(/\s+/).length >= 4 &&
+      !NON_TITLE_LINE.test(line) &&
+      !JOURNAL_LINE.test(line) &&
+      !/^\[Table /.test(line),
+  );
+  let title = titleIndex >= 0 ? lines[titleIndex] : null;
+  const nextLine = titleIndex >= 0 ? lines[titleIndex + 1] : undefined;
+  if (title && nextLine && /^[a-z(]/.test(nextLine)) title = `${title} ${nextLine}`;
+
+  const journal = lines
+    .slice(0, 10)
+    .find(
+      (line) => line.length <= 120 && JOURNAL_LINE.test(line) && !DOI_PATTERN.test(line),
+    );
+
+  return {
+    title: title?.replace(/[*†‡§]+$/, "").trim() || null,
+    doi: findDoi(firstPage),
+    year: findPublicationYear(firstPage),
+    journal: journal?.replace(/[,;]?\s*(?:\d{4}|vol\.?|volume)\b.*$/i, "").trim() || null,
+  };
+}
+
+/** 按顺序取每个字段第一个非空的值，靠前的来源优先 */
+export function mergeBibliography(
+  ...sources: (Partial<BibliographicMetadata> | null | undefined)[]
+): BibliographicMetadata {
+  const merged = emptyBibliography();
+  sources.forEach((source) => {
+    if (!source) return;
+    merged.title ??= source.title ?? null;
+    merged.journal ??= source.journal ?? null;
+    merged.doi ??= source.doi ?? null;
+    merged.year ??= source.year ?? null;
+    if (!merged.authors.length && source.authors?.length) merged.authors = source.authors;
+  });
+  return merged;
+}
+
+export function hasBibliography(metadata: BibliographicMetadata | null | undefined) {
+  return Boolean(
+    metadata &&
+      (metadata.title || metadata.doi || metadata.journal || metadata.authors.length),
+  );
+}
+
+export function doiUrl(doi: string) {
+  return `https://doi.org/${doi}`;
+}
+
+/**
+ * 作者超过三位时缩写为 et al.，例如
+ * “Smith J, Li X, Wang Y, et al. (2019). 标题. 期刊. https://doi.org/…”
+ */
+export function formatCitation(metadata: BibliographicMetadata) {
+  const authors =
+    metadata.authors.length > 3
+      ? `${metadata.authors.slice(0, 3).join(", ")}, et al.`
+      : metadata.authors.join(", ");
+  return [
+    [authors, metadata.year != null ? `(${metadata.year})` : null].filter(Boolean).join(" "),
+    metadata.title,
+    metadata.journal,
+    metadata.doi ? doiUrl(metadata.doi) : null,
+  ]
+    .filter((part): part is string => Boolean(part))
+    .map((part) => part.replace(/\.$/, ""))
+    .join(". ");
+}
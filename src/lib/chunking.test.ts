@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { mergeEntityLists } from "@/lib/chunking";
+import type { MicrobialEntity } from "@/types/extraction";
+
+function entity(overrides: Partial<MicrobialEntity>): MicrobialEntity {
+  return {
+    id: crypto.randomUUID(),
+    genus: "Klebsiella",
+    species: "pneumoniae",
+    subspecies: null,
+    serovar: null,
+    strain: null,
+    mlst_st: null,
+    taxonomy_id: null,
+    source: null,
+    resistance: [],
+    pathogenicity: null,
+    context: null,
+    confidence: null,
+    ...overrides,
+  };
+}
+
+describe("mergeEntityLists", () => {
+  it("keeps strain-less isolates with conflicting ST and source apart", () => {
+    const merged = mergeEntityLists([
+      [entity({ mlst_st: "ST258", source: "blood" })],
+      [entity({ mlst_st: "ST11", source: "urine" })],
+    ]);
+
+    expect(merged.map((item) => [item.mlst_st, item.source])).toEqual([
+      ["ST258", "blood"],
+      ["ST11", "urine"],
+    ]);
+  });
+
+  it("merges mentions whose filled fields agree", () => {
+    const merged = mergeEntityLists([
+      [entity({ genus: "K.", mlst_st: "258", resistance: ["blaKPC-2"] })],
+      [entity({ mlst_st: "ST258", source: "blood" })],
+      [entity({})],
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({
+      genus: "Klebsiella",
+      mlst_st: "258",
+      source: "blood",
+      resistance: ["blaKPC-2"],
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { getResistanceEntries, mergeResistanceEntries } from "@/lib/resistance";
+import type { MicrobialEntity } from "@/types/extraction";
+
+export const DEFAULT_CHUNK_TOKEN_BUDGET = 6000;
+export const MIN_CHUNK_TOKEN_BUDGET = 500;
+
+const PAGE_MARKER = /\[Page (\d+)\]/g;
+const CJK_CHAR = /[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  startPage: number | null;
+  endPage: number | null;
+  estimatedTokens: number;
+}
+
+interface PageText {
+  page: number | null;
+  text: string;
+}
+
+export function estimateTokens(text: string) {
+  const cjkCount = text.match(CJK_CHAR)?.length ?? 0;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+function splitIntoPages(text: string): PageText[] {
+  const pages: PageText[] = [];
+  const matches = Array.from(text.matchAll(PAGE_MARKER));
+
+  const leading = text.slice(0, matches[0]?.index ?? text.length).trim();
+  if (leading) {
+    pages.push({ page: null, text: leading });
+  }
+
+  matches.forEach((match, index) => {
+    const start = match.index ?? 0;
+    const end = matches[index + 1]?.index ?? text.length;
+    const pageText = text.slice(start, end).trim();
+    if (pageText) {
+      pages.push({ page: Number(match[1]), text: pageText });
+    }
+  });
+
+  return pages;
+}
+
+function splitOversizedPage(page: PageText, maxTokens: number): PageText[] {
+  const marker = page.page != null ? `[Page ${page.page}]` : "";
+  const body = marker ? page.text.slice(marker.length).trim() : page.text;
+  const tokens = estimateTokens(body);
+  const charsPerPiece = Math.max(
+    200,
+    Math.floor((body.length * maxTokens) / Math.max(tokens, 1)) - marker.length,
+  );
+
+  const pieces: PageText[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    let end = Math.min(offset + charsPerPiece, body.length);
+    if (end < body.length) {
+      // 尽量在句末或空白处断开，避免截断物种名
+      const window = body.slice(offset, end);
+      const boundary = Math.max(
+        window.lastIndexOf("。"),
+        window.lastIndexOf(". "),
+        window.lastIndexOf("\n"),
+      );
+      if (boundary > charsPerPiece * 0.5) {
+        end = offset + boundary + 1;
+      } else {
+        const space = window.lastIndexOf(" ");
+        if (space > charsPerPiece * 0.5) {
+          end = offset + space + 1;
+        }
+      }
+    }
+    const pieceText = body.slice(offset, end).trim();
+    if (pieceText) {
+      pieces.push({
+        page: page.page,
+        text: marker ? `${marker}\n${pieceText}` : pieceText,
+      });
+    }
+    offset = end;
+  }
+
+  return pieces;
+}
+
+export function splitTextIntoChunks(
+  text: string,
+  options: { maxTokens?: number } = {},
+): TextChunk[] {
+  const maxTokens = Math.max(
+    MIN_CHUNK_TOKEN_BUDGET,
+    options.maxTokens ?? DEFAULT_CHUNK_TOKEN_BUDGET,
+  );
+
+  const pages = splitIntoPages(text).flatMap((page) =>
+    estimateTokens(page.text) > maxTokens
+      ? splitOversizedPage(page, maxTokens)
+      : [page],
+  );
+
+  const chunks: TextChunk[] = [];
+  let current: PageText[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (!current.length) return;
+    const numbered = current
+      .map((page) => page.page)
+      .filter((page): page is number => page != null);
+    chunks.push({
+      index: chunks.length,
+      text: current.map((page) => page.text).join("\n\n"),
+      startPage: numbered[0] ?? null,
+      endPage: numbered[numbered.length - 1] ?? null,
+      estimatedTokens: currentTokens,
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  pages.forEach((page) => {
+    const tokens = estimateTokens(page.text);
+    if (current.length && currentTokens + tokens > maxTokens) {
+      flush();
+    }
+    current.push(page);
+    currentTokens += tokens;
+  });
+  flush();
+
+  return chunks;
+}
+
+function normalizeKeyPart(value: string | null | undefined) {
+  return (value ?? "").toLowerCase().replace(/[\s._-]+/g, "");
+}
+
+export function isAbbreviatedGenus(genus: string | null | undefined) {
+  return !!genus && /^[A-Z][a-z]?\.?$/.test(genus.trim());
+}
+
+function resolveGenus(
+  entity: MicrobialEntity,
+  fullGenusBySpecies: Map<string, string>,
+) {
+  if (!isAbbreviatedGenus(entity.genus)) return entity.genus ?? null;
+  const initial = entity.genus!.trim().charAt(0).toUpperCase();
+  const candidate = fullGenusBySpecies.get(
+    `${initial}|${normalizeKeyPart(entity.species)}`,
+  );
+  return candidate ?? entity.genus ?? null;
+}
+
+/** 两个实体都填写了且取值不同的字段说明是不同的分离株 */
+const CONFLICT_FIELDS = ["mlst_st", "serovar", "source", "subspecies", "taxonomy_id"] as const;
+
+function conflictValue(
+  field: (typeof CONFLICT_FIELDS)[number],
+  value: string | null | undefined,
+) {
+  const normalized = normalizeKeyPart(value);
+  return field === "mlst_st" ? normalized.replace(/^st/, "") : normalized;
+}
+
+export function entitiesConflict(a: MicrobialEntity, b: MicrobialEntity) {
+  return CONFLICT_FIELDS.some((field) => {
+    const left = conflictValue(field, a[field]);
+    const right = conflictValue(field, b[field]);
+    return Boolean(left && right && left !== right);
+  });
+}
+
+/**
+ * 合并两个指向同一菌株的实体：保留 target 已有的字段，用 incoming 补全空缺。
+ */
+export function mergeEntityPair(target: MicrobialEntity, incoming: MicrobialEntity) {
+  const merged: MicrobialEntity = { ...target };
+  const scalarFields = [
+    "genus",
+    "species",
+    "subspecies",
+    "serovar",
+    "strain",
+    "mlst_st",
+    "taxonomy_id",
+    "source",
+    "pathogenicity",
+    "context",
+  ] as const;
+
+  scalarFields.forEach((field) => {
+    if (!merged[field] && incoming[field]) {
+      merged[field] = incoming[field];
+    }
+  });
+
+  const resistance = new Map<string, string>();
+  [...(target.resistance ?? []), ...(incoming.resistance ?? [])].forEach(
+    (item) => {
+      const key = item.trim().toLowerCase();
+      if (key && !resistance.has(key)) resistance.set(key, item.trim());
+    },
+  );
+  merged.resistance = Array.from(resistance.values());
+  if (target.resistanceEntries || incoming.resistanceEntries) {
+    merged.resistanceEntries = mergeResistanceEntries(
+      getResistanceEntries(target),
+      getResistanceEntries(incoming),
+    );
+  }
+
+  if (target.customFields || incoming.customFields) {
+    const customFields = { ...incoming.customFields, ...target.customFields };
+    Object.entries(incoming.customFields ?? {}).forEach(([key, value]) => {
+      const current = customFields[key];
+      if (Array.isArray(current) && Array.isArray(value)) {
+        customFields[key] = Array.from(new Set([...current, ...value]));
+      } else if (current == null || current === "") {
+        customFields[key] = value;
+      }
+    });
+    merged.customFields = customFields;
+  }
+
+  if (incoming.confidence != null) {
+    merged.confidence =
+      merged.confidence != null
+        ? Math.max(merged.confidence, incoming.confidence)
+        : incoming.confidence;
+  }
+
+  return merged;
+}
+
+/**
+ * 合并各分块的实体列表：按属 + 种 + 菌株去重，缩写属名（如 E. coli）
+ * 会在同一文献中找到完整属名时归并到一起。ST、来源等字段冲突的实体
+ * （如没有菌株名的 ST258 与 ST11）视为不同分离株，分别保留。
+ */
+export function mergeEntityLists(lists: MicrobialEntity[][]): MicrobialEntity[] {
+  const all = lists.flat();
+
+  const fullGenusBySpecies = new Map<string, string>();
+  all.forEach((entity) => {
+    if (entity.genus && entity.species && !isAbbreviatedGenus(entity.genus)) {
+      const genus = entity.genus.trim();
+      fullGenusBySpecies.set(
+        `${genus.charAt(0).toUpperCase()}|${normalizeKeyPart(entity.species)}`,
+        genus,
+      );
+    }
+  });
+
+  const merged: MicrobialEntity[] = [];
+  const positionsByKey = new Map<string, number[]>();
+  all.forEach((entity) => {
+    const genus = resolveGenus(entity, fullGenusBySpecies);
+    const normalized = { ...entity, genus };
+    const hasIdentity = genus || entity.species || entity.strain;
+    const key = hasIdentity
+      ? [genus, entity.species, entity.strain].map(normalizeKeyPart).join("|")
+      : `id:${entity.id}`;
+
+    const positions = positionsByKey.get(key) ?? [];
+    const position = positions.find(
+      (index) => !entitiesConflict(merged[index], normalized),
+    );
+    if (position != null) {
+      merged[position] = mergeEntityPair(merged[position], normalized);
+    } else {
+      positionsByKey.set(key, [...positions, merged.length]);
+      merged.push(normalized);
+    }
+  });
+
+  return merged;
+}
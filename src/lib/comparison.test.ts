@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  acceptCandidateEntity,
+  acceptCandidateField,
+  alignEntities,
+  computeComparisonMetrics,
+  getComparedFields,
+} from "@/lib/comparison";
+import { computeExtractionSummary } from "@/lib/extraction";
+import type { ExtractionRecord, FieldDefinition, MicrobialEntity } from "@/types/extraction";
+
+const hostField: FieldDefinition = {
+  key: "host",
+  label: "宿主",
+  type: "string",
+  description: "",
+  array: false,
+};
+const fields = getComparedFields([hostField]);
+
+const base: MicrobialEntity[] = [
+  {
+    id: "b1",
+    genus: "Klebsiella",
+    species: "pneumoniae",
+    strain: "KP-7",
+    mlst_st: "ST258",
+    source: "blood",
+    context: "one wording",
+    confidence: 0.9,
+    customFields: { host: "Homo sapiens" },
+  },
+  { id: "b2", genus: "Escherichia", species: "coli", strain: null, source: "urine" },
+];
+
+const candidate: MicrobialEntity[] = [
+  { id: "c1", genus: "E.", species: "coli", strain: "EC-1", source: "urine" },
+  {
+    id: "c2",
+    genus: "Klebsiella",
+    species: "pneumoniae",
+    strain: "kp 7",
+    mlst_st: "ST11",
+    source: "Blood",
+    context: "another wording",
+    confidence: 0.5,
+    customFields: { host: "Homo sapiens" },
+  },
+  { id: "c3", genus: "Acinetobacter", species: "baumannii" },
+];
+
+function record(entities: MicrobialEntity[]): ExtractionRecord {
+  return {
+    id: "r1",
+    fileName: "paper.pdf",
+    fileSize: 1,
+    processedAt: "2024-01-01T00:00:00.000Z",
+    durationMs: 0,
+    summary: computeExtractionSummary(entities),
+    entities,
+    rawTextPreview: "",
+  };
+}
+
+describe("getComparedFields", () => {
+  it("skips context and confidence and appends custom fields", () => {
+    const keys = fields.map((field) => field.key);
+
+    expect(keys).not.toContain("context");
+    expect(keys).not.toContain("confidence");
+    expect(keys.at(-1)).toBe("host");
+  });
+});
+
+describe("alignEntities", () => {
+  const alignments = alignEntities(base, candidate, fields);
+
+  it("pairs strains strictly first, then lets one side lack a strain", () => {
+    expect(
+      alignments.map((item) => [item.status, item.base?.id ?? null, item.candidate?.id ?? null]),
+    ).toEqual([
+      ["matched", "b1", "c2"],
+      ["matched", "b2", "c1"],
+      ["added", null, "c3"],
+    ]);
+  });
+
+  it("diffs fields case-insensitively", () => {
+    const status = (key: string) =>
+      alignments[0].diffs.find((diff) => diff.field.key === key)?.status;
+
+    expect(status("mlst_st")).toBe("changed");
+    expect(status("source")).toBe("same");
+    expect(status("host")).toBe("same");
+    expect(status("serovar")).toBe("empty");
+    expect(alignments[1].diffs.find((diff) => diff.field.key === "strain")?.status).toBe("added");
+  });
+
+  it("summarizes entity and field agreement", () => {
+    const metrics = computeComparisonMetrics(alignments, fields);
+
+    expect(metrics).toMatchObject({ matched: 2, added: 1, missing: 0 });
+    expect(metrics.entityAgreement).toBeCloseTo(2 / 3);
+    const mlst = metrics.fields.find((field) => field.field.key === "mlst_st");
+    expect(mlst).toMatchObject({ compared: 1, agreed: 0, score: 0 });
+  });
+});
+
+describe("accepting candidate values", () => {
+  it("copies a field into the base entity and logs the edit", () => {
+    const [alignment] = alignEntities(base, candidate, fields);
+    const mlst = fields.find((field) => field.key === "mlst_st")!;
+    const updated = acceptCandidateField(record(base), alignment, mlst, "tester");
+
+    expect(updated.entities[0].mlst_st).toBe("ST11");
+    expect(updated.auditLog).toMatchObject([
+      { action: "edit", actor: "tester", field: "mlst_st", oldValue: "ST258", newValue: "ST11" },
+    ]);
+  });
+
+  it("adds candidate-only entities as unverified", () => {
+    const pending = { ...candidate[2], verified: true };
+    const updated = acceptCandidateEntity(record(base), pending, "tester");
+
+    expect(updated.entities).toHaveLength(3);
+    expect(updated.entities[2]).toMatchObject({ genus: "Acinetobacter", verified: false });
+    expect(updated.summary.organismCount).toBe(3);
+  });
+});
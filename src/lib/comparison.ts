@@ -0,0 +1,272 @@
+import { addEntity, updateCustomField, updateEntityField } from "@/lib/curation";
+import type { EditableField } from "@/lib/curation";
+import { BUILT_IN_FIELDS, formatCustomFieldValue } from "@/lib/fields";
+import {
+  formatResistanceEntry,
+  getResistanceEntries,
+  resistanceEntryKey,
+} from "@/lib/resistance";
+import type { ExtractionRecord, FieldDefinition, MicrobialEntity } from "@/types/extraction";
+
+/** 参与对比的字段：上下文与置信度每次运行都会不同，不计入一致性 */
+export interface ComparedField {
+  key: string;
+  label: string;
+  /** 自定义字段的定义，内置字段为 null */
+  custom: FieldDefinition | null;
+}
+
+export type FieldDiffStatus = "same" | "changed" | "added" | "missing" | "empty";
+
+export interface FieldDiff {
+  field: ComparedField;
+  baseValue: string;
+  candidateValue: string;
+  status: FieldDiffStatus;
+}
+
+export type AlignmentStatus = "matched" | "added" | "missing";
+
+/**
+ * 一对对齐的实体：base 来自当前记录，candidate 来自对比运行。
+ * added 表示只有对比运行识别到，missing 表示对比运行漏掉了当前记录中的实体。
+ */
+export interface EntityAlignment {
+  status: AlignmentStatus;
+  base: MicrobialEntity | null;
+  candidate: MicrobialEntity | null;
+  diffs: FieldDiff[];
+}
+
+export interface FieldAgreement {
+  field: ComparedField;
+  /** 两侧都为空的不计入 */
+  compared: number;
+  agreed: number;
+  score: number | null;
+}
+
+export interface ComparisonMetrics {
+  matched: number;
+  added: number;
+  missing: number;
+  /** 对齐实体数 / 两侧实体并集，即实体层面的 Jaccard 系数 */
+  entityAgreement: number | null;
+  /** 全部字段的一致率，按比较次数加权 */
+  fieldAgreement: number | null;
+  fields: FieldAgreement[];
+}
+
+export const ALIGNMENT_STATUS_LABELS: Record<AlignmentStatus, string> = {
+  matched: "已对齐",
+  added: "仅对比结果",
+  missing: "仅当前记录",
+};
+
+export const FIELD_DIFF_LABELS: Record<FieldDiffStatus, string> = {
+  same: "一致",
+  changed: "不同",
+  added: "新增",
+  missing: "缺失",
+  empty: "均为空",
+};
+
+const EXCLUDED_FIELDS = new Set(["context", "confidence"]);
+
+export function getComparedFields(customFields: FieldDefinition[] = []): ComparedField[] {
+  return [
+    ...BUILT_IN_FIELDS.filter((field) => !EXCLUDED_FIELDS.has(field.key)).map((field) => ({
+      key: field.key,
+      label: field.label,
+      custom: null,
+    })),
+    ...customFields.map((field) => ({ key: field.key, label: field.label, custom: field })),
+  ];
+}
+
+function normalizeKeyPart(value: string | null | undefined) {
+  return (value ?? "").toLowerCase().replace(/[\s._-]+/g, "");
+}
+
+/** 缩写属名（如 “E.”）只比较首字母 */
+function sameGenus(a: string | null | undefined, b: string | null | undefined) {
+  const left = normalizeKeyPart(a);
+  const right = normalizeKeyPart(b);
+  if (left === right) return true;
+  if (left.length === 1 || right.length === 1) return left.charAt(0) === right.charAt(0);
+  return false;
+}
+
+function sameIdentity(a: MicrobialEntity, b: MicrobialEntity, strict: boolean) {
+  if (!sameGenus(a.genus, b.genus)) return false;
+  if (normalizeKeyPart(a.species) !== normalizeKeyPart(b.species)) return false;
+  const strainA = normalizeKeyPart(a.strain);
+  const strainB = normalizeKeyPart(b.strain);
+  // 第二轮允许一侧缺少菌株编号
+  return strict ? strainA === strainB : !strainA || !strainB || strainA === strainB;
+}
+
+/** 对比用的字段值，抗药性按结构化条目比较，忽略顺序 */
+function comparableValue(entity: MicrobialEntity, field: ComparedField) {
+  if (field.custom) {
+    return formatCustomFieldValue(entity.customFields?.[field.key]);
+  }
+  if (field.key === "resistance") {
+    return getResistanceEntries(entity).map(resistanceEntryKey).sort().join("\n");
+  }
+  const value = entity[field.key as EditableField];
+  return value == null ? "" : String(value).trim();
+}
+
+export function displayFieldValue(entity: MicrobialEntity | null, field: ComparedField) {
+  if (!entity) return "";
+  if (field.key === "resistance" && !field.custom) {
+    return getResistanceEntries(entity).map(formatResistanceEntry).join("；");
+  }
+  return comparableValue(entity, field);
+}
+
+function diffFields(
+  base: MicrobialEntity | null,
+  candidate: MicrobialEntity | null,
+  fields: ComparedField[],
+): FieldDiff[] {
+  return fields.map((field) => {
+    const left = base ? comparableValue(base, field) : "";
+    const right = candidate ? comparableValue(candidate, field) : "";
+    const status: FieldDiffStatus =
+      !left && !right
+        ? "empty"
+        : !left
+        ? "added"
+        : !right
+        ? "missing"
+        : left.toLowerCase() === right.toLowerCase()
+        ? "same"
+        : "changed";
+    return {
+      field,
+      baseValue: displayFieldValue(base, field),
+      candidateValue: displayFieldValue(candidate, field),
+      status,
+    };
+  });
+}
+
+/**
+ * 按属 + 种 + 菌株对齐两组实体：先要求三者一致，剩余的再允许一侧缺少菌株编号，
+ * 每个实体最多对齐一次。
+ */
+export function alignEntities(
+  base: MicrobialEntity[],
+  candidate: MicrobialEntity[],
+  fields: ComparedField[],
+): EntityAlignment[] {
+  const pairs = new Map<string, MicrobialEntity>();
+  const used = new Set<string>();
+
+  [true, false].forEach((strict) => {
+    base.forEach((entity) => {
+      if (pairs.has(entity.id)) return;
+      const match = candidate.find(
+        (item) => !used.has(item.id) && sameIdentity(entity, item, strict),
+      );
+      if (match) {
+        pairs.set(entity.id, match);
+        used.add(match.id);
+      }
+    });
+  });
+
+  return [
+    ...base.map((entity) => {
+      const match = pairs.get(entity.id) ?? null;
+      return {
+        status: match ? ("matched" as const) : ("missing" as const),
+        base: entity,
+        candidate: match,
+        diffs: diffFields(entity, match, fields),
+      };
+    }),
+    ...candidate
+      .filter((entity) => !used.has(entity.id))
+      .map((entity) => ({
+        status: "added" as const,
+        base: null,
+        candidate: entity,
+        diffs: diffFields(null, entity, fields),
+      })),
+  ];
+}
+
+export function computeComparisonMetrics(
+  alignments: EntityAlignment[],
+  fields: ComparedField[],
+): ComparisonMetrics {
+  const count = (status: AlignmentStatus) =>
+    alignments.filter((alignment) => alignment.status === status).length;
+  const matched = alignments.filter((alignment) => alignment.status === "matched");
+
+  const fieldScores = fields.map((field, index) => {
+    const diffs = matched
+      .map((alignment) => alignment.diffs[index])
+      .filter((diff) => diff.status !== "empty");
+    const agreed = diffs.filter((diff) => diff.status === "same").length;
+    return {
+      field,
+      compared: diffs.length,
+      agreed,
+      score: diffs.length ? agreed / diffs.length : null,
+    };
+  });
+  const compared = fieldScores.reduce((acc, item) => acc + item.compared, 0);
+  const agreed = fieldScores.reduce((acc, item) => acc + item.agreed, 0);
+
+  return {
+    matched: matched.length,
+    added: count("added"),
+    missing: count("missing"),
+    entityAgreement: alignments.length ? matched.length / alignments.length : null,
+    fieldAgreement: compared ? agreed / compared : null,
+    fields: fieldScores,
+  };
+}
+
+/** 把对比结果中某个字段的值采纳到当前记录的对应实体，记入修改记录。 */
+export function acceptCandidateField(
+  record: ExtractionRecord,
+  alignment: EntityAlignment,
+  field: ComparedField,
+  actor: string,
+): ExtractionRecord {
+  const { base, candidate } = alignment;
+  if (!base || !candidate) return record;
+
+  if (field.custom) {
+    return updateCustomField(
+      record,
+      base.id,
+      field.custom,
+      candidate.customFields?.[field.key] ?? null,
+      actor,
+    );
+  }
+  const key = field.key as EditableField;
+  return updateEntityField(
+    record,
+    base.id,
+    key,
+    candidate[key] ?? null,
+    actor,
+    key === "resistance" ? getResistanceEntries(candidate) : undefined,
+  );
+}
+
+/** 把只有对比结果识别到的实体加入当前记录，新实体默认未核实。 */
+export function acceptCandidateEntity(
+  record: ExtractionRecord,
+  candidate: MicrobialEntity,
+  actor: string,
+): ExtractionRecord {
+  return addEntity(record, actor, { ...candidate, verified: false });
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { relocateEntityContext, updateEntityField } from "@/lib/curation";
+import { computeExtractionSummary } from "@/lib/extraction";
+import type { ExtractionRecord, MicrobialEntity } from "@/types/extraction";
+
+const rawText = "[Page 1]\nKlebsiella pneumoniae ST258 was isolated from blood.";
+
+const entity: MicrobialEntity = {
+  id: "e1",
+  genus: "Klebsiella",
+  species: "pneumoniae",
+  subspecies: null,
+  serovar: null,
+  strain: null,
+  mlst_st: "ST258",
+  taxonomy_id: null,
+  source: "blood",
+  resistance: [],
+  pathogenicity: null,
+  context: "Klebsiella pneumoniae ST258 was isolated from blood.",
+  confidence: 0.9,
+  provenance: { status: "verified", page: 1, start: 9, end: 61 },
+};
+
+const record: ExtractionRecord = {
+  id: "r1",
+  fileName: "paper.pdf",
+  fileSize: 1,
+  processedAt: "2024-01-01T00:00:00.000Z",
+  durationMs: 0,
+  summary: computeExtractionSummary([entity]),
+  entities: [entity],
+  rawTextPreview: rawText,
+};
+
+describe("context edits", () => {
+  it("drops the old location and relocates the new snippet", () => {
+    const edited = updateEntityField(record, "e1", "context", "isolated from blood", "tester");
+    expect(edited.entities[0].provenance).toMatchObject({ status: "unverified", page: null });
+
+    const relocated = relocateEntityContext(edited, "e1", "isolated from blood", rawText);
+    expect(relocated.entities[0].provenance).toMatchObject({ status: "verified", page: 1 });
+  });
+});
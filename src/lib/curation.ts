@@ -0,0 +1,295 @@
+import { mergeEntityPair } from "@/lib/chunking";
+import { computeExtractionSummary } from "@/lib/extraction";
+import type { BuiltInFieldKey } from "@/lib/fields";
+import { locateSnippet } from "@/lib/provenance";
+import { parseResistanceText } from "@/lib/resistance";
+import type {
+  AuditAction,
+  AuditEntry,
+  CustomFieldValue,
+  ExtractionRecord,
+  FieldDefinition,
+  MicrobialEntity,
+  ResistanceEntry,
+} from "@/types/extraction";
+
+export const DEFAULT_CURATOR = "本地用户";
+
+export type EditableField = BuiltInFieldKey;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  edit: "修改",
+  add: "新增",
+  delete: "删除",
+  merge: "合并",
+  verify: "核实",
+  unverify: "取消核实",
+};
+
+/** 这些字段一旦被人工修改，自动校验的结论就不再适用 */
+const TAXONOMY_FIELDS: EditableField[] = ["genus", "species", "subspecies", "taxonomy_id"];
+
+function createAuditEntry(
+  action: AuditAction,
+  actor: string,
+  entityId: string,
+  values: { field?: string; oldValue?: unknown; newValue?: unknown } = {},
+): AuditEntry {
+  return {
+    id: crypto.randomUUID(),
+    action,
+    actor: actor.trim() || DEFAULT_CURATOR,
+    at: new Date().toISOString(),
+    entityId,
+    field: values.field,
+    oldValue: values.oldValue ?? null,
+    newValue: values.newValue ?? null,
+  };
+}
+
+function commit(
+  record: ExtractionRecord,
+  entities: MicrobialEntity[],
+  entries: AuditEntry[],
+): ExtractionRecord {
+  if (!entries.length) return record;
+  return {
+    ...record,
+    entities,
+    summary: computeExtractionSummary(entities),
+    auditLog: [...(record.auditLog ?? []), ...entries],
+  };
+}
+
+export function entityLabel(entity: Pick<MicrobialEntity, "genus" | "species" | "strain">) {
+  return [entity.genus, entity.species, entity.strain].filter(Boolean).join(" ") || "未命名实体";
+}
+
+/**
+ * 把输入框中的文本转换为字段值：空字符串视为 null，抗药性按分号拆分，置信度限定在 0-1。
+ */
+export function parseFieldInput(field: EditableField, input: string) {
+  const value = input.trim();
+  if (field === "resistance") {
+    return value
+      .split(/[;；\n]/)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (field === "confidence") {
+    if (!value) return null;
+    const number = Number(value.replace(/%$/, ""));
+    if (!Number.isFinite(number)) {
+      throw new Error("置信度必须是 0-1 之间的数字。");
+    }
+    const normalized = value.endsWith("%") || number > 1 ? number / 100 : number;
+    if (normalized < 0 || normalized > 1) {
+      throw new Error("置信度必须是 0-1 之间的数字。");
+    }
+    return normalized;
+  }
+  return value || null;
+}
+
+export function formatFieldValue(entity: MicrobialEntity, field: EditableField) {
+  const value = entity[field];
+  if (Array.isArray(value)) return value.join("; ");
+  return value == null ? "" : String(value);
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * 修改实体的一个内置字段并记入修改记录。修改抗药性时默认从文本重新解析结构化条目，
+ * 已有结构化条目（如采纳另一模型的结果）时可直接传入 resistanceEntries。
+ * 修改上下文时重置原文定位，修改分类字段时清空分类学校验。
+ */
+export function updateEntityField(
+  record: ExtractionRecord,
+  entityId: string,
+  field: EditableField,
+  value: string | number | string[] | null,
+  actor: string,
+  resistanceEntries?: ResistanceEntry[],
+): ExtractionRecord {
+  const entity = record.entities.find((item) => item.id === entityId);
+  if (!entity || isSameValue(entity[field], value)) return record;
+
+  const updated: MicrobialEntity = { ...entity, [field]: value };
+  if (field === "resistance") {
+    const items = Array.isArray(value) ? value : [];
+    updated.resistanceEntries =
+      resistanceEntries ?? items.flatMap((item) => parseResistanceText(item));
+  }
+  if (TAXONOMY_FIELDS.includes(field)) {
+    updated.taxonomy = null;
+  }
+  // 旧的页码与偏移指向原来的片段，新片段尚未在原文中核实
+  if (field === "context") {
+    updated.provenance = {
+      status: value ? "unverified" : "no_context",
+      page: null,
+      start: null,
+      end: null,
+    };
+  }
+
+  return commit(
+    record,
+    record.entities.map((item) => (item.id === entityId ? updated : item)),
+    [
+      createAuditEntry("edit", actor, entityId, {
+        field,
+        oldValue: entity[field] ?? null,
+        newValue: value,
+      }),
+    ],
+  );
+}
+
+/**
+ * 在原文中重新定位人工修改后的上下文（原文需异步读取）。
+ * 上下文在此期间再次被修改时保持不变。
+ */
+export function relocateEntityContext(
+  record: ExtractionRecord,
+  entityId: string,
+  context: string,
+  rawText: string,
+): ExtractionRecord {
+  const entity = record.entities.find((item) => item.id === entityId);
+  if (!entity || !context || entity.context !== context) return record;
+  const entities = record.entities.map((item) =>
+    item.id === entityId ? { ...item, provenance: locateSnippet(rawText, context) } : item,
+  );
+  return { ...record, entities, summary: computeExtractionSummary(entities) };
+}
+
+export function updateCustomField(
+  record: ExtractionRecord,
+  entityId: string,
+  field: FieldDefinition,
+  value: CustomFieldValue,
+  actor: string,
+): ExtractionRecord {
+  const entity = record.entities.find((item) => item.id === entityId);
+  const oldValue = entity?.customFields?.[field.key] ?? null;
+  if (!entity || isSameValue(oldValue, value)) return record;
+
+  const updated: MicrobialEntity = {
+    ...entity,
+    customFields: { ...entity.customFields, [field.key]: value },
+  };
+  return commit(
+    record,
+    record.entities.map((item) => (item.id === entityId ? updated : item)),
+    [createAuditEntry("edit", actor, entityId, { field: field.key, oldValue, newValue: value })],
+  );
+}
+
+export function addEntity(
+  record: ExtractionRecord,
+  actor: string,
+  initial: Partial<MicrobialEntity> = {},
+): ExtractionRecord {
+  const entity: MicrobialEntity = {
+    genus: null,
+    species: null,
+    strain: null,
+    resistance: [],
+    resistanceEntries: [],
+    context: null,
+    confidence: null,
+    ...initial,
+    id: crypto.randomUUID(),
+    verified: initial.verified ?? false,
+  };
+  return commit(
+    record,
+    [...record.entities, entity],
+    [createAuditEntry("add", actor, entity.id, { newValue: entity })],
+  );
+}
+
+export function deleteEntities(
+  record: ExtractionRecord,
+  entityIds: string[],
+  actor: string,
+): ExtractionRecord {
+  const ids = new Set(entityIds);
+  const removed = record.entities.filter((entity) => ids.has(entity.id));
+  return commit(
+    record,
+    record.entities.filter((entity) => !ids.has(entity.id)),
+    removed.map((entity) =>
+      createAuditEntry("delete", actor, entity.id, { oldValue: entity }),
+    ),
+  );
+}
+
+/**
+ * 将多个实体合并到第一个实体中：空字段由其余实体补全，抗药性取并集。
+ */
+export function mergeEntities(
+  record: ExtractionRecord,
+  entityIds: string[],
+  actor: string,
+): ExtractionRecord {
+  const selected = record.entities.filter((entity) => entityIds.includes(entity.id));
+  if (selected.length < 2) return record;
+
+  const [target, ...rest] = selected;
+  const merged: MicrobialEntity = {
+    ...rest.reduce((acc, entity) => mergeEntityPair(acc, entity), target),
+    verified: selected.every((entity) => entity.verified),
+  };
+  const removedIds = new Set(rest.map((entity) => entity.id));
+
+  return commit(
+    record,
+    record.entities
+      .filter((entity) => !removedIds.has(entity.id))
+      .map((entity) => (entity.id === target.id ? merged : entity)),
+    [
+      createAuditEntry("merge", actor, target.id, {
+        oldValue: selected,
+        newValue: merged,
+      }),
+    ],
+  );
+}
+
+export function setEntitiesVerified(
+  record: ExtractionRecord,
+  entityIds: string[],
+  verified: boolean,
+  actor: string,
+): ExtractionRecord {
+  const ids = new Set(entityIds);
+  const changed = record.entities.filter(
+    (entity) => ids.has(entity.id) && !!entity.verified !== verified,
+  );
+  const changedIds = new Set(changed.map((entity) => entity.id));
+
+  return commit(
+    record,
+    record.entities.map((entity) =>
+      changedIds.has(entity.id) ? { ...entity, verified } : entity,
+    ),
+    changed.map((entity) =>
+      createAuditEntry(verified ? "verify" : "unverify", actor, entity.id, {
+        field: "verified",
+        oldValue: !!entity.verified,
+        newValue: verified,
+      }),
+    ),
+  );
+}
+
+/** 导出前只保留人工核实过的实体，并据此重新统计。 */
+export function onlyVerifiedEntities(record: ExtractionRecord): ExtractionRecord {
+  const entities = record.entities.filter((entity) => entity.verified);
+  return { ...record, entities, summary: computeExtractionSummary(entities) };
+}
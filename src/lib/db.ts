@@ -0,0 +1,93 @@
+const DB_NAME = "micr-ai";
+
+export const STORE_RECORDS = "records";
+export const STORE_TEXTS = "texts";
+export const STORE_FILES = "files";
+export const STORE_META = "meta";
+export const STORE_EXTRACTION_CACHE = "extractionCache";
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+/**
+ * 按版本号顺序执行的迁移函数。新增存储结构或需要改写旧数据时，
+ * 在末尾追加一个版本，不要修改已经发布的迁移。
+ */
+const MIGRATIONS: Migration[] = [
+  // v1：记录、全文、原始 PDF 与元数据
+  (db) => {
+    const records = db.createObjectStore(STORE_RECORDS, { keyPath: "id" });
+    records.createIndex("processedAt", "processedAt");
+    db.createObjectStore(STORE_TEXTS, { keyPath: "recordId" });
+    db.createObjectStore(STORE_FILES, { keyPath: "recordId" });
+    db.createObjectStore(STORE_META, { keyPath: "key" });
+  },
+  // v2：模型提取结果缓存
+  (db) => {
+    const cache = db.createObjectStore(STORE_EXTRACTION_CACHE, { keyPath: "key" });
+    cache.createIndex("createdAt", "createdAt");
+  },
+];
+
+export const DB_SCHEMA_VERSION = MIGRATIONS.length;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable() {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error("当前浏览器不支持 IndexedDB。"));
+  }
+
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_SCHEMA_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (
+        let version = event.oldVersion + 1;
+        version <= DB_SCHEMA_VERSION;
+        version++
+      ) {
+        MIGRATIONS[version - 1](db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error ?? new Error("无法打开本地数据库。"));
+    };
+    request.onblocked = () => {
+      console.warn("本地数据库升级被其他标签页阻塞，请关闭其他 micr-AI 页面。");
+    };
+  });
+
+  return databasePromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("本地数据库事务被中止。"));
+  });
+}
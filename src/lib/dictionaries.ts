@@ -0,0 +1,295 @@
+export const MICROBIAL_GENERA = [
+  "Acinetobacter",
+  "Actinomyces",
+  "Aeromonas",
+  "Aspergillus",
+  "Bacillus",
+  "Bacteroides",
+  "Bartonella",
+  "Bifidobacterium",
+  "Bordetella",
+  "Borrelia",
+  "Brucella",
+  "Burkholderia",
+  "Campylobacter",
+  "Candida",
+  "Chlamydia",
+  "Citrobacter",
+  "Clostridioides",
+  "Clostridium",
+  "Corynebacterium",
+  "Coxiella",
+  "Cronobacter",
+  "Cryptococcus",
+  "Enterobacter",
+  "Enterococcus",
+  "Escherichia",
+  "Francisella",
+  "Fusobacterium",
+  "Haemophilus",
+  "Helicobacter",
+  "Klebsiella",
+  "Lactobacillus",
+  "Lactococcus",
+  "Legionella",
+  "Leptospira",
+  "Listeria",
+  "Morganella",
+  "Mycobacterium",
+  "Mycoplasma",
+  "Neisseria",
+  "Nocardia",
+  "Proteus",
+  "Providencia",
+  "Pseudomonas",
+  "Raoultella",
+  "Rickettsia",
+  "Salmonella",
+  "Serratia",
+  "Shigella",
+  "Staphylococcus",
+  "Stenotrophomonas",
+  "Streptococcus",
+  "Streptomyces",
+  "Treponema",
+  "Vibrio",
+  "Yersinia",
+] as const;
+
+/** 常见缩写，用于在全文未出现完整属名时还原 "E. coli" 这类写法。 */
+export const ABBREVIATED_SPECIES: Record<string, string> = {
+  "A. baumannii": "Acinetobacter",
+  "B. cereus": "Bacillus",
+  "B. fragilis": "Bacteroides",
+  "B. subtilis": "Bacillus",
+  "C. albicans": "Candida",
+  "C. auris": "Candida",
+  "C. difficile": "Clostridioides",
+  "C. freundii": "Citrobacter",
+  "C. jejuni": "Campylobacter",
+  "E. cloacae": "Enterobacter",
+  "E. coli": "Escherichia",
+  "E. faecalis": "Enterococcus",
+  "E. faecium": "Enterococcus",
+  "H. influenzae": "Haemophilus",
+  "H. pylori": "Helicobacter",
+  "K. aerogenes": "Klebsiella",
+  "K. oxytoca": "Klebsiella",
+  "K. pneumoniae": "Klebsiella",
+  "L. monocytogenes": "Listeria",
+  "M. tuberculosis": "Mycobacterium",
+  "N. gonorrhoeae": "Neisseria",
+  "N. meningitidis": "Neisseria",
+  "P. aeruginosa": "Pseudomonas",
+  "P. mirabilis": "Proteus",
+  "S. aureus": "Staphylococcus",
+  "S. enterica": "Salmonella",
+  "S. epidermidis": "Staphylococcus",
+  "S. marcescens": "Serratia",
+  "S. maltophilia": "Stenotrophomonas",
+  "S. pneumoniae": "Streptococcus",
+  "S. pyogenes": "Streptococcus",
+  "V. cholerae": "Vibrio",
+  "V. parahaemolyticus": "Vibrio",
+  "Y. pestis": "Yersinia",
+};
+
+/** 中文文献中常见的菌种中文名。 */
+export const CHINESE_ORGANISM_NAMES: Record<
+  string,
+  { genus: string; species: string | null }
+> = {
+  大肠埃希菌: { genus: "Escherichia", species: "coli" },
+  大肠杆菌: { genus: "Escherichia", species: "coli" },
+  肺炎克雷伯菌: { genus: "Klebsiella", species: "pneumoniae" },
+  产气克雷伯菌: { genus: "Klebsiella", species: "aerogenes" },
+  金黄色葡萄球菌: { genus: "Staphylococcus", species: "aureus" },
+  表皮葡萄球菌: { genus: "Staphylococcus", species: "epidermidis" },
+  铜绿假单胞菌: { genus: "Pseudomonas", species: "aeruginosa" },
+  鲍曼不动杆菌: { genus: "Acinetobacter", species: "baumannii" },
+  阴沟肠杆菌: { genus: "Enterobacter", species: "cloacae" },
+  粪肠球菌: { genus: "Enterococcus", species: "faecalis" },
+  屎肠球菌: { genus: "Enterococcus", species: "faecium" },
+  肺炎链球菌: { genus: "Streptococcus", species: "pneumoniae" },
+  化脓性链球菌: { genus: "Streptococcus", species: "pyogenes" },
+  艰难梭菌: { genus: "Clostridioides", species: "difficile" },
+  单核细胞增生李斯特菌: { genus: "Listeria", species: "monocytogenes" },
+  结核分枝杆菌: { genus: "Mycobacterium", species: "tuberculosis" },
+  幽门螺杆菌: { genus: "Helicobacter", species: "pylori" },
+  空肠弯曲菌: { genus: "Campylobacter", species: "jejuni" },
+  霍乱弧菌: { genus: "Vibrio", species: "cholerae" },
+  副溶血性弧菌: { genus: "Vibrio", species: "parahaemolyticus" },
+  白色念珠菌: { genus: "Candida", species: "albicans" },
+  耳念珠菌: { genus: "Candida", species: "auris" },
+  沙门氏菌: { genus: "Salmonella", species: null },
+  沙门菌: { genus: "Salmonella", species: null },
+  志贺菌: { genus: "Shigella", species: null },
+};
+
+export interface AntibioticEntry {
+  name: string;
+  drugClass: string;
+  aliases?: string[];
+}
+
+export const ANTIBIOTICS: AntibioticEntry[] = [
+  { name: "amikacin", drugClass: "aminoglycoside", aliases: ["阿米卡星"] },
+  { name: "gentamicin", drugClass: "aminoglycoside", aliases: ["庆大霉素"] },
+  { name: "tobramycin", drugClass: "aminoglycoside", aliases: ["妥布霉素"] },
+  { name: "streptomycin", drugClass: "aminoglycoside", aliases: ["链霉素"] },
+  { name: "ampicillin", drugClass: "penicillin", aliases: ["氨苄西林"] },
+  { name: "amoxicillin", drugClass: "penicillin", aliases: ["阿莫西林"] },
+  { name: "oxacillin", drugClass: "penicillin", aliases: ["苯唑西林"] },
+  { name: "methicillin", drugClass: "penicillin", aliases: ["甲氧西林"] },
+  { name: "penicillin", drugClass: "penicillin", aliases: ["青霉素"] },
+  { name: "piperacillin", drugClass: "penicillin", aliases: ["哌拉西林"] },
+  {
+    name: "piperacillin-tazobactam",
+    drugClass: "beta-lactam/beta-lactamase inhibitor",
+    aliases: ["piperacillin/tazobactam", "哌拉西林他唑巴坦"],
+  },
+  {
+    name: "amoxicillin-clavulanate",
+    drugClass: "beta-lactam/beta-lactamase inhibitor",
+    aliases: ["amoxicillin/clavulanic acid", "amoxicillin-clavulanic acid"],
+  },
+  {
+    name: "ceftazidime-avibactam",
+    drugClass: "beta-lactam/beta-lactamase inhibitor",
+    aliases: ["ceftazidime/avibactam", "头孢他啶阿维巴坦"],
+  },
+  { name: "cefazolin", drugClass: "cephalosporin", aliases: ["头孢唑林"] },
+  { name: "cefoxitin", drugClass: "cephalosporin", aliases: ["头孢西丁"] },
+  { name: "cefotaxime", drugClass: "cephalosporin", aliases: ["头孢噻肟"] },
+  { name: "ceftriaxone", drugClass: "cephalosporin", aliases: ["头孢曲松"] },
+  { name: "ceftazidime", drugClass: "cephalosporin", aliases: ["头孢他啶"] },
+  { name: "cefepime", drugClass: "cephalosporin", aliases: ["头孢吡肟"] },
+  { name: "aztreonam", drugClass: "monobactam", aliases: ["氨曲南"] },
+  { name: "imipenem", drugClass: "carbapenem", aliases: ["亚胺培南"] },
+  { name: "meropenem", drugClass: "carbapenem", aliases: ["美罗培南"] },
+  { name: "ertapenem", drugClass: "carbapenem", aliases: ["厄他培南"] },
+  { name: "ciprofloxacin", drugClass: "fluoroquinolone", aliases: ["环丙沙星"] },
+  { name: "levofloxacin", drugClass: "fluoroquinolone", aliases: ["左氧氟沙星"] },
+  { name: "moxifloxacin", drugClass: "fluoroquinolone", aliases: ["莫西沙星"] },
+  { name: "nalidixic acid", drugClass: "quinolone", aliases: ["萘啶酸"] },
+  { name: "azithromycin", drugClass: "macrolide", aliases: ["阿奇霉素"] },
+  { name: "erythromycin", drugClass: "macrolide", aliases: ["红霉素"] },
+  { name: "clindamycin", drugClass: "lincosamide", aliases: ["克林霉素"] },
+  { name: "tetracycline", drugClass: "tetracycline", aliases: ["四环素"] },
+  { name: "doxycycline", drugClass: "tetracycline", aliases: ["多西环素"] },
+  { name: "tigecycline", drugClass: "glycylcycline", aliases: ["替加环素"] },
+  { name: "colistin", drugClass: "polymyxin", aliases: ["polymyxin E", "黏菌素", "多黏菌素E"] },
+  { name: "polymyxin B", drugClass: "polymyxin", aliases: ["多黏菌素B"] },
+  { name: "vancomycin", drugClass: "glycopeptide", aliases: ["万古霉素"] },
+  { name: "teicoplanin", drugClass: "glycopeptide", aliases: ["替考拉宁"] },
+  { name: "linezolid", drugClass: "oxazolidinone", aliases: ["利奈唑胺"] },
+  { name: "daptomycin", drugClass: "lipopeptide", aliases: ["达托霉素"] },
+  { name: "rifampicin", drugClass: "rifamycin", aliases: ["rifampin", "利福平"] },
+  { name: "isoniazid", drugClass: "antimycobacterial", aliases: ["异烟肼"] },
+  { name: "chloramphenicol", drugClass: "phenicol", aliases: ["氯霉素"] },
+  { name: "florfenicol", drugClass: "phenicol", aliases: ["氟苯尼考"] },
+  {
+    name: "trimethoprim-sulfamethoxazole",
+    drugClass: "folate pathway inhibitor",
+    aliases: [
+      "trimethoprim/sulfamethoxazole",
+      "co-trimoxazole",
+      "cotrimoxazole",
+      "SXT",
+      "复方新诺明",
+    ],
+  },
+  { name: "trimethoprim", drugClass: "folate pathway inhibitor", aliases: ["甲氧苄啶"] },
+  { name: "sulfamethoxazole", drugClass: "sulfonamide", aliases: ["磺胺甲恶唑"] },
+  { name: "fosfomycin", drugClass: "phosphonic acid", aliases: ["磷霉素"] },
+  { name: "nitrofurantoin", drugClass: "nitrofuran", aliases: ["呋喃妥因"] },
+  { name: "mupirocin", drugClass: "pseudomonic acid", aliases: ["莫匹罗星"] },
+  { name: "fluconazole", drugClass: "azole antifungal", aliases: ["氟康唑"] },
+  { name: "voriconazole", drugClass: "azole antifungal", aliases: ["伏立康唑"] },
+  { name: "amphotericin B", drugClass: "polyene antifungal", aliases: ["两性霉素B"] },
+  { name: "caspofungin", drugClass: "echinocandin", aliases: ["卡泊芬净"] },
+];
+
+/** 药物类别的常见写法（含中文），用于识别“碳青霉烯耐药”之类的表型描述。 */
+export const DRUG_CLASS_ALIASES: Record<string, string[]> = {
+  "beta-lactam": ["β-lactam", "beta-lactams", "β-内酰胺"],
+  penicillin: ["penicillins", "青霉素类"],
+  cephalosporin: ["cephalosporins", "头孢菌素"],
+  carbapenem: ["carbapenems", "碳青霉烯"],
+  monobactam: ["monobactams", "单环β-内酰胺"],
+  aminoglycoside: ["aminoglycosides", "氨基糖苷"],
+  fluoroquinolone: ["fluoroquinolones", "氟喹诺酮"],
+  quinolone: ["quinolones", "喹诺酮"],
+  macrolide: ["macrolides", "大环内酯"],
+  tetracycline: ["tetracyclines", "四环素类"],
+  polymyxin: ["polymyxins", "多黏菌素类"],
+  glycopeptide: ["glycopeptides", "糖肽类"],
+  oxazolidinone: ["oxazolidinones", "噁唑烷酮"],
+  sulfonamide: ["sulfonamides", "磺胺类"],
+  phenicol: ["phenicols", "酰胺醇类"],
+  "azole antifungal": ["azoles", "唑类"],
+  echinocandin: ["echinocandins", "棘白菌素"],
+};
+
+/**
+ * 抗性基因家族前缀及其对应药物类别。匹配时要求前缀后紧跟型别编号，
+ * 例如 blaCTX-M-15、mcr-1、vanA、qnrS1。
+ */
+export const RESISTANCE_GENE_FAMILIES: { pattern: RegExp; drugClass: string }[] = [
+  { pattern: /^bla[A-Z]{2,}[\w-]*$/, drugClass: "beta-lactam" },
+  { pattern: /^(?:NDM|KPC|VIM|IMP|OXA)-\d+[A-Za-z]?$/, drugClass: "carbapenem" },
+  { pattern: /^(?:CTX-M|TEM|SHV)-\d+$/, drugClass: "beta-lactam" },
+  { pattern: /^mcr-\d+(?:\.\d+)?$/, drugClass: "polymyxin" },
+  { pattern: /^mec[ABC]$/, drugClass: "beta-lactam" },
+  { pattern: /^van[A-Z]$/, drugClass: "glycopeptide" },
+  { pattern: /^qnr[A-Z]\d*$/, drugClass: "fluoroquinolone" },
+  { pattern: /^aac\(6'\)-Ib-cr$/, drugClass: "fluoroquinolone" },
+  { pattern: /^(?:aac|aad|aph|ant)[A-Z(][\w()'-]*$/, drugClass: "aminoglycoside" },
+  { pattern: /^(?:armA|rmt[A-H])$/, drugClass: "aminoglycoside" },
+  { pattern: /^tet\([A-Z]\d?\)$|^tet[A-Z]$/, drugClass: "tetracycline" },
+  { pattern: /^tet\(X\d*\)$/, drugClass: "glycylcycline" },
+  { pattern: /^erm\([A-Z]\)$|^erm[A-Z]$/, drugClass: "macrolide" },
+  { pattern: /^(?:mph|msr)\([A-Z]\)$|^(?:mph|msr)[A-Z]$/, drugClass: "macrolide" },
+  { pattern: /^sul\d$/, drugClass: "sulfonamide" },
+  { pattern: /^dfr[A-Z]\d*$/, drugClass: "folate pathway inhibitor" },
+  { pattern: /^(?:floR|cmlA\d*|catA\d*)$/, drugClass: "phenicol" },
+  { pattern: /^fos[A-Z]\d*$/, drugClass: "phosphonic acid" },
+  { pattern: /^cfr$/, drugClass: "oxazolidinone" },
+  { pattern: /^optrA$|^poxtA$/, drugClass: "oxazolidinone" },
+];
+
+/** 常见染色体耐药突变，如 gyrA S83L、parC S80I。 */
+export const RESISTANCE_MUTATION_GENES: Record<string, string> = {
+  gyrA: "fluoroquinolone",
+  gyrB: "fluoroquinolone",
+  parC: "fluoroquinolone",
+  parE: "fluoroquinolone",
+  rpoB: "rifamycin",
+  katG: "antimycobacterial",
+  inhA: "antimycobacterial",
+  mgrB: "polymyxin",
+  pmrA: "polymyxin",
+  pmrB: "polymyxin",
+  ompK36: "carbapenem",
+  "23S rRNA": "macrolide",
+};
+
+export const ISOLATION_SOURCES: { term: string; aliases?: string[] }[] = [
+  { term: "blood", aliases: ["bloodstream", "bacteremia", "血液", "血培养"] },
+  { term: "urine", aliases: ["urinary tract", "尿液"] },
+  { term: "sputum", aliases: ["痰"] },
+  { term: "bronchoalveolar lavage", aliases: ["BAL", "肺泡灌洗液"] },
+  { term: "cerebrospinal fluid", aliases: ["CSF", "脑脊液"] },
+  { term: "wound", aliases: ["伤口"] },
+  { term: "pus", aliases: ["脓液"] },
+  { term: "feces", aliases: ["faeces", "stool", "fecal", "粪便"] },
+  { term: "rectal swab", aliases: ["直肠拭子"] },
+  { term: "nasal swab", aliases: ["鼻拭子"] },
+  { term: "wastewater", aliases: ["sewage", "污水"] },
+  { term: "river water", aliases: ["河水"] },
+  { term: "soil", aliases: ["土壤"] },
+  { term: "chicken meat", aliases: ["retail chicken", "鸡肉"] },
+  { term: "pork", aliases: ["猪肉"] },
+  { term: "milk", aliases: ["raw milk", "牛奶"] },
+  { term: "hospital environment", aliases: ["医院环境"] },
+];
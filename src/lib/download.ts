@@ -1,4 +1,59 @@
-import type { ExtractionRecord } from "@/types/extraction";
+import type { WorkspaceBackup } from "@/lib/backup";
+import {
+  standardExportToTsv,
+  validationReportToTsv,
+  type StandardExportResult,
+} from "@/lib/standards-export";
+import { createWorkbook, type CellValue, type WorksheetData } from "@/lib/xlsx";
+import {
+  BUILT_IN_FIELDS,
+  collectFieldDefinitions,
+  formatCustomFieldValue,
+  getCustomFieldValue,
+} from "@/lib/fields";
+import { formatResistanceEntry, getResistanceEntries } from "@/lib/resistance";
+import type {
+  ExtractionRecord,
+  FieldDefinition,
+  MicrobialEntity,
+  ResistanceEntry,
+} from "@/types/extraction";
+
+const ENTITY_FIELDS = BUILT_IN_FIELDS.map((field) => field.key);
+
+const RESISTANCE_COLUMNS = [
+  "resistance_genes",
+  "resistance_mutations",
+  "resistance_phenotypes",
+  "resistance_drug_classes",
+] as const;
+
+const ENTITY_COLUMNS = [
+  ...ENTITY_FIELDS,
+  ...RESISTANCE_COLUMNS,
+  "taxonomy_status",
+  "verified",
+];
+
+const RECORD_COLUMNS = ["fileName", "processedAt"] as const;
+
+const SUMMARY_COLUMNS = [
+  "fileName",
+  "processedAt",
+  "organismCount",
+  "uniqueSpecies",
+  "resistanceCount",
+  "resistanceGeneCount",
+  "resistanceMutationCount",
+  "resistancePhenotypeCount",
+  "sourceCount",
+  "pathogenicityCount",
+  "unverifiedCount",
+  "keyFindings",
+] as const;
+
+/** Excel 依赖 BOM 识别 UTF-8 编码的 CSV，否则中文会乱码 */
+const UTF8_BOM = "\uFEFF";
 
 function downloadBlob(blob: Blob, fileName: string) {
   const url = URL.createObjectURL(blob);
@@ -11,48 +66,238 @@ function downloadBlob(blob: Blob, fileName: string) {
   URL.revokeObjectURL(url);
 }
 
+function baseName(fileName: string) {
+  return fileName.replace(/\.pdf$/i, "");
+}
+
+function exportDate() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function resistanceCells(entity: MicrobialEntity): CellValue[] {
+  const entries = getResistanceEntries(entity);
+  const joinKind = (kind: ResistanceEntry["kind"]) =>
+    entries
+      .filter((entry) => entry.kind === kind)
+      .map((entry) => formatResistanceEntry(entry))
+      .join("; ");
+  const drugClasses = new Set(
+    entries.map((entry) => entry.drugClass).filter(Boolean),
+  );
+  return [
+    joinKind("gene"),
+    joinKind("mutation"),
+    joinKind("phenotype"),
+    Array.from(drugClasses).join("; "),
+  ];
+}
+
+function customFieldCell(entity: MicrobialEntity, field: FieldDefinition): CellValue {
+  const value = getCustomFieldValue(entity, field);
+  return Array.isArray(value) ? formatCustomFieldValue(value) : value;
+}
+
+function entityCells(
+  entity: MicrobialEntity,
+  customFields: FieldDefinition[] = [],
+): CellValue[] {
+  return [
+    ...ENTITY_FIELDS.map((column) => {
+      const value = entity[column];
+      return Array.isArray(value) ? value.join("; ") : value;
+    }),
+    ...resistanceCells(entity),
+    entity.taxonomy?.status,
+    !!entity.verified,
+    ...customFields.map((field) => customFieldCell(entity, field)),
+  ];
+}
+
+function buildEntityRows(record: ExtractionRecord): CellValue[][] {
+  const customFields = record.fieldDefinitions ?? [];
+  return [
+    [...ENTITY_COLUMNS, ...customFields.map((field) => field.key)],
+    ...record.entities.map((entity) => entityCells(entity, customFields)),
+  ];
+}
+
+function buildMergedRows(records: ExtractionRecord[]): CellValue[][] {
+  const customFields = collectFieldDefinitions(records);
+  return [
+    [...RECORD_COLUMNS, ...ENTITY_COLUMNS, ...customFields.map((field) => field.key)],
+    ...records.flatMap((record) =>
+      record.entities.map((entity) => [
+        record.fileName,
+        record.processedAt,
+        ...entityCells(entity, customFields),
+      ]),
+    ),
+  ];
+}
+
+function buildSummaryRows(records: ExtractionRecord[]): CellValue[][] {
+  return [
+    [...SUMMARY_COLUMNS],
+    ...records.map((record) => [
+      record.fileName,
+      record.processedAt,
+      record.summary.organismCount,
+      record.summary.uniqueSpecies,
+      record.summary.resistanceCount,
+      record.summary.resistanceGeneCount,
+      record.summary.resistanceMutationCount,
+      record.summary.resistancePhenotypeCount,
+      record.summary.sourceCount,
+      record.summary.pathogenicityCount,
+      record.summary.unverifiedCount,
+      record.summary.keyFindings.join("; "),
+    ]),
+  ];
+}
+
+function formatCsvValue(value: CellValue) {
+  if (value == null) {
+    return "";
+  }
+  const str = String(value).replace(/"/g, '""');
+  return /[",\n\r]/.test(str) ? `"${str}"` : str;
+}
+
+function toCsv(rows: CellValue[][]) {
+  return UTF8_BOM + rows.map((row) => row.map(formatCsvValue).join(",")).join("\n");
+}
+
+function toCsvBlob(rows: CellValue[][]) {
+  return new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8;" });
+}
+
+/** 单条记录的实体表，与“导出 CSV”按钮内容一致。 */
+export function recordToCsv(record: ExtractionRecord) {
+  return toCsv(buildEntityRows(record));
+}
+
+/** 多条记录合并为一张表，每行带上来源文件名与处理时间。 */
+export function recordsToCsv(records: ExtractionRecord[]) {
+  return toCsv(buildMergedRows(records));
+}
+
 export function downloadRecordAsJson(record: ExtractionRecord) {
   const blob = new Blob([JSON.stringify(record, null, 2)], {
     type: "application/json",
   });
-  downloadBlob(blob, `${record.fileName.replace(/\\.pdf$/i, "")}-micr-ai.json`);
+  downloadBlob(blob, `${baseName(record.fileName)}-micr-ai.json`);
 }
 
 export function downloadRecordAsCsv(record: ExtractionRecord) {
-  const headers = [
-    "genus",
-    "species",
-    "subspecies",
-    "serovar",
-    "strain",
-    "mlst_st",
-    "taxonomy_id",
-    "source",
-    "resistance",
-    "pathogenicity",
-    "context",
-    "confidence",
-  ];
+  downloadBlob(
+    toCsvBlob(buildEntityRows(record)),
+    `${baseName(record.fileName)}-micr-ai.csv`,
+  );
+}
 
-  const rows = record.entities.map((entity) =>
-    headers
-      .map((header) => {
-        const value = (entity as Record<string, unknown>)[header];
-        if (Array.isArray(value)) {
-          return `"${value.join("; ").replace(/"/g, '""')}"`;
-        }
-        if (value == null) {
-          return "";
-        }
-        const str = String(value).replace(/"/g, '""');
-        return str.includes(",") || str.includes("\n")
-          ? `"${str}"`
-          : str;
-      })
-      .join(","),
+export function downloadRecordsAsJson(records: ExtractionRecord[]) {
+  const blob = new Blob([JSON.stringify(records, null, 2)], {
+    type: "application/json",
+  });
+  downloadBlob(blob, `micr-ai-${records.length}-records-${exportDate()}.json`);
+}
+
+/**
+ * 将多条记录的实体合并为一张表，每行带上来源文件名与处理时间。
+ */
+export function downloadRecordsAsCsv(records: ExtractionRecord[]) {
+  downloadBlob(
+    toCsvBlob(buildMergedRows(records)),
+    `micr-ai-${records.length}-records-${exportDate()}.csv`,
   );
+}
+
+/**
+ * 导出 Excel 工作簿：汇总表、合并实体表，以及每条记录各一张工作表。
+ */
+export function downloadRecordsAsXlsx(records: ExtractionRecord[]) {
+  const sheets: WorksheetData[] = [
+    { name: "汇总", rows: buildSummaryRows(records), header: true },
+    { name: "全部实体", rows: buildMergedRows(records), header: true },
+    ...records.map((record) => ({
+      name: baseName(record.fileName),
+      rows: buildEntityRows(record),
+      header: true,
+    })),
+  ];
+
+  const fileName =
+    records.length === 1
+      ? `${baseName(records[0].fileName)}-micr-ai.xlsx`
+      : `micr-ai-${records.length}-records-${exportDate()}.xlsx`;
+  downloadBlob(createWorkbook(sheets), fileName);
+}
 
-  const csv = [headers.join(","), ...rows].join("\n");
-  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-  downloadBlob(blob, `${record.fileName.replace(/\\.pdf$/i, "")}-micr-ai.csv`);
+export function downloadStandardExport(result: StandardExportResult) {
+  const blob = new Blob([standardExportToTsv(result)], {
+    type: "text/tab-separated-values;charset=utf-8;",
+  });
+  downloadBlob(blob, `micr-ai-${result.profile}-${exportDate()}.tsv`);
+}
+
+export function downloadValidationReport(result: StandardExportResult) {
+  const blob = new Blob([validationReportToTsv(result)], {
+    type: "text/tab-separated-values;charset=utf-8;",
+  });
+  downloadBlob(blob, `micr-ai-${result.profile}-validation-${exportDate()}.tsv`);
+}
+
+export function downloadWorkspaceBackup(backup: WorkspaceBackup) {
+  const blob = new Blob([JSON.stringify(backup)], {
+    type: "application/json",
+  });
+  const date = backup.exportedAt.slice(0, 10);
+  downloadBlob(blob, `micr-ai-backup-${date}.json`);
+}
+
+/** 图表的底层数据 */
+export function downloadChartCsv(rows: CellValue[][], name: string) {
+  downloadBlob(toCsvBlob(rows), `micr-ai-${name}-${exportDate()}.csv`);
+}
+
+function serializeSvg(svg: SVGSVGElement) {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  return new XMLSerializer().serializeToString(clone);
+}
+
+export function downloadChartSvg(svg: SVGSVGElement, name: string) {
+  const blob = new Blob([serializeSvg(svg)], { type: "image/svg+xml;charset=utf-8" });
+  downloadBlob(blob, `micr-ai-${name}-${exportDate()}.svg`);
+}
+
+/** 先把 SVG 画到 canvas 上再导出 PNG，按 2 倍分辨率输出以便插入文稿 */
+export async function downloadChartPng(svg: SVGSVGElement, name: string, scale = 2) {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(
+    new Blob([serializeSvg(svg)], { type: "image/svg+xml;charset=utf-8" }),
+  );
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("图表渲染失败"));
+      image.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("浏览器不支持 canvas");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png"),
+    );
+    if (!blob) throw new Error("PNG 生成失败");
+    downloadBlob(blob, `micr-ai-${name}-${exportDate()}.png`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
 }
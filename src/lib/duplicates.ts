@@ -0,0 +1,39 @@
+import type { DuplicateMatch, ExtractionRecord, UploadDocument } from "@/types/extraction";
+
+/** 文件内容的 SHA-256（十六进制），浏览器与 Node 18+ 都提供 crypto.subtle */
+export async function sha256Hex(data: Blob | ArrayBuffer | Uint8Array) {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** 先查已有记录，再查队列中其他尚未完成的文献 */
+export function findHashDuplicate(
+  hash: string,
+  records: ExtractionRecord[],
+  documents: UploadDocument[],
+): DuplicateMatch | null {
+  const record = records.find((item) => item.contentHash === hash);
+  if (record) return { reason: "hash", recordId: record.id, fileName: record.fileName };
+  const document = documents.find((item) => item.contentHash === hash);
+  return document ? { reason: "hash", recordId: null, fileName: document.fileName } : null;
+}
+
+export function findDoiDuplicate(
+  doi: string,
+  records: ExtractionRecord[],
+): DuplicateMatch | null {
+  const record = records.find((item) => item.bibliography?.doi === doi);
+  return record ? { reason: "doi", recordId: record.id, fileName: record.fileName, doi } : null;
+}
+
+export function describeDuplicate(duplicate: DuplicateMatch) {
+  const target = duplicate.recordId
+    ? `已有记录「${duplicate.fileName}」`
+    : `队列中的「${duplicate.fileName}」`;
+  return duplicate.reason === "hash"
+    ? `与${target}内容完全相同`
+    : `与${target} DOI 相同（${duplicate.doi}）`;
+}
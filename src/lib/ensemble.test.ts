@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  acceptRejectedEntity,
+  dismissRejectedEntity,
+  getEnsembleMembers,
+  runEnsembleExtraction,
+  voteEntities,
+} from "@/lib/ensemble";
+import { computeExtractionSummary, extractEntitiesInChunks } from "@/lib/extraction";
+import { createProviderProfile } from "@/lib/providers";
+import type { ExtractionRecord, MicrobialEntity, StoredSettings } from "@/types/extraction";
+
+vi.mock("@/lib/extraction", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/extraction")>()),
+  extractEntitiesInChunks: vi.fn(),
+}));
+
+const openrouter = createProviderProfile("openrouter", { model: "deepseek/deepseek-chat" });
+const ollama = createProviderProfile("openai-compatible", { model: "qwen2.5:14b" });
+
+function kp(overrides: Partial<MicrobialEntity> = {}): MicrobialEntity {
+  return {
+    id: crypto.randomUUID(),
+    genus: "Klebsiella",
+    species: "pneumoniae",
+    strain: "KP-7",
+    mlst_st: "ST258",
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.mocked(extractEntitiesInChunks).mockReset();
+});
+
+describe("getEnsembleMembers", () => {
+  it("uses the selected providers, or samples the active one", () => {
+    const settings: StoredSettings = {
+      providers: [openrouter, ollama],
+      ensemble: {
+        enabled: true,
+        providerIds: [openrouter.id, ollama.id],
+        samples: 3,
+        voteThreshold: 0.6,
+      },
+    };
+    const sampled = {
+      ...settings,
+      ensemble: { ...settings.ensemble!, providerIds: [], samples: 9 },
+    };
+
+    expect(getEnsembleMembers(settings, openrouter)).toEqual([openrouter, ollama]);
+    expect(getEnsembleMembers(sampled, ollama)).toHaveLength(5);
+    expect(getEnsembleMembers({}, null)).toEqual([]);
+  });
+});
+
+describe("voteEntities", () => {
+  it("keeps majority values and reports disagreements", () => {
+    const { entities, rejected } = voteEntities(
+      [
+        [kp({ resistance: ["blaKPC-2"] })],
+        [kp({ genus: "K.", mlst_st: "ST11", resistance: ["blaKPC-2", "blaNDM-1"] })],
+        [kp({ resistance: ["blaKPC-2"] })],
+      ],
+      0.6,
+    );
+
+    expect(rejected).toEqual([]);
+    expect(entities).toHaveLength(1);
+    const [voted] = entities;
+    expect(voted).toMatchObject({
+      genus: "Klebsiella",
+      mlst_st: "ST258",
+      resistance: ["blaKPC-2"],
+    });
+    expect(voted.ensemble).toMatchObject({ support: 3, runs: 3 });
+    expect(voted.ensemble?.disagreements.map((vote) => vote.key)).toEqual([
+      "mlst_st",
+      "resistance",
+    ]);
+  });
+
+  it("rejects entities found by too few runs and blanks fields without a majority", () => {
+    const { entities, rejected } = voteEntities(
+      [
+        [kp({ source: "blood" }), { id: "x", genus: "Escherichia", species: "coli" }],
+        [kp({ source: "urine" })],
+        [kp({ source: null })],
+      ],
+      0.6,
+    );
+
+    expect(entities[0].source).toBeNull();
+    expect(rejected).toMatchObject([{ genus: "Escherichia", confidence: 0.33 }]);
+  });
+});
+
+describe("runEnsembleExtraction", () => {
+  it("runs every member and votes on the results", async () => {
+    vi.mocked(extractEntitiesInChunks).mockImplementation(async ({ provider, onUsage }) => {
+      onUsage?.({ promptTokens: 10, completionTokens: 5 });
+      onUsage?.({ promptTokens: 10, completionTokens: 5 });
+      return {
+        entities: [kp({ source: provider === ollama ? "urine" : "blood" })],
+        chunkCount: 2,
+        cacheHits: 1,
+      };
+    });
+
+    const result = await runEnsembleExtraction({
+      mode: "llm",
+      text: "Klebsiella pneumoniae KP-7",
+      members: [openrouter, ollama, openrouter],
+      voteThreshold: 0.6,
+      cache: { store: { get: async () => null, set: async () => {} } },
+    });
+
+    expect(extractEntitiesInChunks).toHaveBeenCalledTimes(3);
+    const samples = vi
+      .mocked(extractEntitiesInChunks)
+      .mock.calls.map(([params]) => params.cache?.sample);
+    expect(samples).toEqual([0, 0, 1]);
+    expect(result.entities[0].source).toBe("blood");
+    expect(result.cacheHits).toBe(3);
+    expect(result.usage).toMatchObject({ promptTokens: 60, requests: 6, model: null });
+    expect(result.ensemble.runs.map((run) => run.label)).toEqual([
+      `${openrouter.name} #1`,
+      ollama.name,
+      `${openrouter.name} #3`,
+    ]);
+  });
+
+  it("names the run that failed", async () => {
+    vi.mocked(extractEntitiesInChunks)
+      .mockResolvedValueOnce({ entities: [], chunkCount: 1 })
+      .mockRejectedValueOnce(new Error("429"));
+
+    await expect(
+      runEnsembleExtraction({
+        mode: "llm",
+        text: "…",
+        members: [openrouter, ollama],
+        voteThreshold: 0.6,
+      }),
+    ).rejects.toThrow(`第 2/2 次运行（${ollama.name}）失败：429`);
+    await expect(
+      runEnsembleExtraction({
+        mode: "llm",
+        text: "…",
+        members: [openrouter],
+        voteThreshold: 0.6,
+      }),
+    ).rejects.toThrow("至少需要两个");
+  });
+});
+
+describe("rejected entities", () => {
+  it("can be accepted into the record or dismissed", () => {
+    const pending = kp({ id: "rejected-1" });
+    const record: ExtractionRecord = {
+      id: "r1",
+      fileName: "paper.pdf",
+      fileSize: 1,
+      processedAt: "2024-01-01T00:00:00.000Z",
+      durationMs: 0,
+      summary: computeExtractionSummary([]),
+      entities: [],
+      rawTextPreview: "",
+      ensemble: { runs: [], voteThreshold: 0.6, rejected: [pending] },
+    };
+
+    const accepted = acceptRejectedEntity(record, "rejected-1", "tester");
+    expect(accepted.entities).toMatchObject([{ strain: "KP-7", verified: false }]);
+    expect(accepted.ensemble?.rejected).toEqual([]);
+    expect(dismissRejectedEntity(record, "rejected-1").entities).toEqual([]);
+    expect(dismissRejectedEntity(record, "rejected-1").ensemble?.rejected).toEqual([]);
+  });
+});
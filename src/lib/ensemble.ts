@@ -0,0 +1,397 @@
+import { isAbbreviatedGenus } from "@/lib/chunking";
+import { acceptCandidateEntity, alignEntities, getComparedFields } from "@/lib/comparison";
+import type { ComparedField } from "@/lib/comparison";
+import { extractEntitiesInChunks, finalizeEntities } from "@/lib/extraction";
+import type { ChunkedExtractionParams, ChunkedExtractionResult } from "@/lib/extraction";
+import { DEFAULT_TEMPLATE, formatCustomFieldValue } from "@/lib/fields";
+import { isAbortError } from "@/lib/job-queue";
+import { resolveProviderModel } from "@/lib/providers";
+import {
+  formatResistanceEntry,
+  getResistanceEntries,
+  resistanceEntryKey,
+} from "@/lib/resistance";
+import { addUsage, emptyUsage } from "@/lib/usage";
+import type {
+  CustomFieldValue,
+  EnsembleFieldVote,
+  EnsembleRun,
+  EnsembleSettings,
+  EnsembleSummary,
+  ExtractionMode,
+  ExtractionRecord,
+  ExtractionUsage,
+  MicrobialEntity,
+  ProviderProfile,
+  ResistanceEntry,
+  StoredSettings,
+  TokenUsage,
+} from "@/types/extraction";
+
+export const DEFAULT_ENSEMBLE_SAMPLES = 3;
+export const MAX_ENSEMBLE_RUNS = 5;
+/** 默认需要超过半数：3 次运行中 2 次一致 */
+export const DEFAULT_VOTE_THRESHOLD = 0.6;
+
+export function getEnsembleSettings(settings: StoredSettings): EnsembleSettings {
+  return {
+    enabled: false,
+    providerIds: [],
+    samples: DEFAULT_ENSEMBLE_SAMPLES,
+    voteThreshold: DEFAULT_VOTE_THRESHOLD,
+    ...settings.ensemble,
+  };
+}
+
+/**
+ * 参与投票的模型：勾选了两个及以上的模型服务配置时各运行一次，
+ * 否则对当前模型重复采样 samples 次。
+ */
+export function getEnsembleMembers(
+  settings: StoredSettings,
+  activeProvider: ProviderProfile | null,
+): ProviderProfile[] {
+  const { providerIds, samples } = getEnsembleSettings(settings);
+  const selected = (settings.providers ?? []).filter((provider) =>
+    providerIds.includes(provider.id),
+  );
+  if (selected.length >= 2) return selected.slice(0, MAX_ENSEMBLE_RUNS);
+  if (!activeProvider) return [];
+  const count = Math.min(MAX_ENSEMBLE_RUNS, Math.max(2, Math.round(samples)));
+  return Array.from({ length: count }, () => activeProvider);
+}
+
+function runLabel(members: ProviderProfile[], index: number) {
+  const member = members[index];
+  const repeated = members.filter((item) => item.id === member.id).length > 1;
+  return repeated ? `${member.name} #${index + 1}` : member.name;
+}
+
+/** 各运行的用量相加；模型不同时 model 为 null，费用按运行分别估算 */
+function combineUsage(runs: EnsembleRun[]): ExtractionUsage {
+  const models = new Set(runs.map((run) => run.model));
+  return runs.reduce<ExtractionUsage>(
+    (total, run) => ({
+      ...total,
+      promptTokens: total.promptTokens + (run.usage?.promptTokens ?? 0),
+      completionTokens: total.completionTokens + (run.usage?.completionTokens ?? 0),
+      requests: total.requests + (run.usage?.requests ?? 0),
+    }),
+    emptyUsage(models.size === 1 ? runs[0]?.model ?? null : null),
+  );
+}
+
+interface Tally {
+  label: string;
+  value: unknown;
+  votes: number;
+}
+
+function normalizeVoteKey(value: string) {
+  return value.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function fieldVote(entity: MicrobialEntity, field: ComparedField) {
+  if (field.custom) {
+    const value = entity.customFields?.[field.key] ?? null;
+    const label = formatCustomFieldValue(value);
+    return label ? { label, value } : null;
+  }
+  const value = entity[field.key as keyof MicrobialEntity];
+  if (value == null || typeof value === "object") return null;
+  const label = String(value).trim();
+  return label ? { label, value: label } : null;
+}
+
+/** 缩写属名（如 “K.”）的票数计入首字母相同的完整属名 */
+function mergeAbbreviatedGenus(tallies: Map<string, Tally>) {
+  tallies.forEach((tally, key) => {
+    if (!isAbbreviatedGenus(tally.label)) return;
+    const initial = tally.label.charAt(0).toLowerCase();
+    const full = Array.from(tallies.values())
+      .filter(
+        (item) =>
+          !isAbbreviatedGenus(item.label) && item.label.charAt(0).toLowerCase() === initial,
+      )
+      .sort((a, b) => b.votes - a.votes)[0];
+    if (full) {
+      full.votes += tally.votes;
+      tallies.delete(key);
+    }
+  });
+}
+
+function sortTallies(tallies: Map<string, Tally>) {
+  return Array.from(tallies.values()).sort((a, b) => b.votes - a.votes);
+}
+
+function toVote(key: string, tallies: Tally[], accepted: Tally[]): EnsembleFieldVote {
+  return {
+    key,
+    candidates: tallies.map((tally) => ({
+      value: tally.label,
+      votes: tally.votes,
+      accepted: accepted.includes(tally),
+    })),
+  };
+}
+
+interface FieldResult {
+  value: unknown;
+  vote: EnsembleFieldVote;
+  /** 得票最多的取值占全部运行的比例，没有任何取值时为 null */
+  share: number | null;
+  disputed: boolean;
+}
+
+function voteScalar(
+  cluster: MicrobialEntity[],
+  field: ComparedField,
+  runs: number,
+  threshold: number,
+): FieldResult {
+  const tallies = new Map<string, Tally>();
+  cluster.forEach((entity) => {
+    const vote = fieldVote(entity, field);
+    if (!vote) return;
+    const key = normalizeVoteKey(vote.label);
+    const tally = tallies.get(key);
+    if (tally) tally.votes += 1;
+    else tallies.set(key, { ...vote, votes: 1 });
+  });
+  if (field.key === "genus" && !field.custom) mergeAbbreviatedGenus(tallies);
+
+  const sorted = sortTallies(tallies);
+  const winner = sorted[0];
+  const accepted = winner && winner.votes / runs >= threshold ? winner : null;
+  return {
+    value: accepted?.value ?? null,
+    vote: toVote(field.key, sorted, accepted ? [accepted] : []),
+    share: winner ? winner.votes / runs : null,
+    disputed: sorted.length > 1 || (sorted.length > 0 && !accepted),
+  };
+}
+
+/** 抗药性逐条投票，只保留达到阈值的条目 */
+function voteResistance(
+  cluster: MicrobialEntity[],
+  runs: number,
+  threshold: number,
+): FieldResult {
+  const tallies = new Map<string, Tally>();
+  cluster.forEach((entity) => {
+    const seen = new Set<string>();
+    getResistanceEntries(entity).forEach((entry) => {
+      const key = resistanceEntryKey(entry);
+      if (seen.has(key)) return;
+      seen.add(key);
+      const tally = tallies.get(key);
+      if (tally) tally.votes += 1;
+      else tallies.set(key, { label: formatResistanceEntry(entry), value: entry, votes: 1 });
+    });
+  });
+
+  const sorted = sortTallies(tallies);
+  const accepted = sorted.filter((tally) => tally.votes / runs >= threshold);
+  return {
+    value: accepted.map((tally) => tally.value as ResistanceEntry),
+    vote: toVote("resistance", sorted, accepted),
+    share: sorted.length
+      ? sorted.reduce((acc, tally) => acc + tally.votes / runs, 0) / sorted.length
+      : null,
+    disputed: accepted.length < sorted.length,
+  };
+}
+
+/** 依次把每次运行的实体与已有的分组对齐，每组最多包含每次运行的一个实体 */
+function clusterEntities(runs: MicrobialEntity[][], fields: ComparedField[]) {
+  const clusters: MicrobialEntity[][] = [];
+  runs.forEach((entities) => {
+    const representatives = clusters.map((cluster) => cluster[0]);
+    alignEntities(representatives, entities, fields).forEach(({ base, candidate }) => {
+      if (!candidate) return;
+      const cluster = base ? clusters[representatives.indexOf(base)] : null;
+      if (cluster) cluster.push(candidate);
+      else clusters.push([candidate]);
+    });
+  });
+  return clusters;
+}
+
+function roundShare(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 对多次运行的实体投票：实体需在不低于阈值比例的运行中出现，字段取得票最多的值，
+ * 票数不足的字段置空。confidence 为各字段最高得票比例的平均值，
+ * 分歧与未达到阈值的实体都保留下来供复核。
+ */
+export function voteEntities(
+  runs: MicrobialEntity[][],
+  threshold: number,
+  customFields = DEFAULT_TEMPLATE.fields,
+): { entities: MicrobialEntity[]; rejected: MicrobialEntity[] } {
+  const fields = getComparedFields(customFields);
+  const entities: MicrobialEntity[] = [];
+  const rejected: MicrobialEntity[] = [];
+
+  clusterEntities(runs, fields).forEach((cluster) => {
+    const representative = cluster.find((entity) => entity.context) ?? cluster[0];
+    const results = fields.map((field) =>
+      field.key === "resistance" && !field.custom
+        ? voteResistance(cluster, runs.length, threshold)
+        : voteScalar(cluster, field, runs.length, threshold),
+    );
+    const ensemble = {
+      support: cluster.length,
+      runs: runs.length,
+      disagreements: results.filter((result) => result.disputed).map((result) => result.vote),
+    };
+
+    if (cluster.length / runs.length < threshold) {
+      rejected.push({
+        ...representative,
+        confidence: roundShare(cluster.length / runs.length),
+        ensemble,
+      });
+      return;
+    }
+
+    const shares = results
+      .map((result) => result.share)
+      .filter((share): share is number => share != null);
+    const voted: MicrobialEntity = {
+      ...representative,
+      confidence: shares.length
+        ? roundShare(shares.reduce((acc, share) => acc + share, 0) / shares.length)
+        : null,
+      ensemble,
+    };
+    const customValues: Record<string, CustomFieldValue> = {};
+    fields.forEach((field, index) => {
+      const { value } = results[index];
+      if (field.custom) {
+        customValues[field.key] = value as CustomFieldValue;
+      } else if (field.key === "resistance") {
+        const entries = value as ResistanceEntry[];
+        voted.resistanceEntries = entries;
+        voted.resistance = Array.from(new Set(entries.map((entry) => entry.text)));
+      } else {
+        Object.assign(voted, { [field.key]: value });
+      }
+    });
+    if (customFields.length) voted.customFields = customValues;
+    entities.push(voted);
+  });
+
+  return { entities, rejected };
+}
+
+export interface EnsembleExtractionParams
+  extends Omit<ChunkedExtractionParams, "provider" | "preAnnotate" | "onUsage"> {
+  mode: Exclude<ExtractionMode, "rules">;
+  members: ProviderProfile[];
+  voteThreshold: number;
+  onUsage?: (usage: TokenUsage, member: ProviderProfile) => void;
+}
+
+export interface EnsembleExtractionResult extends ChunkedExtractionResult {
+  ensemble: EnsembleSummary;
+}
+
+/** 依次用每个模型（或同一模型多次采样）提取，再按实体对齐投票。 */
+export async function runEnsembleExtraction({
+  mode,
+  members,
+  voteThreshold,
+  onUsage,
+  onChunkProgress,
+  cache,
+  ...params
+}: EnsembleExtractionParams): Promise<EnsembleExtractionResult> {
+  if (members.length < 2) {
+    throw new Error("集成提取至少需要两个模型或两次采样。");
+  }
+
+  const entityRuns: MicrobialEntity[][] = [];
+  const runs: EnsembleRun[] = [];
+  let chunkCount = 1;
+  let cacheHits = 0;
+  for (const [index, member] of members.entries()) {
+    const label = runLabel(members, index);
+    const sample = members.slice(0, index).filter((item) => item.id === member.id).length;
+    const model = resolveProviderModel(member);
+    let usage = emptyUsage(model);
+    try {
+      const result = await extractEntitiesInChunks({
+        ...params,
+        provider: member,
+        preAnnotate: mode === "hybrid",
+        cache: cache && { ...cache, sample },
+        onUsage: (chunkUsage) => {
+          usage = addUsage(usage, chunkUsage);
+          onUsage?.(chunkUsage, member);
+        },
+        onChunkProgress: ({ completed, total }) =>
+          onChunkProgress?.({
+            completed: index * total + completed,
+            total: members.length * total,
+          }),
+      });
+      chunkCount = result.chunkCount;
+      cacheHits += result.cacheHits ?? 0;
+      entityRuns.push(result.entities);
+      runs.push({ label, model, entityCount: result.entities.length, usage });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `集成提取第 ${index + 1}/${members.length} 次运行（${label}）失败：${message}`,
+      );
+    }
+  }
+
+  const { entities, rejected } = voteEntities(
+    entityRuns,
+    voteThreshold,
+    params.template?.fields,
+  );
+  return {
+    entities: finalizeEntities(entities, params.text),
+    chunkCount,
+    usage: combineUsage(runs),
+    cacheHits,
+    ensemble: {
+      runs,
+      voteThreshold,
+      rejected: finalizeEntities(rejected, params.text),
+    },
+  };
+}
+
+function withoutRejected(record: ExtractionRecord, entityId: string): ExtractionRecord {
+  if (!record.ensemble) return record;
+  return {
+    ...record,
+    ensemble: {
+      ...record.ensemble,
+      rejected: record.ensemble.rejected.filter((entity) => entity.id !== entityId),
+    },
+  };
+}
+
+/** 把票数不足的实体加入记录，记入修改记录并从待复核列表中移除。 */
+export function acceptRejectedEntity(
+  record: ExtractionRecord,
+  entityId: string,
+  actor: string,
+): ExtractionRecord {
+  const entity = record.ensemble?.rejected.find((item) => item.id === entityId);
+  if (!entity) return record;
+  return withoutRejected(acceptCandidateEntity(record, entity, actor), entityId);
+}
+
+export function dismissRejectedEntity(record: ExtractionRecord, entityId: string) {
+  return withoutRejected(record, entityId);
+}
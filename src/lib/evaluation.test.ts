@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEvaluationReport,
+  DEFAULT_MATCHING,
+  evaluateDocument,
+  goldDocumentSchema,
+  goldToEntities,
+  similarity,
+  summarizeCounts,
+} from "@/lib/evaluation";
+import type { FieldDefinition, MicrobialEntity } from "@/types/extraction";
+
+const hostField: FieldDefinition = {
+  key: "host",
+  label: "宿主",
+  type: "string",
+  description: "",
+  array: false,
+};
+
+const gold = goldToEntities(
+  goldDocumentSchema.parse({
+    name: "smith-2019",
+    text: "…",
+    entities: [
+      {
+        genus: "Klebsiella",
+        species: "pneumoniae",
+        strain: "KP01",
+        mlst_st: 258,
+        source: "blood culture",
+        resistance: ["blaKPC-2", "blaOXA-48"],
+        host: "Homo sapiens",
+      },
+      { genus: "Escherichia", species: "coli", source: "urine" },
+    ],
+  }),
+  [hostField],
+);
+
+const predicted: MicrobialEntity[] = [
+  {
+    id: "p1",
+    genus: "Klebsiella",
+    species: "pneumoniae",
+    strain: "KP01",
+    mlst_st: "ST258",
+    source: "blood",
+    resistance: ["blaKPC-2", "blaNDM-1"],
+    customFields: { host: "homo sapiens" },
+  },
+  { id: "p2", genus: "Acinetobacter", species: "baumannii", source: "sputum" },
+];
+
+function field(report: ReturnType<typeof evaluateDocument>, key: string) {
+  return report.fields.find((item) => item.key === key);
+}
+
+describe("goldToEntities", () => {
+  it("coerces numeric ST and keeps custom field values", () => {
+    expect(gold[0]).toMatchObject({
+      id: "gold-1",
+      mlst_st: "258",
+      resistance: ["blaKPC-2", "blaOXA-48"],
+      customFields: { host: "Homo sapiens" },
+    });
+    expect(gold[1].customFields).toBeUndefined();
+  });
+});
+
+describe("similarity", () => {
+  it("scores character bigram overlap", () => {
+    expect(similarity("Blood", "blood")).toBe(1);
+    expect(similarity("blood culture", "blood")).toBeGreaterThanOrEqual(0.5);
+    expect(similarity("urine", "sputum")).toBeLessThan(0.5);
+    expect(similarity("a", "b")).toBe(0);
+  });
+});
+
+describe("evaluateDocument", () => {
+  const report = evaluateDocument("smith-2019", gold, predicted, DEFAULT_MATCHING, [hostField]);
+
+  it("counts aligned, extra and missed entities", () => {
+    expect(report.entities).toMatchObject({ tp: 1, fp: 1, fn: 1, precision: 0.5, recall: 0.5 });
+  });
+
+  it("applies per-field normalization and match rules", () => {
+    expect(field(report, "species")).toMatchObject({ tp: 1, fp: 1, fn: 1 });
+    expect(field(report, "mlst_st")).toMatchObject({ tp: 1, fp: 0, fn: 0 });
+    expect(field(report, "source")).toMatchObject({ rule: "fuzzy", tp: 1, fp: 1, fn: 1 });
+    expect(field(report, "resistance")).toMatchObject({ tp: 1, fp: 1, fn: 1 });
+    expect(field(report, "host")).toMatchObject({ tp: 1, fp: 0, fn: 0 });
+  });
+
+  it("honours exact matching when configured", () => {
+    const exact = evaluateDocument("smith-2019", gold, predicted, {
+      ...DEFAULT_MATCHING,
+      fields: { host: "exact" },
+    }, [hostField]);
+
+    expect(field(exact, "host")).toMatchObject({ rule: "exact", tp: 0, fp: 1, fn: 1 });
+  });
+});
+
+describe("summaries", () => {
+  it("returns null scores when nothing was counted", () => {
+    expect(summarizeCounts({ tp: 0, fp: 0, fn: 0 })).toMatchObject({
+      precision: null,
+      recall: null,
+      f1: null,
+    });
+    expect(summarizeCounts({ tp: 0, fp: 1, fn: 1 }).f1).toBe(0);
+  });
+
+  it("micro-averages counts across documents", () => {
+    const perfect = evaluateDocument("b", gold.slice(0, 1), [predicted[0]]);
+    const report = buildEvaluationReport([
+      evaluateDocument("a", gold, predicted),
+      perfect,
+    ]);
+
+    expect(report.entities).toMatchObject({ tp: 2, fp: 1, fn: 1 });
+    expect(report.entities.precision).toBeCloseTo(2 / 3);
+    expect(report.fields.find((item) => item.key === "mlst_st")).toMatchObject({
+      tp: 2,
+      precision: 1,
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { z } from "zod";
+import { alignEntities, getComparedFields } from "@/lib/comparison";
+import type { ComparedField } from "@/lib/comparison";
+import { formatCustomFieldValue } from "@/lib/fields";
+import { getResistanceEntries } from "@/lib/resistance";
+import { normalizeSequenceType } from "@/lib/search";
+import type {
+  CustomFieldValue,
+  FieldDefinition,
+  MicrobialEntity,
+} from "@/types/extraction";
+
+/**
+ * 金标准文件：一篇文献的全文与人工标注的实体，例如
+ *
+ *   { "name": "smith-2019", "text": "...", "entities": [
+ *     { "genus": "Klebsiella", "species": "pneumoniae", "strain": "KP01",
+ *       "mlst_st": "ST258", "source": "blood", "resistance": ["blaKPC-2"] } ] }
+ *
+ * 抗药性写成一条文本或文本数组，按基因/突变或抗生素逐条计分。
+ */
+const goldValue = z.string().nullish();
+
+const goldEntitySchema = z
+  .object({
+    genus: goldValue,
+    species: goldValue,
+    subspecies: goldValue,
+    serovar: goldValue,
+    strain: goldValue,
+    mlst_st: z.union([z.string(), z.number()]).nullish(),
+    taxonomy_id: z.union([z.string(), z.number()]).nullish(),
+    source: goldValue,
+    resistance: z.union([z.string(), z.array(z.string())]).nullish(),
+    pathogenicity: goldValue,
+  })
+  .passthrough();
+
+export const goldDocumentSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  text: z.string().min(1, "text 不能为空"),
+  entities: z.array(goldEntitySchema),
+});
+
+export type GoldDocument = z.infer<typeof goldDocumentSchema>;
+
+export type MatchRule = "exact" | "normalized" | "fuzzy";
+
+export interface MatchingConfig {
+  /** 未单独配置的字段使用的规则 */
+  defaultRule: MatchRule;
+  fields: Partial<Record<string, MatchRule>>;
+  /** 模糊匹配的相似度阈值（0-1） */
+  fuzzyThreshold: number;
+}
+
+export const DEFAULT_MATCHING: MatchingConfig = {
+  defaultRule: "normalized",
+  fields: { source: "fuzzy", pathogenicity: "fuzzy" },
+  fuzzyThreshold: 0.5,
+};
+
+export interface MatchCounts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+export interface ScoreSummary extends MatchCounts {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface FieldScore extends ScoreSummary {
+  key: string;
+  label: string;
+  rule: MatchRule;
+}
+
+export interface DocumentEvaluation {
+  name: string;
+  entities: ScoreSummary;
+  fields: FieldScore[];
+}
+
+export interface EvaluationReport {
+  documents: DocumentEvaluation[];
+  /** 所有文献的计数相加后再计算（micro 平均） */
+  entities: ScoreSummary;
+  fields: FieldScore[];
+}
+
+/** 把金标准实体转换为 MicrobialEntity，以便与提取结果走同一套对齐逻辑 */
+export function goldToEntities(
+  document: GoldDocument,
+  customFields: FieldDefinition[] = [],
+): MicrobialEntity[] {
+  return document.entities.map((entity, index) => {
+    const resistance = entity.resistance
+      ? Array.isArray(entity.resistance)
+        ? entity.resistance
+        : [entity.resistance]
+      : [];
+    const customValues = customFields.filter((field) => entity[field.key] != null);
+    return {
+      id: `gold-${index + 1}`,
+      genus: entity.genus ?? null,
+      species: entity.species ?? null,
+      subspecies: entity.subspecies ?? null,
+      serovar: entity.serovar ?? null,
+      strain: entity.strain ?? null,
+      mlst_st: entity.mlst_st != null ? String(entity.mlst_st) : null,
+      taxonomy_id: entity.taxonomy_id != null ? String(entity.taxonomy_id) : null,
+      source: entity.source ?? null,
+      resistance,
+      pathogenicity: entity.pathogenicity ?? null,
+      customFields: customValues.length
+        ? Object.fromEntries(
+            customValues.map((field) => [field.key, entity[field.key] as CustomFieldValue]),
+          )
+        : undefined,
+    };
+  });
+}
+
+function normalizeText(value: string) {
+  return value.toLowerCase().replace(/[\s._\-–,;:()]+/g, "");
+}
+
+/** 字符二元组的 Dice 系数，“blood culture” 与 “blood” 约为 0.53 */
+export function similarity(a: string, b: string) {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < left.length - 1; index++) {
+    const gram = left.slice(index, index + 2);
+    bigrams.set(gram, (bigrams.get(gram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let index = 0; index < right.length - 1; index++) {
+    const gram = right.slice(index, index + 2);
+    const count = bigrams.get(gram) ?? 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      overlap += 1;
+    }
+  }
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+/** 字段相关的归一化：种名去掉重复的属名，ST 统一为 “ST258” */
+function normalizeFieldValue(field: ComparedField, entity: MicrobialEntity, value: string) {
+  if (field.key === "species" && !field.custom && entity.genus) {
+    const prefix = `${entity.genus.trim().toLowerCase()} `;
+    if (value.toLowerCase().startsWith(prefix)) return value.slice(prefix.length);
+  }
+  if (field.key === "mlst_st" && !field.custom) {
+    return normalizeSequenceType(value) ?? value;
+  }
+  return value;
+}
+
+function valuesMatch(rule: MatchRule, gold: string, predicted: string, threshold: number) {
+  if (rule === "exact") return gold.trim() === predicted.trim();
+  if (rule === "normalized") return normalizeText(gold) === normalizeText(predicted);
+  return similarity(gold, predicted) >= threshold;
+}
+
+/** 抗药性按条目比较（基因/突变或抗生素），其余字段为单值 */
+function fieldValues(entity: MicrobialEntity | null, field: ComparedField): string[] {
+  if (!entity) return [];
+  if (field.custom) {
+    const value = entity.customFields?.[field.key];
+    const items = Array.isArray(value) ? value : value == null ? [] : [value];
+    return items.map((item) => formatCustomFieldValue(item)).filter(Boolean);
+  }
+  if (field.key === "resistance") {
+    return getResistanceEntries(entity)
+      .map((entry) => entry.determinant ?? entry.antibiotic ?? entry.drugClass ?? entry.text)
+      .filter((item): item is string => Boolean(item?.trim()));
+  }
+  const value = entity[field.key as keyof MicrobialEntity];
+  if (value == null || typeof value === "object") return [];
+  const text = String(value).trim();
+  return text ? [normalizeFieldValue(field, entity, text)] : [];
+}
+
+function countMatches(
+  gold: string[],
+  predicted: string[],
+  rule: MatchRule,
+  threshold: number,
+): MatchCounts {
+  const remaining = [...predicted];
+  let tp = 0;
+  gold.forEach((value) => {
+    const index = remaining.findIndex((item) => valuesMatch(rule, value, item, threshold));
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      tp += 1;
+    }
+  });
+  return { tp, fp: remaining.length, fn: gold.length - tp };
+}
+
+function addCounts(a: MatchCounts, b: MatchCounts): MatchCounts {
+  return { tp: a.tp + b.tp, fp: a.fp + b.fp, fn: a.fn + b.fn };
+}
+
+export function summarizeCounts(counts: MatchCounts): ScoreSummary {
+  const precision = counts.tp + counts.fp ? counts.tp / (counts.tp + counts.fp) : null;
+  const recall = counts.tp + counts.fn ? counts.tp / (counts.tp + counts.fn) : null;
+  const f1 =
+    precision != null && recall != null && precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : precision != null && recall != null
+      ? 0
+      : null;
+  return { ...counts, precision, recall, f1 };
+}
+
+export function ruleForField(config: MatchingConfig, key: string) {
+  return config.fields[key] ?? config.defaultRule;
+}
+
+/**
+ * 评估一篇文献的提取结果：实体按属 + 种 + 菌株与金标准对齐，
+ * 已对齐的实体逐字段比较；多出的实体各字段计为假阳性，漏掉的计为假阴性。
+ */
+export function evaluateDocument(
+  name: string,
+  gold: MicrobialEntity[],
+  predicted: MicrobialEntity[],
+  config: MatchingConfig = DEFAULT_MATCHING,
+  customFields: FieldDefinition[] = [],
+): DocumentEvaluation {
+  const fields = getComparedFields(customFields);
+  const alignments = alignEntities(gold, predicted, fields);
+  const count = (status: string) =>
+    alignments.filter((alignment) => alignment.status === status).length;
+
+  return {
+    name,
+    entities: summarizeCounts({
+      tp: count("matched"),
+      fp: count("added"),
+      fn: count("missing"),
+    }),
+    fields: fields.map((field) => {
+      const rule = ruleForField(config, field.key);
+      const counts = alignments.reduce(
+        (acc, alignment) =>
+          addCounts(
+            acc,
+            countMatches(
+              fieldValues(alignment.base, field),
+              fieldValues(alignment.candidate, field),
+              rule,
+              config.fuzzyThreshold,
+            ),
+          ),
+        { tp: 0, fp: 0, fn: 0 },
+      );
+      return { key: field.key, label: field.label, rule, ...summarizeCounts(counts) };
+    }),
+  };
+}
+
+export function buildEvaluationReport(documents: DocumentEvaluation[]): EvaluationReport {
+  const entities = documents.reduce(
+    (acc, document) => addCounts(acc, document.entities),
+    { tp: 0, fp: 0, fn: 0 },
+  );
+  const fieldTotals = new Map<string, FieldScore>();
+  documents.forEach((document) =>
+    document.fields.forEach((field) => {
+      const current = fieldTotals.get(field.key);
+      fieldTotals.set(
+        field.key,
+        current ? { ...current, ...addCounts(current, field) } : { ...field },
+      );
+    }),
+  );
+
+  return {
+    documents,
+    entities: summarizeCounts(entities),
+    fields: Array.from(fieldTotals.values()).map((field) => ({
+      ...field,
+      ...summarizeCounts(field),
+    })),
+  };
+}
@@ -0,0 +1,78 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { DEFAULT_TEMPLATE } from "@/lib/fields";
+import { extractionCacheKey } from "@/lib/extraction";
+import {
+  clearExtractionCache,
+  extractionCache,
+  getExtractionCacheStats,
+} from "@/lib/extraction-cache";
+import { createProviderProfile } from "@/lib/providers";
+import type { MicrobialEntity } from "@/types/extraction";
+
+const ollama = createProviderProfile("openai-compatible", { model: "qwen2.5:14b" });
+
+function keyFor(overrides: Partial<Parameters<typeof extractionCacheKey>[0]> = {}) {
+  return extractionCacheKey({
+    text: "Klebsiella pneumoniae ST258",
+    provider: ollama,
+    template: DEFAULT_TEMPLATE,
+    ...overrides,
+  });
+}
+
+const entities: MicrobialEntity[] = [{ id: "e1", genus: "Klebsiella", species: "pneumoniae" }];
+
+describe("extractionCacheKey", () => {
+  it("is stable across profile ids, names and keys", async () => {
+    const renamed = { ...ollama, id: "other", name: "本地", apiKey: "secret" };
+
+    expect(await keyFor({ provider: renamed })).toBe(await keyFor());
+    expect(await keyFor({ provider: { ...ollama, baseUrl: "http://localhost:11434/v1/" } })).toBe(
+      await keyFor(),
+    );
+  });
+
+  it("separates the same model served by different endpoints", async () => {
+    const base = await keyFor();
+    const openrouter = createProviderProfile("openrouter", { model: "qwen2.5:14b" });
+    const remote = { ...ollama, baseUrl: "http://gpu-server:8000/v1" };
+
+    expect(await keyFor({ provider: openrouter })).not.toBe(base);
+    expect(await keyFor({ provider: remote })).not.toBe(base);
+    expect(await keyFor({ text: "Escherichia coli" })).not.toBe(base);
+    expect(await keyFor({ sample: 1 })).not.toBe(base);
+  });
+});
+
+describe("extractionCache", () => {
+  beforeAll(() => {
+    vi.stubGlobal("window", globalThis);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await clearExtractionCache();
+  });
+
+  it("counts hits and misses", async () => {
+    expect(await extractionCache.get("a")).toBeNull();
+    await extractionCache.set("a", { entities, model: "qwen2.5:14b" });
+
+    expect(await extractionCache.get("a")).toEqual({ entities, model: "qwen2.5:14b" });
+    expect(await getExtractionCacheStats()).toMatchObject({ hits: 1, misses: 1, entryCount: 1 });
+  });
+
+  it("evicts the oldest entries beyond 2000", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    for (let index = 0; index < 2001; index++) {
+      vi.setSystemTime(Date.UTC(2024, 0, 1) + index * 1000);
+      await extractionCache.set(`key-${index}`, { entities: [], model: null });
+    }
+
+    expect((await getExtractionCacheStats())?.entryCount).toBe(2000);
+    expect(await extractionCache.get("key-0")).toBeNull();
+    expect(await extractionCache.get("key-1")).not.toBeNull();
+    expect(await extractionCache.get("key-2000")).not.toBeNull();
+  });
+});
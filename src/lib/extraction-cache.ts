@@ -0,0 +1,120 @@
+import {
+  isIndexedDbAvailable,
+  openDatabase,
+  requestToPromise,
+  STORE_EXTRACTION_CACHE,
+  STORE_META,
+  transactionDone,
+} from "@/lib/db";
+import type { CachedExtraction, ExtractionCache } from "@/lib/extraction";
+
+const STATS_KEY = "extractionCacheStats";
+/** 超出后按写入时间删除最早的条目 */
+const MAX_CACHE_ENTRIES = 2000;
+
+interface StoredCacheEntry extends CachedExtraction {
+  key: string;
+  createdAt: string;
+}
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+}
+
+export interface ExtractionCacheStats extends CacheCounters {
+  entryCount: number;
+  /** 按 JSON 长度估算的字节数 */
+  approximateBytes: number;
+}
+
+async function readCounters(meta: IDBObjectStore): Promise<CacheCounters> {
+  const stored = await requestToPromise<{ value: CacheCounters } | undefined>(
+    meta.get(STATS_KEY),
+  );
+  return stored?.value ?? { hits: 0, misses: 0 };
+}
+
+async function loadCachedExtraction(key: string): Promise<CachedExtraction | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORE_EXTRACTION_CACHE, STORE_META], "readwrite");
+    const entry = await requestToPromise<StoredCacheEntry | undefined>(
+      transaction.objectStore(STORE_EXTRACTION_CACHE).get(key),
+    );
+    const meta = transaction.objectStore(STORE_META);
+    const counters = await readCounters(meta);
+    meta.put({
+      key: STATS_KEY,
+      value: entry
+        ? { ...counters, hits: counters.hits + 1 }
+        : { ...counters, misses: counters.misses + 1 },
+    });
+    await transactionDone(transaction);
+    return entry ? { entities: entry.entities, model: entry.model } : null;
+  } catch (error) {
+    console.error("无法读取提取结果缓存", error);
+    return null;
+  }
+}
+
+/** 写入失败只记录日志，不影响本次提取 */
+async function saveCachedExtraction(key: string, value: CachedExtraction) {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_EXTRACTION_CACHE, "readwrite");
+    const store = transaction.objectStore(STORE_EXTRACTION_CACHE);
+    store.put({
+      ...value,
+      key,
+      createdAt: new Date().toISOString(),
+    } satisfies StoredCacheEntry);
+
+    const overflow = (await requestToPromise(store.count())) - MAX_CACHE_ENTRIES;
+    if (overflow > 0) {
+      const oldest = await requestToPromise(
+        store.index("createdAt").getAllKeys(null, overflow),
+      );
+      oldest.forEach((oldKey) => store.delete(oldKey));
+    }
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error("无法写入提取结果缓存", error);
+  }
+}
+
+export const extractionCache: ExtractionCache = {
+  get: loadCachedExtraction,
+  set: saveCachedExtraction,
+};
+
+export async function getExtractionCacheStats(): Promise<ExtractionCacheStats | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORE_EXTRACTION_CACHE, STORE_META], "readonly");
+    const entries = await requestToPromise<StoredCacheEntry[]>(
+      transaction.objectStore(STORE_EXTRACTION_CACHE).getAll(),
+    );
+    return {
+      ...(await readCounters(transaction.objectStore(STORE_META))),
+      entryCount: entries.length,
+      approximateBytes: entries.reduce((acc, entry) => acc + JSON.stringify(entry).length, 0),
+    };
+  } catch (error) {
+    console.error("无法统计提取结果缓存", error);
+    return null;
+  }
+}
+
+/** 清空缓存条目并重置命中统计 */
+export async function clearExtractionCache() {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_EXTRACTION_CACHE, STORE_META], "readwrite");
+  transaction.objectStore(STORE_EXTRACTION_CACHE).clear();
+  transaction.objectStore(STORE_META).delete(STATS_KEY);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { computeExtractionSummary } from "@/lib/extraction";
+import type { MicrobialEntity } from "@/types/extraction";
+
+function entity(resistance: string[]): MicrobialEntity {
+  return {
+    id: crypto.randomUUID(),
+    genus: "Escherichia",
+    species: "coli",
+    subspecies: null,
+    serovar: null,
+    strain: null,
+    mlst_st: null,
+    taxonomy_id: null,
+    source: null,
+    resistance,
+    pathogenicity: null,
+    context: null,
+    confidence: null,
+  };
+}
+
+describe("computeExtractionSummary", () => {
+  it("does not count susceptible calls as resistance findings", () => {
+    const summary = computeExtractionSummary([
+      entity(["blaCTX-M-15", "ciprofloxacin resistant", "colistin susceptible"]),
+    ]);
+
+    expect(summary.resistanceCount).toBe(2);
+    expect(summary.resistanceGeneCount).toBe(1);
+    expect(summary.resistancePhenotypeCount).toBe(1);
+  });
+});
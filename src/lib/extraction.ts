@@ -1,5 +1,81 @@
 import { z } from "zod";
-import type { ExtractionRecord, MicrobialEntity } from "@/types/extraction";
+import {
+  bibliographyFromText,
+  hasBibliography,
+  mergeBibliography,
+} from "@/lib/bibliography";
+import {
+  DEFAULT_CHUNK_TOKEN_BUDGET,
+  mergeEntityLists,
+  splitTextIntoChunks,
+} from "@/lib/chunking";
+import { sha256Hex } from "@/lib/duplicates";
+import { isAbortError, withRetry } from "@/lib/job-queue";
+import type { RetryOptions } from "@/lib/job-queue";
+import { attachProvenance } from "@/lib/provenance";
+import {
+  buildCustomFieldShape,
+  DEFAULT_TEMPLATE,
+  describeFieldsForPrompt,
+  fieldLabels,
+} from "@/lib/fields";
+import {
+  requestJsonCompletion,
+  resolveProviderBaseUrl,
+  resolveProviderModel,
+} from "@/lib/providers";
+import {
+  getResistanceEntries,
+  normalizeResistanceEntry,
+  parseResistanceText,
+  withResistanceEntries,
+} from "@/lib/resistance";
+import {
+  annotateText,
+  extractEntitiesWithRules,
+  formatAnnotationsForPrompt,
+} from "@/lib/rule-extractor";
+import { linkEntitiesToTables, parseTables } from "@/lib/tables";
+import { validateTaxonomy } from "@/lib/taxonomy";
+import { addUsage, emptyUsage } from "@/lib/usage";
+import type {
+  BibliographicMetadata,
+  CustomFieldValue,
+  EnsembleSummary,
+  ExtractionMode,
+  ExtractionRecord,
+  ExtractionSummary,
+  ExtractionTemplate,
+  ExtractionUsage,
+  FieldDefinition,
+  MicrobialEntity,
+  ProviderProfile,
+  TokenUsage,
+} from "@/types/extraction";
+
+const resistanceItemSchema = z.union([
+  z.string(),
+  z.object({
+    kind: z.string().optional().nullable(),
+    determinant: z.string().optional().nullable(),
+    antibiotic: z.string().optional().nullable(),
+    drug_class: z.string().optional().nullable(),
+    call: z.string().optional().nullable(),
+    mic: z
+      .union([
+        z.number(),
+        z.string(),
+        z.object({
+          value: z.coerce.number(),
+          unit: z.string().optional().nullable(),
+          qualifier: z.enum(["<", "<=", "=", ">=", ">"]).optional().nullable(),
+        }),
+      ])
+      .optional()
+      .nullable(),
+    text: z.string().optional().nullable(),
+  }),
+]);
 
 const entitySchema = z.object({
   genus: z.string().trim().optional().nullable(),
@@ -11,7 +87,7 @@ const entitySchema = z.object({
   taxonomy_id: z.union([z.string(), z.number()]).optional().nullable(),
   source: z.string().trim().optional().nullable(),
   resistance: z
-    .union([z.array(z.string()), z.string()])
+    .union([z.array(resistanceItemSchema), z.string()])
     .optional()
     .nullable(),
   pathogenicity: z.string().trim().optional().nullable(),
@@ -23,7 +99,9 @@ const entitySchema = z.object({
     .nullable(),
   confidence: z.number().min(0).max(1).optional().nullable(),
   note: z.string().optional().nullable(),
-});
+})
+  // 保留模板自定义字段，交给 buildCustomFieldShape 生成的 schema 解析
+  .passthrough();
 
 const extractionSchema = z.object({
   entities: z.array(entitySchema).default([]),
@@ -36,49 +114,71 @@ const extractionSchema = z.object({
 
 export interface ExtractEntitiesParams {
   text: string;
-  apiKey: string;
-  model?: string;
+  provider: ProviderProfile;
+  /** 规则预标注结果，混合模式下附加在提示词中 */
+  hints?: string;
+  signal?: AbortSignal;
+  retry?: RetryOptions;
+  /** 每次模型请求成功后回报 token 用量 */
+  onUsage?: (usage: TokenUsage) => void;
+  /** 自定义字段与附加说明，缺省时只提取内置字段 */
+  template?: ExtractionTemplate;
+}
+
+function buildExtractionPrompt(
+  text: string,
+  template: ExtractionTemplate,
+  hints?: string,
+) {
+  const hintSection = hints
+    ? `\n\n以下是基于词典的预标注候选（可能不完整或有误，仅供参考，请以原文为准）：\n${hints}`
+    : "";
+  const tableSection = text.includes("[Table T")
+    ? "\n\n文献中的表格已整理为 Markdown（以 [Table Tn] 开头、[/Table Tn] 结尾，首行为表头），表格中的每一行通常对应一个菌株或分离株，请逐行提取，并结合表题与表头理解各列含义。"
+    : "";
+  const instructions = template.instructions?.trim()
+    ? `\n5. ${template.instructions.trim()}`
+    : "";
+
+  return `从以下文献内容中提取与微生物相关的信息，包括${fieldLabels(template.fields).join("、")}等。\n\n要求：\n1. 严格输出 JSON 格式，不要添加额外文本。\n2. JSON 结构：{"entities": [...]}。\n3. 每个实体包含以下字段：\n${describeFieldsForPrompt(template.fields)}\n4. 仅当信息明确出现时才填写字段，未知值使用 null。${instructions}${tableSection}${hintSection}\n\n文献内容：\n\n${text}`;
+}
+
+/** 逐字段校验模板字段，无法识别的值记为 null，不让整段提取失败 */
+function parseCustomFields(
+  fields: FieldDefinition[],
+  shape: ReturnType<typeof buildCustomFieldShape>,
+  entity: Record<string, unknown>,
+): Record<string, CustomFieldValue> {
+  return Object.fromEntries(
+    fields.map((field) => {
+      const parsed = shape[field.key].safeParse(entity[field.key]);
+      if (!parsed.success) {
+        console.warn(`模型返回的「${field.label}」无法识别`, parsed.error);
+      }
+      return [field.key, parsed.success ? parsed.data : null];
+    }),
+  );
 }
 
 export async function extractEntitiesFromText({
   text,
-  apiKey,
-  model = "deepseek/deepseek-chat",
+  provider,
+  hints,
+  signal,
+  retry,
+  onUsage,
+  template = DEFAULT_TEMPLATE,
 }: ExtractEntitiesParams): Promise<MicrobialEntity[]> {
-  const payload = {
-    model,
-    messages: [
-      {
-        role: "system",
-        content:
-          "You are a biomedical information extraction model. Only respond with valid JSON that matches the required schema.",
-      },
-      {
-        role: "user",
-        content: `从以下文献内容中提取与微生物相关的信息，包括属、种、菌株编号、MLST、Taxonomy ID、分离来源、抗药性和致病性等。\n\n要求：\n1. 严格输出 JSON 格式，不要添加额外文本。\n2. JSON 结构：{\"entities\": [...]}。\n3. 每个实体字段：genus, species, subspecies, serovar, strain, mlst_st, taxonomy_id, source, resistance (数组), pathogenicity, context.snippet（提供该实体所在句子的前后 60 个字符），confidence（0-1 之间的小数）。\n4. 仅当信息明确出现时才填写字段，未知值使用 null。\n5. resistance 字段中只包含抗药性相关描述。\n\n文献内容：\n\n${text}`,
-      },
-    ],
-    response_format: { type: "json_object" },
-  } as const;
-
-  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": "https://micr-ai.local",
-      "X-Title": "micr-AI 文献摘取",
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const message = await response.text();
-    throw new Error(`调用 DeepSeek API 失败：${response.status} ${message}`);
-  }
-
-  const json = await response.json();
-  const contentRaw = json?.choices?.[0]?.message?.content;
+  const request = {
+    system:
+      "You are a biomedical information extraction model. Only respond with valid JSON that matches the required schema.",
+    prompt: buildExtractionPrompt(text, template, hints),
+  };
+  const { content: contentRaw, usage } = await withRetry(
+    () => requestJsonCompletion(provider, request, { signal }),
+    { ...retry, signal },
+  );
+  if (usage) onUsage?.(usage);
 
   let content: unknown = {};
   if (typeof contentRaw === "string" && contentRaw.trim().length) {
@@ -91,6 +191,7 @@ export async function extractEntitiesFromText({
   }
 
   const parsed = extractionSchema.safeParse(content);
+  const customFieldShape = buildCustomFieldShape(template.fields);
   if (!parsed.success) {
     console.warn("无法解析模型返回的数据", parsed.error);
     throw new Error("AI 返回的数据格式无法识别，请重试。");
@@ -99,11 +200,20 @@ export async function extractEntitiesFromText({
   return parsed.data.entities.map((entity) => {
     const id = crypto.randomUUID();
     const resistanceSource = entity.resistance;
-    const resistance = Array.isArray(resistanceSource)
+    const resistanceItems = Array.isArray(resistanceSource)
       ? resistanceSource.filter(Boolean)
       : resistanceSource
-      ? [resistanceSource].filter(Boolean)
+      ? [resistanceSource]
       : [];
+    const resistanceEntries = resistanceItems.flatMap((item) => {
+      if (typeof item === "string") return parseResistanceText(item);
+      const normalized = normalizeResistanceEntry({
+        ...item,
+        drugClass: item.drug_class,
+      });
+      return normalized ? [normalized] : [];
+    });
+    const resistance = resistanceEntries.map((entry) => entry.text);
 
     return {
       id,
@@ -117,39 +227,275 @@ export async function extractEntitiesFromText({
         ? String(entity.taxonomy_id)
         : null,
       source: entity.source ?? null,
-      resistance,
+      resistance: Array.from(new Set(resistance)),
+      resistanceEntries,
       pathogenicity: entity.pathogenicity ?? null,
       context: entity.context?.snippet ?? null,
       confidence: entity.confidence ?? null,
+      customFields: template.fields.length
+        ? parseCustomFields(template.fields, customFieldShape, entity)
+        : undefined,
     } satisfies MicrobialEntity;
   });
 }
 
-export function buildExtractionRecord(params: {
-  fileName: string;
-  fileSize: number;
-  startedAt: number;
-  finishedAt: number;
+/** 修改提示词、返回结构或解析逻辑时递增，旧版本的缓存结果随之失效 */
+export const EXTRACTION_PROMPT_VERSION = 1;
+
+export interface CachedExtraction {
   entities: MicrobialEntity[];
-  rawText: string;
-}): ExtractionRecord {
-  const { fileName, fileSize, startedAt, finishedAt, entities, rawText } = params;
+  model: string | null;
+}
+
+/** 分块结果缓存，由调用方注入：浏览器端保存在 IndexedDB，服务端不使用 */
+export interface ExtractionCache {
+  get: (key: string) => Promise<CachedExtraction | null>;
+  set: (key: string, value: CachedExtraction) => Promise<void>;
+}
+
+export interface ExtractionCacheOptions {
+  store: ExtractionCache;
+  /** 不读取缓存，重新调用模型并覆盖已有结果 */
+  refresh?: boolean;
+  /** 集成提取对同一模型多次采样时的序号，避免各次采样命中同一条缓存 */
+  sample?: number;
+}
+
+/**
+ * 分块原文、模型服务、模型、提示词版本、字段模板与预标注共同决定缓存键。
+ * 同名模型可能由不同的服务提供（如本地 Ollama 与 OpenRouter），因此服务类型与地址也计入。
+ */
+export function extractionCacheKey(params: {
+  text: string;
+  provider: ProviderProfile;
+  template: ExtractionTemplate;
+  hints?: string;
+  sample?: number;
+}) {
+  const { text, provider, template, hints, sample = 0 } = params;
+  return sha256Hex(
+    new TextEncoder().encode(
+      JSON.stringify({
+        version: EXTRACTION_PROMPT_VERSION,
+        kind: provider.kind,
+        baseUrl: resolveProviderBaseUrl(provider),
+        model: resolveProviderModel(provider),
+        sample,
+        fields: template.fields,
+        instructions: template.instructions?.trim() || null,
+        hints: hints ?? null,
+        text,
+      }),
+    ),
+  );
+}
+
+export interface ChunkedExtractionParams
+  extends Omit<ExtractEntitiesParams, "hints"> {
+  maxChunkTokens?: number;
+  preAnnotate?: boolean;
+  onChunkProgress?: (progress: { completed: number; total: number }) => void;
+  cache?: ExtractionCacheOptions;
+}
+
+export interface ChunkedExtractionResult {
+  entities: MicrobialEntity[];
+  chunkCount: number;
+  usage?: ExtractionUsage;
+  /** 命中缓存、没有调用模型的分块数 */
+  cacheHits?: number;
+}
+
+export async function extractEntitiesInChunks({
+  text,
+  maxChunkTokens = DEFAULT_CHUNK_TOKEN_BUDGET,
+  preAnnotate = false,
+  onChunkProgress,
+  onUsage,
+  cache,
+  ...params
+}: ChunkedExtractionParams): Promise<ChunkedExtractionResult> {
+  const chunks = splitTextIntoChunks(text, { maxTokens: maxChunkTokens });
+  const total = chunks.length;
+  const perChunk: MicrobialEntity[][] = [];
+  const model = resolveProviderModel(params.provider);
+  let usage = emptyUsage(model);
+  let cacheHits = 0;
+
+  onChunkProgress?.({ completed: 0, total });
+  for (const chunk of chunks) {
+    try {
+      const hints = preAnnotate
+        ? formatAnnotationsForPrompt(annotateText(chunk.text))
+        : undefined;
+      const cacheKey = cache
+        ? await extractionCacheKey({
+            text: chunk.text,
+            provider: params.provider,
+            template: params.template ?? DEFAULT_TEMPLATE,
+            hints,
+            sample: cache.sample,
+          })
+        : null;
+      const cached =
+        cache && cacheKey && !cache.refresh ? await cache.store.get(cacheKey) : null;
+      if (cached) {
+        cacheHits += 1;
+        // 同一份缓存可能被多条记录复用，实体 id 需要重新生成
+        perChunk.push(
+          cached.entities.map((entity) => ({ ...entity, id: crypto.randomUUID() })),
+        );
+      } else {
+        const entities = await extractEntitiesFromText({
+          ...params,
+          text: chunk.text,
+          hints,
+          onUsage: (chunkUsage) => {
+            usage = addUsage(usage, chunkUsage);
+            onUsage?.(chunkUsage);
+          },
+        });
+        perChunk.push(entities);
+        if (cache && cacheKey) await cache.store.set(cacheKey, { entities, model });
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const pages =
+        chunk.startPage != null
+          ? `（第 ${chunk.startPage}-${chunk.endPage} 页）`
+          : "";
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`第 ${chunk.index + 1}/${total} 段${pages}提取失败：${message}`);
+    }
+    onChunkProgress?.({ completed: perChunk.length, total });
+  }
+
+  return { entities: mergeEntityLists(perChunk), chunkCount: total, usage, cacheHits };
+}
+
+export interface RunExtractionParams
+  extends Omit<ChunkedExtractionParams, "provider" | "preAnnotate"> {
+  mode: ExtractionMode;
+  provider?: ProviderProfile | null;
+}
+
+/** 补充耐药条目、原文定位、表格关联与分类学校验 */
+export function finalizeEntities(entities: MicrobialEntity[], text: string) {
+  return validateTaxonomy(
+    linkEntitiesToTables(attachProvenance(withResistanceEntries(entities), text), text),
+  );
+}
+
+export async function runExtraction({
+  mode,
+  provider,
+  ...params
+}: RunExtractionParams): Promise<ChunkedExtractionResult> {
+  if (mode === "rules") {
+    params.signal?.throwIfAborted();
+    return {
+      entities: finalizeEntities(extractEntitiesWithRules(params.text), params.text),
+      chunkCount: 1,
+    };
+  }
+
+  if (!provider) {
+    throw new Error("AI 提取模式需要先选择模型服务配置。");
+  }
+
+  const result = await extractEntitiesInChunks({
+    ...params,
+    provider,
+    preAnnotate: mode === "hybrid",
+  });
+  return { ...result, entities: finalizeEntities(result.entities, params.text) };
+}
+
+export function computeExtractionSummary(
+  entities: MicrobialEntity[],
+): ExtractionSummary {
   const organismCount = entities.length;
   const uniqueSpecies = new Set(
     entities
-      .map((entity) =>
-        [entity.genus, entity.species].filter(Boolean).join(" ") || null,
+      .map(
+        (entity) =>
+          [entity.genus, entity.species].filter(Boolean).join(" ").toLowerCase() ||
+          null,
       )
       .filter(Boolean),
   ).size;
 
-  const resistanceCount = entities.reduce(
-    (acc, entity) => acc + (entity.resistance?.length ?? 0),
-    0,
-  );
+  // 明确判定为敏感（S）的条目不属于耐药发现
+  const resistanceEntries = entities
+    .flatMap((entity) => getResistanceEntries(entity))
+    .filter((entry) => entry.call !== "S");
+  const resistanceCount = resistanceEntries.length;
+  const countKind = (kind: string) =>
+    resistanceEntries.filter((entry) => entry.kind === kind).length;
   const sourceCount = entities.filter((entity) => entity.source).length;
   const pathogenicityCount = entities.filter((entity) => entity.pathogenicity)
     .length;
+  const unverifiedCount = entities.filter(
+    (entity) => entity.provenance?.status === "unverified",
+  ).length;
+  const verifiedCount = entities.filter((entity) => entity.verified).length;
+
+  return {
+    organismCount,
+    uniqueSpecies,
+    resistanceCount,
+    resistanceGeneCount: countKind("gene"),
+    resistanceMutationCount: countKind("mutation"),
+    resistancePhenotypeCount: countKind("phenotype"),
+    sourceCount,
+    pathogenicityCount,
+    unverifiedCount,
+    verifiedCount,
+    keyFindings: entities
+      .slice(0, 5)
+      .map((entity) =>
+        [entity.genus, entity.species, entity.strain]
+          .filter(Boolean)
+          .join(" ") || "未命名实体",
+      ),
+  };
+}
+
+export function buildExtractionRecord(params: {
+  fileName: string;
+  fileSize: number;
+  startedAt: number;
+  finishedAt: number;
+  entities: MicrobialEntity[];
+  rawText: string;
+  chunkCount?: number;
+  extractionMode?: ExtractionMode;
+  usage?: ExtractionUsage;
+  template?: ExtractionTemplate;
+  ensemble?: EnsembleSummary;
+  cacheHits?: number;
+  /** PDF 元数据中的题录，与第一页文本推断的结果合并 */
+  pdfMetadata?: Partial<BibliographicMetadata>[];
+  contentHash?: string;
+}): ExtractionRecord {
+  const {
+    fileName,
+    fileSize,
+    startedAt,
+    finishedAt,
+    entities,
+    rawText,
+    chunkCount,
+    extractionMode,
+    usage,
+    template,
+    ensemble,
+    cacheHits,
+    pdfMetadata = [],
+    contentHash,
+  } = params;
+  const tables = parseTables(rawText);
+  const bibliography = mergeBibliography(...pdfMetadata, bibliographyFromText(rawText));
 
   return {
     id: crypto.randomUUID(),
@@ -157,21 +503,19 @@ export function buildExtractionRecord(params: {
     fileSize,
     processedAt: new Date(finishedAt).toISOString(),
     durationMs: finishedAt - startedAt,
-    summary: {
-      organismCount,
-      uniqueSpecies,
-      resistanceCount,
-      sourceCount,
-      pathogenicityCount,
-      keyFindings: entities
-        .slice(0, 5)
-        .map((entity) =>
-          [entity.genus, entity.species, entity.strain]
-            .filter(Boolean)
-            .join(" ") || "未命名实体",
-        ),
-    },
+    summary: computeExtractionSummary(entities),
     entities,
     rawTextPreview: rawText.slice(0, 600),
+    rawTextLength: rawText.length,
+    chunkCount,
+    extractionMode,
+    usage,
+    templateName: template && template.id !== DEFAULT_TEMPLATE.id ? template.name : undefined,
+    fieldDefinitions: template?.fields.length ? template.fields : undefined,
+    tables: tables.length ? tables : undefined,
+    ensemble,
+    cacheHits: cacheHits || undefined,
+    bibliography: hasBibliography(bibliography) ? bibliography : undefined,
+    contentHash,
   } satisfies ExtractionRecord;
 }
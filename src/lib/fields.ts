@@ -0,0 +1,272 @@
+import { z } from "zod";
+import type {
+  CustomFieldScalar,
+  CustomFieldValue,
+  ExtractionRecord,
+  ExtractionTemplate,
+  FieldDefinition,
+  FieldType,
+  MicrobialEntity,
+  StoredSettings,
+} from "@/types/extraction";
+
+export type BuiltInFieldKey =
+  | "genus"
+  | "species"
+  | "subspecies"
+  | "serovar"
+  | "strain"
+  | "mlst_st"
+  | "taxonomy_id"
+  | "source"
+  | "resistance"
+  | "pathogenicity"
+  | "context"
+  | "confidence";
+
+interface BuiltInField extends FieldDefinition {
+  key: BuiltInFieldKey;
+  /** 提示词中的完整说明，省略时按类型与描述生成 */
+  prompt?: string;
+  /** 上下文、置信度等辅助字段，不列入提示词开头的提取目标 */
+  auxiliary?: boolean;
+}
+
+/**
+ * 内置字段与 MicrobialEntity 的固定属性一一对应，分类学校验、耐药解析等功能依赖这些字段，
+ * 因此不可删除；模板只能在其后追加自定义字段。
+ */
+export const BUILT_IN_FIELDS: BuiltInField[] = [
+  { key: "genus", label: "属", type: "string", array: false, description: "属名" },
+  { key: "species", label: "种", type: "string", array: false, description: "种加词" },
+  { key: "subspecies", label: "亚种", type: "string", array: false, description: "亚种" },
+  { key: "serovar", label: "血清型", type: "string", array: false, description: "血清型" },
+  { key: "strain", label: "菌株编号", type: "string", array: false, description: "菌株编号" },
+  {
+    key: "mlst_st",
+    label: "MLST",
+    type: "string",
+    array: false,
+    description: "MLST 序列型，如 ST131",
+  },
+  {
+    key: "taxonomy_id",
+    label: "Taxonomy ID",
+    type: "string",
+    array: false,
+    description: "NCBI Taxonomy ID",
+  },
+  { key: "source", label: "分离来源", type: "string", array: false, description: "分离来源" },
+  {
+    key: "resistance",
+    label: "抗药性",
+    type: "string",
+    array: true,
+    description: "抗药性条目",
+    prompt:
+      '- resistance（数组）：每一项为对象 {kind: "gene" | "mutation" | "phenotype", determinant（耐药基因或突变，如 blaCTX-M-15、gyrA S83L，表型时为 null）, antibiotic（抗生素名称）, drug_class（药物类别）, call（"S" | "I" | "R"）, mic（{value, unit, qualifier}，如 {"value": 32, "unit": "mg/L", "qualifier": ">="}）, text（原文描述）}，只包含抗药性相关信息',
+  },
+  { key: "pathogenicity", label: "致病性", type: "string", array: false, description: "致病性" },
+  {
+    key: "context",
+    label: "上下文",
+    type: "string",
+    array: false,
+    description: "原文上下文",
+    auxiliary: true,
+    prompt: '- context（对象）：{"snippet": 该实体所在句子的前后 60 个字符}',
+  },
+  {
+    key: "confidence",
+    label: "置信度",
+    type: "number",
+    array: false,
+    description: "0-1 之间的小数",
+    auxiliary: true,
+  },
+];
+
+const BUILT_IN_KEYS = new Set<string>(BUILT_IN_FIELDS.map((field) => field.key));
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  string: "文本",
+  number: "数值",
+  integer: "整数",
+  boolean: "是 / 否",
+  date: "日期",
+};
+
+const FIELD_TYPE_PROMPTS: Record<FieldType, string> = {
+  string: "字符串",
+  number: "数字",
+  integer: "整数",
+  boolean: "true / false",
+  date: "日期，格式 YYYY-MM-DD，可只精确到年或月",
+};
+
+export const DEFAULT_TEMPLATE: ExtractionTemplate = {
+  id: "default",
+  name: "默认字段",
+  fields: [],
+};
+
+/** 编辑器中“插入示例字段”使用 */
+export const EXAMPLE_FIELDS: FieldDefinition[] = [
+  { key: "host", label: "宿主", type: "string", array: false, description: "宿主物种，如 Homo sapiens、Gallus gallus" },
+  { key: "country", label: "国家", type: "string", array: false, description: "采样国家" },
+  { key: "collection_year", label: "采集年份", type: "integer", array: false, description: "样本采集年份" },
+  { key: "plasmid_replicons", label: "质粒复制子", type: "string", array: true, description: "质粒复制子类型，如 IncFII、IncX3" },
+  { key: "sequencing_platform", label: "测序平台", type: "string", array: false, description: "测序平台，如 Illumina NovaSeq、Oxford Nanopore" },
+];
+
+export function getTemplates(settings: StoredSettings) {
+  return [DEFAULT_TEMPLATE, ...(settings.templates ?? [])];
+}
+
+export function getActiveTemplate(settings: StoredSettings) {
+  return (
+    settings.templates?.find((template) => template.id === settings.activeTemplateId) ??
+    DEFAULT_TEMPLATE
+  );
+}
+
+/** 返回第一条错误信息，全部合法时返回 null。 */
+export function validateFieldDefinitions(fields: FieldDefinition[]) {
+  const seen = new Set<string>();
+  for (const field of fields) {
+    if (!/^[a-z][a-z0-9_]*$/.test(field.key)) {
+      return `字段名「${field.key || "（空）"}」只能包含小写字母、数字和下划线，并以字母开头。`;
+    }
+    if (BUILT_IN_KEYS.has(field.key)) {
+      return `字段名「${field.key}」与内置字段重复。`;
+    }
+    if (seen.has(field.key)) {
+      return `字段名「${field.key}」重复。`;
+    }
+    if (!field.label.trim()) {
+      return `请为字段「${field.key}」填写显示名称。`;
+    }
+    seen.add(field.key);
+  }
+  return null;
+}
+
+function describeField(field: FieldDefinition & { prompt?: string }) {
+  if (field.prompt) return field.prompt;
+  const type = FIELD_TYPE_PROMPTS[field.type];
+  return `- ${field.key}（${field.array ? `数组，每项为${type}` : type}）：${
+    field.description.trim() || field.label
+  }`;
+}
+
+/** 生成提示词中的字段说明：内置字段在前，模板字段在后。 */
+export function describeFieldsForPrompt(fields: FieldDefinition[]) {
+  return [...BUILT_IN_FIELDS, ...fields].map(describeField).join("\n");
+}
+
+export function fieldLabels(fields: FieldDefinition[]) {
+  return [...BUILT_IN_FIELDS.filter((field) => !field.auxiliary), ...fields].map(
+    (field) => field.label,
+  );
+}
+
+function coerceScalar(type: FieldType, raw: unknown): CustomFieldScalar | null {
+  if (raw == null) return null;
+  const text = typeof raw === "string" ? raw.trim() : raw;
+  if (text === "") return null;
+
+  switch (type) {
+    case "number":
+    case "integer": {
+      const number =
+        typeof text === "number"
+          ? text
+          : Number(String(text).replace(/,/g, "").match(/-?\d+(?:\.\d+)?/)?.[0] ?? NaN);
+      if (!Number.isFinite(number)) return null;
+      return type === "integer" ? Math.round(number) : number;
+    }
+    case "boolean": {
+      if (typeof text === "boolean") return text;
+      const value = String(text).toLowerCase();
+      if (["true", "yes", "y", "1", "是"].includes(value)) return true;
+      if (["false", "no", "n", "0", "否"].includes(value)) return false;
+      return null;
+    }
+    case "date": {
+      const value = String(text);
+      if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) return value;
+      const time = Date.parse(value);
+      return Number.isNaN(time) ? value : new Date(time).toISOString().slice(0, 10);
+    }
+    default:
+      return typeof text === "object" ? JSON.stringify(text) : String(text);
+  }
+}
+
+/** 宽松地把模型输出转换为字段类型，无法识别的值记为 null，不让整次提取失败。 */
+export function coerceFieldValue(field: FieldDefinition, raw: unknown): CustomFieldValue {
+  if (field.array) {
+    const items = Array.isArray(raw)
+      ? raw
+      : typeof raw === "string"
+      ? raw.split(/[;；]/)
+      : raw == null
+      ? []
+      : [raw];
+    return items
+      .map((item) => coerceScalar(field.type, item))
+      .filter((item): item is CustomFieldScalar => item != null);
+  }
+  const value = Array.isArray(raw)
+    ? field.type === "string"
+      ? raw.join("; ")
+      : raw[0]
+    : raw;
+  return coerceScalar(field.type, value);
+}
+
+/** 为模板字段生成 zod 校验，与内置的 entitySchema 合并使用。 */
+export function buildCustomFieldShape(fields: FieldDefinition[]) {
+  return Object.fromEntries(
+    fields.map((field) => [
+      field.key,
+      z
+        .unknown()
+        .optional()
+        .transform((value) => coerceFieldValue(field, value)),
+    ]),
+  );
+}
+
+/** 人工编辑时的严格解析：填写了内容却无法识别时报错。 */
+export function parseCustomFieldInput(field: FieldDefinition, input: string) {
+  const value = coerceFieldValue(field, input);
+  const parts = field.array ? input.split(/[;；]/).filter((item) => item.trim()) : [input];
+  const parsedCount = Array.isArray(value) ? value.length : value == null ? 0 : 1;
+  if (input.trim() && parsedCount < parts.length) {
+    throw new Error(`「${field.label}」需要填写${FIELD_TYPE_LABELS[field.type]}。`);
+  }
+  return value;
+}
+
+export function formatCustomFieldValue(value: CustomFieldValue | undefined): string {
+  if (value == null) return "";
+  if (Array.isArray(value)) return value.map((item) => formatCustomFieldValue(item)).join("; ");
+  if (typeof value === "boolean") return value ? "是" : "否";
+  return String(value);
+}
+
+export function getCustomFieldValue(entity: MicrobialEntity, field: FieldDefinition) {
+  return entity.customFields?.[field.key] ?? null;
+}
+
+/** 多条记录可能使用不同模板，导出时按 key 取并集。 */
+export function collectFieldDefinitions(records: ExtractionRecord[]) {
+  const fields = new Map<string, FieldDefinition>();
+  records.forEach((record) =>
+    record.fieldDefinitions?.forEach((field) => {
+      if (!fields.has(field.key)) fields.set(field.key, field);
+    }),
+  );
+  return Array.from(fields.values());
+}
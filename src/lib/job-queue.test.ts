@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest";
+import { withRetry } from "@/lib/job-queue";
+import { ProviderRequestError } from "@/lib/providers";
+
+describe("withRetry", () => {
+  it("fails immediately on programming errors", async () => {
+    const task = vi.fn(async () => {
+      throw new TypeError("Cannot read properties of undefined");
+    });
+
+    await expect(withRetry(task, { maxRetries: 3 })).rejects.toThrow(TypeError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network failures reported by the provider layer", async () => {
+    vi.useFakeTimers();
+    const task = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new ProviderRequestError("无法连接", 0, null))
+      .mockResolvedValueOnce("ok");
+
+    const result = withRetry(task, { maxRetries: 3 });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,167 @@
+import { ProviderRequestError } from "@/lib/providers";
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 6;
+export const DEFAULT_MAX_RETRIES = 3;
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export function clampConcurrency(value: number | null | undefined) {
+  if (!value || !Number.isFinite(value)) return DEFAULT_CONCURRENCY;
+  return Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)));
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 429、5xx 与网络错误可以重试，其余错误（如 401、JSON 格式错误以及代码本身的
+ * TypeError）直接失败。网络错误由 requestJsonCompletion 包装为 status 为 0 的 ProviderRequestError。
+ */
+function isRetryableError(error: unknown) {
+  return error instanceof ProviderRequestError && error.retryable;
+}
+
+/**
+ * 指数退避：1s、2s、4s…并加入抖动，服务端给出 Retry-After 时以其为准。
+ */
+export function retryDelay(attempt: number, retryAfterMs: number | null = null) {
+  if (retryAfterMs != null) return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  const exponential = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+  const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+  return Math.min(exponential + jitter, MAX_RETRY_DELAY_MS);
+}
+
+export interface RetryInfo {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { maxRetries = DEFAULT_MAX_RETRIES, onRetry, signal }: RetryOptions & { signal?: AbortSignal } = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || attempt > maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = retryDelay(
+        attempt,
+        error instanceof ProviderRequestError ? error.retryAfterMs : null,
+      );
+      onRetry?.({ attempt, maxRetries, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+export interface JobQueue<T extends { id: string } = { id: string }> {
+  pause: () => void;
+  resume: () => void;
+  /** 取消单个任务：尚未开始的直接移出队列，进行中的通过 AbortSignal 中止。 */
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  /** 把任务放回队首，例如预算不足时暂停后等待恢复。 */
+  requeue: (job: T) => void;
+  isPaused: () => boolean;
+  done: Promise<void>;
+}
+
+/**
+ * 按给定并发数执行任务。暂停只阻止新任务开始，进行中的任务会继续完成。
+ */
+export function startJobQueue<T extends { id: string }>(
+  jobs: T[],
+  run: (job: T, signal: AbortSignal) => Promise<void>,
+  options: { concurrency?: number } = {},
+): JobQueue<T> {
+  const pending = [...jobs];
+  const controllers = new Map<string, AbortController>();
+  let paused = false;
+  let waiting: (() => void)[] = [];
+
+  const wakeWorkers = () => {
+    const resolvers = waiting;
+    waiting = [];
+    resolvers.forEach((resolve) => resolve());
+  };
+
+  const worker = async () => {
+    for (;;) {
+      while (paused && pending.length) {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+      const job = pending.shift();
+      if (!job) return;
+
+      const controller = new AbortController();
+      controllers.set(job.id, controller);
+      try {
+        await run(job, controller.signal);
+      } finally {
+        controllers.delete(job.id);
+      }
+    }
+  };
+
+  const workerCount = Math.min(clampConcurrency(options.concurrency), jobs.length);
+  const done = Promise.all(Array.from({ length: workerCount }, worker)).then(
+    () => undefined,
+  );
+
+  return {
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      wakeWorkers();
+    },
+    cancel: (id) => {
+      const index = pending.findIndex((job) => job.id === id);
+      if (index >= 0) pending.splice(index, 1);
+      controllers.get(id)?.abort();
+      wakeWorkers();
+    },
+    cancelAll: () => {
+      pending.length = 0;
+      controllers.forEach((controller) => controller.abort());
+      wakeWorkers();
+    },
+    requeue: (job) => {
+      pending.unshift(job);
+    },
+    isPaused: () => paused,
+    done,
+  };
+}
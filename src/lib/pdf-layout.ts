@@ -0,0 +1,544 @@
+import type {
+  TextItem,
+  TextMarkedContent,
+} from "pdfjs-dist/types/src/display/api";
+import {
+  escapeTableCell,
+  tableEndMarker,
+  tableSeparatorRow,
+  tableStartMarker,
+} from "@/lib/tables";
+import type { BibliographicMetadata } from "@/types/extraction";
+
+export interface PageTextItemRange {
+  item: TextItem;
+  start: number;
+  end: number;
+}
+
+interface PositionedItem {
+  item: TextItem;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LayoutLine {
+  text: string;
+  /** 起止位置相对于本行文本 */
+  ranges: PageTextItemRange[];
+  /** 位于页面最上或最下两行，可能是页眉页脚 */
+  edge: boolean;
+}
+
+/** [x0, y0, x1, y1]，即 PDFPageProxy.view */
+export type PageBox = number[];
+
+const EDGE_ROWS = 2;
+/** 同一行内间距超过该倍数字高时视为不同单元格 */
+const CELL_GAP_EM = 1;
+const TABLE_CAPTION = /^\s*(?:Table|TABLE|Tab\.|表)\s*S?\d+/;
+const GUTTER_BINS = 100;
+const REFERENCES_HEADING =
+  /^\s*(?:\d+\.?\s*)?(?:references?|reference list|bibliography|literature cited|works cited|参考文献)\s*[:：]?\s*$/i;
+
+function toPositioned(items: (TextItem | TextMarkedContent)[]): PositionedItem[] {
+  return items
+    .filter((item): item is TextItem => "str" in item && !!item.str.trim())
+    .map((item) => ({
+      item,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height || Math.hypot(item.transform[2], item.transform[3]) || 1,
+    }));
+}
+
+/** 同一基线（允许上下浮动半个字高）的文本项归为一行，自上而下排列。 */
+function groupRows(items: PositionedItem[]) {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PositionedItem[][] = [];
+  sorted.forEach((item) => {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(row[0].height, item.height) * 0.5) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  });
+  rows.forEach((row) => row.sort((a, b) => a.x - b.x));
+  return rows;
+}
+
+/**
+ * 通过文本在水平方向上的覆盖分布寻找双栏之间的空白带；
+ * 页面中部几乎没有文字、两侧都有大量文字时视为双栏。
+ */
+function findColumnGutter(items: PositionedItem[], box: PageBox) {
+  const left = box[0];
+  const width = box[2] - box[0];
+  if (width <= 0 || items.length < 20) return null;
+
+  const coverage = new Array<number>(GUTTER_BINS).fill(0);
+  items.forEach(({ x, width: itemWidth }) => {
+    const from = Math.max(0, Math.floor(((x - left) / width) * GUTTER_BINS));
+    const to = Math.min(
+      GUTTER_BINS - 1,
+      Math.ceil(((x + itemWidth - left) / width) * GUTTER_BINS) - 1,
+    );
+    for (let bin = from; bin <= to; bin++) coverage[bin]++;
+  });
+
+  const average = (from: number, to: number) =>
+    coverage.slice(from, to).reduce((acc, value) => acc + value, 0) / (to - from);
+  const leftDensity = average(10, 35);
+  const rightDensity = average(65, 90);
+  if (leftDensity < 5 || rightDensity < 5) return null;
+  const threshold = Math.min(leftDensity, rightDensity) * 0.15;
+
+  let best: { center: number; distance: number } | null = null;
+  let runStart: number | null = null;
+  for (let bin = 35; bin <= 65; bin++) {
+    const empty = bin < 65 && coverage[bin] <= threshold;
+    if (empty && runStart == null) runStart = bin;
+    if (!empty && runStart != null) {
+      const center = (runStart + bin) / 2;
+      const distance = Math.abs(center - GUTTER_BINS / 2);
+      if (!best || distance < best.distance) best = { center, distance };
+      runStart = null;
+    }
+  }
+  return best ? left + (best.center / GUTTER_BINS) * width : null;
+}
+
+function buildLine(items: PositionedItem[], edge: boolean): LayoutLine {
+  let text = "";
+  const ranges: PageTextItemRange[] = [];
+  let previous: PositionedItem | null = null;
+
+  items.forEach((current) => {
+    const str = current.item.str;
+    if (previous) {
+      const gap = current.x - (previous.x + previous.width);
+      if (gap > current.height * 0.15 && !text.endsWith(" ") && !str.startsWith(" ")) {
+        text += " ";
+      }
+    }
+    ranges.push({ item: current.item, start: text.length, end: text.length + str.length });
+    text += str;
+    previous = current;
+  });
+
+  return { text, ranges, edge };
+}
+
+interface TableCell {
+  x0: number;
+  x1: number;
+  items: PositionedItem[];
+}
+
+interface TableRegion {
+  /** 表题所在行，没有表题时与 start 相同 */
+  captionStart: number;
+  start: number;
+  end: number;
+}
+
+function splitRowCells(row: PositionedItem[]): TableCell[] {
+  const cells: TableCell[] = [];
+  row.forEach((item) => {
+    const last = cells[cells.length - 1];
+    if (last && item.x - last.x1 <= item.height * CELL_GAP_EM) {
+      last.items.push(item);
+      last.x1 = Math.max(last.x1, item.x + item.width);
+    } else {
+      cells.push({ x0: item.x, x1: item.x + item.width, items: [item] });
+    }
+  });
+  return cells;
+}
+
+/** 每个单元格最多跨一列；双栏正文中的整行文字会跨过多列，借此与表格区分。 */
+function fitsColumns(cells: TableCell[], columns: TableCell[]) {
+  return cells.every(
+    (cell) =>
+      columns.filter((column) => cell.x0 < column.x1 && cell.x1 > column.x0).length <= 1,
+  );
+}
+
+/**
+ * 连续多行都被大间距分成多个单元格、且与首行的列位置对齐时视为表格。
+ * 只有一个单元格、且不在首列的行按单元格内换行处理。
+ */
+function findTableRegions(rows: PositionedItem[][], cellRows: TableCell[][]) {
+  const regions: TableRegion[] = [];
+  let index = 0;
+
+  while (index < rows.length) {
+    if (cellRows[index].length < 3) {
+      index++;
+      continue;
+    }
+    const columns = cellRows[index];
+    let end = index + 1;
+    while (end < rows.length) {
+      const gap = rows[end - 1][0].y - rows[end][0].y;
+      if (gap > rows[end][0].height * 3 || !fitsColumns(cellRows[end], columns)) break;
+      const cellCount = cellRows[end].length;
+      if (cellCount >= 2) {
+        end++;
+        continue;
+      }
+      const continuesCell =
+        cellCount === 1 &&
+        cellRows[end][0].x0 > columns[0].x0 + rows[end][0].height &&
+        (cellRows[end + 1]?.length ?? 0) >= 2;
+      if (!continuesCell) break;
+      end++;
+    }
+
+    const wideRows = cellRows.slice(index, end).filter((cells) => cells.length >= 3);
+    if (end - index >= 3 && wideRows.length >= 2) {
+      let captionStart = index;
+      for (let above = index - 1; above >= Math.max(0, index - 3); above--) {
+        if (TABLE_CAPTION.test(buildLine(rows[above], false).text)) {
+          captionStart = above;
+          break;
+        }
+      }
+      const previous = regions[regions.length - 1];
+      regions.push({ captionStart: Math.max(captionStart, previous?.end ?? 0), start: index, end });
+      index = end;
+    } else {
+      index++;
+    }
+  }
+
+  return regions;
+}
+
+interface GridCell {
+  text: string;
+  ranges: PageTextItemRange[];
+}
+
+function appendToCell(cell: GridCell, items: PositionedItem[]) {
+  const part = buildLine(items, false);
+  const separator = cell.text ? " " : "";
+  const base = cell.text.length + separator.length;
+  cell.text += separator + escapeTableCell(part.text);
+  part.ranges.forEach((range) =>
+    cell.ranges.push({ ...range, start: base + range.start, end: base + range.end }),
+  );
+}
+
+/**
+ * 以单元格数量最常见的行确定列边界，其余行（跨列表头、空单元格）按重叠程度归入各列，
+ * 首列为空且大部分单元格为空的行并入上一行。
+ */
+function buildTableGrid(cellRows: TableCell[][]): GridCell[][] {
+  const frequency = new Map<number, number>();
+  cellRows.forEach((cells) => {
+    if (cells.length >= 2) frequency.set(cells.length, (frequency.get(cells.length) ?? 0) + 1);
+  });
+  const columnCount = Array.from(frequency.entries()).sort(
+    (a, b) => b[1] - a[1] || b[0] - a[0],
+  )[0][0];
+
+  const columns = Array.from({ length: columnCount }, (_, column) => {
+    const cells = cellRows
+      .filter((row) => row.length === columnCount)
+      .map((row) => row[column]);
+    return {
+      x0: Math.min(...cells.map((cell) => cell.x0)),
+      x1: Math.max(...cells.map((cell) => cell.x1)),
+    };
+  });
+
+  const columnOf = (cell: TableCell) => {
+    let best = 0;
+    let bestScore = -Infinity;
+    columns.forEach((column, index) => {
+      const overlap = Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0);
+      const distance = Math.abs((cell.x0 + cell.x1) / 2 - (column.x0 + column.x1) / 2);
+      const score = overlap > 0 ? overlap : -distance;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    return best;
+  };
+
+  const grid: GridCell[][] = [];
+  cellRows.forEach((cells) => {
+    const row: GridCell[] = columns.map(() => ({ text: "", ranges: [] }));
+    cells.forEach((cell) => appendToCell(row[columnOf(cell)], cell.items));
+
+    const filled = row.filter((cell) => cell.text).length;
+    const previous = grid[grid.length - 1];
+    if (previous && !row[0].text && filled <= columnCount / 2) {
+      row.forEach((cell, column) => {
+        const target = previous[column];
+        const separator = target.text && cell.text ? " " : "";
+        const base = target.text.length + separator.length;
+        target.text += separator + cell.text;
+        cell.ranges.forEach((range) =>
+          target.ranges.push({ ...range, start: base + range.start, end: base + range.end }),
+        );
+      });
+      return;
+    }
+    grid.push(row);
+  });
+
+  return grid;
+}
+
+/** 表格整体输出为一行带换行的 Markdown 文本，格式见 lib/tables。 */
+function buildTableLine(
+  rows: PositionedItem[][],
+  cellRows: TableCell[][],
+  region: TableRegion,
+  id: string,
+): LayoutLine {
+  const captionLines = rows
+    .slice(region.captionStart, region.start)
+    .map((row) => buildLine(row, false));
+  const grid = buildTableGrid(cellRows.slice(region.start, region.end));
+
+  let text = tableStartMarker(id);
+  const ranges: PageTextItemRange[] = [];
+  const append = (value: string, valueRanges: PageTextItemRange[] = []) => {
+    const base = text.length;
+    valueRanges.forEach((range) =>
+      ranges.push({ ...range, start: base + range.start, end: base + range.end }),
+    );
+    text += value;
+  };
+
+  captionLines.forEach((line) => {
+    append(" ");
+    append(line.text, line.ranges);
+  });
+  grid.forEach((row, rowIndex) => {
+    append("\n|");
+    row.forEach((cell) => {
+      append(" ");
+      append(cell.text, cell.ranges);
+      append(" |");
+    });
+    if (rowIndex === 0) append(`\n${tableSeparatorRow(row.length)}`);
+  });
+  append(`\n${tableEndMarker(id)}`);
+
+  return { text, ranges, edge: false };
+}
+
+/**
+ * 按坐标恢复阅读顺序：先按行归并并识别表格，检测到双栏时左栏读完再读右栏，
+ * 跨栏的行（标题、通栏图表说明、通栏表格）会先结束当前两栏再单独输出。
+ */
+function layoutPageLines(
+  items: (TextItem | TextMarkedContent)[],
+  box: PageBox,
+  nextTableId: () => string,
+): LayoutLine[] {
+  const rows = groupRows(toPositioned(items));
+  const cellRows = rows.map(splitRowCells);
+  const regions = findTableRegions(rows, cellRows);
+  const isEdge = (index: number) => index < EDGE_ROWS || index >= rows.length - EDGE_ROWS;
+
+  const blocks: { line: LayoutLine; items: PositionedItem[]; table: boolean }[] = [];
+  for (let index = 0; index < rows.length; index++) {
+    const region = regions.find((candidate) => candidate.captionStart === index);
+    if (region) {
+      blocks.push({
+        line: buildTableLine(rows, cellRows, region, nextTableId()),
+        items: rows.slice(region.captionStart, region.end).flat(),
+        table: true,
+      });
+      index = region.end - 1;
+    } else {
+      blocks.push({
+        line: buildLine(rows[index], isEdge(index)),
+        items: rows[index],
+        table: false,
+      });
+    }
+  }
+
+  const tableItems = new Set(
+    regions.flatMap((region) => rows.slice(region.captionStart, region.end).flat()),
+  );
+  const gutter = findColumnGutter(
+    rows.flat().filter((item) => !tableItems.has(item)),
+    box,
+  );
+  if (gutter == null) {
+    return blocks.map((block) => block.line);
+  }
+
+  const lines: LayoutLine[] = [];
+  let leftColumn: LayoutLine[] = [];
+  let rightColumn: LayoutLine[] = [];
+  const flush = () => {
+    lines.push(...leftColumn, ...rightColumn);
+    leftColumn = [];
+    rightColumn = [];
+  };
+
+  blocks.forEach(({ line, items: blockItems, table }) => {
+    const spansGutter = blockItems.some(({ x, width }) => x < gutter && x + width > gutter);
+    if (spansGutter) {
+      flush();
+      lines.push(line);
+      return;
+    }
+    const leftItems = blockItems.filter(({ x, width }) => x + width / 2 < gutter);
+    const rightItems = blockItems.filter(({ x, width }) => x + width / 2 >= gutter);
+    if (table || !leftItems.length || !rightItems.length) {
+      (rightItems.length ? rightColumn : leftColumn).push(line);
+      return;
+    }
+    leftColumn.push(buildLine(leftItems, line.edge));
+    rightColumn.push(buildLine(rightItems, line.edge));
+  });
+  flush();
+
+  return lines;
+}
+
+/**
+ * 拼接一页的各行并处理跨行断词：
+ * "resis-" + "tance" 合并为 "resistance"（含软连字符），"blaCTX-" + "M-15" 保留连字符直接相连。
+ */
+function joinLayoutLines(lines: LayoutLine[]) {
+  let text = "";
+  const ranges: PageTextItemRange[] = [];
+
+  lines.forEach((line, index) => {
+    if (index > 0) {
+      if (/[A-Za-z][-\u00ad]$/.test(text) && /^[a-z]/.test(line.text)) {
+        text = text.slice(0, -1);
+        ranges.forEach((range) => {
+          range.end = Math.min(range.end, text.length);
+        });
+      } else if (!/[A-Za-z0-9]-$/.test(text) || !/^[A-Z0-9]/.test(line.text)) {
+        text += "\n";
+      }
+    }
+    const base = text.length;
+    line.ranges.forEach((range) =>
+      ranges.push({ ...range, start: base + range.start, end: base + range.end }),
+    );
+    text += line.text;
+  });
+
+  return { text, ranges };
+}
+
+/**
+ * 与 extractTextFromPdfDocument 相同的版面还原方式（不含跨页的页眉页脚清理），
+ * 同时记录每个文本项在页面文本中的位置，便于查看器把原文片段映射回 PDF 坐标。
+ */
+export function layoutPageText(items: (TextItem | TextMarkedContent)[], box: PageBox) {
+  let tableCount = 0;
+  return joinLayoutLines(layoutPageLines(items, box, () => `T${++tableCount}`));
+}
+
+function normalizeEdgeLine(text: string) {
+  return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+/** 在多数页面的顶部或底部重复出现的行（期刊名、作者、页码）视为页眉页脚。 */
+function removeRepeatedEdgeLines(pages: LayoutLine[][]) {
+  if (pages.length < 3) return pages;
+
+  const counts = new Map<string, number>();
+  pages.forEach((lines) => {
+    const seen = new Set(
+      lines.filter((line) => line.edge).map((line) => normalizeEdgeLine(line.text)),
+    );
+    seen.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+  });
+
+  const threshold = Math.max(3, Math.ceil(pages.length * 0.3));
+  return pages.map((lines) =>
+    lines.filter(
+      (line) => !line.edge || (counts.get(normalizeEdgeLine(line.text)) ?? 0) < threshold,
+    ),
+  );
+}
+
+/**
+ * 找到最后一个“References / 参考文献”标题并删除其后的内容。
+ * 标题需出现在全文 30% 之后，避免误删引言中的同名小节。
+ */
+function stripReferenceSection(pages: LayoutLine[][]) {
+  const totalLines = pages.reduce((acc, lines) => acc + lines.length, 0);
+  let seenLines = totalLines;
+
+  for (let pageIndex = pages.length - 1; pageIndex >= 0; pageIndex--) {
+    const lines = pages[pageIndex];
+    seenLines -= lines.length;
+    for (let lineIndex = lines.length - 1; lineIndex >= 0; lineIndex--) {
+      if (!REFERENCES_HEADING.test(lines[lineIndex].text)) continue;
+      if (seenLines + lineIndex < totalLines * 0.3) return pages;
+      return [...pages.slice(0, pageIndex), lines.slice(0, lineIndex)];
+    }
+  }
+  return pages;
+}
+
+/**
+ * 浏览器（pdfjs-dist 默认构建）与服务端（legacy 构建）加载的文档类型不同，
+ * 这里只声明版面还原需要的部分。
+ */
+export interface PdfDocumentSource {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<{
+    view: number[];
+    getTextContent: () => Promise<{ items: (TextItem | TextMarkedContent)[] }>;
+  }>;
+}
+
+export interface ExtractTextOptions {
+  signal?: AbortSignal;
+  /** 删除参考文献部分，减少发送给模型的无关内容 */
+  stripReferences?: boolean;
+}
+
+export interface PdfContent {
+  text: string;
+  /** XMP 与文档信息字典中的题录，靠前的更可信，供 mergeBibliography 合并 */
+  metadata: Partial<BibliographicMetadata>[];
+}
+
+export async function extractTextFromPdfDocument(
+  pdf: PdfDocumentSource,
+  { signal, stripReferences = false }: ExtractTextOptions = {},
+): Promise<string> {
+  let pages: LayoutLine[][] = [];
+  let tableCount = 0;
+  const nextTableId = () => `T${++tableCount}`;
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    signal?.throwIfAborted();
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(layoutPageLines(content.items, page.view, nextTableId));
+  }
+
+  pages = removeRepeatedEdgeLines(pages);
+  if (stripReferences) {
+    pages = stripReferenceSection(pages);
+  }
+
+  return pages
+    .map((lines, index) => `[Page ${index + 1}]\n${joinLayoutLines(lines).text}`)
+    .join("\n\n")
+    .trim();
+}
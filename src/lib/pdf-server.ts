@@ -0,0 +1,34 @@
+import path from "node:path";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { readPdfMetadata } from "@/lib/bibliography";
+import { extractTextFromPdfDocument } from "@/lib/pdf-layout";
+import type { ExtractTextOptions, PdfContent } from "@/lib/pdf-layout";
+
+/** Node 中没有浏览器字体，标准字体数据从 pdfjs-dist 包内读取 */
+const STANDARD_FONT_DATA_URL = `${path.join(
+  process.cwd(),
+  "node_modules/pdfjs-dist/standard_fonts",
+)}/`;
+
+/**
+ * 服务端解析 PDF：使用 pdfjs-dist 的 legacy 构建（适配 Node），
+ * 版面还原逻辑与浏览器端共用。
+ */
+export async function extractPdfContentFromBuffer(
+  data: Uint8Array,
+  options: ExtractTextOptions = {},
+): Promise<PdfContent> {
+  options.signal?.throwIfAborted();
+  const pdf = await getDocument({
+    data,
+    isEvalSupported: false,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+  }).promise;
+  try {
+    const metadata = await readPdfMetadata(pdf);
+    const text = await extractTextFromPdfDocument(pdf, options);
+    return { text, metadata };
+  } finally {
+    await pdf.destroy();
+  }
+}
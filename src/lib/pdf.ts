@@ -1,23 +1,40 @@
 import { getDocument, GlobalWorkerOptions } from "pdfjs-dist";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { readPdfMetadata } from "@/lib/bibliography";
+import { extractTextFromPdfDocument } from "@/lib/pdf-layout";
+import type { ExtractTextOptions, PdfContent } from "@/lib/pdf-layout";
 
-GlobalWorkerOptions.workerSrc =
-  GlobalWorkerOptions.workerSrc ??
-  "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.worker.min.js";
+/**
+ * worker 由 webpack 随应用一起打包（不再从 CDN 加载），离线网络中也能解析。
+ * 只在浏览器中创建，服务端预渲染时跳过。
+ */
+function ensurePdfWorker() {
+  if (GlobalWorkerOptions.workerPort || typeof Worker === "undefined") return;
+  GlobalWorkerOptions.workerPort = new Worker(
+    new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url),
+    { type: "module" },
+  );
+}
 
-export async function extractTextFromPdf(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer();
-  const loadingTask = getDocument({ data: buffer });
-  const pdf = await loadingTask.promise;
-  let textContent = "";
+export async function loadPdfDocument(
+  source: Blob | ArrayBuffer,
+): Promise<PDFDocumentProxy> {
+  ensurePdfWorker();
+  const buffer = source instanceof Blob ? await source.arrayBuffer() : source;
+  return getDocument({ data: buffer }).promise;
+}
 
-  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
-    const page = await pdf.getPage(pageNumber);
-    const content = await page.getTextContent();
-    const strings = content.items
-      .map((item) => ("str" in item ? (item.str as string) : ""))
-      .filter(Boolean);
-    textContent += `\n\n[Page ${pageNumber}]\n${strings.join(" ")}`;
+export async function extractPdfContent(
+  file: File,
+  options: ExtractTextOptions = {},
+): Promise<PdfContent> {
+  options.signal?.throwIfAborted();
+  const pdf = await loadPdfDocument(file);
+  try {
+    const metadata = await readPdfMetadata(pdf);
+    const text = await extractTextFromPdfDocument(pdf, options);
+    return { text, metadata };
+  } finally {
+    await pdf.destroy();
   }
-
-  return textContent.trim();
 }
@@ -0,0 +1,191 @@
+import type {
+  EntityProvenance,
+  MicrobialEntity,
+} from "@/types/extraction";
+
+const PAGE_MARKER = /\[Page (\d+)\]/g;
+const FUZZY_WINDOW_WORDS = 6;
+const FUZZY_MIN_COVERAGE = 0.5;
+
+const CHARACTER_FOLDS: Record<string, string> = {
+  "ﬁ": "fi",
+  "ﬂ": "fl",
+  "ﬀ": "ff",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  "−": "-",
+  "µ": "μ",
+};
+
+interface NormalizedText {
+  text: string;
+  /** normalized 下标 -> 原文下标 */
+  offsets: number[];
+}
+
+function normalizeWithOffsets(raw: string, skipPageMarkers: boolean): NormalizedText {
+  const skipRanges: [number, number][] = skipPageMarkers
+    ? Array.from(raw.matchAll(PAGE_MARKER)).map((match) => [
+        match.index ?? 0,
+        (match.index ?? 0) + match[0].length,
+      ])
+    : [];
+
+  let text = "";
+  const offsets: number[] = [];
+  let pendingSpace = false;
+  let rangeIndex = 0;
+
+  for (let index = 0; index < raw.length; index++) {
+    const range = skipRanges[rangeIndex];
+    if (range && index >= range[0]) {
+      if (index < range[1]) {
+        pendingSpace = text.length > 0;
+        continue;
+      }
+      rangeIndex++;
+    }
+
+    const char = raw[index];
+    // 表格单元格之间的竖线按空白处理，使表格行也能与上下文片段匹配
+    if (/\s/.test(char) || char === "|") {
+      pendingSpace = text.length > 0;
+      continue;
+    }
+
+    // 跨行断词："resis-\ntance" 视为 "resistance"
+    if (char === "-" && /\s*\n/.test(raw.slice(index + 1, index + 3))) {
+      let next = index + 1;
+      while (next < raw.length && /\s/.test(raw[next])) next++;
+      if (/[a-z]/.test(raw[next] ?? "")) {
+        index = next - 1;
+        pendingSpace = false;
+        continue;
+      }
+    }
+
+    if (pendingSpace) {
+      text += " ";
+      offsets.push(index);
+      pendingSpace = false;
+    }
+
+    const folded = (CHARACTER_FOLDS[char] ?? char).toLowerCase();
+    for (const piece of folded) {
+      text += piece;
+      offsets.push(index);
+    }
+  }
+
+  return { text, offsets };
+}
+
+export function pageAtOffset(rawText: string, offset: number) {
+  let page: number | null = null;
+  for (const match of Array.from(rawText.matchAll(PAGE_MARKER))) {
+    if ((match.index ?? 0) > offset) break;
+    page = Number(match[1]);
+  }
+  return page;
+}
+
+function toRawRange(
+  normalized: NormalizedText,
+  start: number,
+  length: number,
+): [number, number] {
+  const rawStart = normalized.offsets[start];
+  const rawEnd = normalized.offsets[start + length - 1] + 1;
+  return [rawStart, rawEnd];
+}
+
+function locateFuzzy(normalized: NormalizedText, needle: string) {
+  const words = needle.split(" ").filter(Boolean);
+  if (words.length < FUZZY_WINDOW_WORDS) return null;
+
+  const windows: string[] = [];
+  for (let index = 0; index + FUZZY_WINDOW_WORDS <= words.length; index += 3) {
+    windows.push(words.slice(index, index + FUZZY_WINDOW_WORDS).join(" "));
+  }
+
+  const hits = windows
+    .map((window) => {
+      const position = normalized.text.indexOf(window);
+      return position >= 0 ? { position, length: window.length } : null;
+    })
+    .filter((hit): hit is { position: number; length: number } => hit != null);
+
+  if (hits.length / windows.length < FUZZY_MIN_COVERAGE) return null;
+
+  const first = hits.reduce((a, b) => (a.position <= b.position ? a : b));
+  const last = hits.reduce((a, b) =>
+    a.position + a.length >= b.position + b.length ? a : b,
+  );
+  // 命中的窗口相距过远说明是零散的常用短语，不视为同一片段
+  if (last.position + last.length - first.position > needle.length * 2) {
+    return null;
+  }
+  return { start: first.position, length: last.position + last.length - first.position };
+}
+
+export function locateSnippet(
+  rawText: string,
+  snippet: string,
+  normalizedText = normalizeWithOffsets(rawText, true),
+): EntityProvenance {
+  const needle = normalizeWithOffsets(snippet, true).text;
+  if (!needle) {
+    return { status: "no_context", page: null, start: null, end: null };
+  }
+
+  const exact = normalizedText.text.indexOf(needle);
+  if (exact >= 0) {
+    const [start, end] = toRawRange(normalizedText, exact, needle.length);
+    return { status: "verified", page: pageAtOffset(rawText, start), start, end };
+  }
+
+  const fuzzy = locateFuzzy(normalizedText, needle);
+  if (fuzzy) {
+    const [start, end] = toRawRange(normalizedText, fuzzy.start, fuzzy.length);
+    return { status: "approximate", page: pageAtOffset(rawText, start), start, end };
+  }
+
+  return { status: "unverified", page: null, start: null, end: null };
+}
+
+function locateEntityName(
+  rawText: string,
+  entity: MicrobialEntity,
+  normalizedText: NormalizedText,
+): EntityProvenance {
+  const name = [entity.genus, entity.species].filter(Boolean).join(" ");
+  const needle = normalizeWithOffsets(name, false).text;
+  const position = needle ? normalizedText.text.indexOf(needle) : -1;
+  if (position < 0) {
+    return { status: "no_context", page: null, start: null, end: null };
+  }
+  const [start, end] = toRawRange(normalizedText, position, needle.length);
+  return { status: "no_context", page: pageAtOffset(rawText, start), start, end };
+}
+
+/**
+ * 在原文中定位每个实体的上下文片段，记录页码与字符偏移；
+ * 找不到的片段标记为 unverified（可能是模型编造的内容）。
+ */
+export function attachProvenance(
+  entities: MicrobialEntity[],
+  rawText: string,
+): MicrobialEntity[] {
+  const normalizedText = normalizeWithOffsets(rawText, true);
+
+  return entities.map((entity) => ({
+    ...entity,
+    provenance: entity.context
+      ? locateSnippet(rawText, entity.context, normalizedText)
+      : locateEntityName(rawText, entity, normalizedText),
+  }));
+}
@@ -0,0 +1,295 @@
+import type {
+  ProviderKind,
+  ProviderProfile,
+  StoredSettings,
+  TokenUsage,
+} from "@/types/extraction";
+
+export interface JsonCompletionRequest {
+  system: string;
+  prompt: string;
+}
+
+export interface JsonCompletionResult {
+  content: string | undefined;
+  usage: TokenUsage | null;
+}
+
+interface ProviderAdapter {
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  keyPlaceholder: string;
+  buildRequest: (
+    profile: ProviderProfile,
+    request: JsonCompletionRequest,
+  ) => { url: string; init: RequestInit };
+  readContent: (json: unknown) => string | undefined;
+  readUsage: (json: unknown) => TokenUsage | null;
+}
+
+function trimBaseUrl(profile: ProviderProfile, fallback: string) {
+  return (profile.baseUrl?.trim() || fallback).replace(/\/+$/, "");
+}
+
+function readChatCompletionContent(json: unknown) {
+  const content = (json as { choices?: { message?: { content?: unknown } }[] })
+    ?.choices?.[0]?.message?.content;
+  return typeof content === "string" ? content : undefined;
+}
+
+function toTokenUsage(prompt: unknown, completion: unknown): TokenUsage | null {
+  if (typeof prompt !== "number" && typeof completion !== "number") return null;
+  return {
+    promptTokens: typeof prompt === "number" ? prompt : 0,
+    completionTokens: typeof completion === "number" ? completion : 0,
+  };
+}
+
+function readChatCompletionUsage(json: unknown) {
+  const usage = (json as { usage?: { prompt_tokens?: unknown; completion_tokens?: unknown } })
+    ?.usage;
+  return toTokenUsage(usage?.prompt_tokens, usage?.completion_tokens);
+}
+
+function buildChatCompletionBody(
+  profile: ProviderProfile,
+  request: JsonCompletionRequest,
+  defaultModel: string,
+) {
+  return JSON.stringify({
+    model: profile.model?.trim() || defaultModel,
+    messages: [
+      { role: "system", content: request.system },
+      { role: "user", content: request.prompt },
+    ],
+    response_format: { type: "json_object" },
+  });
+}
+
+const adapters: Record<ProviderKind, ProviderAdapter> = {
+  openrouter: {
+    label: "OpenRouter",
+    defaultBaseUrl: "https://openrouter.ai/api/v1",
+    defaultModel: "deepseek/deepseek-chat",
+    requiresApiKey: true,
+    keyPlaceholder: "sk-or-...",
+    buildRequest(profile, request) {
+      return {
+        url: `${trimBaseUrl(profile, this.defaultBaseUrl)}/chat/completions`,
+        init: {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${profile.apiKey ?? ""}`,
+            "HTTP-Referer": "https://micr-ai.local",
+            "X-Title": "micr-AI 文献摘取",
+          },
+          body: buildChatCompletionBody(profile, request, this.defaultModel),
+        },
+      };
+    },
+    readContent: readChatCompletionContent,
+    readUsage: readChatCompletionUsage,
+  },
+  "openai-compatible": {
+    label: "OpenAI 兼容接口（vLLM / Ollama 等）",
+    defaultBaseUrl: "http://localhost:11434/v1",
+    defaultModel: "qwen2.5:14b",
+    requiresApiKey: false,
+    keyPlaceholder: "可留空",
+    buildRequest(profile, request) {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (profile.apiKey) {
+        headers.Authorization = `Bearer ${profile.apiKey}`;
+      }
+      return {
+        url: `${trimBaseUrl(profile, this.defaultBaseUrl)}/chat/completions`,
+        init: {
+          method: "POST",
+          headers,
+          body: buildChatCompletionBody(profile, request, this.defaultModel),
+        },
+      };
+    },
+    readContent: readChatCompletionContent,
+    readUsage: readChatCompletionUsage,
+  },
+  anthropic: {
+    label: "Anthropic Messages API",
+    defaultBaseUrl: "https://api.anthropic.com",
+    defaultModel: "claude-3-5-sonnet-latest",
+    requiresApiKey: true,
+    keyPlaceholder: "sk-ant-...",
+    buildRequest(profile, request) {
+      return {
+        url: `${trimBaseUrl(profile, this.defaultBaseUrl)}/v1/messages`,
+        init: {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": profile.apiKey ?? "",
+            "anthropic-version": "2023-06-01",
+            "anthropic-dangerous-direct-browser-access": "true",
+          },
+          // Messages API 没有 JSON 模式，这里预填 "{" 让模型直接续写 JSON 对象
+          body: JSON.stringify({
+            model: profile.model?.trim() || this.defaultModel,
+            max_tokens: 8192,
+            system: request.system,
+            messages: [
+              { role: "user", content: request.prompt },
+              { role: "assistant", content: "{" },
+            ],
+          }),
+        },
+      };
+    },
+    readContent(json) {
+      const blocks = (json as { content?: { type?: string; text?: unknown }[] })
+        ?.content;
+      const text = blocks
+        ?.filter((block) => block?.type === "text" && typeof block.text === "string")
+        .map((block) => block.text as string)
+        .join("");
+      return text != null ? `{${text}` : undefined;
+    },
+    readUsage(json) {
+      const usage = (json as { usage?: { input_tokens?: unknown; output_tokens?: unknown } })
+        ?.usage;
+      return toTokenUsage(usage?.input_tokens, usage?.output_tokens);
+    },
+  },
+};
+
+export const PROVIDER_KINDS = Object.keys(adapters) as ProviderKind[];
+
+export function getProviderLabel(kind: ProviderKind) {
+  return adapters[kind].label;
+}
+
+export function getProviderDefaults(kind: ProviderKind) {
+  const { defaultBaseUrl, defaultModel, requiresApiKey, keyPlaceholder } =
+    adapters[kind];
+  return { defaultBaseUrl, defaultModel, requiresApiKey, keyPlaceholder };
+}
+
+export function resolveProviderModel(profile: ProviderProfile) {
+  return profile.model?.trim() || adapters[profile.kind].defaultModel;
+}
+
+/** 留空时使用默认地址，并去掉末尾的斜杠 */
+export function resolveProviderBaseUrl(profile: ProviderProfile) {
+  return trimBaseUrl(profile, adapters[profile.kind].defaultBaseUrl);
+}
+
+export function providerNeedsApiKey(profile: ProviderProfile) {
+  return adapters[profile.kind].requiresApiKey && !profile.apiKey;
+}
+
+export function createProviderProfile(
+  kind: ProviderKind,
+  overrides: Partial<Omit<ProviderProfile, "kind">> = {},
+): ProviderProfile {
+  return {
+    id: crypto.randomUUID(),
+    name: adapters[kind].label,
+    kind,
+    baseUrl: "",
+    apiKey: "",
+    model: "",
+    ...overrides,
+  };
+}
+
+export function getActiveProvider(settings: StoredSettings) {
+  const providers = settings.providers ?? [];
+  return (
+    providers.find((provider) => provider.id === settings.activeProviderId) ??
+    providers[0] ??
+    null
+  );
+}
+
+/**
+ * 旧版本只保存一个 OpenRouter Key 和模型，这里把它们迁移为命名配置。
+ */
+export function migrateProviderSettings(settings: StoredSettings): StoredSettings {
+  if (settings.providers?.length) {
+    return settings;
+  }
+
+  const { apiKey, preferredModel, ...rest } = settings;
+  const profile = createProviderProfile("openrouter", {
+    name: "OpenRouter (DeepSeek)",
+    apiKey: apiKey ?? "",
+    model: preferredModel ?? "",
+  });
+
+  return { ...rest, providers: [profile], activeProviderId: profile.id };
+}
+
+/** 模型服务返回非 2xx 时抛出，携带状态码与 Retry-After，供重试逻辑判断。 */
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    /** 0 表示没有收到响应（网络中断、DNS 或 CORS 失败） */
+    readonly status: number,
+    readonly retryAfterMs: number | null,
+  ) {
+    super(message);
+    this.name = "ProviderRequestError";
+  }
+
+  get retryable() {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
+
+/** Retry-After 可能是秒数，也可能是 HTTP 日期。 */
+export function parseRetryAfter(value: string | null, now = Date.now()) {
+  if (!value) return null;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export async function requestJsonCompletion(
+  profile: ProviderProfile,
+  request: JsonCompletionRequest,
+  options: { signal?: AbortSignal } = {},
+): Promise<JsonCompletionResult> {
+  const adapter = adapters[profile.kind];
+  if (!adapter) {
+    throw new Error(`不支持的模型服务类型：${profile.kind}`);
+  }
+
+  const { url, init } = adapter.buildRequest(profile, request);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: options.signal });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw new ProviderRequestError(
+      `无法连接 ${profile.name}：${error instanceof Error ? error.message : String(error)}`,
+      0,
+      null,
+    );
+  }
+
+  if (!response.ok) {
+    const message = await response.text();
+    throw new ProviderRequestError(
+      `调用 ${profile.name} 失败：${response.status} ${message}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after")),
+    );
+  }
+
+  const json = await response.json();
+  return { content: adapter.readContent(json), usage: adapter.readUsage(json) };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeResistanceEntry,
+  parseMic,
+  parseResistanceText,
+  parseSusceptibilityCall,
+} from "@/lib/resistance";
+
+describe("parseSusceptibilityCall", () => {
+  it("reads wording and parenthesized calls", () => {
+    expect(parseSusceptibilityCall("resistant to ampicillin")).toBe("R");
+    expect(parseSusceptibilityCall("non-susceptible to meropenem")).toBe("R");
+    expect(parseSusceptibilityCall("susceptible to colistin")).toBe("S");
+    expect(parseSusceptibilityCall("intermediate to cefepime")).toBe("I");
+    expect(parseSusceptibilityCall("ampicillin (R)")).toBe("R");
+    expect(parseSusceptibilityCall("colistin (S)")).toBe("S");
+  });
+
+  it("reads a trailing single-letter call from susceptibility tables", () => {
+    expect(parseSusceptibilityCall("AMP: R")).toBe("R");
+    expect(parseSusceptibilityCall("ciprofloxacin = S")).toBe("S");
+    expect(parseSusceptibilityCall("GEN: I")).toBe("I");
+  });
+
+  it("ignores standalone r or s that are not calls", () => {
+    expect(parseSusceptibilityCall("r) ampicillin MIC 32 mg/L")).toBeNull();
+    expect(parseSusceptibilityCall("s ampicillin MIC 32 mg/L")).toBeNull();
+    expect(parseSusceptibilityCall("ampicillin, reported by R. Smith")).toBeNull();
+    expect(parseSusceptibilityCall("the isolate' s ampicillin MIC")).toBeNull();
+    expect(parseSusceptibilityCall("S. aureus ampicillin MIC")).toBeNull();
+  });
+});
+
+describe("parseResistanceText", () => {
+  it("splits genes and mutations into separate entries", () => {
+    const entries = parseResistanceText("blaCTX-M-15 and gyrA S83L");
+
+    expect(entries.map((entry) => [entry.kind, entry.determinant])).toEqual([
+      ["mutation", "gyrA S83L"],
+      ["gene", "blaCTX-M-15"],
+    ]);
+  });
+
+  it("keeps the call and MIC on phenotype entries", () => {
+    const [entry] = parseResistanceText("ciprofloxacin resistant, MIC >=4 mg/L");
+
+    expect(entry).toMatchObject({
+      kind: "phenotype",
+      antibiotic: "ciprofloxacin",
+      call: "R",
+      mic: { value: 4, unit: "mg/L", qualifier: ">=" },
+    });
+  });
+});
+
+describe("normalizeResistanceEntry", () => {
+  it("uses an explicit call over the description text", () => {
+    const entry = normalizeResistanceEntry({
+      kind: "phenotype",
+      antibiotic: "Ciprofloxacin",
+      call: "s",
+      text: "ciprofloxacin MIC 0.25 mg/L",
+    });
+
+    expect(entry).toMatchObject({ antibiotic: "ciprofloxacin", call: "S" });
+    expect(parseMic("0.25 µg/ml")).toEqual({ value: 0.25, unit: "µg/mL", qualifier: null });
+  });
+});
@@ -0,0 +1,333 @@
+import {
+  ANTIBIOTICS,
+  DRUG_CLASS_ALIASES,
+  RESISTANCE_GENE_FAMILIES,
+  RESISTANCE_MUTATION_GENES,
+  type AntibioticEntry,
+} from "@/lib/dictionaries";
+import type {
+  MicMeasurement,
+  MicrobialEntity,
+  ResistanceEntry,
+  ResistanceKind,
+  SusceptibilityCall,
+} from "@/types/extraction";
+
+export const RESISTANCE_KIND_LABELS: Record<ResistanceKind, string> = {
+  gene: "耐药基因",
+  mutation: "耐药突变",
+  phenotype: "耐药表型",
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildTermPattern(terms: string[]) {
+  const sorted = [...terms].sort((a, b) => b.length - a.length);
+  return new RegExp(
+    `(?<![A-Za-z])(?:${sorted.map(escapeRegExp).join("|")})(?![A-Za-z])`,
+    "gi",
+  );
+}
+
+const ANTIBIOTIC_LOOKUP = new Map<string, AntibioticEntry>();
+ANTIBIOTICS.forEach((entry) => {
+  [entry.name, ...(entry.aliases ?? [])].forEach((alias) =>
+    ANTIBIOTIC_LOOKUP.set(alias.toLowerCase(), entry),
+  );
+});
+const ANTIBIOTIC_PATTERN = buildTermPattern(Array.from(ANTIBIOTIC_LOOKUP.keys()));
+
+const DRUG_CLASS_LOOKUP = new Map<string, string>();
+Object.entries(DRUG_CLASS_ALIASES).forEach(([drugClass, aliases]) => {
+  [drugClass, ...aliases].forEach((alias) =>
+    DRUG_CLASS_LOOKUP.set(alias.toLowerCase(), drugClass),
+  );
+});
+const DRUG_CLASS_PATTERN = buildTermPattern(Array.from(DRUG_CLASS_LOOKUP.keys()));
+
+const MUTATION_PATTERN = new RegExp(
+  `\\b(${Object.keys(RESISTANCE_MUTATION_GENES)
+    .map(escapeRegExp)
+    .join("|")})\\s*(?:mutations?\\s+)?\\(?([A-Z]\\d{1,4}[A-Z*])\\)?`,
+  "g",
+);
+const GENE_TOKEN = /[A-Za-z][A-Za-z0-9()'.-]*[A-Za-z0-9)]/g;
+
+const MIC_PATTERN =
+  /(<=|>=|≤|≥|<|>|=)?\s*(\d+(?:\.\d+)?)\s*(µg\/ml|μg\/ml|ug\/ml|mg\/l)/i;
+
+const INTERMEDIATE_CUE = /intermediate|中介/i;
+const RESISTANT_CUE = /non-?susceptib|resistan|耐药|耐受|抗性|\(R\)/i;
+const SUSCEPTIBLE_CUE = /susceptib|sensitive|敏感|\(S\)/i;
+/** 药敏表写法“AMP: R”“ciprofloxacin = S”：只认末尾的大写单字母，避免误判列表序号或姓名缩写 */
+const TRAILING_CALL = /[:=]\s*([SIR])\s*$/;
+
+export function findAntibiotic(name: string | null | undefined) {
+  if (!name) return null;
+  const key = name.trim().toLowerCase();
+  const direct = ANTIBIOTIC_LOOKUP.get(key);
+  if (direct) return direct;
+  const match = name.match(ANTIBIOTIC_PATTERN);
+  return match ? ANTIBIOTIC_LOOKUP.get(match[0].toLowerCase()) ?? null : null;
+}
+
+export function findDrugClass(name: string | null | undefined) {
+  if (!name) return null;
+  const match = name.match(DRUG_CLASS_PATTERN);
+  return match ? DRUG_CLASS_LOOKUP.get(match[0].toLowerCase()) ?? null : null;
+}
+
+export function geneDrugClass(determinant: string) {
+  const mutationGene = Object.keys(RESISTANCE_MUTATION_GENES).find((gene) =>
+    determinant.startsWith(gene),
+  );
+  if (mutationGene) return RESISTANCE_MUTATION_GENES[mutationGene];
+  return (
+    RESISTANCE_GENE_FAMILIES.find(({ pattern }) => pattern.test(determinant))
+      ?.drugClass ?? null
+  );
+}
+
+export function parseSusceptibilityCall(text: string): SusceptibilityCall | null {
+  const trailing = text.match(TRAILING_CALL);
+  if (trailing) return trailing[1] as SusceptibilityCall;
+  if (INTERMEDIATE_CUE.test(text)) return "I";
+  if (RESISTANT_CUE.test(text)) return "R";
+  if (SUSCEPTIBLE_CUE.test(text)) return "S";
+  return null;
+}
+
+export function parseMic(text: string): MicMeasurement | null {
+  const match = text.match(MIC_PATTERN);
+  if (!match) return null;
+  const qualifier = match[1]?.replace("≤", "<=").replace("≥", ">=") ?? null;
+  const unit = match[3].toLowerCase() === "mg/l" ? "mg/L" : "µg/mL";
+  return {
+    value: Number(match[2]),
+    unit,
+    qualifier: qualifier as MicMeasurement["qualifier"],
+  };
+}
+
+function trimGeneToken(token: string) {
+  const open = (token.match(/\(/g) ?? []).length;
+  const close = (token.match(/\)/g) ?? []).length;
+  return close > open ? token.replace(/\)+$/, "") : token;
+}
+
+function collectMatches(pattern: RegExp, text: string) {
+  return Array.from(text.matchAll(new RegExp(pattern.source, pattern.flags)));
+}
+
+/**
+ * 将一条自由文本的耐药描述拆分为结构化条目：
+ * 基因/突变各成一条，否则按提到的抗生素（或药物类别）生成表型条目。
+ */
+export function parseResistanceText(raw: string): ResistanceEntry[] {
+  const text = raw.trim();
+  if (!text) return [];
+
+  const call = parseSusceptibilityCall(text);
+  const mic = parseMic(text);
+  const antibiotics = Array.from(
+    new Set(
+      collectMatches(ANTIBIOTIC_PATTERN, text)
+        .map((match) => ANTIBIOTIC_LOOKUP.get(match[0].toLowerCase()))
+        .filter((entry): entry is AntibioticEntry => !!entry),
+    ),
+  );
+  const mentionedClass = findDrugClass(text);
+
+  const determinants: { kind: ResistanceKind; name: string }[] = [];
+  collectMatches(MUTATION_PATTERN, text).forEach((match) =>
+    determinants.push({ kind: "mutation", name: `${match[1]} ${match[2]}` }),
+  );
+  collectMatches(GENE_TOKEN, text).forEach((match) => {
+    const token = trimGeneToken(match[0]);
+    if (
+      RESISTANCE_GENE_FAMILIES.some(({ pattern }) => pattern.test(token)) &&
+      !determinants.some((item) => item.name === token)
+    ) {
+      determinants.push({ kind: "gene", name: token });
+    }
+  });
+
+  if (determinants.length) {
+    const antibiotic = antibiotics.length === 1 ? antibiotics[0] : null;
+    return determinants.map(({ kind, name }) => ({
+      kind,
+      determinant: name,
+      antibiotic: antibiotic?.name ?? null,
+      drugClass: geneDrugClass(name) ?? antibiotic?.drugClass ?? mentionedClass,
+      call: null,
+      mic: null,
+      text,
+    }));
+  }
+
+  if (antibiotics.length) {
+    return antibiotics.map((antibiotic, index) => ({
+      kind: "phenotype" as const,
+      determinant: null,
+      antibiotic: antibiotic.name,
+      drugClass: antibiotic.drugClass,
+      call,
+      mic: index === 0 ? mic : null,
+      text,
+    }));
+  }
+
+  return [
+    {
+      kind: "phenotype",
+      determinant: null,
+      antibiotic: null,
+      drugClass: mentionedClass,
+      call,
+      mic,
+      text,
+    },
+  ];
+}
+
+export interface ResistanceEntryInput {
+  kind?: string | null;
+  determinant?: string | null;
+  antibiotic?: string | null;
+  drugClass?: string | null;
+  call?: string | null;
+  mic?:
+    | { value?: number; unit?: string | null; qualifier?: MicMeasurement["qualifier"] }
+    | string
+    | number
+    | null;
+  text?: string | null;
+}
+
+/**
+ * 规范化模型返回的结构化条目：抗生素与药物类别对照内置词典，缺失的字段从描述文本中补全。
+ */
+export function normalizeResistanceEntry(
+  input: ResistanceEntryInput,
+): ResistanceEntry | null {
+  const determinant = input.determinant?.trim() || null;
+  const antibioticEntry = findAntibiotic(input.antibiotic);
+  const fallbackText = [determinant, input.antibiotic, input.call]
+    .filter(Boolean)
+    .join(" ");
+  const text = input.text?.trim() || fallbackText;
+  if (!text && !determinant && !input.antibiotic) return null;
+
+  const parsed = parseResistanceText(text)[0];
+  const kind: ResistanceKind =
+    input.kind === "gene" || input.kind === "mutation" || input.kind === "phenotype"
+      ? input.kind
+      : determinant
+      ? /\s[A-Z]\d{1,4}[A-Z*]$/.test(determinant)
+        ? "mutation"
+        : "gene"
+      : parsed?.kind ?? "phenotype";
+
+  const callInput = input.call?.trim().toUpperCase();
+  const call: SusceptibilityCall | null =
+    callInput === "S" || callInput === "I" || callInput === "R"
+      ? callInput
+      : callInput
+      ? parseSusceptibilityCall(callInput)
+      : kind === "phenotype"
+      ? parsed?.call ?? null
+      : null;
+
+  let mic: MicMeasurement | null = null;
+  if (typeof input.mic === "number") {
+    mic = { value: input.mic, unit: "mg/L", qualifier: null };
+  } else if (typeof input.mic === "string") {
+    mic = parseMic(input.mic);
+  } else if (input.mic && typeof input.mic.value === "number") {
+    mic = {
+      value: input.mic.value,
+      unit: parseMic(`${input.mic.value} ${input.mic.unit ?? ""}`)?.unit ?? input.mic.unit ?? "mg/L",
+      qualifier: input.mic.qualifier ?? null,
+    };
+  }
+  mic ??= kind === "phenotype" ? parsed?.mic ?? null : null;
+
+  const antibiotic =
+    antibioticEntry?.name ??
+    (input.antibiotic?.trim() || null) ??
+    (kind === "phenotype" ? parsed?.antibiotic : null) ??
+    null;
+  const drugClass =
+    antibioticEntry?.drugClass ??
+    (determinant ? geneDrugClass(determinant) : null) ??
+    findDrugClass(input.drugClass) ??
+    (input.drugClass?.trim() || null) ??
+    parsed?.drugClass ??
+    null;
+
+  return {
+    kind,
+    determinant,
+    antibiotic,
+    drugClass,
+    call,
+    mic,
+    text: text || determinant || antibiotic || "",
+  };
+}
+
+export function resistanceEntryKey(entry: ResistanceEntry) {
+  return [
+    entry.kind,
+    entry.determinant?.toLowerCase(),
+    entry.antibiotic?.toLowerCase(),
+    entry.drugClass?.toLowerCase(),
+    entry.call,
+    entry.mic ? `${entry.mic.qualifier ?? ""}${entry.mic.value}${entry.mic.unit}` : "",
+  ].join("|");
+}
+
+export function mergeResistanceEntries(...lists: (ResistanceEntry[] | undefined)[]) {
+  const merged = new Map<string, ResistanceEntry>();
+  lists.forEach((list) =>
+    list?.forEach((entry) => {
+      const key = resistanceEntryKey(entry);
+      if (!merged.has(key)) merged.set(key, entry);
+    }),
+  );
+  return Array.from(merged.values());
+}
+
+/** 优先使用结构化条目，旧记录则即时从 resistance 文本解析。 */
+export function getResistanceEntries(entity: MicrobialEntity): ResistanceEntry[] {
+  if (entity.resistanceEntries) return entity.resistanceEntries;
+  return mergeResistanceEntries(
+    ...(entity.resistance ?? []).map((item) => parseResistanceText(item)),
+  );
+}
+
+export function withResistanceEntries(entities: MicrobialEntity[]): MicrobialEntity[] {
+  return entities.map((entity) =>
+    entity.resistanceEntries
+      ? entity
+      : { ...entity, resistanceEntries: getResistanceEntries(entity) },
+  );
+}
+
+export function formatMic(mic: MicMeasurement) {
+  const qualifier = mic.qualifier && mic.qualifier !== "=" ? mic.qualifier : "";
+  return `MIC ${qualifier}${mic.value} ${mic.unit}`;
+}
+
+export function formatResistanceEntry(entry: ResistanceEntry) {
+  if (entry.kind !== "phenotype") {
+    const target = entry.antibiotic ?? entry.drugClass;
+    return target ? `${entry.determinant}（${target}）` : entry.determinant ?? entry.text;
+  }
+  const target = entry.antibiotic ?? entry.drugClass;
+  if (!target) return entry.text;
+  const parts = [target, entry.call, entry.mic ? formatMic(entry.mic) : null];
+  return parts.filter(Boolean).join(" ");
+}
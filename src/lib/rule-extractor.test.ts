@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { extractEntitiesWithRules } from "@/lib/rule-extractor";
+
+describe("extractEntitiesWithRules", () => {
+  it("does not fold separate isolates of the same species together", () => {
+    const entities = extractEntitiesWithRules(
+      "[Page 1]\nKlebsiella pneumoniae ST258 was isolated from blood. " +
+        "K. pneumoniae isolate KP-7 was susceptible to colistin. " +
+        "K. pneumoniae ST11 was recovered from urine.",
+    );
+
+    expect(
+      entities.map((entity) => [
+        entity.strain,
+        entity.mlst_st,
+        entity.source,
+        entity.resistance,
+      ]),
+    ).toEqual([
+      [null, "ST258", "blood", []],
+      ["KP-7", null, null, []],
+      [null, "ST11", "urine", []],
+    ]);
+  });
+});
@@ -0,0 +1,439 @@
+import { mergeEntityLists } from "@/lib/chunking";
+import {
+  ABBREVIATED_SPECIES,
+  ANTIBIOTICS,
+  CHINESE_ORGANISM_NAMES,
+  ISOLATION_SOURCES,
+  MICROBIAL_GENERA,
+  RESISTANCE_GENE_FAMILIES,
+  RESISTANCE_MUTATION_GENES,
+} from "@/lib/dictionaries";
+import type { MicrobialEntity } from "@/types/extraction";
+
+export type RuleAnnotationKind =
+  | "organism"
+  | "serovar"
+  | "strain"
+  | "mlst"
+  | "taxon"
+  | "antibiotic"
+  | "resistance_gene"
+  | "source";
+
+export interface RuleAnnotation {
+  kind: RuleAnnotationKind;
+  /** 原文中的片段 */
+  text: string;
+  /** 归一化后的取值，如 "Escherichia coli"、"ST131" */
+  value: string;
+  start: number;
+  end: number;
+  genus?: string;
+  species?: string | null;
+  subspecies?: string | null;
+}
+
+const GENUS_SET = new Set<string>(MICROBIAL_GENERA);
+
+const NON_SPECIES_WORDS = new Set([
+  "and",
+  "are",
+  "as",
+  "at",
+  "by",
+  "for",
+  "from",
+  "genus",
+  "has",
+  "have",
+  "in",
+  "infection",
+  "infections",
+  "is",
+  "isolate",
+  "isolates",
+  "isolated",
+  "of",
+  "on",
+  "or",
+  "species",
+  "strain",
+  "strains",
+  "that",
+  "the",
+  "to",
+  "was",
+  "were",
+  "which",
+  "with",
+]);
+
+const GENUS_ONLY_EPITHETS = new Set(["sp", "spp"]);
+const LATIN_EPITHET = /(?:us|a|um|i|ae|is|es|e|ans|ens|ix|ax|ex|on|er|or)$/;
+
+const BINOMIAL =
+  /\b([A-Z][a-z]{2,})\s+([a-z]{2,})\.?(?:\s+subsp\.\s+([a-z]{3,}))?/g;
+const ABBREVIATED_BINOMIAL =
+  /\b([A-Z])\.\s?([a-z]{3,})(?:\s+subsp\.\s+([a-z]{3,}))?\b/g;
+const SEROVAR = /\b(?:serovar|serotype|ser\.)\s+([A-Z][\w:,-]*[\w])/g;
+const STRAIN_KEYWORD =
+  /\b(?:strains?|isolates?)\s+([A-Z0-9][A-Za-z0-9_-]*\d[A-Za-z0-9_-]*)\b/g;
+const CULTURE_COLLECTION =
+  /\b(ATCC|DSM|NCTC|CCUG|JCM|NBRC|CGMCC|CICC|LMG|KCTC)\s?(\d{2,6})\b/g;
+const MLST = /\bST[-\s]?(\d{1,5})\b/g;
+const TAXON_ID =
+  /\b(?:NCBI[:\s]*)?(?:taxid|txid|tax(?:onomy)?\s*ID)[:\s#]*(\d{2,8})\b/gi;
+const GENE_TOKEN = /[A-Za-z][A-Za-z0-9()'.-]*[A-Za-z0-9)]/g;
+const PAGE_MARKER = /\[Page (\d+)\]/g;
+const SENTENCE_BOUNDARY =
+  /(?<![A-Z])[.!?](?=\s+[A-Z(\[]|\s*[\u4e00-\u9fff])|[。！？；]|\n{2,}/g;
+const RESISTANCE_CUE =
+  /resistan|non-?susceptib|\bMIC\b|produc|carr(?:y|ied|ies)|harbou?r|耐药|耐受|抗性/i;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildTermPattern(terms: string[]) {
+  const sorted = [...terms].sort((a, b) => b.length - a.length);
+  return new RegExp(
+    `(?<![A-Za-z])(?:${sorted.map(escapeRegExp).join("|")})(?![A-Za-z])`,
+    "gi",
+  );
+}
+
+const ANTIBIOTIC_LOOKUP = new Map<string, string>();
+ANTIBIOTICS.forEach((entry) => {
+  [entry.name, ...(entry.aliases ?? [])].forEach((alias) =>
+    ANTIBIOTIC_LOOKUP.set(alias.toLowerCase(), entry.name),
+  );
+});
+const ANTIBIOTIC_PATTERN = buildTermPattern(Array.from(ANTIBIOTIC_LOOKUP.keys()));
+
+const CHINESE_ORGANISM_PATTERN = new RegExp(
+  Object.keys(CHINESE_ORGANISM_NAMES)
+    .sort((a, b) => b.length - a.length)
+    .join("|"),
+  "g",
+);
+
+const SOURCE_LOOKUP = new Map<string, string>();
+ISOLATION_SOURCES.forEach((entry) => {
+  [entry.term, ...(entry.aliases ?? [])].forEach((alias) =>
+    SOURCE_LOOKUP.set(alias.toLowerCase(), entry.term),
+  );
+});
+const SOURCE_PATTERN = buildTermPattern(Array.from(SOURCE_LOOKUP.keys()));
+
+const MUTATION_PATTERN = new RegExp(
+  `\\b(${Object.keys(RESISTANCE_MUTATION_GENES)
+    .map(escapeRegExp)
+    .join("|")})\\s+(?:mutations?\\s+)?\\(?([A-Z]\\d{1,4}[A-Z])\\)?`,
+  "g",
+);
+
+export function isResistanceGeneName(token: string) {
+  return RESISTANCE_GENE_FAMILIES.some(({ pattern }) => pattern.test(token));
+}
+
+function trimGeneToken(token: string) {
+  const open = (token.match(/\(/g) ?? []).length;
+  const close = (token.match(/\)/g) ?? []).length;
+  return close > open ? token.replace(/\)+$/, "") : token;
+}
+
+function collectOrganisms(text: string, annotations: RuleAnnotation[]) {
+  const fullGenusByKey = new Map<string, string>();
+
+  for (const match of Array.from(text.matchAll(BINOMIAL))) {
+    const [raw, genus, epithet, subspecies] = match;
+    if (!GENUS_SET.has(genus)) continue;
+    const genusOnly =
+      GENUS_ONLY_EPITHETS.has(epithet) ||
+      NON_SPECIES_WORDS.has(epithet) ||
+      !LATIN_EPITHET.test(epithet);
+    const species = genusOnly ? null : epithet;
+    const matchedText = genusOnly && !GENUS_ONLY_EPITHETS.has(epithet) ? genus : raw;
+    if (species) {
+      fullGenusByKey.set(`${genus.charAt(0)}. ${species}`, genus);
+    }
+    annotations.push({
+      kind: "organism",
+      text: matchedText,
+      value: [genus, species].filter(Boolean).join(" "),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + matchedText.length,
+      genus,
+      species,
+      subspecies: subspecies ?? null,
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(ABBREVIATED_BINOMIAL))) {
+    const [raw, initial, species, subspecies] = match;
+    if (NON_SPECIES_WORDS.has(species) || !LATIN_EPITHET.test(species)) continue;
+    const key = `${initial}. ${species}`;
+    const genus = fullGenusByKey.get(key) ?? ABBREVIATED_SPECIES[key];
+    if (!genus) continue;
+    annotations.push({
+      kind: "organism",
+      text: raw,
+      value: `${genus} ${species}`,
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + raw.length,
+      genus,
+      species,
+      subspecies: subspecies ?? null,
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(CHINESE_ORGANISM_PATTERN))) {
+    const { genus, species } = CHINESE_ORGANISM_NAMES[match[0]];
+    annotations.push({
+      kind: "organism",
+      text: match[0],
+      value: [genus, species].filter(Boolean).join(" "),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      genus,
+      species,
+      subspecies: null,
+    });
+  }
+}
+
+function pushMatches(
+  text: string,
+  pattern: RegExp,
+  kind: RuleAnnotationKind,
+  annotations: RuleAnnotation[],
+  toValue: (match: RegExpMatchArray) => string | null,
+) {
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const value = toValue(match);
+    if (!value) continue;
+    annotations.push({
+      kind,
+      text: match[0],
+      value,
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    });
+  }
+}
+
+/**
+ * 使用内置词典对文本做确定性标注，不依赖任何网络请求。
+ */
+export function annotateText(text: string): RuleAnnotation[] {
+  const annotations: RuleAnnotation[] = [];
+
+  collectOrganisms(text, annotations);
+  pushMatches(text, SEROVAR, "serovar", annotations, (match) => match[1]);
+  pushMatches(text, STRAIN_KEYWORD, "strain", annotations, (match) => match[1]);
+  pushMatches(text, CULTURE_COLLECTION, "strain", annotations, (match) =>
+    `${match[1]} ${match[2]}`,
+  );
+  pushMatches(text, MLST, "mlst", annotations, (match) => `ST${match[1]}`);
+  pushMatches(text, TAXON_ID, "taxon", annotations, (match) => match[1]);
+  pushMatches(text, ANTIBIOTIC_PATTERN, "antibiotic", annotations, (match) =>
+    ANTIBIOTIC_LOOKUP.get(match[0].toLowerCase()) ?? null,
+  );
+  pushMatches(text, SOURCE_PATTERN, "source", annotations, (match) =>
+    SOURCE_LOOKUP.get(match[0].toLowerCase()) ?? null,
+  );
+  pushMatches(text, MUTATION_PATTERN, "resistance_gene", annotations, (match) =>
+    `${match[1]} ${match[2]}`,
+  );
+  pushMatches(text, GENE_TOKEN, "resistance_gene", annotations, (match) => {
+    const token = trimGeneToken(match[0]);
+    return isResistanceGeneName(token) ? token : null;
+  });
+
+  return annotations.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  page: number | null;
+}
+
+function splitSegments(text: string): Segment[] {
+  const boundaries: { index: number; page?: number }[] = [];
+  for (const match of Array.from(text.matchAll(PAGE_MARKER))) {
+    boundaries.push({ index: match.index ?? 0, page: Number(match[1]) });
+    boundaries.push({ index: (match.index ?? 0) + match[0].length });
+  }
+  for (const match of Array.from(text.matchAll(SENTENCE_BOUNDARY))) {
+    boundaries.push({ index: (match.index ?? 0) + match[0].length });
+  }
+  boundaries.sort((a, b) => a.index - b.index);
+
+  const segments: Segment[] = [];
+  let cursor = 0;
+  let page: number | null = null;
+  boundaries.forEach((boundary) => {
+    if (boundary.index > cursor) {
+      segments.push({ start: cursor, end: boundary.index, page });
+    }
+    cursor = Math.max(cursor, boundary.index);
+    if (boundary.page != null) page = boundary.page;
+  });
+  if (cursor < text.length) {
+    segments.push({ start: cursor, end: text.length, page });
+  }
+  return segments;
+}
+
+function sliceContext(text: string, segment: Segment, anchor: RuleAnnotation) {
+  let start = segment.start;
+  let end = segment.end;
+  const pageMarker = /\[Page \d+\]/.exec(text.slice(start, end));
+  if (pageMarker) {
+    start += pageMarker.index + pageMarker[0].length;
+  }
+  if (end - start > 240) {
+    start = Math.max(start, anchor.start - 120);
+    end = Math.min(end, anchor.end + 120);
+  }
+  return text.slice(start, end).trim();
+}
+
+export function extractEntitiesWithRules(text: string): MicrobialEntity[] {
+  const annotations = annotateText(text);
+  const segments = splitSegments(text);
+  const entities: MicrobialEntity[] = [];
+  // 没有物种名的句子只继承紧邻上一句的物种，避免属性串到更早的实体上
+  let lastEntity: MicrobialEntity | null = null;
+  let lastPage: number | null = null;
+  let annotationIndex = 0;
+
+  segments.forEach((segment) => {
+    if (segment.page !== lastPage) {
+      lastEntity = null;
+      lastPage = segment.page;
+    }
+
+    const inSegment: RuleAnnotation[] = [];
+    while (
+      annotationIndex < annotations.length &&
+      annotations[annotationIndex].start < segment.end
+    ) {
+      if (annotations[annotationIndex].start >= segment.start) {
+        inSegment.push(annotations[annotationIndex]);
+      }
+      annotationIndex++;
+    }
+    if (!inSegment.length) {
+      lastEntity = null;
+      return;
+    }
+
+    const segmentText = text.slice(segment.start, segment.end);
+    const hasResistanceCue = RESISTANCE_CUE.test(segmentText);
+    const organisms = inSegment.filter((item) => item.kind === "organism");
+    const segmentEntities = organisms.map((organism) => {
+      const entity: MicrobialEntity = {
+        id: crypto.randomUUID(),
+        genus: organism.genus ?? null,
+        species: organism.species ?? null,
+        subspecies: organism.subspecies ?? null,
+        serovar: null,
+        strain: null,
+        mlst_st: null,
+        taxonomy_id: null,
+        source: null,
+        resistance: [],
+        pathogenicity: null,
+        context: sliceContext(text, segment, organism),
+        confidence: organism.text.includes(".") ? 0.6 : 0.7,
+      };
+      return { organism, entity };
+    });
+    entities.push(...segmentEntities.map((item) => item.entity));
+
+    const ownerOf = (annotation: RuleAnnotation) => {
+      let owner: MicrobialEntity | null = lastEntity;
+      segmentEntities.forEach(({ organism, entity }) => {
+        if (organism.start <= annotation.start) owner = entity;
+      });
+      return owner ?? segmentEntities[0]?.entity ?? null;
+    };
+
+    inSegment.forEach((annotation) => {
+      if (annotation.kind === "organism") return;
+      const owner = ownerOf(annotation);
+      if (!owner) return;
+
+      switch (annotation.kind) {
+        case "serovar":
+          owner.serovar ??= annotation.value;
+          break;
+        case "strain":
+          owner.strain ??= annotation.value;
+          break;
+        case "mlst":
+          owner.mlst_st ??= annotation.value;
+          break;
+        case "taxon":
+          owner.taxonomy_id ??= annotation.value;
+          break;
+        case "source":
+          owner.source ??= annotation.value;
+          break;
+        case "resistance_gene":
+          owner.resistance = [...(owner.resistance ?? []), annotation.value];
+          break;
+        case "antibiotic":
+          if (hasResistanceCue) {
+            owner.resistance = [
+              ...(owner.resistance ?? []),
+              `${annotation.value} resistance`,
+            ];
+          }
+          break;
+      }
+    });
+
+    lastEntity = segmentEntities.length
+      ? segmentEntities[segmentEntities.length - 1].entity
+      : null;
+  });
+
+  return mergeEntityLists([entities]);
+}
+
+const ANNOTATION_LABELS: Record<RuleAnnotationKind, string> = {
+  organism: "物种",
+  serovar: "血清型",
+  strain: "菌株",
+  mlst: "MLST",
+  taxon: "Taxonomy ID",
+  antibiotic: "抗生素",
+  resistance_gene: "耐药基因/突变",
+  source: "分离来源",
+};
+
+/**
+ * 将规则标注整理成提示词片段，供 LLM 在混合模式下参考。
+ */
+export function formatAnnotationsForPrompt(
+  annotations: RuleAnnotation[],
+  maxValuesPerKind = 40,
+) {
+  const grouped = new Map<RuleAnnotationKind, Set<string>>();
+  annotations.forEach((annotation) => {
+    const values = grouped.get(annotation.kind) ?? new Set<string>();
+    values.add(annotation.value);
+    grouped.set(annotation.kind, values);
+  });
+
+  return (Object.keys(ANNOTATION_LABELS) as RuleAnnotationKind[])
+    .filter((kind) => grouped.has(kind))
+    .map((kind) => {
+      const values = Array.from(grouped.get(kind)!).slice(0, maxValuesPerKind);
+      return `- ${ANNOTATION_LABELS[kind]}：${values.join("，")}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  binomialName,
+  computeFacetCounts,
+  emptySearchQuery,
+  highlightSegments,
+  indexEntities,
+  isEmptySearchQuery,
+  normalizeSequenceType,
+  parseSearchTerms,
+  searchEntities,
+  searchSnippet,
+} from "@/lib/search";
+import type { ExtractionRecord, MicrobialEntity } from "@/types/extraction";
+
+function record(fileName: string, entities: MicrobialEntity[]): ExtractionRecord {
+  return {
+    id: fileName,
+    fileName,
+    fileSize: 1,
+    processedAt: "2024-01-01T00:00:00.000Z",
+    durationMs: 0,
+    summary: {
+      organismCount: entities.length,
+      uniqueSpecies: 0,
+      resistanceCount: 0,
+      sourceCount: 0,
+      pathogenicityCount: 0,
+      keyFindings: [],
+    },
+    entities,
+    rawTextPreview: "",
+  };
+}
+
+const hits = indexEntities([
+  record("kp.pdf", [
+    {
+      id: "kp1",
+      genus: "Klebsiella",
+      species: "Klebsiella pneumoniae",
+      mlst_st: "st 258",
+      source: "blood",
+      resistance: ["blaKPC-2"],
+      confidence: 0.9,
+    },
+    { id: "kp2", genus: "Klebsiella", species: "pneumoniae", mlst_st: "11", source: "urine" },
+  ]),
+  record("ec.pdf", [
+    {
+      id: "ec1",
+      genus: "Escherichia",
+      species: "coli",
+      mlst_st: "ST131",
+      source: "Blood",
+      resistance: ["blaCTX-M-15"],
+      confidence: 0.4,
+    },
+  ]),
+]);
+
+function ids(query = emptySearchQuery()) {
+  return searchEntities(hits, query).map((hit) => hit.entity.id);
+}
+
+describe("normalization", () => {
+  it("builds binomials and sequence types in one form", () => {
+    expect(binomialName({ id: "a", genus: "Klebsiella", species: "Klebsiella pneumoniae" })).toBe(
+      "Klebsiella pneumoniae",
+    );
+    expect(binomialName({ id: "a", genus: "Escherichia", species: "coli" })).toBe(
+      "Escherichia coli",
+    );
+    expect(binomialName({ id: "a", genus: "Escherichia" })).toBeNull();
+    expect(["258", "ST 258", "st-258"].map(normalizeSequenceType)).toEqual([
+      "ST258",
+      "ST258",
+      "ST258",
+    ]);
+    expect(normalizeSequenceType("novel")).toBe("novel");
+  });
+});
+
+describe("searchEntities", () => {
+  it("matches every term, quoted phrases and abbreviated genera", () => {
+    expect(parseSearchTerms('kpc "K. pneumoniae"')).toEqual(["kpc", "k. pneumoniae"]);
+    expect(ids({ ...emptySearchQuery(), text: '"K. pneumoniae" st258' })).toEqual(["kp1"]);
+    expect(ids({ ...emptySearchQuery(), text: "blood ctx-m" })).toEqual(["ec1"]);
+    expect(ids({ ...emptySearchQuery(), text: "kp.pdf" })).toEqual(["kp1", "kp2"]);
+  });
+
+  it("ORs values within a facet and ANDs across facets", () => {
+    const query = emptySearchQuery();
+    query.facets.st = ["ST258", "ST131"];
+    expect(ids(query)).toEqual(["kp1", "ec1"]);
+
+    query.facets.genus = ["klebsiella"];
+    expect(ids(query)).toEqual(["kp1"]);
+  });
+
+  it("drops entities without confidence once a range is set", () => {
+    expect(ids({ ...emptySearchQuery(), minConfidence: 0.5 })).toEqual(["kp1"]);
+    expect(ids({ ...emptySearchQuery(), maxConfidence: 0.5 })).toEqual(["ec1"]);
+    expect(isEmptySearchQuery({ ...emptySearchQuery(), maxConfidence: 0.5 })).toBe(false);
+    expect(isEmptySearchQuery(emptySearchQuery())).toBe(true);
+  });
+});
+
+describe("computeFacetCounts", () => {
+  it("counts each facet without its own selection and keeps empty selections", () => {
+    const query = emptySearchQuery();
+    query.facets.genus = ["Klebsiella", "Salmonella"];
+    const counts = computeFacetCounts(hits, query);
+
+    expect(counts.genus).toEqual([
+      { value: "Klebsiella", count: 2 },
+      { value: "Escherichia", count: 1 },
+      { value: "Salmonella", count: 0 },
+    ]);
+    expect(counts.source).toEqual([
+      { value: "blood", count: 1 },
+      { value: "urine", count: 1 },
+    ]);
+  });
+});
+
+describe("highlighting", () => {
+  it("splits matches and trims snippets around the first hit", () => {
+    expect(highlightSegments("ST258 from blood", ["blood"])).toEqual([
+      { text: "ST258 from ", match: false },
+      { text: "blood", match: true },
+    ]);
+    expect(searchSnippet(`${"x".repeat(100)}KPC${"y".repeat(100)}`, ["kpc"], 10)).toBe(
+      `…${"x".repeat(10)}KPC${"y".repeat(17)}…`,
+    );
+  });
+});
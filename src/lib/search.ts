@@ -0,0 +1,250 @@
+import { formatCustomFieldValue } from "@/lib/fields";
+import { formatResistanceEntry, getResistanceEntries } from "@/lib/resistance";
+import type { ExtractionRecord, MicrobialEntity } from "@/types/extraction";
+
+export type SearchFacet = "genus" | "species" | "st" | "source" | "resistance";
+
+export const SEARCH_FACETS: SearchFacet[] = ["genus", "species", "st", "source", "resistance"];
+
+export const SEARCH_FACET_LABELS: Record<SearchFacet, string> = {
+  genus: "属",
+  species: "种",
+  st: "ST",
+  source: "分离来源",
+  resistance: "耐药",
+};
+
+export interface EntitySearchQuery {
+  text: string;
+  /** 同一分面内的取值为“或”，不同分面之间为“且” */
+  facets: Record<SearchFacet, string[]>;
+  /** 置信度范围（0-1）；设置后没有置信度的实体不再出现在结果中 */
+  minConfidence: number | null;
+  maxConfidence: number | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/** 检索结果中的一行：实体及其所在记录 */
+export interface EntityHit {
+  record: ExtractionRecord;
+  entity: MicrobialEntity;
+  /** 分面取值，已归一化显示形式 */
+  values: Record<SearchFacet, string[]>;
+  /** 小写的全文索引 */
+  haystack: string;
+}
+
+export function emptySearchQuery(): EntitySearchQuery {
+  return {
+    text: "",
+    facets: { genus: [], species: [], st: [], source: [], resistance: [] },
+    minConfidence: null,
+    maxConfidence: null,
+  };
+}
+
+export function isEmptySearchQuery(query: EntitySearchQuery) {
+  return (
+    !query.text.trim() &&
+    query.minConfidence == null &&
+    query.maxConfidence == null &&
+    SEARCH_FACETS.every((facet) => !query.facets[facet].length)
+  );
+}
+
+function clean(value: string | null | undefined) {
+  return value?.replace(/\s+/g, " ").trim() || null;
+}
+
+/** 种名可能已带属名（如 “Klebsiella pneumoniae”），统一为完整的双名 */
+export function binomialName(entity: MicrobialEntity) {
+  const genus = clean(entity.genus);
+  const species = clean(entity.species);
+  if (!species) return null;
+  if (!genus || species.toLowerCase().startsWith(`${genus.toLowerCase()} `)) return species;
+  return `${genus} ${species}`;
+}
+
+/** “258”“ST 258”“st258” 统一为 “ST258” */
+export function normalizeSequenceType(value: string | null | undefined) {
+  const text = clean(value);
+  if (!text) return null;
+  const match = /^(?:ST\s*-?\s*)?(\d+)$/i.exec(text);
+  return match ? `ST${match[1]}` : text;
+}
+
+function resistanceTerms(entity: MicrobialEntity) {
+  return getResistanceEntries(entity)
+    .map((entry) => clean(entry.determinant ?? entry.antibiotic ?? entry.drugClass ?? entry.text))
+    .filter((term): term is string => Boolean(term));
+}
+
+function unique(values: (string | null)[]) {
+  const seen = new Map<string, string>();
+  values.forEach((value) => {
+    if (value && !seen.has(value.toLowerCase())) seen.set(value.toLowerCase(), value);
+  });
+  return Array.from(seen.values());
+}
+
+function buildHaystack(record: ExtractionRecord, entity: MicrobialEntity) {
+  const binomial = binomialName(entity);
+  // 支持 “K. pneumoniae” 这样的缩写检索
+  const abbreviated = binomial?.replace(/^(\S)\S*\s/, "$1. ");
+  const customValues = (record.fieldDefinitions ?? []).map((field) =>
+    formatCustomFieldValue(entity.customFields?.[field.key]),
+  );
+  return [
+    record.fileName,
+    entity.genus,
+    entity.species,
+    binomial,
+    abbreviated,
+    entity.subspecies,
+    entity.serovar,
+    entity.strain,
+    entity.mlst_st,
+    normalizeSequenceType(entity.mlst_st),
+    entity.taxonomy_id,
+    entity.source,
+    ...(entity.resistance ?? []),
+    ...getResistanceEntries(entity).map(formatResistanceEntry),
+    entity.pathogenicity,
+    entity.context,
+    ...customValues,
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+}
+
+/** 把所有记录展开为可检索的实体列表，记录或实体变化时重新建立。 */
+export function indexEntities(records: ExtractionRecord[]): EntityHit[] {
+  return records.flatMap((record) =>
+    record.entities.map((entity) => ({
+      record,
+      entity,
+      values: {
+        genus: unique([clean(entity.genus)]),
+        species: unique([binomialName(entity)]),
+        st: unique([normalizeSequenceType(entity.mlst_st)]),
+        source: unique([clean(entity.source)]),
+        resistance: unique(resistanceTerms(entity)),
+      },
+      haystack: buildHaystack(record, entity),
+    })),
+  );
+}
+
+/** 按空白拆分检索词，双引号中的内容作为整体短语 */
+export function parseSearchTerms(text: string) {
+  return Array.from(text.matchAll(/"([^"]+)"|(\S+)/g))
+    .map((match) => (match[1] ?? match[2]).trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function matchesText(hit: EntityHit, terms: string[]) {
+  return terms.every((term) => hit.haystack.includes(term));
+}
+
+function matchesFacet(hit: EntityHit, facet: SearchFacet, selected: string[]) {
+  if (!selected.length) return true;
+  const values = hit.values[facet].map((value) => value.toLowerCase());
+  return selected.some((value) => values.includes(value.toLowerCase()));
+}
+
+function matchesConfidence(hit: EntityHit, query: EntitySearchQuery) {
+  if (query.minConfidence == null && query.maxConfidence == null) return true;
+  const confidence = hit.entity.confidence;
+  if (confidence == null) return false;
+  return (
+    confidence >= (query.minConfidence ?? 0) && confidence <= (query.maxConfidence ?? 1)
+  );
+}
+
+function matchesQuery(
+  hit: EntityHit,
+  query: EntitySearchQuery,
+  terms: string[],
+  ignoreFacet?: SearchFacet,
+) {
+  return (
+    matchesText(hit, terms) &&
+    matchesConfidence(hit, query) &&
+    SEARCH_FACETS.every(
+      (facet) => facet === ignoreFacet || matchesFacet(hit, facet, query.facets[facet]),
+    )
+  );
+}
+
+export function searchEntities(hits: EntityHit[], query: EntitySearchQuery) {
+  const terms = parseSearchTerms(query.text);
+  return hits.filter((hit) => matchesQuery(hit, query, terms));
+}
+
+/**
+ * 计算各分面的取值与数量。每个分面的数量按“除该分面外的其他条件”统计，
+ * 这样已选中某个属后，其他属仍会显示可切换的数量。
+ */
+export function computeFacetCounts(
+  hits: EntityHit[],
+  query: EntitySearchQuery,
+): Record<SearchFacet, FacetCount[]> {
+  const terms = parseSearchTerms(query.text);
+  const result = {} as Record<SearchFacet, FacetCount[]>;
+
+  SEARCH_FACETS.forEach((facet) => {
+    const counts = new Map<string, FacetCount>();
+    hits.forEach((hit) => {
+      if (!matchesQuery(hit, query, terms, facet)) return;
+      hit.values[facet].forEach((value) => {
+        const key = value.toLowerCase();
+        const entry = counts.get(key) ?? { value, count: 0 };
+        entry.count += 1;
+        counts.set(key, entry);
+      });
+    });
+    // 已选中但当前没有结果的取值仍然保留，便于取消
+    query.facets[facet].forEach((value) => {
+      if (!counts.has(value.toLowerCase())) counts.set(value.toLowerCase(), { value, count: 0 });
+    });
+    result[facet] = Array.from(counts.values()).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value),
+    );
+  });
+
+  return result;
+}
+
+/** 把文本按检索词切分，用于高亮显示匹配片段 */
+export function highlightSegments(text: string, terms: string[]) {
+  const patterns = terms
+    .filter(Boolean)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (!patterns.length) return [{ text, match: false }];
+
+  const regex = new RegExp(`(${patterns.join("|")})`, "gi");
+  return text
+    .split(regex)
+    .filter(Boolean)
+    .map((part) => ({
+      text: part,
+      match: terms.some((term) => term === part.toLowerCase()),
+    }));
+}
+
+/** 截取第一个匹配附近的片段，没有匹配时取开头 */
+export function searchSnippet(text: string, terms: string[], radius = 80) {
+  const lower = text.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  const first = positions.length ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius * 2);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,103 @@
+import { buildExtractionRecord, runExtraction } from "@/lib/extraction";
+import {
+  createProviderProfile,
+  getProviderLabel,
+  PROVIDER_KINDS,
+  providerNeedsApiKey,
+} from "@/lib/providers";
+import type {
+  BibliographicMetadata,
+  ExtractionMode,
+  ExtractionRecord,
+  ExtractionTemplate,
+  ProviderKind,
+  ProviderProfile,
+} from "@/types/extraction";
+
+/**
+ * 服务端使用的模型服务配置，从环境变量读取，API Key 不会返回给调用方：
+ * MICR_AI_PROVIDER（openrouter / openai-compatible / anthropic，默认 openrouter）、
+ * MICR_AI_API_KEY、MICR_AI_BASE_URL、MICR_AI_MODEL。
+ * 缺少必需的 API Key 时返回 null。
+ */
+export function getServerProvider(
+  env: NodeJS.ProcessEnv = process.env,
+): ProviderProfile | null {
+  const kind = (env.MICR_AI_PROVIDER?.trim() || "openrouter") as ProviderKind;
+  if (!PROVIDER_KINDS.includes(kind)) {
+    throw new Error(`不支持的模型服务类型：${kind}`);
+  }
+  const profile = createProviderProfile(kind, {
+    name: `${getProviderLabel(kind)}（服务端）`,
+    apiKey: env.MICR_AI_API_KEY?.trim() ?? "",
+    baseUrl: env.MICR_AI_BASE_URL?.trim() ?? "",
+    model: env.MICR_AI_MODEL?.trim() ?? "",
+  });
+  return providerNeedsApiKey(profile) ? null : profile;
+}
+
+/**
+ * 设置了 MICR_AI_API_TOKEN 时，调用方需携带 `Authorization: Bearer <token>`；
+ * 未设置时不做校验，适合只在内网访问的部署。
+ */
+export function isAuthorizedRequest(
+  request: Request,
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  const token = env.MICR_AI_API_TOKEN?.trim();
+  if (!token) return true;
+  return request.headers.get("authorization") === `Bearer ${token}`;
+}
+
+export interface ServerExtractionParams {
+  fileName: string;
+  fileSize: number;
+  text: string;
+  mode: ExtractionMode;
+  /** 规则模式下可为 null */
+  provider: ProviderProfile | null;
+  template?: ExtractionTemplate;
+  maxChunkTokens?: number;
+  signal?: AbortSignal;
+  pdfMetadata?: Partial<BibliographicMetadata>[];
+  contentHash?: string;
+}
+
+/** 与浏览器端相同的提取流程，供 /api/extract 路由调用。 */
+export async function extractRecordOnServer({
+  fileName,
+  fileSize,
+  text,
+  mode,
+  provider,
+  template,
+  maxChunkTokens,
+  signal,
+  pdfMetadata,
+  contentHash,
+}: ServerExtractionParams): Promise<ExtractionRecord> {
+  const startedAt = Date.now();
+  const { entities, chunkCount, usage } = await runExtraction({
+    mode,
+    text,
+    provider,
+    template,
+    maxChunkTokens,
+    signal,
+  });
+
+  return buildExtractionRecord({
+    fileName,
+    fileSize,
+    startedAt,
+    finishedAt: Date.now(),
+    entities,
+    rawText: text,
+    chunkCount,
+    extractionMode: mode,
+    usage,
+    template,
+    pdfMetadata,
+    contentHash,
+  });
+}
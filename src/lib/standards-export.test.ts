@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { computeExtractionSummary } from "@/lib/extraction";
+import { buildStandardExport } from "@/lib/standards-export";
+import type { ExtractionRecord, MicrobialEntity } from "@/types/extraction";
+
+const entity: MicrobialEntity = {
+  id: "e1",
+  genus: "Klebsiella",
+  species: "pneumoniae",
+  subspecies: null,
+  serovar: null,
+  strain: "KP-7",
+  mlst_st: "ST258",
+  taxonomy_id: null,
+  source: "blood",
+  resistance: [],
+  pathogenicity: null,
+  context: null,
+  confidence: null,
+  customFields: {
+    Collection_Year: 2019,
+    country: "China",
+    latitude: -33.9,
+    longitude: 151.2,
+    host: "Homo sapiens",
+  },
+};
+
+const record: ExtractionRecord = {
+  id: "r1",
+  fileName: "paper.pdf",
+  fileSize: 1,
+  processedAt: "2024-01-01T00:00:00.000Z",
+  durationMs: 0,
+  summary: computeExtractionSummary([entity]),
+  entities: [entity],
+  rawTextPreview: "",
+};
+
+describe("buildStandardExport", () => {
+  it("fills MIxS sampling terms from template custom fields", () => {
+    const result = buildStandardExport([record], "mixs");
+    const row = Object.fromEntries(
+      result.columns.map((column, index) => [column, result.rows[0][index]]),
+    );
+
+    expect(row).toMatchObject({
+      collection_date: "2019",
+      geo_loc_name: "China",
+      lat_lon: "33.9 S 151.2 E",
+      host: "Homo sapiens",
+    });
+    expect(result.issues).toEqual([]);
+  });
+
+  it("falls back to the missing value when no source exists", () => {
+    const bare = { ...record, entities: [{ ...entity, customFields: undefined }] };
+    const result = buildStandardExport([bare], "mixs");
+
+    expect(result.missingByTerm).toMatchObject({
+      collection_date: 1,
+      geo_loc_name: 1,
+      lat_lon: 1,
+    });
+  });
+});
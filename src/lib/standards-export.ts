@@ -0,0 +1,349 @@
+import { formatCitation } from "@/lib/bibliography";
+import { formatResistanceEntry, getResistanceEntries } from "@/lib/resistance";
+import type { CustomFieldValue, ExtractionRecord, MicrobialEntity } from "@/types/extraction";
+
+export type StandardProfile = "dwc" | "mixs";
+
+export type TermRequirement = "required" | "recommended" | "optional";
+
+interface TermMapping {
+  term: string;
+  requirement: TermRequirement;
+  value: (entity: MicrobialEntity, record: ExtractionRecord, index: number) => string | null;
+}
+
+export interface StandardProfileInfo {
+  id: StandardProfile;
+  label: string;
+  description: string;
+  /** 必填字段缺失时写入 TSV 的占位值 */
+  missingValue: string;
+}
+
+export interface ValidationIssue {
+  /** TSV 中的数据行号，从 1 开始 */
+  row: number;
+  identifier: string;
+  fileName: string;
+  term: string;
+  requirement: Exclude<TermRequirement, "optional">;
+}
+
+export interface StandardExportResult {
+  profile: StandardProfile;
+  columns: string[];
+  rows: string[][];
+  issues: ValidationIssue[];
+  /** term -> 缺失该字段的行数 */
+  missingByTerm: Record<string, number>;
+}
+
+export const STANDARD_PROFILES: StandardProfileInfo[] = [
+  {
+    id: "dwc",
+    label: "Darwin Core Occurrence",
+    description: "适用于 GBIF 等生物多样性数据平台的 Occurrence 核心表。",
+    missingValue: "",
+  },
+  {
+    id: "mixs",
+    label: "MIxS / BioSample（Microbe）",
+    description: "适用于 NCBI BioSample、ENA 等序列数据库的样本属性表。",
+    // INSDC 约定的缺失值词表
+    missingValue: "missing",
+  },
+];
+
+function clean(value: string | null | undefined) {
+  if (value == null) return null;
+  const trimmed = value.replace(/[\t\r\n]+/g, " ").trim();
+  return trimmed.length ? trimmed : null;
+}
+
+export function buildScientificName(entity: MicrobialEntity) {
+  const binomial = [entity.genus, entity.species]
+    .map((part) => clean(part))
+    .filter(Boolean)
+    .join(" ");
+  if (!binomial) return null;
+  const subspecies = clean(entity.subspecies);
+  return subspecies ? `${binomial} subsp. ${subspecies}` : binomial;
+}
+
+/**
+ * 模板字段中与标准术语对应的字段（按优先级排列），字段名忽略大小写与下划线，
+ * 如“插入示例字段”中的 host、country、collection_year。
+ */
+const CUSTOM_FIELD_ALIASES = {
+  collectionDate: ["collection_date", "event_date", "sampling_date", "collection_year", "year"],
+  country: ["country", "geo_loc_name", "location", "region"],
+  latLon: ["lat_lon", "coordinates"],
+  latitude: ["latitude", "lat"],
+  longitude: ["longitude", "lon", "lng"],
+  host: ["host", "host_species", "host_organism"],
+};
+
+function normalizeFieldKey(key: string) {
+  return key.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+function formatCustomValue(value: CustomFieldValue | undefined) {
+  if (value == null) return null;
+  if (Array.isArray(value)) return clean(value.map(String).join("; "));
+  return clean(String(value));
+}
+
+function customValue(entity: MicrobialEntity, aliases: string[]) {
+  const fields = new Map(
+    Object.entries(entity.customFields ?? {}).map(([key, value]) => [
+      normalizeFieldKey(key),
+      value,
+    ]),
+  );
+  for (const alias of aliases) {
+    const value = formatCustomValue(fields.get(normalizeFieldKey(alias)));
+    if (value) return value;
+  }
+  return null;
+}
+
+/** MIxS 的 lat_lon 格式为“38.98 N 77.11 W”，也接受分开填写的纬度与经度 */
+function latLon(entity: MicrobialEntity) {
+  const combined = customValue(entity, CUSTOM_FIELD_ALIASES.latLon);
+  if (combined) return combined;
+  const latitudeText = customValue(entity, CUSTOM_FIELD_ALIASES.latitude);
+  const longitudeText = customValue(entity, CUSTOM_FIELD_ALIASES.longitude);
+  if (latitudeText == null || longitudeText == null) return null;
+  const latitude = Number(latitudeText);
+  const longitude = Number(longitudeText);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  return `${Math.abs(latitude)} ${latitude < 0 ? "S" : "N"} ${Math.abs(longitude)} ${
+    longitude < 0 ? "W" : "E"
+  }`;
+}
+
+function taxonRank(entity: MicrobialEntity) {
+  if (clean(entity.subspecies)) return "subspecies";
+  if (clean(entity.species)) return "species";
+  if (clean(entity.genus)) return "genus";
+  return null;
+}
+
+function ncbiTaxonId(entity: MicrobialEntity) {
+  const id = clean(entity.taxonomy_id)?.replace(/^(ncbi:?)?(txid)?/i, "");
+  return id && /^\d+$/.test(id) ? `NCBI:txid${id}` : null;
+}
+
+function resistanceLabels(entity: MicrobialEntity) {
+  return getResistanceEntries(entity).map((entry) => formatResistanceEntry(entry));
+}
+
+/** 有题录时使用引用格式（含 DOI 链接），否则退回文件名 */
+function sourceReference(record: ExtractionRecord) {
+  return record.bibliography ? formatCitation(record.bibliography) : record.fileName;
+}
+
+function sampleName(record: ExtractionRecord, index: number) {
+  const base = record.fileName.replace(/\.pdf$/i, "").replace(/\s+/g, "_");
+  return `${base}_${String(index + 1).padStart(3, "0")}`;
+}
+
+const DWC_TERMS: TermMapping[] = [
+  { term: "occurrenceID", requirement: "required", value: (entity) => entity.id },
+  {
+    term: "basisOfRecord",
+    requirement: "required",
+    value: () => "MaterialCitation",
+  },
+  {
+    term: "scientificName",
+    requirement: "required",
+    value: (entity) => buildScientificName(entity),
+  },
+  { term: "taxonRank", requirement: "recommended", value: taxonRank },
+  { term: "genus", requirement: "optional", value: (entity) => clean(entity.genus) },
+  {
+    term: "specificEpithet",
+    requirement: "optional",
+    value: (entity) => clean(entity.species),
+  },
+  {
+    term: "infraspecificEpithet",
+    requirement: "optional",
+    value: (entity) => clean(entity.subspecies),
+  },
+  { term: "taxonID", requirement: "recommended", value: ncbiTaxonId },
+  { term: "organismName", requirement: "optional", value: (entity) => clean(entity.strain) },
+  { term: "habitat", requirement: "recommended", value: (entity) => clean(entity.source) },
+  {
+    term: "eventDate",
+    requirement: "recommended",
+    value: (entity) => customValue(entity, CUSTOM_FIELD_ALIASES.collectionDate),
+  },
+  {
+    term: "country",
+    requirement: "recommended",
+    value: (entity) => customValue(entity, CUSTOM_FIELD_ALIASES.country),
+  },
+  {
+    term: "associatedReferences",
+    requirement: "optional",
+    value: (_, record) => sourceReference(record),
+  },
+  {
+    term: "occurrenceRemarks",
+    requirement: "optional",
+    value: (entity) => clean(entity.context),
+  },
+  {
+    term: "dynamicProperties",
+    requirement: "optional",
+    value: (entity) => {
+      const properties: Record<string, unknown> = {};
+      if (clean(entity.serovar)) properties.serovar = clean(entity.serovar);
+      if (clean(entity.mlst_st)) properties.mlst = clean(entity.mlst_st);
+      const resistance = resistanceLabels(entity);
+      if (resistance.length) properties.resistance = resistance;
+      if (clean(entity.pathogenicity)) properties.pathogenicity = clean(entity.pathogenicity);
+      Object.entries(entity.customFields ?? {}).forEach(([key, value]) => {
+        if (value != null && value !== "" && !(Array.isArray(value) && !value.length)) {
+          properties[key] = value;
+        }
+      });
+      return Object.keys(properties).length ? JSON.stringify(properties) : null;
+    },
+  },
+];
+
+const MIXS_TERMS: TermMapping[] = [
+  {
+    term: "sample_name",
+    requirement: "required",
+    value: (_, record, index) => sampleName(record, index),
+  },
+  {
+    term: "organism",
+    requirement: "required",
+    value: (entity) => buildScientificName(entity),
+  },
+  { term: "strain", requirement: "required", value: (entity) => clean(entity.strain) },
+  {
+    term: "isolation_source",
+    requirement: "required",
+    value: (entity) => clean(entity.source),
+  },
+  {
+    term: "collection_date",
+    requirement: "required",
+    value: (entity) => customValue(entity, CUSTOM_FIELD_ALIASES.collectionDate),
+  },
+  {
+    term: "geo_loc_name",
+    requirement: "required",
+    value: (entity) => customValue(entity, CUSTOM_FIELD_ALIASES.country),
+  },
+  { term: "lat_lon", requirement: "required", value: latLon },
+  { term: "sub_species", requirement: "optional", value: (entity) => clean(entity.subspecies) },
+  { term: "serovar", requirement: "optional", value: (entity) => clean(entity.serovar) },
+  {
+    term: "host",
+    requirement: "recommended",
+    value: (entity) => customValue(entity, CUSTOM_FIELD_ALIASES.host),
+  },
+  { term: "pathotype", requirement: "optional", value: (entity) => clean(entity.pathogenicity) },
+  {
+    term: "description",
+    requirement: "optional",
+    value: (entity, record) =>
+      [
+        clean(entity.mlst_st) ? `MLST ${clean(entity.mlst_st)}` : null,
+        resistanceLabels(entity).length
+          ? `resistance: ${resistanceLabels(entity).join("; ")}`
+          : null,
+        `source publication: ${sourceReference(record)}`,
+      ]
+        .filter(Boolean)
+        .join(" | "),
+  },
+];
+
+const PROFILE_TERMS: Record<StandardProfile, TermMapping[]> = {
+  dwc: DWC_TERMS,
+  mixs: MIXS_TERMS,
+};
+
+export function getStandardProfile(profile: StandardProfile) {
+  return STANDARD_PROFILES.find((item) => item.id === profile) ?? STANDARD_PROFILES[0];
+}
+
+/**
+ * 将提取结果映射为标准术语表，同时收集必填/推荐字段缺失的校验问题。
+ */
+export function buildStandardExport(
+  records: ExtractionRecord[],
+  profile: StandardProfile,
+): StandardExportResult {
+  const terms = PROFILE_TERMS[profile];
+  const { missingValue } = getStandardProfile(profile);
+  const rows: string[][] = [];
+  const issues: ValidationIssue[] = [];
+  const missingByTerm: Record<string, number> = {};
+
+  records.forEach((record) => {
+    record.entities.forEach((entity, index) => {
+      const rowNumber = rows.length + 1;
+      const values = terms.map((mapping) => clean(mapping.value(entity, record, index)));
+      const identifier = values[0] ?? entity.id;
+
+      terms.forEach((mapping, column) => {
+        if (values[column] || mapping.requirement === "optional") return;
+        missingByTerm[mapping.term] = (missingByTerm[mapping.term] ?? 0) + 1;
+        issues.push({
+          row: rowNumber,
+          identifier,
+          fileName: record.fileName,
+          term: mapping.term,
+          requirement: mapping.requirement,
+        });
+      });
+
+      rows.push(
+        values.map((value, column) =>
+          value ?? (terms[column].requirement === "required" ? missingValue : ""),
+        ),
+      );
+    });
+  });
+
+  return {
+    profile,
+    columns: terms.map((mapping) => mapping.term),
+    rows,
+    issues,
+    missingByTerm,
+  };
+}
+
+export function getRequiredTerms(profile: StandardProfile) {
+  return PROFILE_TERMS[profile]
+    .filter((mapping) => mapping.requirement === "required")
+    .map((mapping) => mapping.term);
+}
+
+export function standardExportToTsv(result: StandardExportResult) {
+  return [result.columns, ...result.rows].map((row) => row.join("\t")).join("\n");
+}
+
+export function validationReportToTsv(result: StandardExportResult) {
+  const header = ["row", "identifier", "fileName", "term", "level"];
+  const lines = result.issues.map((issue) =>
+    [
+      String(issue.row),
+      issue.identifier,
+      issue.fileName.replace(/[\t\r\n]+/g, " "),
+      issue.term,
+      issue.requirement,
+    ].join("\t"),
+  );
+  return [header.join("\t"), ...lines].join("\n");
+}
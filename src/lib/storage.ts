@@ -1,33 +1,229 @@
+import {
+  DB_SCHEMA_VERSION,
+  isIndexedDbAvailable,
+  openDatabase,
+  requestToPromise,
+  STORE_FILES,
+  STORE_META,
+  STORE_RECORDS,
+  STORE_TEXTS,
+  transactionDone,
+} from "@/lib/db";
+import { migrateProviderSettings } from "@/lib/providers";
 import type { ExtractionRecord, StoredSettings } from "@/types/extraction";
 
 const RECORDS_KEY = "micr-ai:records";
 const SETTINGS_KEY = "micr-ai:settings";
+const LEGACY_IMPORT_KEY = "legacyLocalStorageImport";
 
-export function loadStoredRecords(): ExtractionRecord[] {
-  if (typeof window === "undefined") {
-    return [];
+interface StoredText {
+  recordId: string;
+  text: string;
+}
+
+interface StoredFile {
+  recordId: string;
+  fileName: string;
+  blob: Blob;
+}
+
+export interface StorageUsage {
+  recordCount: number;
+  usage: number | null;
+  quota: number | null;
+  schemaVersion: number;
+}
+
+function describeStorageError(error: unknown) {
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return "浏览器存储空间已满，请导出并清理部分历史记录。";
   }
+  return error instanceof Error ? error.message : "未知错误";
+}
 
+function readLegacyRecords(): ExtractionRecord[] {
   try {
     const raw = window.localStorage.getItem(RECORDS_KEY);
     if (!raw) return [];
     const parsed = JSON.parse(raw) as ExtractionRecord[];
     return Array.isArray(parsed) ? parsed : [];
   } catch (error) {
-    console.error("无法读取本地缓存的提取结果", error);
+    console.error("无法读取旧版本地缓存的提取结果", error);
     return [];
   }
 }
 
-export function persistRecords(records: ExtractionRecord[]) {
-  if (typeof window === "undefined") return;
+/**
+ * 旧版本把全部记录存放在 localStorage 的 micr-ai:records 中，
+ * 首次打开 IndexedDB 时一次性导入，成功后移除旧数据。
+ */
+async function importLegacyRecords(db: IDBDatabase) {
+  const meta = db.transaction(STORE_META, "readonly").objectStore(STORE_META);
+  const imported = await requestToPromise(meta.get(LEGACY_IMPORT_KEY));
+  if (imported) return;
+
+  const legacy = readLegacyRecords();
+  const transaction = db.transaction([STORE_RECORDS, STORE_META], "readwrite");
+  const records = transaction.objectStore(STORE_RECORDS);
+  legacy.forEach((record) => records.put(record));
+  transaction.objectStore(STORE_META).put({
+    key: LEGACY_IMPORT_KEY,
+    value: { importedAt: new Date().toISOString(), count: legacy.length },
+  });
+  await transactionDone(transaction);
+
+  window.localStorage.removeItem(RECORDS_KEY);
+}
+
+/**
+ * 读取失败时抛出错误而不是返回空列表：调用方据此不标记已加载，
+ * 避免随后的 persistRecords([]) 删除本地数据库中的全部记录。
+ */
+export async function loadStoredRecords(): Promise<ExtractionRecord[]> {
+  if (!isIndexedDbAvailable()) {
+    return [];
+  }
+
+  try {
+    const db = await openDatabase();
+    await importLegacyRecords(db);
+    const store = db
+      .transaction(STORE_RECORDS, "readonly")
+      .objectStore(STORE_RECORDS);
+    const records = await requestToPromise<ExtractionRecord[]>(store.getAll());
+    return records.sort((a, b) => b.processedAt.localeCompare(a.processedAt));
+  } catch (error) {
+    console.error("无法读取本地数据库中的提取结果", error);
+    throw new Error(
+      `无法读取本地保存的提取结果：${describeStorageError(error)}。为避免覆盖已有数据，本次不会保存新的结果，请刷新页面重试。`,
+    );
+  }
+}
+
+/**
+ * 将当前记录列表同步到 IndexedDB：写入全部记录，并删除列表中已不存在的记录及其全文和 PDF。
+ */
+export async function persistRecords(records: ExtractionRecord[]) {
+  if (!isIndexedDbAvailable()) return;
   try {
-    window.localStorage.setItem(RECORDS_KEY, JSON.stringify(records));
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [STORE_RECORDS, STORE_TEXTS, STORE_FILES],
+      "readwrite",
+    );
+    const store = transaction.objectStore(STORE_RECORDS);
+    const keep = new Set(records.map((record) => record.id));
+    const existingKeys = await requestToPromise(store.getAllKeys());
+
+    existingKeys.forEach((key) => {
+      if (keep.has(String(key))) return;
+      store.delete(key);
+      transaction.objectStore(STORE_TEXTS).delete(key);
+      transaction.objectStore(STORE_FILES).delete(key);
+    });
+    records.forEach((record) => store.put(record));
+
+    await transactionDone(transaction);
   } catch (error) {
-    console.error("无法保存提取结果到本地缓存", error);
+    console.error("无法保存提取结果到本地数据库", error);
+    throw new Error(`无法保存提取结果：${describeStorageError(error)}`);
   }
 }
 
+export async function saveRecordSource(
+  recordId: string,
+  source: { text: string; file?: File | Blob | null; fileName: string },
+) {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORE_TEXTS, STORE_FILES], "readwrite");
+    transaction
+      .objectStore(STORE_TEXTS)
+      .put({ recordId, text: source.text } satisfies StoredText);
+    if (source.file) {
+      transaction.objectStore(STORE_FILES).put({
+        recordId,
+        fileName: source.fileName,
+        blob: source.file,
+      } satisfies StoredFile);
+    }
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error("无法保存原文与 PDF 到本地数据库", error);
+    throw new Error(`无法保存原文与 PDF：${describeStorageError(error)}`);
+  }
+}
+
+export async function loadRecordText(recordId: string): Promise<string | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_TEXTS, "readonly").objectStore(STORE_TEXTS);
+    const stored = await requestToPromise<StoredText | undefined>(
+      store.get(recordId),
+    );
+    return stored?.text ?? null;
+  } catch (error) {
+    console.error("无法读取记录原文", error);
+    return null;
+  }
+}
+
+export async function loadRecordFile(recordId: string): Promise<Blob | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_FILES, "readonly").objectStore(STORE_FILES);
+    const stored = await requestToPromise<StoredFile | undefined>(
+      store.get(recordId),
+    );
+    return stored?.blob ?? null;
+  } catch (error) {
+    console.error("无法读取记录对应的 PDF", error);
+    return null;
+  }
+}
+
+export async function clearStoredRecords() {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [STORE_RECORDS, STORE_TEXTS, STORE_FILES],
+    "readwrite",
+  );
+  transaction.objectStore(STORE_RECORDS).clear();
+  transaction.objectStore(STORE_TEXTS).clear();
+  transaction.objectStore(STORE_FILES).clear();
+  await transactionDone(transaction);
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  let recordCount = 0;
+  if (isIndexedDbAvailable()) {
+    try {
+      const db = await openDatabase();
+      recordCount = await requestToPromise(
+        db.transaction(STORE_RECORDS, "readonly").objectStore(STORE_RECORDS).count(),
+      );
+    } catch (error) {
+      console.error("无法统计本地记录数量", error);
+    }
+  }
+
+  const estimate =
+    typeof navigator !== "undefined" && navigator.storage?.estimate
+      ? await navigator.storage.estimate().catch(() => null)
+      : null;
+
+  return {
+    recordCount,
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+    schemaVersion: DB_SCHEMA_VERSION,
+  };
+}
+
 export function loadSettings(): StoredSettings {
   if (typeof window === "undefined") {
     return {};
@@ -35,12 +231,12 @@ export function loadSettings(): StoredSettings {
 
   try {
     const raw = window.localStorage.getItem(SETTINGS_KEY);
-    if (!raw) return {};
+    if (!raw) return migrateProviderSettings({});
     const parsed = JSON.parse(raw) as StoredSettings;
-    return parsed ?? {};
+    return migrateProviderSettings(parsed ?? {});
   } catch (error) {
     console.error("无法读取设置", error);
-    return {};
+    return migrateProviderSettings({});
   }
 }
 
@@ -0,0 +1,142 @@
+import type {
+  ExtractedTable,
+  MicrobialEntity,
+  TableReference,
+} from "@/types/extraction";
+
+/**
+ * 表格在原文中以 Markdown 形式保存，首尾加标记，例如：
+ *
+ *   [Table T1] Table 1. Characteristics of isolates
+ *   | Strain | ST | CTX MIC |
+ *   | --- | --- | --- |
+ *   | EC01 | ST131 | >64 |
+ *   [/Table T1]
+ *
+ * 模型直接读取这段文本；记录中的表格与实体关联也都从原文解析，不需要另存 PDF 坐标。
+ */
+const TABLE_BLOCK = /\[Table (T\d+)\]([^\n]*)\n([\s\S]*?)\n\[\/Table \1\]/g;
+const PAGE_MARKER = /\[Page (\d+)\]/g;
+const SEPARATOR_ROW = /^\|(?:\s*-{3,}\s*\|)+$/;
+
+/** 表题紧跟在开始标记之后，与标记同一行 */
+export function tableStartMarker(id: string) {
+  return `[Table ${id}]`;
+}
+
+export function tableEndMarker(id: string) {
+  return `[/Table ${id}]`;
+}
+
+export function tableSeparatorRow(columnCount: number) {
+  return `|${" --- |".repeat(columnCount)}`;
+}
+
+/** 单元格中的竖线会破坏 Markdown 结构，替换为等长的斜杠以免影响位置映射。 */
+export function escapeTableCell(text: string) {
+  return text.replace(/\|/g, "/");
+}
+
+interface TableBlock {
+  table: ExtractedTable;
+  /** 每一行（含表头）在原文中的起止位置 */
+  rowSpans: { start: number; end: number }[];
+}
+
+function pageAt(text: string, offset: number) {
+  let page: number | null = null;
+  for (const match of Array.from(text.matchAll(PAGE_MARKER))) {
+    if ((match.index ?? 0) > offset) break;
+    page = Number(match[1]);
+  }
+  return page;
+}
+
+function findTableBlocks(text: string): TableBlock[] {
+  return Array.from(text.matchAll(TABLE_BLOCK)).map((match) => {
+    const [, id, caption, body] = match;
+    let offset = (match.index ?? 0) + match[0].indexOf("\n") + 1;
+    const rows: string[][] = [];
+    const rowSpans: TableBlock["rowSpans"] = [];
+
+    body.split("\n").forEach((line) => {
+      const start = offset;
+      offset += line.length + 1;
+      const trimmed = line.trim();
+      if (!trimmed.startsWith("|") || SEPARATOR_ROW.test(trimmed)) return;
+      rows.push(
+        trimmed
+          .replace(/^\|/, "")
+          .replace(/\|$/, "")
+          .split("|")
+          .map((cell) => cell.trim()),
+      );
+      rowSpans.push({ start, end: start + line.length });
+    });
+
+    return {
+      table: {
+        id,
+        page: pageAt(text, match.index ?? 0),
+        caption: caption.trim() || null,
+        rows,
+      },
+      rowSpans,
+    };
+  });
+}
+
+export function parseTables(text: string): ExtractedTable[] {
+  return findTableBlocks(text).map((block) => block.table);
+}
+
+function normalizeCell(value: string) {
+  return value.toLowerCase().replace(/[\s._-]+/g, "");
+}
+
+function locateByOffset(blocks: TableBlock[], offset: number): TableReference | null {
+  for (const { table, rowSpans } of blocks) {
+    // 第 0 行是表头，不对应具体菌株
+    const row = rowSpans.findIndex(
+      (span, index) => index > 0 && offset >= span.start && offset <= span.end,
+    );
+    if (row > 0) return { tableId: table.id, row };
+  }
+  return null;
+}
+
+function locateByStrain(blocks: TableBlock[], strain: string): TableReference | null {
+  const key = normalizeCell(strain);
+  if (!key) return null;
+  for (const { table } of blocks) {
+    const row = table.rows.findIndex(
+      (cells, index) => index > 0 && cells.some((cell) => normalizeCell(cell) === key),
+    );
+    if (row > 0) return { tableId: table.id, row };
+  }
+  return null;
+}
+
+/**
+ * 把来自表格的实体关联到所在表格与行：优先使用原文定位结果，
+ * 定位不到时再按菌株编号匹配单元格。
+ */
+export function linkEntitiesToTables(
+  entities: MicrobialEntity[],
+  text: string,
+): MicrobialEntity[] {
+  const blocks = findTableBlocks(text);
+  if (!blocks.length) return entities;
+
+  return entities.map((entity) => {
+    const start = entity.provenance?.start;
+    const tableRef =
+      (start != null ? locateByOffset(blocks, start) : null) ??
+      (entity.strain ? locateByStrain(blocks, entity.strain) : null);
+    return tableRef ? { ...entity, tableRef } : entity;
+  });
+}
+
+export function formatTableReference(ref: TableReference) {
+  return `表 ${ref.tableId} · 第 ${ref.row} 行`;
+}
@@ -0,0 +1,139 @@
+import type { TaxonRank } from "@/types/extraction";
+
+/**
+ * NCBI Taxonomy 的离线子集，覆盖临床与食品微生物学文献中最常见的属和种。
+ * 数据取自 names.dmp / nodes.dmp / merged.dmp / delnodes.dmp，扩充时请保持
+ * taxId 与 NCBI 一致，并同步更新 TAXONOMY_SNAPSHOT_VERSION。
+ */
+export const TAXONOMY_SNAPSHOT_VERSION = "2024-06";
+
+/** [taxId, 学名, 分类级别] */
+export const TAXONOMY_NODES: [number, string, TaxonRank][] = [
+  [561, "Escherichia", "genus"],
+  [562, "Escherichia coli", "species"],
+  [564, "Escherichia fergusonii", "species"],
+  [570, "Klebsiella", "genus"],
+  [573, "Klebsiella pneumoniae", "species"],
+  [571, "Klebsiella oxytoca", "species"],
+  [548, "Klebsiella aerogenes", "species"],
+  [547, "Enterobacter", "genus"],
+  [550, "Enterobacter cloacae", "species"],
+  [590, "Salmonella", "genus"],
+  [28901, "Salmonella enterica", "species"],
+  [59201, "Salmonella enterica subsp. enterica", "subspecies"],
+  [54736, "Salmonella bongori", "species"],
+  [620, "Shigella", "genus"],
+  [621, "Shigella boydii", "species"],
+  [622, "Shigella dysenteriae", "species"],
+  [623, "Shigella flexneri", "species"],
+  [624, "Shigella sonnei", "species"],
+  [544, "Citrobacter", "genus"],
+  [546, "Citrobacter freundii", "species"],
+  [613, "Serratia", "genus"],
+  [615, "Serratia marcescens", "species"],
+  [583, "Proteus", "genus"],
+  [584, "Proteus mirabilis", "species"],
+  [581, "Morganella", "genus"],
+  [582, "Morganella morganii", "species"],
+  [586, "Providencia", "genus"],
+  [588, "Providencia stuartii", "species"],
+  [629, "Yersinia", "genus"],
+  [630, "Yersinia enterocolitica", "species"],
+  [632, "Yersinia pestis", "species"],
+  [286, "Pseudomonas", "genus"],
+  [287, "Pseudomonas aeruginosa", "species"],
+  [294, "Pseudomonas fluorescens", "species"],
+  [303, "Pseudomonas putida", "species"],
+  [469, "Acinetobacter", "genus"],
+  [470, "Acinetobacter baumannii", "species"],
+  [40323, "Stenotrophomonas", "genus"],
+  [40324, "Stenotrophomonas maltophilia", "species"],
+  [32008, "Burkholderia", "genus"],
+  [292, "Burkholderia cepacia", "species"],
+  [28450, "Burkholderia pseudomallei", "species"],
+  [517, "Bordetella", "genus"],
+  [520, "Bordetella pertussis", "species"],
+  [662, "Vibrio", "genus"],
+  [666, "Vibrio cholerae", "species"],
+  [670, "Vibrio parahaemolyticus", "species"],
+  [672, "Vibrio vulnificus", "species"],
+  [482, "Neisseria", "genus"],
+  [485, "Neisseria gonorrhoeae", "species"],
+  [487, "Neisseria meningitidis", "species"],
+  [724, "Haemophilus", "genus"],
+  [727, "Haemophilus influenzae", "species"],
+  [445, "Legionella", "genus"],
+  [446, "Legionella pneumophila", "species"],
+  [194, "Campylobacter", "genus"],
+  [195, "Campylobacter coli", "species"],
+  [197, "Campylobacter jejuni", "species"],
+  [209, "Helicobacter", "genus"],
+  [210, "Helicobacter pylori", "species"],
+  [1279, "Staphylococcus", "genus"],
+  [1280, "Staphylococcus aureus", "species"],
+  [1282, "Staphylococcus epidermidis", "species"],
+  [1283, "Staphylococcus haemolyticus", "species"],
+  [1301, "Streptococcus", "genus"],
+  [1307, "Streptococcus suis", "species"],
+  [1309, "Streptococcus mutans", "species"],
+  [1311, "Streptococcus agalactiae", "species"],
+  [1313, "Streptococcus pneumoniae", "species"],
+  [1314, "Streptococcus pyogenes", "species"],
+  [1350, "Enterococcus", "genus"],
+  [1351, "Enterococcus faecalis", "species"],
+  [1352, "Enterococcus faecium", "species"],
+  [1637, "Listeria", "genus"],
+  [1639, "Listeria monocytogenes", "species"],
+  [1386, "Bacillus", "genus"],
+  [1392, "Bacillus anthracis", "species"],
+  [1396, "Bacillus cereus", "species"],
+  [1423, "Bacillus subtilis", "species"],
+  [1485, "Clostridium", "genus"],
+  [1491, "Clostridium botulinum", "species"],
+  [1502, "Clostridium perfringens", "species"],
+  [1513, "Clostridium tetani", "species"],
+  [1870884, "Clostridioides", "genus"],
+  [1496, "Clostridioides difficile", "species"],
+  [1763, "Mycobacterium", "genus"],
+  [1764, "Mycobacterium avium", "species"],
+  [1765, "Mycobacterium bovis", "species"],
+  [1769, "Mycobacterium leprae", "species"],
+  [1773, "Mycobacterium tuberculosis", "species"],
+  [1743, "Propionibacterium", "genus"],
+  [1912216, "Cutibacterium", "genus"],
+  [1747, "Cutibacterium acnes", "species"],
+  [1578, "Lactobacillus", "genus"],
+  [2759736, "Lacticaseibacillus", "genus"],
+  [47715, "Lacticaseibacillus rhamnosus", "species"],
+  [816, "Bacteroides", "genus"],
+  [817, "Bacteroides fragilis", "species"],
+  [810, "Chlamydia", "genus"],
+  [813, "Chlamydia trachomatis", "species"],
+  [157, "Treponema", "genus"],
+  [160, "Treponema pallidum", "species"],
+  [5475, "Candida", "genus"],
+  [5476, "Candida albicans", "species"],
+  [5052, "Aspergillus", "genus"],
+  [746128, "Aspergillus fumigatus", "species"],
+];
+
+/**
+ * 已更名的学名（names.dmp 中的 synonym / basionym），映射到当前有效名称的 taxId。
+ */
+export const TAXONOMY_SYNONYMS: Record<string, number> = {
+  "Enterobacter aerogenes": 548,
+  "Clostridium difficile": 1496,
+  "Peptoclostridium difficile": 1496,
+  "Propionibacterium acnes": 1747,
+  "Lactobacillus rhamnosus": 47715,
+  "Pseudomonas maltophilia": 40324,
+  "Xanthomonas maltophilia": 40324,
+  "Pseudomonas cepacia": 292,
+  "Pseudomonas pseudomallei": 28450,
+};
+
+/** merged.dmp：旧 taxId -> 合并后的 taxId */
+export const MERGED_TAX_IDS: Record<number, number> = {};
+
+/** delnodes.dmp：已删除的 taxId */
+export const DELETED_TAX_IDS: number[] = [];
@@ -0,0 +1,195 @@
+import {
+  DELETED_TAX_IDS,
+  MERGED_TAX_IDS,
+  TAXONOMY_NODES,
+  TAXONOMY_SYNONYMS,
+} from "@/lib/taxonomy-data";
+import type {
+  MicrobialEntity,
+  TaxonRank,
+  TaxonomyStatus,
+} from "@/types/extraction";
+
+interface TaxonNode {
+  taxId: number;
+  name: string;
+  rank: TaxonRank;
+}
+
+const NODES_BY_ID = new Map<number, TaxonNode>();
+const NODES_BY_NAME = new Map<string, TaxonNode>();
+TAXONOMY_NODES.forEach(([taxId, name, rank]) => {
+  const node = { taxId, name, rank };
+  NODES_BY_ID.set(taxId, node);
+  NODES_BY_NAME.set(name.toLowerCase(), node);
+});
+
+const SYNONYMS = new Map(
+  Object.entries(TAXONOMY_SYNONYMS).map(([name, taxId]) => [name.toLowerCase(), taxId]),
+);
+const DELETED = new Set(DELETED_TAX_IDS);
+
+export const TAXONOMY_STATUS_LABELS: Record<TaxonomyStatus, string> = {
+  verified: "已核对",
+  corrected: "ID 已更正",
+  filled: "ID 已补全",
+  renamed: "已更新为现行学名",
+  mismatch: "名称与 ID 不符",
+  not_found: "不在本地分类库中",
+};
+
+function parseTaxId(value: string | null | undefined) {
+  const digits = value?.trim().replace(/^(ncbi:?)?\s*(txid|taxid)?[:\s]*/i, "");
+  return digits && /^\d+$/.test(digits) ? Number(digits) : null;
+}
+
+/** 解析缩写属名（如 "E." + "coli"），仅在本地分类库中有唯一匹配时展开。 */
+function expandAbbreviatedGenus(initial: string, epithet: string) {
+  const matches = TAXONOMY_NODES.filter(
+    ([, name, rank]) =>
+      rank === "species" &&
+      name.startsWith(initial) &&
+      name.toLowerCase().endsWith(` ${epithet.toLowerCase()}`),
+  );
+  return matches.length === 1 ? matches[0][1].split(" ")[0] : null;
+}
+
+function entityName(entity: MicrobialEntity) {
+  let genus = entity.genus?.trim() || null;
+  let epithet = entity.species?.trim() || null;
+
+  // 模型有时把完整学名放在 species 字段
+  if (epithet?.includes(" ")) {
+    const [first, ...rest] = epithet.split(/\s+/);
+    const sameGenus = genus && first.replace(/\.$/, "") === genus.replace(/\.$/, "");
+    if (!genus || sameGenus || first.endsWith(".")) {
+      genus ??= first;
+      epithet = rest.join(" ");
+    }
+  }
+
+  if (genus && epithet && /^[A-Z]\.?$/.test(genus)) {
+    genus = expandAbbreviatedGenus(genus.charAt(0), epithet) ?? genus;
+  }
+
+  let subspecies = entity.subspecies?.trim() || null;
+  if (epithet?.includes(" subsp. ")) {
+    const [species, inlineSubspecies] = epithet.split(" subsp. ");
+    epithet = species;
+    subspecies ??= inlineSubspecies;
+  }
+  return { genus, epithet, subspecies };
+}
+
+function lookupName(genus: string | null, epithet: string | null, subspecies: string | null) {
+  if (!genus) return null;
+  const binomial = epithet ? `${genus} ${epithet}` : genus;
+  const candidates = subspecies
+    ? [`${binomial} subsp. ${subspecies}`, binomial]
+    : [binomial];
+
+  for (const candidate of candidates) {
+    const key = candidate.toLowerCase();
+    const node = NODES_BY_NAME.get(key);
+    if (node) return { node, renamedFrom: null };
+    const synonymId = SYNONYMS.get(key);
+    const synonymNode = synonymId != null ? NODES_BY_ID.get(synonymId) : undefined;
+    if (synonymNode) return { node: synonymNode, renamedFrom: candidate };
+  }
+  return null;
+}
+
+function namePartsFromNode(node: TaxonNode) {
+  const [genus, epithet] = node.name.split(" ");
+  const subspecies = node.rank === "subspecies" ? node.name.split(" subsp. ")[1] : undefined;
+  return { genus, species: epithet ?? null, subspecies };
+}
+
+function resolveTaxId(taxId: number | null) {
+  if (taxId == null) return { taxId: null, merged: false, deleted: false };
+  const mergedInto = MERGED_TAX_IDS[taxId];
+  if (mergedInto != null) return { taxId: mergedInto, merged: true, deleted: false };
+  return { taxId, merged: false, deleted: DELETED.has(taxId) };
+}
+
+/**
+ * 对照本地 NCBI 分类快照核对实体的学名与 taxonomy_id：
+ * 名称可识别时以名称为准补全/更正 ID，旧学名更新为现行名称；
+ * 只有 ID 时反查名称。
+ */
+export function validateEntityTaxonomy(entity: MicrobialEntity): MicrobialEntity {
+  const { genus, epithet, subspecies } = entityName(entity);
+  const originalName = [entity.genus, entity.species].filter(Boolean).join(" ") || null;
+  const originalTaxId = entity.taxonomy_id?.trim() || null;
+  const inputId = resolveTaxId(parseTaxId(originalTaxId));
+  const nameMatch = lookupName(genus, epithet, subspecies);
+
+  const withResult = (
+    status: TaxonomyStatus,
+    node: TaxonNode | null,
+    patch: Partial<MicrobialEntity> = {},
+  ): MicrobialEntity => ({
+    ...entity,
+    ...patch,
+    taxonomy_id: node ? String(node.taxId) : patch.taxonomy_id ?? entity.taxonomy_id ?? null,
+    taxonomy: {
+      status,
+      taxId: node ? String(node.taxId) : null,
+      matchedName: node?.name ?? null,
+      rank: node?.rank ?? null,
+      originalName: status === "renamed" ? originalName : undefined,
+      originalTaxId:
+        originalTaxId && (!node || parseTaxId(originalTaxId) !== node.taxId)
+          ? originalTaxId
+          : undefined,
+    },
+  });
+
+  if (nameMatch) {
+    const { node, renamedFrom } = nameMatch;
+    const names = namePartsFromNode(node);
+    const patch: Partial<MicrobialEntity> = {
+      genus: names.genus,
+      species: names.species ?? entity.species ?? null,
+    };
+    if (renamedFrom) return withResult("renamed", node, patch);
+    if (inputId.taxId == null) {
+      return withResult(originalTaxId ? "corrected" : "filled", node, patch);
+    }
+    if (inputId.taxId === node.taxId && !inputId.merged) {
+      return withResult("verified", node, patch);
+    }
+    return withResult("corrected", node, patch);
+  }
+
+  const idNode = inputId.taxId != null ? NODES_BY_ID.get(inputId.taxId) ?? null : null;
+
+  if (!genus) {
+    if (idNode) {
+      const names = namePartsFromNode(idNode);
+      return withResult("filled", idNode, {
+        genus: names.genus,
+        species: names.species,
+        subspecies: entity.subspecies ?? names.subspecies ?? null,
+      });
+    }
+    return withResult("not_found", null);
+  }
+
+  if (inputId.deleted) {
+    return withResult("corrected", null, { taxonomy_id: null });
+  }
+
+  // 名称不在快照中：ID 指向其他属时判定为不符，否则无法核对
+  if (idNode && !idNode.name.toLowerCase().startsWith(genus.toLowerCase())) {
+    return withResult("mismatch", null);
+  }
+  if (idNode && inputId.merged) {
+    return withResult("corrected", idNode);
+  }
+  return withResult("not_found", null);
+}
+
+export function validateTaxonomy(entities: MicrobialEntity[]): MicrobialEntity[] {
+  return entities.map((entity) => validateEntityTaxonomy(entity));
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { splitTextIntoChunks } from "@/lib/chunking";
+import {
+  addUsage,
+  DEFAULT_MODEL_PRICES,
+  emptyUsage,
+  estimateCost,
+  estimateExtractionUsage,
+  estimateRecordCost,
+  findModelPrice,
+  formatCost,
+} from "@/lib/usage";
+import type { ExtractionRecord } from "@/types/extraction";
+
+const million = { promptTokens: 1_000_000, completionTokens: 1_000_000 };
+
+function record(extra: Partial<ExtractionRecord>): ExtractionRecord {
+  return {
+    id: "r1",
+    fileName: "paper.pdf",
+    fileSize: 1,
+    processedAt: "2024-01-01T00:00:00.000Z",
+    durationMs: 0,
+    summary: {
+      organismCount: 0,
+      uniqueSpecies: 0,
+      resistanceCount: 0,
+      sourceCount: 0,
+      pathogenicityCount: 0,
+      keyFindings: [],
+    },
+    entities: [],
+    rawTextPreview: "",
+    ...extra,
+  };
+}
+
+describe("model prices", () => {
+  it("matches exactly first, then without the vendor prefix", () => {
+    expect(findModelPrice("DeepSeek/DeepSeek-Chat ", DEFAULT_MODEL_PRICES)?.model).toBe(
+      "deepseek/deepseek-chat",
+    );
+    expect(findModelPrice("gpt-4o-mini", DEFAULT_MODEL_PRICES)?.model).toBe(
+      "openai/gpt-4o-mini",
+    );
+    expect(findModelPrice("qwen2.5:14b", DEFAULT_MODEL_PRICES)).toBeNull();
+    expect(findModelPrice(null, DEFAULT_MODEL_PRICES)).toBeNull();
+  });
+
+  it("prices prompt and completion tokens separately", () => {
+    expect(estimateCost(million, "claude-3-5-sonnet-latest", DEFAULT_MODEL_PRICES)).toBe(18);
+    expect(estimateCost(million, "unknown", DEFAULT_MODEL_PRICES)).toBeNull();
+    expect(formatCost(null)).toBe("未定价");
+    expect(formatCost(0.0012)).toBe("$0.0012");
+    expect(formatCost(1.5)).toBe("$1.50");
+  });
+});
+
+describe("estimateRecordCost", () => {
+  const run = (label: string, model: string) => ({
+    label,
+    model,
+    entityCount: 0,
+    usage: { ...million, requests: 1, model: null },
+  });
+  const ensemble = (runs: ReturnType<typeof run>[]) =>
+    record({ ensemble: { runs, voteThreshold: 0.6, rejected: [] } });
+
+  it("adds up ensemble runs and gives up when one run is unpriced", () => {
+    const runs = [run("a", "openai/gpt-4o-mini"), run("b", "claude-3-5-sonnet-latest")];
+
+    expect(estimateRecordCost(ensemble(runs), DEFAULT_MODEL_PRICES)).toBeCloseTo(18.75);
+    expect(
+      estimateRecordCost(ensemble([...runs, run("c", "local")]), DEFAULT_MODEL_PRICES),
+    ).toBeNull();
+  });
+
+  it("falls back to the record usage", () => {
+    const usage = { ...million, requests: 2, model: "deepseek/deepseek-chat" };
+
+    expect(estimateRecordCost(record({ usage }), DEFAULT_MODEL_PRICES)).toBeCloseTo(1.37);
+    expect(estimateRecordCost(record({}), DEFAULT_MODEL_PRICES)).toBeNull();
+  });
+});
+
+describe("usage accounting", () => {
+  it("counts one request per reported usage", () => {
+    const total = addUsage(addUsage(emptyUsage("m"), million), {
+      promptTokens: 5,
+      completionTokens: 1,
+    });
+
+    expect(total).toEqual({
+      promptTokens: 1_000_005,
+      completionTokens: 1_000_001,
+      requests: 2,
+      model: "m",
+    });
+  });
+
+  it("estimates prompt overhead and completion per chunk", () => {
+    const text = "[Page 1]\nKlebsiella pneumoniae ST258 was isolated from blood.";
+    const chunks = splitTextIntoChunks(text, { maxTokens: 2000 });
+    const estimate = estimateExtractionUsage(text, 2000);
+
+    expect(estimate.completionTokens).toBe(chunks.length * 1000);
+    expect(estimate.promptTokens).toBe(
+      chunks.reduce((acc, chunk) => acc + chunk.estimatedTokens + 600, 0),
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { DEFAULT_CHUNK_TOKEN_BUDGET, splitTextIntoChunks } from "@/lib/chunking";
+import type {
+  ExtractionRecord,
+  ExtractionUsage,
+  ModelPrice,
+  TokenUsage,
+} from "@/types/extraction";
+
+/**
+ * 默认价格表（美元 / 百万 tokens），仅供估算，请以服务商当前报价为准并在设置中调整。
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: "deepseek/deepseek-chat", promptPerMillion: 0.27, completionPerMillion: 1.1 },
+  { model: "openai/gpt-4o-mini", promptPerMillion: 0.15, completionPerMillion: 0.6 },
+  { model: "claude-3-5-sonnet-latest", promptPerMillion: 3, completionPerMillion: 15 },
+];
+
+/** 系统提示词与字段说明大约占用的 tokens */
+const PROMPT_OVERHEAD_TOKENS = 600;
+/** 预算估算时假设每段返回的 tokens 数 */
+const ESTIMATED_COMPLETION_TOKENS = 1000;
+
+export function emptyUsage(model: string | null = null): ExtractionUsage {
+  return { promptTokens: 0, completionTokens: 0, requests: 0, model };
+}
+
+export function addUsage(total: ExtractionUsage, usage: TokenUsage): ExtractionUsage {
+  return {
+    ...total,
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    requests: total.requests + 1,
+  };
+}
+
+export function totalTokens(usage: TokenUsage) {
+  return usage.promptTokens + usage.completionTokens;
+}
+
+function normalizeModel(model: string) {
+  return model.trim().toLowerCase();
+}
+
+/** 先精确匹配，再忽略 OpenRouter 风格的厂商前缀（如 openai/gpt-4o-mini 与 gpt-4o-mini）。 */
+export function findModelPrice(model: string | null | undefined, prices: ModelPrice[]) {
+  if (!model) return null;
+  const key = normalizeModel(model);
+  const bare = (value: string) => value.slice(value.lastIndexOf("/") + 1);
+  return (
+    prices.find((price) => normalizeModel(price.model) === key) ??
+    prices.find((price) => bare(normalizeModel(price.model)) === bare(key)) ??
+    null
+  );
+}
+
+export function estimateCost(
+  usage: TokenUsage,
+  model: string | null | undefined,
+  prices: ModelPrice[],
+) {
+  const price = findModelPrice(model, prices);
+  if (!price) return null;
+  return (
+    (usage.promptTokens * price.promptPerMillion +
+      usage.completionTokens * price.completionPerMillion) /
+    1_000_000
+  );
+}
+
+/** 集成提取的各次运行可能使用不同模型，按运行分别估算后相加，任一运行未定价时返回 null */
+export function estimateRecordCost(record: ExtractionRecord, prices: ModelPrice[]) {
+  const runs = record.ensemble?.runs;
+  if (runs?.length) {
+    const costs = runs.map((run) =>
+      run.usage ? estimateCost(run.usage, run.model, prices) : 0,
+    );
+    return costs.some((cost) => cost == null)
+      ? null
+      : costs.reduce<number>((acc, cost) => acc + (cost ?? 0), 0);
+  }
+  return record.usage ? estimateCost(record.usage, record.usage.model, prices) : null;
+}
+
+/** 按分块结果粗略估算一次提取的 token 消耗，用于预算判断。 */
+export function estimateExtractionUsage(
+  text: string,
+  maxChunkTokens = DEFAULT_CHUNK_TOKEN_BUDGET,
+): TokenUsage {
+  const chunks = splitTextIntoChunks(text, { maxTokens: maxChunkTokens });
+  return {
+    promptTokens: chunks.reduce(
+      (acc, chunk) => acc + chunk.estimatedTokens + PROMPT_OVERHEAD_TOKENS,
+      0,
+    ),
+    completionTokens: chunks.length * ESTIMATED_COMPLETION_TOKENS,
+  };
+}
+
+export function formatCost(cost: number | null) {
+  if (cost == null) return "未定价";
+  return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+export function formatTokens(count: number) {
+  return count.toLocaleString("en-US");
+}
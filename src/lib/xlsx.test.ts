@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { createWorkbook } from "@/lib/xlsx";
+
+/** 逐位计算的 CRC-32，与实现中的查表法相互印证 */
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  data.forEach((byte) => {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** 读取不压缩的 zip：依次解析本地文件头，校验 CRC 后返回路径与文本内容 */
+async function readZip(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+    const data = bytes.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    expect(crc32(data)).toBe(crc);
+    files.set(name, new TextDecoder().decode(data));
+    offset += 30 + nameLength + size;
+  }
+  expect(view.getUint32(bytes.length - 22, true)).toBe(0x06054b50);
+  expect(view.getUint16(bytes.length - 12, true)).toBe(files.size);
+  return files;
+}
+
+describe("createWorkbook", () => {
+  it("packages one worksheet per sheet with valid checksums", async () => {
+    const files = await readZip(
+      createWorkbook([
+        { name: "实体", rows: [["genus"], ["Klebsiella"]], header: true },
+        { name: "Summary", rows: [] },
+      ]),
+    );
+
+    expect(Array.from(files.keys())).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+    expect(files.get("xl/workbook.xml")).toContain('<sheet name="实体" sheetId="1" r:id="rId1"/>');
+    expect(files.get("xl/worksheets/sheet1.xml")).toContain('state="frozen"');
+    expect(files.get("xl/worksheets/sheet2.xml")).not.toContain("<pane");
+  });
+
+  it("writes typed cells, skips empty ones and escapes text", async () => {
+    const row = Array.from({ length: 28 }, () => null as string | number | boolean | null);
+    row[0] = 3.5;
+    row[1] = true;
+    row[2] = "";
+    row[3] = '<a & "b">\u0001';
+    row[27] = "last";
+    const files = await readZip(createWorkbook([{ name: "Data", rows: [row] }]));
+    const sheet = files.get("xl/worksheets/sheet1.xml")!;
+
+    expect(sheet).toContain('<c r="A1"><v>3.5</v></c>');
+    expect(sheet).toContain('<c r="B1" t="b"><v>1</v></c>');
+    expect(sheet).not.toContain('r="C1"');
+    expect(sheet).toContain("&lt;a &amp; &quot;b&quot;&gt;</t>");
+    expect(sheet).toContain('<c r="AB1" t="inlineStr">');
+  });
+
+  it("sanitizes and de-duplicates sheet names within 31 characters", async () => {
+    const long = "A".repeat(40);
+    const files = await readZip(
+      createWorkbook([
+        { name: "a/b:c", rows: [] },
+        { name: "A_B_C", rows: [] },
+        { name: long, rows: [] },
+        { name: long, rows: [] },
+        { name: "  ", rows: [] },
+      ]),
+    );
+    const names = Array.from(
+      files.get("xl/workbook.xml")!.matchAll(/<sheet name="([^"]+)"/g),
+      (match) => match[1],
+    );
+
+    expect(names).toEqual([
+      "a_b_c",
+      "A_B_C (2)",
+      "A".repeat(31),
+      `${"A".repeat(27)} (2)`,
+      "Sheet5",
+    ]);
+  });
+});
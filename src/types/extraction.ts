@@ -1,10 +1,101 @@
 export type ExtractionPhase =
   | "ready"
+  | "queued"
+  | "paused"
   | "parsing"
   | "extracting"
   | "complete"
   | "error";
 
+export type ExtractionMode = "llm" | "rules" | "hybrid";
+
+export type ProvenanceStatus =
+  | "verified"
+  | "approximate"
+  | "unverified"
+  | "no_context";
+
+export interface EntityProvenance {
+  status: ProvenanceStatus;
+  page: number | null;
+  /** 在 extractTextFromPdf 原文中的起止偏移（含 [Page N] 标记） */
+  start: number | null;
+  end: number | null;
+}
+
+export type TaxonRank = "genus" | "species" | "subspecies";
+
+export type TaxonomyStatus =
+  | "verified"
+  | "corrected"
+  | "filled"
+  | "renamed"
+  | "mismatch"
+  | "not_found";
+
+export interface TaxonomyValidation {
+  status: TaxonomyStatus;
+  /** 校验后的 NCBI taxId */
+  taxId: string | null;
+  matchedName: string | null;
+  rank: TaxonRank | null;
+  /** 被更正或更名前的原始值 */
+  originalName?: string | null;
+  originalTaxId?: string | null;
+}
+
+export type ResistanceKind = "gene" | "mutation" | "phenotype";
+
+export type SusceptibilityCall = "S" | "I" | "R";
+
+export interface MicMeasurement {
+  value: number;
+  unit: string;
+  qualifier?: "<" | "<=" | "=" | ">=" | ">" | null;
+}
+
+export interface ResistanceEntry {
+  kind: ResistanceKind;
+  /** 耐药基因或突变，如 blaCTX-M-15、gyrA S83L */
+  determinant: string | null;
+  /** 按内置词典归一化后的抗生素名称 */
+  antibiotic: string | null;
+  drugClass: string | null;
+  call: SusceptibilityCall | null;
+  mic: MicMeasurement | null;
+  /** 原文中的描述 */
+  text: string;
+}
+
+/** 集成提取中一个字段的投票结果 */
+export interface EnsembleFieldVote {
+  key: string;
+  /** 各运行给出的取值与票数，空值不计票；accepted 表示达到阈值而保留 */
+  candidates: { value: string; votes: number; accepted: boolean }[];
+}
+
+export interface EnsembleVote {
+  /** 识别到该实体的运行次数 */
+  support: number;
+  runs: number;
+  /** 各运行之间有分歧或票数不足的字段，供人工复核 */
+  disagreements: EnsembleFieldVote[];
+}
+
+export interface EnsembleRun {
+  label: string;
+  model: string | null;
+  entityCount: number;
+  usage?: ExtractionUsage;
+}
+
+export interface EnsembleSummary {
+  runs: EnsembleRun[];
+  voteThreshold: number;
+  /** 支持的运行次数未达到阈值的实体，不计入结果，可在复核时加入 */
+  rejected: MicrobialEntity[];
+}
+
 export interface MicrobialEntity {
   id: string;
   genus?: string | null;
@@ -16,20 +107,117 @@ export interface MicrobialEntity {
   taxonomy_id?: string | null;
   source?: string | null;
   resistance?: string[];
+  /** 结构化的耐药信息；旧记录可能没有，此时由 resistance 文本解析 */
+  resistanceEntries?: ResistanceEntry[];
   pathogenicity?: string | null;
   context?: string | null;
   confidence?: number | null;
+  provenance?: EntityProvenance | null;
+  taxonomy?: TaxonomyValidation | null;
+  /** 人工核实标记 */
+  verified?: boolean;
+  /** 模板中自定义字段的值，按 FieldDefinition.key 存放 */
+  customFields?: Record<string, CustomFieldValue>;
+  /** 来自表格的实体所在的表格与行 */
+  tableRef?: TableReference | null;
+  /** 集成提取的投票结果，confidence 由票数一致率得出 */
+  ensemble?: EnsembleVote | null;
+}
+
+/** 从 PDF 文本项坐标还原的表格，rows[0] 为表头 */
+export interface ExtractedTable {
+  /** 文献内编号，如 T1 */
+  id: string;
+  page: number | null;
+  caption: string | null;
+  rows: string[][];
+}
+
+export interface TableReference {
+  tableId: string;
+  /** ExtractedTable.rows 的下标，从 1 开始（0 为表头） */
+  row: number;
+}
+
+export type AuditAction = "edit" | "add" | "delete" | "merge" | "verify" | "unverify";
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  /** 操作人，取自设置中的“核对人” */
+  actor: string;
+  at: string;
+  entityId: string;
+  field?: string;
+  oldValue: unknown;
+  newValue: unknown;
 }
 
 export interface ExtractionSummary {
   organismCount: number;
   uniqueSpecies: number;
   resistanceCount: number;
+  resistanceGeneCount?: number;
+  resistanceMutationCount?: number;
+  resistancePhenotypeCount?: number;
   sourceCount: number;
   pathogenicityCount: number;
+  unverifiedCount?: number;
+  verifiedCount?: number;
   keyFindings: string[];
 }
 
+export type FieldType = "string" | "number" | "integer" | "boolean" | "date";
+
+export type CustomFieldScalar = string | number | boolean;
+
+export type CustomFieldValue = CustomFieldScalar | CustomFieldScalar[] | null;
+
+/** 用户自定义的提取字段，key 同时用作 JSON 字段名与导出列名 */
+export interface FieldDefinition {
+  key: string;
+  label: string;
+  type: FieldType;
+  description: string;
+  array: boolean;
+}
+
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  fields: FieldDefinition[];
+  /** 附加到提示词末尾的说明 */
+  instructions?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ExtractionUsage extends TokenUsage {
+  /** 成功返回的模型请求次数 */
+  requests: number;
+  model: string | null;
+}
+
+/** 每百万 tokens 的美元价格 */
+export interface ModelPrice {
+  model: string;
+  promptPerMillion: number;
+  completionPerMillion: number;
+}
+
+/** 文献的书目信息，来自 PDF 文档信息、XMP 元数据与首页文本，均可能缺失 */
+export interface BibliographicMetadata {
+  title: string | null;
+  authors: string[];
+  year: number | null;
+  journal: string | null;
+  /** 小写、不带 https://doi.org/ 前缀 */
+  doi: string | null;
+}
+
 export interface ExtractionRecord {
   id: string;
   fileName: string;
@@ -39,6 +227,22 @@ export interface ExtractionRecord {
   summary: ExtractionSummary;
   entities: MicrobialEntity[];
   rawTextPreview: string;
+  /** 全文保存在 IndexedDB 中，这里只记录长度 */
+  rawTextLength?: number;
+  chunkCount?: number;
+  extractionMode?: ExtractionMode;
+  usage?: ExtractionUsage;
+  templateName?: string;
+  /** 提取时使用的自定义字段，决定表格与导出的附加列 */
+  fieldDefinitions?: FieldDefinition[];
+  tables?: ExtractedTable[];
+  auditLog?: AuditEntry[];
+  ensemble?: EnsembleSummary;
+  /** 直接使用缓存结果、没有调用模型的分块数（集成提取为各次运行之和） */
+  cacheHits?: number;
+  bibliography?: BibliographicMetadata;
+  /** 原始 PDF 的 SHA-256，用于识别重复上传 */
+  contentHash?: string;
 }
 
 export interface UploadDocument {
@@ -49,11 +253,73 @@ export interface UploadDocument {
   addedAt: number;
   status: ExtractionPhase;
   progress: number;
+  chunkProgress?: {
+    completed: number;
+    total: number;
+  };
+  /** 遇到限流或服务端错误时的等待重试信息 */
+  retry?: {
+    attempt: number;
+    maxRetries: number;
+    resumeAt: number;
+  };
   error?: string;
   record?: ExtractionRecord;
+  contentHash?: string;
+  /** 与已有记录或队列中其他文献重复时不会处理，除非用户选择仍然提取 */
+  duplicate?: DuplicateMatch;
+  allowDuplicate?: boolean;
+  /** 忽略已缓存的模型结果，重新调用模型 */
+  refreshCache?: boolean;
+}
+
+export interface DuplicateMatch {
+  reason: "hash" | "doi";
+  /** 重复的已有记录；与队列中的其他文献重复时为 null */
+  recordId: string | null;
+  fileName: string;
+  doi?: string;
+}
+
+export type ProviderKind = "openrouter" | "openai-compatible" | "anthropic";
+
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  kind: ProviderKind;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
 }
 
 export interface StoredSettings {
+  /** @deprecated 旧版单一 OpenRouter 配置，加载时会迁移到 providers */
   apiKey?: string;
+  /** @deprecated 同上 */
   preferredModel?: string;
+  providers?: ProviderProfile[];
+  activeProviderId?: string;
+  extractionMode?: ExtractionMode;
+  chunkTokenBudget?: number;
+  /** 解析 PDF 后截去参考文献部分 */
+  stripReferences?: boolean;
+  /** 同时处理的文献数 */
+  concurrency?: number;
+  maxRetries?: number;
+  modelPrices?: ModelPrice[];
+  templates?: ExtractionTemplate[];
+  activeTemplateId?: string;
+  /** 单批次费用上限（美元），预计超出时暂停队列 */
+  budgetLimit?: number;
+  curatorName?: string;
+  ensemble?: EnsembleSettings;
+}
+
+export interface EnsembleSettings {
+  enabled: boolean;
+  /** 参与投票的模型服务配置，少于两个时对当前模型重复采样 */
+  providerIds: string[];
+  samples: number;
+  /** 字段或实体保留所需的最低得票比例（0-1） */
+  voteThreshold: number;
 }